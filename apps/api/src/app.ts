@@ -5,13 +5,20 @@ import websocket from '@fastify/websocket';
 import { config } from './config';
 import { prisma } from '@flagkit/database';
 import jwtPlugin from './plugins/jwt.plugin';
+import schedulerPlugin from './plugins/scheduler.plugin';
+import streamPlugin from './plugins/stream.plugin';
+import rulesetCachePlugin from './plugins/ruleset-cache.plugin';
 import authRoutes from './routes/auth.routes';
 import organizationRoutes from './routes/organization.routes';
 import projectRoutes from './routes/project.routes';
 import environmentRoutes from './routes/environment.routes';
 import flagRoutes from './routes/flag.routes';
+import segmentRoutes from './routes/segment.routes';
 import sdkRoutes from './routes/sdk.routes';
+import streamRoutes from './routes/stream.routes';
 import auditRoutes from './routes/audit.routes';
+import scheduleRoutes from './routes/schedule.routes';
+import rolloutRoutes from './routes/rollout.routes';
 
 export const createServer = async (): Promise<FastifyInstance> => {
   const server = Fastify({
@@ -34,6 +41,8 @@ export const createServer = async (): Promise<FastifyInstance> => {
   await server.register(cors, {
     origin: config.cors.origin,
     credentials: true,
+    // Browser SDKs read the ETag of flag responses to poll conditionally
+    exposedHeaders: ['ETag'],
   });
 
   await server.register(multipart);
@@ -42,6 +51,15 @@ export const createServer = async (): Promise<FastifyInstance> => {
   // Register JWT plugin
   await server.register(jwtPlugin);
 
+  // Apply scheduled flag changes in the background
+  await server.register(schedulerPlugin);
+
+  // Heartbeats for SDK flag streams
+  await server.register(streamPlugin);
+
+  // Rulesets served to SDKs, cached in memory or Redis
+  await server.register(rulesetCachePlugin);
+
   // Health check route
   server.get('/health', async () => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -85,6 +103,7 @@ export const createServer = async (): Promise<FastifyInstance> => {
   // Register routes
   // SDK routes (no JWT auth required - uses SDK keys)
   await server.register(sdkRoutes, { prefix: '/' });
+  await server.register(streamRoutes, { prefix: '/' });
 
   // API routes (JWT auth required)
   await server.register(authRoutes, { prefix: '/api/v1/auth' });
@@ -92,6 +111,9 @@ export const createServer = async (): Promise<FastifyInstance> => {
   await server.register(projectRoutes, { prefix: '/api/v1' });
   await server.register(environmentRoutes, { prefix: '/api/v1' });
   await server.register(flagRoutes, { prefix: '/api/v1' });
+  await server.register(segmentRoutes, { prefix: '/api/v1' });
+  await server.register(scheduleRoutes, { prefix: '/api/v1' });
+  await server.register(rolloutRoutes, { prefix: '/api/v1' });
   await server.register(auditRoutes, { prefix: '/' });
 
   return server;
@@ -8,6 +8,12 @@ const envSchema = z.object({
   REDIS_URL: z.string().url().optional(),
   JWT_SECRET: z.string().optional(),
   CORS_ORIGIN: z.string().default('http://localhost:3000'),
+  SCHEDULER_ENABLED: z.enum(['true', 'false']).optional(),
+  SCHEDULER_INTERVAL_MS: z.string().default('15000'),
+  STREAM_HEARTBEAT_INTERVAL_MS: z.string().default('30000'),
+  STREAM_MAX_CONNECTIONS_PER_KEY: z.string().default('100'),
+  RULESET_CACHE_ENABLED: z.enum(['true', 'false']).optional(),
+  RULESET_CACHE_TTL_MS: z.string().default('300000'),
 });
 
 const env = envSchema.parse(process.env);
@@ -28,4 +34,22 @@ export const config = {
   cors: {
     origin: env.CORS_ORIGIN,
   },
+  scheduler: {
+    // Tests run scheduled changes explicitly instead of on a timer
+    enabled: env.SCHEDULER_ENABLED ? env.SCHEDULER_ENABLED === 'true' : env.NODE_ENV !== 'test',
+    intervalMs: parseInt(env.SCHEDULER_INTERVAL_MS, 10),
+  },
+  stream: {
+    // Streams that miss a heartbeat are dropped at the next one
+    heartbeatIntervalMs: parseInt(env.STREAM_HEARTBEAT_INTERVAL_MS, 10),
+    maxConnectionsPerKey: parseInt(env.STREAM_MAX_CONNECTIONS_PER_KEY, 10),
+  },
+  rulesetCache: {
+    // Tests create flags directly in the database, which doesn't invalidate cached rulesets
+    enabled: env.RULESET_CACHE_ENABLED
+      ? env.RULESET_CACHE_ENABLED === 'true'
+      : env.NODE_ENV !== 'test',
+    // Upper bound on how long a ruleset is served if an invalidation is lost
+    ttlMs: parseInt(env.RULESET_CACHE_TTL_MS, 10),
+  },
 } as const;
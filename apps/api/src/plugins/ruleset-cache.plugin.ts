@@ -0,0 +1,11 @@
+import { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import { rulesetCache } from '@/services/ruleset-cache.service';
+
+async function rulesetCachePlugin(server: FastifyInstance) {
+  server.addHook('onClose', async () => {
+    await rulesetCache?.close();
+  });
+}
+
+export default fp(rulesetCachePlugin);
@@ -0,0 +1,50 @@
+import { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import { config } from '@/config';
+import { scheduleService } from '@/services/schedule.service';
+import { rolloutService } from '@/services/rollout.service';
+
+async function schedulerPlugin(server: FastifyInstance) {
+  if (!config.scheduler.enabled) {
+    return;
+  }
+
+  let timer: NodeJS.Timeout | null = null;
+  let isRunning = false;
+
+  const tick = async () => {
+    // Skip the tick if the previous run is still applying changes
+    if (isRunning) return;
+    isRunning = true;
+
+    try {
+      const applied = await scheduleService.runDueChanges();
+      if (applied > 0) {
+        server.log.info({ applied }, 'Applied scheduled flag changes');
+      }
+
+      const advanced = await rolloutService.advanceRollouts();
+      if (advanced > 0) {
+        server.log.info({ advanced }, 'Advanced progressive rollouts');
+      }
+    } catch (err) {
+      server.log.error(err as Error, 'Failed to run scheduled flag changes');
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  server.addHook('onReady', async () => {
+    timer = setInterval(tick, config.scheduler.intervalMs);
+    // Pick up changes that fell due while the API was down
+    void tick();
+  });
+
+  server.addHook('onClose', async () => {
+    if (timer) {
+      clearInterval(timer);
+    }
+  });
+}
+
+export default fp(schedulerPlugin);
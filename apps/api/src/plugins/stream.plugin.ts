@@ -0,0 +1,17 @@
+import { FastifyInstance } from 'fastify';
+import fp from 'fastify-plugin';
+import { config } from '@/config';
+import { streamService } from '@/services/stream.service';
+
+async function streamPlugin(server: FastifyInstance) {
+  server.addHook('onReady', async () => {
+    streamService.startHeartbeat(config.stream.heartbeatIntervalMs);
+  });
+
+  server.addHook('onClose', async () => {
+    streamService.stopHeartbeat();
+    streamService.closeAll();
+  });
+}
+
+export default fp(streamPlugin);
@@ -345,6 +345,24 @@ describe('Environment Routes', () => {
       expect(body.data.environment.key).toBe('updated-key');
     });
 
+    it('should change the ETag of SDK flag responses when renamed', async () => {
+      const { token, environment } = await createTestEnvironment(server);
+      const getFlags = () =>
+        server.inject({ method: 'GET', url: `/sdk/v1/client/${environment.clientSdkKey}/flags` });
+      const etag = (await getFlags()).headers.etag;
+
+      await server.inject({
+        method: 'PUT',
+        url: `/api/v1/environments/${environment.id}`,
+        headers: getAuthHeader(token),
+        payload: { name: 'Renamed Environment' },
+      });
+
+      const renamed = await getFlags();
+      expect(renamed.headers.etag).not.toBe(etag);
+      expect(JSON.parse(renamed.body).data.environment.name).toBe('Renamed Environment');
+    });
+
     it('should update environment color', async () => {
       const { token, environment } = await createTestEnvironment(server);
 
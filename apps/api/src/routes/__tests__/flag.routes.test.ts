@@ -113,13 +113,13 @@ describe('Flag Routes', () => {
             {
               key: 'light',
               name: 'Light Theme',
-              value: 'light',
+              value: JSON.stringify('light'),
               description: 'Light color theme',
             },
             {
               key: 'dark',
               name: 'Dark Theme',
-              value: 'dark',
+              value: JSON.stringify('dark'),
               description: 'Dark color theme',
             },
           ],
@@ -131,6 +131,115 @@ describe('Flag Routes', () => {
       expect(body.success).toBe(true);
       expect(body.data.flag.key).toBe('color-theme');
     });
+
+    describe('variation validation', () => {
+      const createFlag = async (payload: Record<string, unknown>) => {
+        const { token, project } = await createTestProject(server);
+
+        return server.inject({
+          method: 'POST',
+          url: `/api/v1/projects/${project.id}/flags`,
+          headers: getAuthHeader(token),
+          payload: { key: 'checkout-config', name: 'Checkout Config', ...payload },
+        });
+      };
+
+      it('should reject values that do not match the flag type', async () => {
+        const response = await createFlag({
+          type: 'NUMBER',
+          variations: [
+            { key: 'low', name: 'Low', value: '10' },
+            { key: 'high', name: 'High', value: JSON.stringify('hello') },
+          ],
+        });
+
+        expect(response.statusCode).toBe(400);
+        const body = JSON.parse(response.body);
+        expect(body.error.code).toBe('VALIDATION_ERROR');
+        expect(body.error.details).toEqual([
+          expect.objectContaining({
+            path: ['variations', 1, 'value'],
+            message: 'Value must be a number for NUMBER flags',
+          }),
+        ]);
+      });
+
+      it('should reject values that are not valid JSON', async () => {
+        const response = await createFlag({
+          type: 'STRING',
+          variations: [{ key: 'light', name: 'Light', value: 'light' }],
+        });
+
+        expect(response.statusCode).toBe(400);
+        const body = JSON.parse(response.body);
+        expect(body.error.message).toBe('Value must be valid JSON');
+        expect(body.error.details[0].path).toEqual(['variations', 0, 'value']);
+      });
+
+      it('should require variations for non-boolean flags', async () => {
+        const response = await createFlag({ type: 'STRING' });
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body).error.message).toBe('Variations are required for STRING flags');
+      });
+
+      it('should validate JSON flag variations against the JSON Schema', async () => {
+        const jsonSchema = {
+          type: 'object',
+          properties: { steps: { type: 'integer', minimum: 1 } },
+          required: ['steps'],
+        };
+
+        const invalid = await createFlag({
+          type: 'JSON',
+          jsonSchema,
+          variations: [
+            { key: 'short', name: 'Short', value: JSON.stringify({ steps: 2 }) },
+            { key: 'broken', name: 'Broken', value: JSON.stringify({ steps: 'three' }) },
+          ],
+        });
+
+        expect(invalid.statusCode).toBe(400);
+        const body = JSON.parse(invalid.body);
+        expect(body.error.details[0].path).toEqual(['variations', 1, 'value']);
+        expect(body.error.message).toContain('value/steps must be integer');
+
+        const valid = await createFlag({
+          type: 'JSON',
+          jsonSchema,
+          variations: [{ key: 'short', name: 'Short', value: JSON.stringify({ steps: 2 }) }],
+        });
+
+        expect(valid.statusCode).toBe(200);
+        expect(JSON.parse(valid.body).data.flag.jsonSchema).toEqual(jsonSchema);
+      });
+
+      it('should reject invalid JSON Schemas', async () => {
+        const response = await createFlag({
+          type: 'JSON',
+          jsonSchema: { type: 'nope' },
+          variations: [{ key: 'empty', name: 'Empty', value: '{}' }],
+        });
+
+        expect(response.statusCode).toBe(400);
+        const body = JSON.parse(response.body);
+        expect(body.error.code).toBe('VALIDATION_ERROR');
+        expect(body.error.details[0].path).toEqual(['jsonSchema']);
+      });
+
+      it('should only accept a JSON Schema for JSON flags', async () => {
+        const response = await createFlag({
+          type: 'STRING',
+          jsonSchema: { type: 'string' },
+          variations: [{ key: 'a', name: 'A', value: JSON.stringify('a') }],
+        });
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body).error.message).toBe(
+          'A JSON Schema can only be attached to JSON flags'
+        );
+      });
+    });
   });
 
   describe('GET /api/v1/projects/:projectId/flags', () => {
@@ -262,6 +371,52 @@ describe('Flag Routes', () => {
   });
 
   describe('PUT /api/v1/flags/:id', () => {
+    it('should refuse to archive a flag that others depend on', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const parentResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'status-parent', name: 'Status Parent' },
+      });
+      const parentId = JSON.parse(parentResponse.body).data.flag.id;
+
+      const childResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'status-child', name: 'Status Child' },
+      });
+      const childId = JSON.parse(childResponse.body).data.flag.id;
+
+      await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${childId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: { prerequisites: [{ flagKey: 'status-parent', variationKey: 'true' }] },
+      });
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${parentId}`,
+        headers: getAuthHeader(token),
+        payload: { status: 'ARCHIVED' },
+      });
+
+      expect(response.statusCode).toBe(409);
+      const body = JSON.parse(response.body);
+      expect(body.error.code).toBe('FLAG_IN_USE');
+      expect(body.error.message).toContain('status-child');
+
+      const parent = await server.inject({
+        method: 'GET',
+        url: `/api/v1/flags/${parentId}`,
+        headers: getAuthHeader(token),
+      });
+      expect(JSON.parse(parent.body).data.flag.status).toBe('ACTIVE');
+    });
+
     it('should update a flag', async () => {
       const { token, project } = await createTestProject(server);
 
@@ -365,6 +520,52 @@ describe('Flag Routes', () => {
     });
   });
 
+  describe('POST /api/v1/flags/:id/reseed', () => {
+    it('should assign a new rollout salt', async () => {
+      const { token, project } = await createTestProject(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'reseed-test', name: 'Reseed Test' },
+      });
+
+      const flag = JSON.parse(createResponse.body).data.flag;
+      expect(flag.salt).toBeNull();
+
+      const first = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flag.id}/reseed`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(first.statusCode).toBe(200);
+      const firstSalt = JSON.parse(first.body).data.flag.salt;
+      expect(firstSalt).toBeTruthy();
+
+      const second = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flag.id}/reseed`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(JSON.parse(second.body).data.flag.salt).not.toBe(firstSalt);
+    });
+
+    it('should return 404 for non-existent flag', async () => {
+      const { token } = await createTestProject(server);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: '/api/v1/flags/non-existent-id/reseed',
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
   describe('DELETE /api/v1/flags/:id', () => {
     it('should archive a flag', async () => {
       const { token, project } = await createTestProject(server);
@@ -390,6 +591,44 @@ describe('Flag Routes', () => {
       expect(body.data.message).toBeDefined();
     });
 
+    it('should refuse to archive a flag that others depend on', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const parentResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'required-parent', name: 'Required Parent' },
+      });
+      const parentId = JSON.parse(parentResponse.body).data.flag.id;
+
+      const childResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'dependent-child', name: 'Dependent Child' },
+      });
+      const childId = JSON.parse(childResponse.body).data.flag.id;
+
+      await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${childId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: { prerequisites: [{ flagKey: 'required-parent', variationKey: 'true' }] },
+      });
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/api/v1/flags/${parentId}`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(409);
+      const body = JSON.parse(response.body);
+      expect(body.error.code).toBe('FLAG_IN_USE');
+      expect(body.error.message).toContain('dependent-child');
+    });
+
     it('should fail to delete non-existent flag', async () => {
       const { token } = await createTestProject(server);
 
@@ -472,6 +711,87 @@ describe('Flag Routes', () => {
     });
   });
 
+  describe('POST /api/v1/flags/:id/environments/:environmentId/explain', () => {
+    it('should explain which rule served the variation', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'explained-flag', name: 'Explained Flag' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+      const url = `/api/v1/flags/${flagId}/environments/${environment.id}`;
+
+      await server.inject({
+        method: 'PUT',
+        url: `${url}/config`,
+        headers: getAuthHeader(token),
+        payload: {
+          enabled: true,
+          defaultVariationKey: 'false',
+          targetingRules: [
+            {
+              id: 'beta-testers',
+              conditions: [{ attribute: 'beta', operator: 'equals', value: true }],
+              conditionLogic: 'AND',
+              variationKey: 'true',
+            },
+          ],
+        },
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `${url}/explain`,
+        headers: getAuthHeader(token),
+        payload: { context: { userId: 'user-1', attributes: { beta: true } } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.evaluation.variationKey).toBe('true');
+      expect(body.data.evaluation.reason).toEqual({
+        kind: 'RULE_MATCH',
+        ruleId: 'beta-testers',
+        ruleIndex: 0,
+      });
+      expect(body.data.steps).toContainEqual(
+        expect.objectContaining({
+          type: 'RULE',
+          ruleId: 'beta-testers',
+          passed: true,
+          variationKey: 'true',
+        })
+      );
+    });
+
+    it('should return 404 for an environment of another project', async () => {
+      const { token, project } = await createTestEnvironment(server);
+      const other = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'explain-other-env', name: 'Explain Other Env' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${other.environment.id}/explain`,
+        headers: getAuthHeader(token),
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
   describe('PUT /api/v1/flags/:id/environments/:environmentId/config', () => {
     it('should update environment config', async () => {
       const { token, project, environment } = await createTestEnvironment(server);
@@ -547,8 +867,10 @@ describe('Flag Routes', () => {
         payload: {
           targetingRules: [
             {
+              id: 'rule-1',
               conditions: [{ attribute: 'userId', operator: 'equals', value: 'user-123' }],
-              variationKey: 'on',
+              conditionLogic: 'AND',
+              variationKey: 'true',
             },
           ],
         },
@@ -558,6 +880,341 @@ describe('Flag Routes', () => {
       const body = JSON.parse(response.body);
       expect(body.success).toBe(true);
     });
+
+    it('should save a weighted default distribution', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'split-test', name: 'Split Test' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: {
+          defaultDistribution: [
+            { variationKey: 'true', weight: 70 },
+            { variationKey: 'false', weight: 30 },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.config.defaultDistribution).toHaveLength(2);
+    });
+
+    it('should reject prerequisite cycles', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const flagIds: Record<string, string> = {};
+      for (const key of ['parent-flag', 'child-flag']) {
+        const createResponse = await server.inject({
+          method: 'POST',
+          url: `/api/v1/projects/${project.id}/flags`,
+          headers: getAuthHeader(token),
+          payload: { key, name: key },
+        });
+        flagIds[key] = JSON.parse(createResponse.body).data.flag.id;
+      }
+
+      const first = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagIds['child-flag']}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: { prerequisites: [{ flagKey: 'parent-flag', variationKey: 'true' }] },
+      });
+
+      expect(first.statusCode).toBe(200);
+
+      const second = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagIds['parent-flag']}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: { prerequisites: [{ flagKey: 'child-flag', variationKey: 'true' }] },
+      });
+
+      expect(second.statusCode).toBe(400);
+      const body = JSON.parse(second.body);
+      expect(body.error.message).toContain('parent-flag -> child-flag -> parent-flag');
+    });
+
+    it('should reject prerequisites on unknown variations', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'required-flag', name: 'Required Flag' },
+      });
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'dependent-flag', name: 'Dependent Flag' },
+      });
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: { prerequisites: [{ flagKey: 'required-flag', variationKey: 'maybe' }] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.message).toContain('Invalid variation key for prerequisite');
+    });
+
+    it('should reject malformed versions in semver conditions', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'semver-test', name: 'Semver Test' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: {
+          targetingRules: [
+            {
+              id: 'rule-1',
+              conditions: [
+                { attribute: 'appVersion', operator: 'semverGreaterThan', value: '2.x.0' },
+              ],
+              conditionLogic: 'AND',
+              variationKey: 'true',
+            },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.message).toContain('Invalid version');
+    });
+
+    it('should reject regex conditions that can backtrack catastrophically', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'regex-test', name: 'Regex Test' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: {
+          targetingRules: [
+            {
+              id: 'rule-1',
+              conditions: [{ attribute: 'email', operator: 'matches', value: '^([a-z0-9]+)*@acme\\.com$' }],
+              conditionLogic: 'AND',
+              variationKey: 'true',
+            },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.message).toContain('backtrack catastrophically');
+      expect(body.error.details[0].path).toEqual(['targetingRules', 0, 'conditions', 0, 'value']);
+    });
+
+    describe('targeting rule validation', () => {
+      const saveRules = async (targetingRules: unknown[]) => {
+        const { token, project, environment } = await createTestEnvironment(server);
+
+        const createResponse = await server.inject({
+          method: 'POST',
+          url: `/api/v1/projects/${project.id}/flags`,
+          headers: getAuthHeader(token),
+          payload: { key: 'strict-rules', name: 'Strict Rules' },
+        });
+
+        const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+        return server.inject({
+          method: 'PUT',
+          url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+          headers: getAuthHeader(token),
+          payload: { targetingRules },
+        });
+      };
+
+      const rule = (id: string, conditions: unknown[], variationKey = 'true') => ({
+        id,
+        conditions,
+        conditionLogic: 'AND',
+        variationKey,
+      });
+
+      it('should reject unknown operators', async () => {
+        const response = await saveRules([
+          rule('rule-1', [{ attribute: 'plan', operator: 'isProbably', value: 'pro' }]),
+        ]);
+
+        expect(response.statusCode).toBe(400);
+        const body = JSON.parse(response.body);
+        expect(body.error.code).toBe('VALIDATION_ERROR');
+        expect(body.error.details[0]).toMatchObject({
+          path: ['targetingRules', 0, 'conditions', 0, 'operator'],
+          message: 'Unknown operator',
+        });
+      });
+
+      it('should reject values of the wrong type for the operator', async () => {
+        const response = await saveRules([
+          rule('rule-1', [
+            { attribute: 'plan', operator: 'equals', value: 'pro' },
+            {
+              conditionLogic: 'OR',
+              conditions: [{ attribute: 'seats', operator: 'greaterThan', value: '10' }],
+            },
+          ]),
+        ]);
+
+        expect(response.statusCode).toBe(400);
+        const body = JSON.parse(response.body);
+        expect(body.error.details[0]).toMatchObject({
+          path: ['targetingRules', 0, 'conditions', 1, 'conditions', 0, 'value'],
+          message: 'Operator greaterThan requires a number',
+        });
+      });
+
+      it('should reject duplicate rule IDs', async () => {
+        const condition = { attribute: 'plan', operator: 'equals', value: 'pro' };
+        const response = await saveRules([rule('rule-1', [condition]), rule('rule-1', [condition])]);
+
+        expect(response.statusCode).toBe(400);
+        const body = JSON.parse(response.body);
+        expect(body.error.details[0]).toMatchObject({
+          path: ['targetingRules', 1, 'id'],
+          message: 'Duplicate rule ID: rule-1',
+        });
+      });
+
+      it('should reject rules serving variations the flag does not have', async () => {
+        const response = await saveRules([
+          rule('rule-1', [{ attribute: 'plan', operator: 'equals', value: 'pro' }], 'maybe'),
+        ]);
+
+        expect(response.statusCode).toBe(400);
+        const body = JSON.parse(response.body);
+        expect(body.error.code).toBe('VALIDATION_ERROR');
+        expect(body.error.details[0]).toMatchObject({
+          path: ['targetingRules', 0, 'variationKey'],
+          message: 'Unknown variation key: maybe',
+        });
+      });
+    });
+
+    it('should use the latest bucketing version for new configs', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'fractional-rollout', name: 'Fractional Rollout' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: { rolloutPercentage: 0.5 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.config.bucketingVersion).toBe(2);
+      expect(body.data.config.rolloutPercentage).toBe(0.5);
+    });
+
+    it('should reject fractional percentages for legacy bucketing', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'legacy-rollout', name: 'Legacy Rollout' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: { rolloutPercentage: 0.5, bucketingVersion: 1 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.message).toContain('bucketing version 2');
+    });
+
+    it('should reject distributions whose weights do not sum to 100', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'bad-split-test', name: 'Bad Split Test' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: {
+          targetingRules: [
+            {
+              conditions: [{ attribute: 'country', operator: 'equals', value: 'US' }],
+              variationKey: 'true',
+              distribution: [
+                { variationKey: 'true', weight: 50 },
+                { variationKey: 'false', weight: 30 },
+              ],
+            },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.message).toContain('100');
+    });
   });
 
   describe('POST /api/v1/flags/:id/environments/:environmentId/toggle', () => {
@@ -666,6 +1323,150 @@ describe('Flag Routes', () => {
     });
   });
 
+  describe('/api/v1/flags/:id/environments/:environmentId/targets/:variationKey', () => {
+    it('should add and remove individual targets', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'qa-targets', name: 'QA Targets' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+      const url = `/api/v1/flags/${flagId}/environments/${environment.id}`;
+
+      await server.inject({
+        method: 'POST',
+        url: `${url}/targets/false`,
+        headers: getAuthHeader(token),
+        payload: { contextKeys: ['qa-1'] },
+      });
+
+      const addResponse = await server.inject({
+        method: 'POST',
+        url: `${url}/targets/true`,
+        headers: getAuthHeader(token),
+        payload: { contextKeys: ['qa-1', 'qa-2'] },
+      });
+
+      expect(addResponse.statusCode).toBe(200);
+      // A context key can only be targeted to one variation
+      expect(JSON.parse(addResponse.body).data.config.individualTargets).toEqual({
+        false: [],
+        true: ['qa-1', 'qa-2'],
+      });
+
+      const removeResponse = await server.inject({
+        method: 'DELETE',
+        url: `${url}/targets/true`,
+        headers: getAuthHeader(token),
+        payload: { contextKeys: ['qa-1'] },
+      });
+
+      expect(removeResponse.statusCode).toBe(200);
+      expect(JSON.parse(removeResponse.body).data.config.individualTargets.true).toEqual(['qa-2']);
+    });
+
+    it('should not lose targets added concurrently', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'qa-concurrent', name: 'QA Concurrent' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+      const url = `/api/v1/flags/${flagId}/environments/${environment.id}`;
+
+      await server.inject({
+        method: 'POST',
+        url: `${url}/targets/true`,
+        headers: getAuthHeader(token),
+        payload: { contextKeys: ['qa-0'] },
+      });
+
+      const contextKeys = ['qa-1', 'qa-2', 'qa-3'];
+      const responses = await Promise.all(
+        contextKeys.map((contextKey) =>
+          server.inject({
+            method: 'POST',
+            url: `${url}/targets/true`,
+            headers: getAuthHeader(token),
+            payload: { contextKeys: [contextKey] },
+          })
+        )
+      );
+
+      const configResponse = await server.inject({
+        method: 'GET',
+        url: `${url}/config`,
+        headers: getAuthHeader(token),
+      });
+      const targets = JSON.parse(configResponse.body).data.config.individualTargets.true;
+
+      // Each add either lands or is rejected as a conflict, none are overwritten
+      responses.forEach((response, index) => {
+        expect([200, 409]).toContain(response.statusCode);
+        if (response.statusCode === 200) {
+          expect(targets).toContain(contextKeys[index]);
+        } else {
+          expect(JSON.parse(response.body).error.code).toBe('CONFLICT');
+        }
+      });
+      expect(targets).toContain('qa-0');
+    });
+
+    it('should reject unknown variations', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'qa-unknown', name: 'QA Unknown' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/targets/maybe`,
+        headers: getAuthHeader(token),
+        payload: { contextKeys: ['qa-1'] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.message).toContain('Unknown variation key');
+    });
+
+    it('should require context keys', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/flags`,
+        headers: getAuthHeader(token),
+        payload: { key: 'qa-empty', name: 'QA Empty' },
+      });
+
+      const flagId = JSON.parse(createResponse.body).data.flag.id;
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/targets/true`,
+        headers: getAuthHeader(token),
+        payload: { contextKeys: [] },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
   describe('GET /api/v1/flags/:id/environments/configs', () => {
     it('should get all environment configs for a flag', async () => {
       const { token, project } = await createTestEnvironment(server);
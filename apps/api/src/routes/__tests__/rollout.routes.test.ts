@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestServer, closeTestServer } from '../../test/helpers/test-server';
+import { createTestEnvironment, getAuthHeader } from '../../test/helpers/auth.helper';
+import { FastifyInstance } from 'fastify';
+import { prisma } from '@flagkit/database';
+import { rolloutService } from '../../services/rollout.service';
+import { sdkService } from '../../services/sdk.service';
+
+describe('Rollout Routes', () => {
+  let server: FastifyInstance;
+
+  beforeAll(async () => {
+    server = await createTestServer();
+  });
+
+  afterAll(async () => {
+    await closeTestServer(server);
+  });
+
+  const steps = [
+    { percentage: 1, durationMinutes: 60 },
+    { percentage: 25, durationMinutes: 60 },
+    { percentage: 100, durationMinutes: 0 },
+  ];
+
+  async function createFlag(token: string, projectId: string, key: string) {
+    const response = await server.inject({
+      method: 'POST',
+      url: `/api/v1/projects/${projectId}/flags`,
+      headers: getAuthHeader(token),
+      payload: { key, name: key },
+    });
+    return JSON.parse(response.body).data.flag.id as string;
+  }
+
+  async function getConfig(flagId: string, environmentId: string) {
+    return prisma.flagEnvironmentConfig.findFirstOrThrow({
+      where: { flagId, environmentId },
+    });
+  }
+
+  async function startPlan(
+    token: string,
+    flagId: string,
+    environmentId: string,
+    planSteps = steps
+  ) {
+    return server.inject({
+      method: 'PUT',
+      url: `/api/v1/flags/${flagId}/environments/${environmentId}/rollout-plan`,
+      headers: getAuthHeader(token),
+      payload: { steps: planSteps },
+    });
+  }
+
+  // Serve true to users in the rollout and false to everyone else
+  async function enableFlag(token: string, flagId: string, environmentId: string) {
+    await server.inject({
+      method: 'PUT',
+      url: `/api/v1/flags/${flagId}/environments/${environmentId}/config`,
+      headers: getAuthHeader(token),
+      payload: { enabled: true, defaultVariationKey: 'true', fallbackVariationKey: 'false' },
+    });
+  }
+
+  // Number of 500 users the flag serves its default variation to
+  async function countServed(clientSdkKey: string, flagKey: string) {
+    let served = 0;
+    for (let i = 0; i < 500; i++) {
+      const evaluation = await sdkService.evaluateFlag(clientSdkKey, 'client', flagKey, {
+        userId: `user-${i}`,
+      });
+      if (evaluation?.value === true) {
+        served++;
+      }
+    }
+    return served;
+  }
+
+  describe('PUT /api/v1/flags/:id/environments/:environmentId/rollout-plan', () => {
+    it('should start a plan at the first step', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'gradual-launch');
+
+      const response = await startPlan(token, flagId, environment.id);
+
+      expect(response.statusCode).toBe(200);
+      const config = JSON.parse(response.body).data.config;
+      expect(config.rolloutPercentage).toBe(1);
+      expect(config.rolloutPlan.status).toBe('ACTIVE');
+      expect(config.rolloutPlan.currentStep).toBe(0);
+    });
+
+    it('should reject decreasing percentages', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'backwards-launch');
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/rollout-plan`,
+        headers: getAuthHeader(token),
+        payload: {
+          steps: [
+            { percentage: 50, durationMinutes: 10 },
+            { percentage: 10, durationMinutes: 0 },
+          ],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.message).toContain('must not decrease');
+    });
+
+    it('should not start a second plan while one is in progress', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'double-launch');
+
+      await startPlan(token, flagId, environment.id);
+      const response = await startPlan(token, flagId, environment.id);
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should block manual rollout changes while a plan is in progress', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'managed-launch');
+
+      await startPlan(token, flagId, environment.id);
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/config`,
+        headers: getAuthHeader(token),
+        payload: { rolloutPercentage: 50 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.message).toContain('rollout plan');
+    });
+  });
+
+  describe('POST /api/v1/flags/:id/environments/:environmentId/rollout-plan/pause', () => {
+    it('should pause and resume a plan', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'paused-launch');
+      await startPlan(token, flagId, environment.id);
+
+      const paused = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/rollout-plan/pause`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(paused.statusCode).toBe(200);
+      expect(JSON.parse(paused.body).data.config.rolloutPlan.status).toBe('PAUSED');
+
+      // A paused plan doesn't advance
+      await rolloutService.advanceRollouts(new Date(Date.now() + 2 * 60 * 60 * 1000));
+      const config = await getConfig(flagId, environment.id);
+      expect(config.rolloutPercentage).toBe(1);
+
+      const resumed = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/rollout-plan/resume`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(resumed.statusCode).toBe(200);
+      expect(JSON.parse(resumed.body).data.config.rolloutPlan.status).toBe('ACTIVE');
+    });
+
+    it('should return 409 when there is no active plan', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'no-plan');
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/rollout-plan/pause`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+  });
+
+  describe('POST /api/v1/flags/:id/environments/:environmentId/rollout-plan/abort', () => {
+    it('should roll back to 0%', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'aborted-launch');
+      await startPlan(token, flagId, environment.id);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/rollout-plan/abort`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const config = JSON.parse(response.body).data.config;
+      expect(config.rolloutPercentage).toBe(0);
+      expect(config.rolloutPlan.status).toBe('ABORTED');
+    });
+
+    it('should serve no one once aborted', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'aborted-enabled-launch');
+      await enableFlag(token, flagId, environment.id);
+      await startPlan(token, flagId, environment.id);
+
+      expect(await countServed(environment.clientSdkKey, 'aborted-enabled-launch')).toBeGreaterThan(0);
+
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/rollout-plan/abort`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(await countServed(environment.clientSdkKey, 'aborted-enabled-launch')).toBe(0);
+    });
+  });
+
+  describe('advanceRollouts', () => {
+    it('should serve no one during a 0% step', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'dark-launch');
+      await enableFlag(token, flagId, environment.id);
+      await startPlan(token, flagId, environment.id, [
+        { percentage: 0, durationMinutes: 60 },
+        { percentage: 100, durationMinutes: 0 },
+      ]);
+
+      expect(await countServed(environment.clientSdkKey, 'dark-launch')).toBe(0);
+
+      await rolloutService.advanceRollouts(new Date(Date.now() + 2 * 60 * 60 * 1000));
+
+      expect(await countServed(environment.clientSdkKey, 'dark-launch')).toBe(500);
+    });
+
+    it('should advance one step at a time and complete at the last step', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'stepped-launch');
+      await startPlan(token, flagId, environment.id);
+
+      // Far past every step, but the plan still only moves one step per run
+      const muchLater = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      await rolloutService.advanceRollouts(muchLater);
+
+      let config = await getConfig(flagId, environment.id);
+      expect(config.rolloutPercentage).toBe(25);
+
+      const afterSecondStep = new Date(muchLater.getTime() + 60 * 60 * 1000);
+      await rolloutService.advanceRollouts(afterSecondStep);
+
+      config = await getConfig(flagId, environment.id);
+      expect(config.rolloutPercentage).toBe(100);
+      expect((config.rolloutPlan as { status: string }).status).toBe('COMPLETED');
+
+      const changes = await prisma.flagChange.findMany({ where: { flagId } });
+      expect(changes.some((change) => change.comment?.includes('Completed rollout plan'))).toBe(
+        true
+      );
+    });
+
+    it('should not advance a step before its duration has passed', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'early-launch');
+      await startPlan(token, flagId, environment.id);
+
+      await rolloutService.advanceRollouts(new Date(Date.now() + 30 * 60 * 1000));
+
+      const config = await getConfig(flagId, environment.id);
+      expect(config.rolloutPercentage).toBe(1);
+      expect((config.rolloutPlan as { currentStep: number }).currentStep).toBe(0);
+    });
+  });
+});
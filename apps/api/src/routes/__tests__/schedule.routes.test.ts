@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestServer, closeTestServer } from '../../test/helpers/test-server';
+import { createTestEnvironment, getAuthHeader } from '../../test/helpers/auth.helper';
+import { FastifyInstance } from 'fastify';
+import { prisma } from '@flagkit/database';
+import { scheduleService } from '../../services/schedule.service';
+
+describe('Schedule Routes', () => {
+  let server: FastifyInstance;
+
+  beforeAll(async () => {
+    server = await createTestServer();
+  });
+
+  afterAll(async () => {
+    await closeTestServer(server);
+  });
+
+  const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+  async function createFlag(token: string, projectId: string, key: string) {
+    const response = await server.inject({
+      method: 'POST',
+      url: `/api/v1/projects/${projectId}/flags`,
+      headers: getAuthHeader(token),
+      payload: { key, name: key },
+    });
+    return JSON.parse(response.body).data.flag.id as string;
+  }
+
+  describe('POST /api/v1/flags/:id/environments/:environmentId/scheduled-changes', () => {
+    it('should schedule a change', async () => {
+      const { token, project, environment, user } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'midnight-launch');
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/scheduled-changes`,
+        headers: getAuthHeader(token),
+        payload: { action: 'TOGGLE_ON', scheduledFor: inOneHour() },
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.data.change.status).toBe('PENDING');
+      expect(body.data.change.createdById).toBe(user.id);
+    });
+
+    it('should reject times in the past', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'past-launch');
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/scheduled-changes`,
+        headers: getAuthHeader(token),
+        payload: { action: 'TOGGLE_ON', scheduledFor: '2020-01-01T00:00:00Z' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.message).toContain('future');
+    });
+
+    it('should reject values that do not fit the action', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'bad-rollout');
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/scheduled-changes`,
+        headers: getAuthHeader(token),
+        payload: { action: 'SET_ROLLOUT', value: 150, scheduledFor: inOneHour() },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.message).toContain('SET_ROLLOUT');
+    });
+
+    it('should validate scheduled targeting rules up front', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'scheduled-rules');
+      const url = `/api/v1/flags/${flagId}/environments/${environment.id}/scheduled-changes`;
+      const rule = (variationKey: string, conditions: unknown[]) => ({
+        id: 'rule-1',
+        conditions,
+        conditionLogic: 'AND',
+        variationKey,
+      });
+
+      const unknownVariation = await server.inject({
+        method: 'POST',
+        url,
+        headers: getAuthHeader(token),
+        payload: {
+          action: 'SET_TARGETING_RULES',
+          value: [rule('maybe', [{ attribute: 'plan', operator: 'equals', value: 'pro' }])],
+          scheduledFor: inOneHour(),
+        },
+      });
+
+      expect(unknownVariation.statusCode).toBe(400);
+      const body = JSON.parse(unknownVariation.body);
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+      expect(body.error.details[0]).toMatchObject({
+        path: ['value', 0, 'variationKey'],
+        message: 'Unknown variation key: maybe',
+      });
+
+      const unsafeRegex = await server.inject({
+        method: 'POST',
+        url,
+        headers: getAuthHeader(token),
+        payload: {
+          action: 'SET_TARGETING_RULES',
+          value: [rule('true', [{ attribute: 'email', operator: 'matches', value: '(a+)+$' }])],
+          scheduledFor: inOneHour(),
+        },
+      });
+
+      expect(unsafeRegex.statusCode).toBe(400);
+      expect(JSON.parse(unsafeRegex.body).error.code).toBe('VALIDATION_ERROR');
+      expect(await prisma.scheduledFlagChange.count({ where: { flagId } })).toBe(0);
+    });
+  });
+
+  describe('GET /api/v1/flags/:id/scheduled-changes', () => {
+    it('should list scheduled changes in order', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'listed-changes');
+      const url = `/api/v1/flags/${flagId}/environments/${environment.id}/scheduled-changes`;
+
+      await server.inject({
+        method: 'POST',
+        url,
+        headers: getAuthHeader(token),
+        payload: {
+          action: 'TOGGLE_OFF',
+          scheduledFor: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
+        },
+      });
+      await server.inject({
+        method: 'POST',
+        url,
+        headers: getAuthHeader(token),
+        payload: { action: 'TOGGLE_ON', scheduledFor: inOneHour() },
+      });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/api/v1/flags/${flagId}/scheduled-changes?status=PENDING`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const { changes } = JSON.parse(response.body).data;
+      expect(changes.map((c: { action: string }) => c.action)).toEqual(['TOGGLE_ON', 'TOGGLE_OFF']);
+    });
+  });
+
+  describe('DELETE /api/v1/flags/:id/scheduled-changes/:changeId', () => {
+    it('should cancel a pending change only once', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'cancelled-change');
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/scheduled-changes`,
+        headers: getAuthHeader(token),
+        payload: { action: 'TOGGLE_ON', scheduledFor: inOneHour() },
+      });
+      const changeId = JSON.parse(createResponse.body).data.change.id;
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/api/v1/flags/${flagId}/scheduled-changes/${changeId}`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data.change.status).toBe('CANCELLED');
+
+      const again = await server.inject({
+        method: 'DELETE',
+        url: `/api/v1/flags/${flagId}/scheduled-changes/${changeId}`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(again.statusCode).toBe(409);
+    });
+  });
+
+  describe('scheduler', () => {
+    it('should apply due changes as the scheduling user', async () => {
+      const { token, project, environment, user } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'applied-change');
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/scheduled-changes`,
+        headers: getAuthHeader(token),
+        payload: { action: 'TOGGLE_ON', scheduledFor: inOneHour(), comment: 'Midnight launch' },
+      });
+      const changeId = JSON.parse(createResponse.body).data.change.id;
+
+      // Nothing is due yet
+      expect(await scheduleService.runDueChanges()).toBe(0);
+
+      const applied = await scheduleService.runDueChanges(new Date(Date.now() + 2 * 60 * 60 * 1000));
+      expect(applied).toBe(1);
+
+      const config = await prisma.flagEnvironmentConfig.findUnique({
+        where: { flagId_environmentId: { flagId, environmentId: environment.id } },
+      });
+      expect(config?.enabled).toBe(true);
+
+      const change = await prisma.scheduledFlagChange.findUnique({ where: { id: changeId } });
+      expect(change?.status).toBe('COMPLETED');
+
+      const history = await prisma.flagChange.findFirst({
+        where: { flagId, comment: 'Midnight launch' },
+      });
+      expect(history?.userId).toBe(user.id);
+    });
+
+    it('should retry changes interrupted by a restart', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+      const flagId = await createFlag(token, project.id, 'interrupted-change');
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flagId}/environments/${environment.id}/scheduled-changes`,
+        headers: getAuthHeader(token),
+        payload: { action: 'TOGGLE_ON', scheduledFor: inOneHour() },
+      });
+      const changeId = JSON.parse(createResponse.body).data.change.id;
+
+      // Simulate a scheduler that claimed the change and then went away
+      await prisma.scheduledFlagChange.update({
+        where: { id: changeId },
+        data: {
+          status: 'RUNNING',
+          scheduledFor: new Date(Date.now() - 60 * 60 * 1000),
+          claimedAt: new Date(Date.now() - 60 * 60 * 1000),
+        },
+      });
+
+      expect(await scheduleService.runDueChanges()).toBe(1);
+
+      const change = await prisma.scheduledFlagChange.findUnique({ where: { id: changeId } });
+      expect(change?.status).toBe('COMPLETED');
+    });
+  });
+});
@@ -2,15 +2,18 @@ import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { createTestServer, closeTestServer } from '../../test/helpers/test-server';
 import {
   createTestEnvironment,
+  getAuthHeader,
 } from '../../test/helpers/auth.helper';
 import { createTestFlag } from '../../test/factories/flag.factory';
 import { FastifyInstance } from 'fastify';
+import { prisma } from '@flagkit/database';
 
 describe('SDK Routes', () => {
   let server: FastifyInstance;
   let clientSdkKey: string;
   let serverSdkKey: string;
   let environmentId: string;
+  let token: string;
 
   beforeAll(async () => {
     server = await createTestServer();
@@ -18,6 +21,7 @@ describe('SDK Routes', () => {
     // Create environment with SDK keys
     const envData = await createTestEnvironment(server);
     environmentId = envData.environment.id;
+    token = envData.token;
     clientSdkKey = envData.environment.clientSdkKey;
     serverSdkKey = envData.environment.serverSdkKey;
   });
@@ -137,6 +141,392 @@ describe('SDK Routes', () => {
     });
   });
 
+  describe('GET /sdk/v1/server/:sdkKey/rules', () => {
+    it('should return flag definitions and segments for valid server SDK key', async () => {
+      await createTestFlag({
+        environmentId,
+        key: 'test-rules-flag',
+        name: 'Test Rules Flag',
+        type: 'NUMBER',
+        defaultValue: 42,
+      });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/server/${serverSdkKey}/rules`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(true);
+      expect(body.data.environment.id).toBe(environmentId);
+      expect(typeof body.data.segments).toBe('object');
+
+      const flag = body.data.flags.find((f: { key: string }) => f.key === 'test-rules-flag');
+      expect(flag).toBeDefined();
+      // Variation values are served parsed, ready for local evaluation
+      expect(flag.variations).toContainEqual({ key: 'on', value: 42 });
+    });
+
+    it('should return 401 for invalid server SDK key', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/sdk/v1/server/invalid-sdk-key/rules',
+      });
+
+      expect(response.statusCode).toBe(401);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(false);
+      expect(body.error.code).toBe('INVALID_SDK_KEY');
+    });
+
+    it('should not serve rules for client SDK keys', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/server/${clientSdkKey}/rules`,
+      });
+
+      expect(response.statusCode).toBe(401);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(false);
+    });
+  });
+
+  describe('POST /sdk/v1/client/:sdkKey/flags', () => {
+    it('should evaluate all flags with the provided context', async () => {
+      const flag = await createTestFlag({
+        environmentId,
+        key: 'bulk-context-flag',
+        name: 'Bulk Context Flag',
+        type: 'BOOLEAN',
+      });
+
+      await prisma.flagEnvironmentConfig.create({
+        data: {
+          flagId: flag.id,
+          environmentId,
+          enabled: true,
+          defaultVariationKey: 'off',
+          fallbackVariationKey: 'off',
+          targetingRules: [
+            {
+              id: 'premium-rule',
+              conditions: [{ attribute: 'tier', operator: 'equals', value: 'premium' }],
+              conditionLogic: 'AND',
+              variationKey: 'on',
+            },
+          ],
+        },
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/sdk/v1/client/${clientSdkKey}/flags`,
+        payload: {
+          context: {
+            userId: 'user-123',
+            attributes: { tier: 'premium' },
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(true);
+      expect(body.data.flags['bulk-context-flag'].variationKey).toBe('on');
+      expect(body.data.flags['bulk-context-flag'].reason).toEqual({
+        kind: 'RULE_MATCH',
+        ruleId: 'premium-rule',
+        ruleIndex: 0,
+      });
+    });
+
+    it('should evaluate conditions on other kinds of a multi-kind context', async () => {
+      const flag = await createTestFlag({
+        environmentId,
+        key: 'multi-kind-flag',
+        name: 'Multi-kind Flag',
+        type: 'BOOLEAN',
+      });
+
+      await prisma.flagEnvironmentConfig.create({
+        data: {
+          flagId: flag.id,
+          environmentId,
+          enabled: true,
+          defaultVariationKey: 'off',
+          fallbackVariationKey: 'off',
+          targetingRules: [
+            {
+              id: 'enterprise-orgs',
+              conditions: [
+                { attribute: 'organization.plan', operator: 'equals', value: 'enterprise' },
+              ],
+              conditionLogic: 'AND',
+              variationKey: 'on',
+            },
+          ],
+        },
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/sdk/v1/client/${clientSdkKey}/flags`,
+        payload: {
+          context: {
+            user: { key: 'user-123', attributes: { plan: 'free' } },
+            organization: { key: 'acme', attributes: { plan: 'enterprise' } },
+          },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.flags['multi-kind-flag'].variationKey).toBe('on');
+    });
+
+    it('should accept a request without context', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: `/sdk/v1/client/${clientSdkKey}/flags`,
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(true);
+      expect(typeof body.data.flags).toBe('object');
+    });
+
+    it('should return 400 for an invalid context', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: `/sdk/v1/client/${clientSdkKey}/flags`,
+        payload: {
+          context: { userId: 123 },
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 401 for invalid client SDK key', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: '/sdk/v1/client/invalid-sdk-key/flags',
+        payload: { context: { userId: 'user-123' } },
+      });
+
+      expect(response.statusCode).toBe(401);
+      const body = JSON.parse(response.body);
+      expect(body.error.code).toBe('INVALID_SDK_KEY');
+    });
+  });
+
+  describe('POST /sdk/v1/server/:sdkKey/flags', () => {
+    it('should evaluate all flags with context for server SDK key', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: `/sdk/v1/server/${serverSdkKey}/flags`,
+        payload: {
+          context: { userId: 'user-456' },
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(true);
+      expect(body.data.environment.id).toBe(environmentId);
+    });
+
+    it('should not allow client SDK key for server endpoint', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: `/sdk/v1/server/${clientSdkKey}/flags`,
+        payload: {},
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('conditional flag requests', () => {
+    it('should answer 304 Not Modified until the config version changes', async () => {
+      const flag = await createTestFlag({ environmentId, key: 'etag-flag' });
+
+      const first = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/client/${clientSdkKey}/flags`,
+      });
+      const etag = first.headers.etag as string;
+      expect(etag).toMatch(/^"\d+-[0-9a-f]+"$/);
+
+      const unchanged = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/client/${clientSdkKey}/flags`,
+        headers: { 'if-none-match': etag },
+      });
+      expect(unchanged.statusCode).toBe(304);
+      expect(unchanged.body).toBe('');
+      expect(unchanged.headers.etag).toBe(etag);
+
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flag.id}/environments/${environmentId}/toggle`,
+        headers: getAuthHeader(token),
+        payload: { enabled: true },
+      });
+
+      const changed = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/client/${clientSdkKey}/flags`,
+        headers: { 'if-none-match': etag },
+      });
+      expect(changed.statusCode).toBe(200);
+      expect(changed.headers.etag).not.toBe(etag);
+      expect(JSON.parse(changed.body).data.flags['etag-flag'].enabled).toBe(true);
+    });
+
+    it('should tag evaluations for each context separately', async () => {
+      const evaluate = (userId: string, ifNoneMatch?: string) =>
+        server.inject({
+          method: 'POST',
+          url: `/sdk/v1/client/${clientSdkKey}/flags`,
+          headers: ifNoneMatch ? { 'if-none-match': ifNoneMatch } : {},
+          payload: { context: { userId } },
+        });
+
+      const first = await evaluate('user-1');
+      const etag = first.headers.etag as string;
+
+      expect((await evaluate('user-1', etag)).statusCode).toBe(304);
+      expect((await evaluate('user-2', etag)).statusCode).toBe(200);
+    });
+  });
+
+  describe('GET /sdk/v1/client/:sdkKey/flags/delta', () => {
+    it('should return only flags changed or archived since the version', async () => {
+      const toggled = await createTestFlag({ environmentId, key: 'delta-toggled' });
+      const archived = await createTestFlag({ environmentId, key: 'delta-archived' });
+
+      const snapshot = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/client/${clientSdkKey}/flags`,
+      });
+      const { version } = JSON.parse(snapshot.body).data;
+
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${toggled.id}/environments/${environmentId}/toggle`,
+        headers: getAuthHeader(token),
+        payload: { enabled: true },
+      });
+      await server.inject({
+        method: 'DELETE',
+        url: `/api/v1/flags/${archived.id}`,
+        headers: getAuthHeader(token),
+      });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/client/${clientSdkKey}/flags/delta?since=${version}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.version).toBe(version + 2);
+      expect(body.data.full).toBe(false);
+      expect(Object.keys(body.data.flags)).toEqual(['delta-toggled']);
+      expect(body.data.flags['delta-toggled'].enabled).toBe(true);
+      expect(body.data.deleted).toEqual(['delta-archived']);
+    });
+
+    it('should send a full snapshot for versions it has no changes for', async () => {
+      await createTestFlag({ environmentId, key: 'delta-snapshot' });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/client/${clientSdkKey}/flags/delta?since=1000000`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.full).toBe(true);
+      expect(body.data.flags['delta-snapshot']).toBeDefined();
+    });
+
+    it('should evaluate changes for the provided context', async () => {
+      const response = await server.inject({
+        method: 'POST',
+        url: `/sdk/v1/client/${clientSdkKey}/flags/delta?since=0`,
+        payload: { context: { userId: 'user-1' } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data).toHaveProperty('deleted');
+    });
+
+    it('should return 400 without a version', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/client/${clientSdkKey}/flags/delta`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should return 401 for invalid client SDK key', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/sdk/v1/client/invalid-key/flags/delta?since=0',
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe('GET /sdk/v1/server/:sdkKey/flags/delta', () => {
+    it('should return only flags changed since the version', async () => {
+      const toggled = await createTestFlag({ environmentId, key: 'server-delta-toggled' });
+
+      const snapshot = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/server/${serverSdkKey}/flags`,
+      });
+      const { version } = JSON.parse(snapshot.body).data;
+
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${toggled.id}/environments/${environmentId}/toggle`,
+        headers: getAuthHeader(token),
+        payload: { enabled: true },
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/sdk/v1/server/${serverSdkKey}/flags/delta?since=${version}`,
+        payload: { context: { userId: 'user-1' } },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.full).toBe(false);
+      expect(Object.keys(body.data.flags)).toEqual(['server-delta-toggled']);
+    });
+
+    it('should not accept client SDK keys', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/server/${clientSdkKey}/flags/delta?since=0`,
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
   describe('POST /sdk/v1/client/:sdkKey/evaluate', () => {
     it('should evaluate a flag with valid client SDK key', async () => {
       await createTestFlag({
@@ -0,0 +1,261 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestServer, closeTestServer } from '../../test/helpers/test-server';
+import {
+  createTestEnvironment,
+  createTestProject,
+  getAuthHeader,
+  createAuthenticatedUser,
+} from '../../test/helpers/auth.helper';
+import { createTestFlag } from '../../test/factories/flag.factory';
+import { FastifyInstance } from 'fastify';
+import { prisma } from '@flagkit/database';
+
+describe('Segment Routes', () => {
+  let server: FastifyInstance;
+
+  beforeAll(async () => {
+    server = await createTestServer();
+  });
+
+  afterAll(async () => {
+    await closeTestServer(server);
+  });
+
+  const betaSegment = {
+    key: 'beta-testers',
+    name: 'Beta Testers',
+    conditions: [{ attribute: 'beta', operator: 'equals', value: true }],
+  };
+
+  describe('POST /api/v1/projects/:projectId/segments', () => {
+    it('should create a segment', async () => {
+      const { token, project } = await createTestProject(server);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: { ...betaSegment, conditionLogic: 'OR' },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.success).toBe(true);
+      expect(body.data.segment.key).toBe('beta-testers');
+      expect(body.data.segment.conditionLogic).toBe('OR');
+      expect(body.data.segment.conditions).toHaveLength(1);
+    });
+
+    it('should log an audit entry for the new segment', async () => {
+      const { token, project, organization } = await createTestProject(server);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: betaSegment,
+      });
+
+      const segmentId = JSON.parse(response.body).data.segment.id;
+      const logs = await prisma.auditLog.findMany({
+        where: { organizationId: organization.id, resourceType: 'SEGMENT', resourceId: segmentId },
+      });
+
+      expect(logs).toHaveLength(1);
+      expect(logs[0].action).toBe('CREATE');
+    });
+
+    it('should reject duplicate segment keys', async () => {
+      const { token, project } = await createTestProject(server);
+
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: betaSegment,
+      });
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: betaSegment,
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.message).toContain('already exists');
+    });
+
+    it('should reject segments that reference other segments', async () => {
+      const { token, project } = await createTestProject(server);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: {
+          ...betaSegment,
+          conditions: [{ attribute: 'userId', operator: 'inSegment', value: 'other' }],
+        },
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('should deny access to non-members', async () => {
+      const { project } = await createTestProject(server);
+      const { token } = await createAuthenticatedUser(server);
+
+      const response = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: betaSegment,
+      });
+
+      expect(response.statusCode).toBe(400);
+      const body = JSON.parse(response.body);
+      expect(body.error.message).toBe('Access denied');
+    });
+  });
+
+  describe('GET /api/v1/projects/:projectId/segments', () => {
+    it('should list segments for a project', async () => {
+      const { token, project } = await createTestProject(server);
+
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: betaSegment,
+      });
+
+      const response = await server.inject({
+        method: 'GET',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.segments).toHaveLength(1);
+    });
+  });
+
+  describe('PUT /api/v1/projects/:projectId/segments/:segmentId', () => {
+    it('should update segment conditions', async () => {
+      const { token, project } = await createTestProject(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: betaSegment,
+      });
+      const segmentId = JSON.parse(createResponse.body).data.segment.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/projects/${project.id}/segments/${segmentId}`,
+        headers: getAuthHeader(token),
+        payload: {
+          conditions: [{ attribute: 'country', operator: 'in', value: ['US', 'CA'] }],
+        },
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.data.segment.conditions[0].attribute).toBe('country');
+    });
+
+    it('should return 404 for a segment in another project', async () => {
+      const { token, project } = await createTestProject(server);
+      const other = await createTestProject(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${other.project.id}/segments`,
+        headers: getAuthHeader(other.token),
+        payload: betaSegment,
+      });
+      const segmentId = JSON.parse(createResponse.body).data.segment.id;
+
+      const response = await server.inject({
+        method: 'PUT',
+        url: `/api/v1/projects/${project.id}/segments/${segmentId}`,
+        headers: getAuthHeader(token),
+        payload: { name: 'Hijacked' },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/v1/projects/:projectId/segments/:segmentId', () => {
+    it('should delete an unused segment', async () => {
+      const { token, project } = await createTestProject(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: betaSegment,
+      });
+      const segmentId = JSON.parse(createResponse.body).data.segment.id;
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/api/v1/projects/${project.id}/segments/${segmentId}`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(200);
+      const segment = await prisma.segment.findUnique({ where: { id: segmentId } });
+      expect(segment).toBeNull();
+    });
+
+    it('should refuse to delete a segment referenced by a flag config', async () => {
+      const { token, project, environment } = await createTestEnvironment(server);
+
+      const createResponse = await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${project.id}/segments`,
+        headers: getAuthHeader(token),
+        payload: betaSegment,
+      });
+      const segmentId = JSON.parse(createResponse.body).data.segment.id;
+
+      const flag = await createTestFlag({ environmentId: environment.id, key: 'segment-flag' });
+      await prisma.flagEnvironmentConfig.create({
+        data: {
+          flagId: flag.id,
+          environmentId: environment.id,
+          enabled: true,
+          defaultVariationKey: 'off',
+          targetingRules: [
+            {
+              id: 'rule-1',
+              conditions: [{ attribute: '', operator: 'inSegment', value: 'beta-testers' }],
+              conditionLogic: 'AND',
+              variationKey: 'on',
+            },
+          ],
+        },
+      });
+
+      const response = await server.inject({
+        method: 'DELETE',
+        url: `/api/v1/projects/${project.id}/segments/${segmentId}`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(response.statusCode).toBe(409);
+      const body = JSON.parse(response.body);
+      expect(body.error.code).toBe('SEGMENT_IN_USE');
+      expect(body.error.message).toContain('segment-flag');
+    });
+  });
+});
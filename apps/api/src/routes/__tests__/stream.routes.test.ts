@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createTestServer, closeTestServer } from '../../test/helpers/test-server';
+import { createTestEnvironment, getAuthHeader } from '../../test/helpers/auth.helper';
+import { createTestFlag } from '../../test/factories/flag.factory';
+import { FastifyInstance } from 'fastify';
+
+type StreamClient = Awaited<ReturnType<FastifyInstance['injectWS']>>;
+
+/**
+ * Collect the messages of a stream so tests can wait for the next one
+ */
+function recordMessages(ws: StreamClient) {
+  const messages: { type: string; data: Record<string, unknown> }[] = [];
+  const waiters: (() => void)[] = [];
+
+  ws.on('message', (data) => {
+    messages.push(JSON.parse(data.toString()));
+    waiters.shift()?.();
+  });
+
+  return {
+    messages,
+    next: async () => {
+      const count = messages.length;
+      await new Promise<void>((resolve) => waiters.push(resolve));
+      return messages[count];
+    },
+  };
+}
+
+function waitForClose(ws: StreamClient): Promise<number> {
+  return new Promise((resolve) => ws.on('close', (code) => resolve(code)));
+}
+
+describe('Stream Routes', () => {
+  let server: FastifyInstance;
+  let token: string;
+  let projectId: string;
+  let environmentId: string;
+  let clientSdkKey: string;
+  let serverSdkKey: string;
+
+  beforeAll(async () => {
+    server = await createTestServer();
+
+    const envData = await createTestEnvironment(server);
+    token = envData.token;
+    projectId = envData.project.id;
+    environmentId = envData.environment.id;
+    clientSdkKey = envData.environment.clientSdkKey;
+    serverSdkKey = envData.environment.serverSdkKey;
+  });
+
+  afterAll(async () => {
+    await closeTestServer(server);
+  });
+
+  describe('/sdk/v1/server/:sdkKey/stream', () => {
+    it('should close streams with an invalid SDK key', async () => {
+      const ws = await server.injectWS('/sdk/v1/server/invalid-sdk-key/stream');
+
+      expect(await waitForClose(ws)).toBe(4401);
+    });
+
+    it('should not accept client SDK keys', async () => {
+      const ws = await server.injectWS(`/sdk/v1/server/${clientSdkKey}/stream`);
+
+      expect(await waitForClose(ws)).toBe(4401);
+    });
+
+    it('should send a snapshot and then flag updates', async () => {
+      const flag = await createTestFlag({ environmentId, key: 'streamed-flag' });
+
+      const ws = await server.injectWS(`/sdk/v1/server/${serverSdkKey}/stream`);
+      const stream = recordMessages(ws);
+
+      const snapshot = await stream.next();
+      expect(snapshot.type).toBe('snapshot');
+      expect(snapshot.data.flags).toContainEqual(expect.objectContaining({ key: 'streamed-flag' }));
+
+      const update = stream.next();
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/flags/${flag.id}/environments/${environmentId}/toggle`,
+        headers: getAuthHeader(token),
+        payload: { enabled: false },
+      });
+
+      const message = await update;
+      expect(message.type).toBe('flag_update');
+      expect(message.data).toMatchObject({ key: 'streamed-flag', config: { enabled: false } });
+
+      const deletion = stream.next();
+      await server.inject({
+        method: 'DELETE',
+        url: `/api/v1/flags/${flag.id}`,
+        headers: getAuthHeader(token),
+      });
+
+      expect(await deletion).toEqual({ type: 'flag_delete', data: { flagKey: 'streamed-flag' } });
+      ws.terminate();
+    });
+
+    it('should send a new snapshot when segments change', async () => {
+      const ws = await server.injectWS(`/sdk/v1/server/${serverSdkKey}/stream`);
+      const stream = recordMessages(ws);
+      await stream.next();
+
+      const update = stream.next();
+      await server.inject({
+        method: 'POST',
+        url: `/api/v1/projects/${projectId}/segments`,
+        headers: getAuthHeader(token),
+        payload: {
+          key: 'streamed-segment',
+          name: 'Streamed Segment',
+          conditions: [{ attribute: 'beta', operator: 'equals', value: true }],
+        },
+      });
+
+      const message = await update;
+      expect(message.type).toBe('snapshot');
+      expect(message.data.segments).toHaveProperty('streamed-segment');
+      ws.terminate();
+    });
+  });
+
+  describe('/sdk/v1/client/:sdkKey/stream', () => {
+    it('should send evaluations for the context of the stream', async () => {
+      await createTestFlag({ environmentId, key: 'client-streamed-flag', enabled: true });
+
+      const context = encodeURIComponent(JSON.stringify({ userId: 'user-1' }));
+      const ws = await server.injectWS(`/sdk/v1/client/${clientSdkKey}/stream?context=${context}`);
+      const stream = recordMessages(ws);
+
+      const snapshot = await stream.next();
+      expect(snapshot.type).toBe('snapshot');
+      expect(snapshot.data.flags).toHaveProperty(
+        'client-streamed-flag',
+        expect.objectContaining({ value: true })
+      );
+      ws.terminate();
+    });
+
+    it('should close streams with an invalid context', async () => {
+      const ws = await server.injectWS(`/sdk/v1/client/${clientSdkKey}/stream?context=not-json`);
+
+      expect(await waitForClose(ws)).toBe(4400);
+    });
+  });
+
+  describe('/sdk/v1/:keyType/:sdkKey/sse', () => {
+    it('should refuse streams with an invalid SDK key', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: '/sdk/v1/server/invalid-sdk-key/sse',
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(response.json().error.code).toBe('INVALID_SDK_KEY');
+    });
+
+    it('should refuse client streams with an invalid context', async () => {
+      const response = await server.inject({
+        method: 'GET',
+        url: `/sdk/v1/client/${clientSdkKey}/sse?context=not-json`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.json().error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+});
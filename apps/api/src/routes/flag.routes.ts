@@ -7,6 +7,13 @@ import {
   UpdateFlagInput,
   UpdateFlagConfigInput,
 } from '../services/flag.service';
+import { BucketingVersion } from '@flagkit/evaluator';
+import {
+  EvaluationContextSchema,
+  FlagVariationInputSchema,
+  JsonSchemaSchema,
+  createTargetingRulesSchema,
+} from '@flagkit/types';
 
 const createFlagSchema = z.object({
   key: z
@@ -18,16 +25,8 @@ const createFlagSchema = z.object({
   description: z.string().max(500).optional(),
   type: z.nativeEnum(FlagType).optional(),
   tags: z.array(z.string()).optional(),
-  variations: z
-    .array(
-      z.object({
-        key: z.string().min(1).max(50),
-        name: z.string().min(1).max(100),
-        value: z.string(),
-        description: z.string().max(200).optional(),
-      })
-    )
-    .optional(),
+  variations: z.array(FlagVariationInputSchema).optional(),
+  jsonSchema: JsonSchemaSchema.optional(),
 });
 
 const updateFlagSchema = z.object({
@@ -37,18 +36,45 @@ const updateFlagSchema = z.object({
   tags: z.array(z.string()).optional(),
 });
 
+const weightedVariationSchema = z.object({
+  variationKey: z.string().min(1),
+  weight: z.number().min(0).max(100),
+});
+
 const updateFlagConfigSchema = z.object({
   enabled: z.boolean().optional(),
   defaultVariationKey: z.string().optional(),
   fallbackVariationKey: z.string().optional(),
-  targetingRules: z.unknown().optional(),
+  targetingRules: createTargetingRulesSchema().optional(),
   rolloutPercentage: z.number().min(0).max(100).optional(),
+  defaultDistribution: z.array(weightedVariationSchema).nullable().optional(),
+  bucketBy: z.string().min(1, 'Bucketing attribute is required').max(100).optional(),
+  bucketingVersion: z.nativeEnum(BucketingVersion).optional(),
+  prerequisites: z
+    .array(
+      z.object({
+        flagKey: z.string().min(1, 'Prerequisite flag key is required'),
+        variationKey: z.string().min(1, 'Prerequisite variation key is required'),
+      })
+    )
+    .optional(),
+  individualTargets: z.record(z.array(z.string().min(1).max(256))).optional(),
 });
 
 const toggleFlagSchema = z.object({
   enabled: z.boolean(),
 });
 
+const individualTargetsSchema = z.object({
+  contextKeys: z
+    .array(z.string().min(1, 'Context key is required').max(256))
+    .min(1, 'At least one context key is required'),
+});
+
+const explainFlagSchema = z.object({
+  context: EvaluationContextSchema.optional(),
+});
+
 export default async function flagRoutes(server: FastifyInstance) {
   // Create flag
   server.post<{
@@ -79,6 +105,18 @@ export default async function flagRoutes(server: FastifyInstance) {
         data: { flag },
       };
     } catch (error) {
+      // Variations that don't match the flag's type or schema fail with field paths
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.errors[0].message,
+            details: error.errors,
+          },
+        });
+      }
+
       return reply.code(400).send({
         success: false,
         error: {
@@ -166,6 +204,38 @@ export default async function flagRoutes(server: FastifyInstance) {
     try {
       const flag = await flagService.update(id, request.user!.id, validation.data);
 
+      return {
+        success: true,
+        data: { flag },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update flag';
+      const statusCode = message.includes('not found')
+        ? 404
+        : message.includes('prerequisite of other flags')
+          ? 409
+          : 403;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code: statusCode === 404 ? 'NOT_FOUND' : statusCode === 409 ? 'FLAG_IN_USE' : 'UPDATE_ERROR',
+          message,
+        },
+      });
+    }
+  });
+
+  // Re-seed the rollout salt of a flag
+  server.post<{
+    Params: { id: string };
+  }>('/flags/:id/reseed', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id } = request.params;
+
+    try {
+      const flag = await flagService.reseed(id, request.user!.id);
+
       return {
         success: true,
         data: { flag },
@@ -175,8 +245,8 @@ export default async function flagRoutes(server: FastifyInstance) {
       return reply.code(statusCode).send({
         success: false,
         error: {
-          code: statusCode === 404 ? 'NOT_FOUND' : 'UPDATE_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to update flag',
+          code: statusCode === 404 ? 'NOT_FOUND' : 'RESEED_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to re-seed flag',
         },
       });
     }
@@ -198,12 +268,17 @@ export default async function flagRoutes(server: FastifyInstance) {
         data: { message: 'Flag archived successfully' },
       };
     } catch (error) {
-      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 403;
+      const message = error instanceof Error ? error.message : 'Failed to archive flag';
+      const statusCode = message.includes('not found')
+        ? 404
+        : message.includes('prerequisite of other flags')
+          ? 409
+          : 403;
       return reply.code(statusCode).send({
         success: false,
         error: {
-          code: statusCode === 404 ? 'NOT_FOUND' : 'DELETE_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to archive flag',
+          code: statusCode === 404 ? 'NOT_FOUND' : statusCode === 409 ? 'FLAG_IN_USE' : 'DELETE_ERROR',
+          message,
         },
       });
     }
@@ -235,6 +310,51 @@ export default async function flagRoutes(server: FastifyInstance) {
     }
   });
 
+  // Explain how a flag evaluates for a context, step by step
+  server.post<{
+    Params: { id: string; environmentId: string };
+    Body: z.infer<typeof explainFlagSchema>;
+  }>('/flags/:id/environments/:environmentId/explain', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, environmentId } = request.params;
+    const validation = explainFlagSchema.safeParse(request.body ?? {});
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const explanation = await flagService.explain(
+        id,
+        environmentId,
+        request.user!.id,
+        validation.data.context
+      );
+
+      return {
+        success: true,
+        data: explanation,
+      };
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 403;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code: statusCode === 404 ? 'NOT_FOUND' : 'FORBIDDEN',
+          message: error instanceof Error ? error.message : 'Access denied',
+        },
+      });
+    }
+  });
+
   // Update environment-specific config
   server.put<{
     Params: { id: string; environmentId: string };
@@ -269,6 +389,18 @@ export default async function flagRoutes(server: FastifyInstance) {
         data: { config },
       };
     } catch (error) {
+      // Rules that reference unknown variations fail with field paths, like schema errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.errors[0].message,
+            details: error.errors,
+          },
+        });
+      }
+
       return reply.code(400).send({
         success: false,
         error: {
@@ -323,6 +455,100 @@ export default async function flagRoutes(server: FastifyInstance) {
     }
   });
 
+  // Add context keys to a variation's individual targets
+  server.post<{
+    Params: { id: string; environmentId: string; variationKey: string };
+    Body: { contextKeys: string[] };
+  }>('/flags/:id/environments/:environmentId/targets/:variationKey', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, environmentId, variationKey } = request.params;
+    const validation = individualTargetsSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const config = await flagService.addIndividualTargets(
+        id,
+        environmentId,
+        request.user!.id,
+        variationKey,
+        validation.data.contextKeys
+      );
+
+      return {
+        success: true,
+        data: { config },
+      };
+    } catch (error) {
+      const statusCode =
+        error instanceof Error && error.message.includes('modified concurrently') ? 409 : 400;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code: statusCode === 409 ? 'CONFLICT' : 'UPDATE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to add individual targets',
+        },
+      });
+    }
+  });
+
+  // Remove context keys from a variation's individual targets
+  server.delete<{
+    Params: { id: string; environmentId: string; variationKey: string };
+    Body: { contextKeys: string[] };
+  }>('/flags/:id/environments/:environmentId/targets/:variationKey', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, environmentId, variationKey } = request.params;
+    const validation = individualTargetsSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const config = await flagService.removeIndividualTargets(
+        id,
+        environmentId,
+        request.user!.id,
+        variationKey,
+        validation.data.contextKeys
+      );
+
+      return {
+        success: true,
+        data: { config },
+      };
+    } catch (error) {
+      const statusCode =
+        error instanceof Error && error.message.includes('modified concurrently') ? 409 : 400;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code: statusCode === 409 ? 'CONFLICT' : 'UPDATE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to remove individual targets',
+        },
+      });
+    }
+  });
+
   // Get all environment configs for a flag
   server.get<{
     Params: { id: string };
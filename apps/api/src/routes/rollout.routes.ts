@@ -0,0 +1,135 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { rolloutService } from '../services/rollout.service';
+
+const startRolloutPlanSchema = z.object({
+  steps: z
+    .array(
+      z.object({
+        percentage: z.number().min(0).max(100),
+        durationMinutes: z.number().int().min(0),
+      })
+    )
+    .min(2, 'A rollout plan needs at least two steps'),
+});
+
+type RolloutParams = { id: string; environmentId: string };
+
+function sendRolloutError(reply: FastifyReply, error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : fallback;
+  const statusCode = message.includes('not found')
+    ? 404
+    : message.includes('No ') ||
+        message.includes('already in progress') ||
+        message.includes('modified concurrently')
+      ? 409
+      : 400;
+
+  return reply.code(statusCode).send({
+    success: false,
+    error: {
+      code: statusCode === 404 ? 'NOT_FOUND' : statusCode === 409 ? 'CONFLICT' : 'ROLLOUT_ERROR',
+      message,
+    },
+  });
+}
+
+export default async function rolloutRoutes(server: FastifyInstance) {
+  // Start a progressive rollout plan
+  server.put<{
+    Params: RolloutParams;
+    Body: z.infer<typeof startRolloutPlanSchema>;
+  }>('/flags/:id/environments/:environmentId/rollout-plan', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, environmentId } = request.params;
+    const validation = startRolloutPlanSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const config = await rolloutService.start(
+        id,
+        environmentId,
+        request.user!.id,
+        validation.data.steps
+      );
+
+      return {
+        success: true,
+        data: { config },
+      };
+    } catch (error) {
+      return sendRolloutError(reply, error, 'Failed to start rollout plan');
+    }
+  });
+
+  // Pause an active rollout plan at its current step
+  server.post<{
+    Params: RolloutParams;
+  }>('/flags/:id/environments/:environmentId/rollout-plan/pause', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, environmentId } = request.params;
+
+    try {
+      const config = await rolloutService.pause(id, environmentId, request.user!.id);
+
+      return {
+        success: true,
+        data: { config },
+      };
+    } catch (error) {
+      return sendRolloutError(reply, error, 'Failed to pause rollout plan');
+    }
+  });
+
+  // Resume a paused rollout plan
+  server.post<{
+    Params: RolloutParams;
+  }>('/flags/:id/environments/:environmentId/rollout-plan/resume', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, environmentId } = request.params;
+
+    try {
+      const config = await rolloutService.resume(id, environmentId, request.user!.id);
+
+      return {
+        success: true,
+        data: { config },
+      };
+    } catch (error) {
+      return sendRolloutError(reply, error, 'Failed to resume rollout plan');
+    }
+  });
+
+  // Abort a rollout plan and roll back to 0%
+  server.post<{
+    Params: RolloutParams;
+  }>('/flags/:id/environments/:environmentId/rollout-plan/abort', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, environmentId } = request.params;
+
+    try {
+      const config = await rolloutService.abort(id, environmentId, request.user!.id);
+
+      return {
+        success: true,
+        data: { config },
+      };
+    } catch (error) {
+      return sendRolloutError(reply, error, 'Failed to abort rollout plan');
+    }
+  });
+}
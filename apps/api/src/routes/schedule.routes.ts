@@ -0,0 +1,148 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import { ScheduledChangeAction, ScheduledChangeStatus } from '@flagkit/database';
+import { scheduleService } from '../services/schedule.service';
+
+const createScheduledChangeSchema = z.object({
+  action: z.nativeEnum(ScheduledChangeAction),
+  value: z.unknown().optional(),
+  scheduledFor: z.coerce.date(),
+  comment: z.string().max(500).optional(),
+});
+
+const listScheduledChangesSchema = z.object({
+  environmentId: z.string().optional(),
+  status: z.nativeEnum(ScheduledChangeStatus).optional(),
+});
+
+export default async function scheduleRoutes(server: FastifyInstance) {
+  // List scheduled changes for a flag
+  server.get<{
+    Params: { id: string };
+    Querystring: { environmentId?: string; status?: ScheduledChangeStatus };
+  }>('/flags/:id/scheduled-changes', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id } = request.params;
+    const validation = listScheduledChangesSchema.safeParse(request.query);
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const changes = await scheduleService.list(id, request.user!.id, validation.data);
+
+      return {
+        success: true,
+        data: { changes },
+      };
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 403;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code: statusCode === 404 ? 'NOT_FOUND' : 'FORBIDDEN',
+          message: error instanceof Error ? error.message : 'Access denied',
+        },
+      });
+    }
+  });
+
+  // Schedule a change to a flag's environment config
+  server.post<{
+    Params: { id: string; environmentId: string };
+    Body: z.input<typeof createScheduledChangeSchema>;
+  }>('/flags/:id/environments/:environmentId/scheduled-changes', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, environmentId } = request.params;
+    const validation = createScheduledChangeSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const change = await scheduleService.create(
+        id,
+        environmentId,
+        request.user!.id,
+        validation.data
+      );
+
+      return reply.code(201).send({
+        success: true,
+        data: { change },
+      });
+    } catch (error) {
+      // Targeting rules that don't validate fail with field paths, like schema errors
+      if (error instanceof z.ZodError) {
+        return reply.code(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: error.errors[0].message,
+            details: error.errors,
+          },
+        });
+      }
+
+      const message = error instanceof Error ? error.message : 'Failed to schedule change';
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: message.startsWith('Invalid ') ? 'VALIDATION_ERROR' : 'SCHEDULE_ERROR',
+          message,
+        },
+      });
+    }
+  });
+
+  // Cancel a pending scheduled change
+  server.delete<{
+    Params: { id: string; changeId: string };
+  }>('/flags/:id/scheduled-changes/:changeId', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { id, changeId } = request.params;
+
+    try {
+      const change = await scheduleService.cancel(id, changeId, request.user!.id);
+
+      return {
+        success: true,
+        data: { change },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to cancel scheduled change';
+      const statusCode = message.includes('not found')
+        ? 404
+        : message.includes('already')
+          ? 409
+          : 403;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code:
+            statusCode === 404 ? 'NOT_FOUND' : statusCode === 409 ? 'NOT_PENDING' : 'CANCEL_ERROR',
+          message,
+        },
+      });
+    }
+  });
+}
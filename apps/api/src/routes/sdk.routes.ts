@@ -1,18 +1,39 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { sdkService, EvaluationContext } from '../services/sdk.service';
+import { EvaluationContextSchema } from '@flagkit/types';
+import { sdkService, EvaluationContext, VersionedResponse } from '../services/sdk.service';
 
 const evaluateRequestSchema = z.object({
   flagKey: z.string().min(1),
-  context: z
-    .object({
-      userId: z.string().optional(),
-      sessionId: z.string().optional(),
-      attributes: z.record(z.unknown()).optional(),
-    })
-    .optional(),
+  context: EvaluationContextSchema.optional(),
 });
 
+const flagsRequestSchema = z.object({
+  context: EvaluationContextSchema.optional(),
+});
+
+const deltaQuerySchema = z.object({
+  since: z.coerce.number().int().min(0),
+});
+
+/**
+ * Reply with versioned flags and their ETag, or 304 Not Modified when the SDK's tag is current
+ */
+function sendVersionedFlags(reply: FastifyReply, result: VersionedResponse<unknown>) {
+  if (result.etag) {
+    reply.header('ETag', result.etag);
+  }
+
+  if (!result.modified) {
+    return reply.code(304).send();
+  }
+
+  return {
+    success: true,
+    data: result.response,
+  };
+}
+
 export default async function sdkRoutes(server: FastifyInstance) {
   // Get all flags for client SDK
   server.get<{
@@ -21,7 +42,12 @@ export default async function sdkRoutes(server: FastifyInstance) {
     const { sdkKey } = request.params;
 
     try {
-      const result = await sdkService.getAllFlags(sdkKey, 'client');
+      const result = await sdkService.getVersionedFlags(
+        sdkKey,
+        'client',
+        undefined,
+        request.headers['if-none-match']
+      );
 
       if (!result) {
         return reply.code(401).send({
@@ -33,10 +59,162 @@ export default async function sdkRoutes(server: FastifyInstance) {
         });
       }
 
-      return {
-        success: true,
-        data: result,
-      };
+      return sendVersionedFlags(reply, result);
+    } catch (error) {
+      return reply.code(500).send({
+        success: false,
+        error: {
+          code: 'EVALUATION_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to evaluate flags',
+        },
+      });
+    }
+  });
+
+  // Evaluate all flags with context for client SDK
+  server.post<{
+    Params: { sdkKey: string };
+    Body: { context?: EvaluationContext };
+  }>('/sdk/v1/client/:sdkKey/flags', async (request, reply) => {
+    const { sdkKey } = request.params;
+    const validation = flagsRequestSchema.safeParse(request.body ?? {});
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const result = await sdkService.getVersionedFlags(
+        sdkKey,
+        'client',
+        validation.data.context,
+        request.headers['if-none-match']
+      );
+
+      if (!result) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_SDK_KEY',
+            message: 'Invalid client SDK key',
+          },
+        });
+      }
+
+      return sendVersionedFlags(reply, result);
+    } catch (error) {
+      return reply.code(500).send({
+        success: false,
+        error: {
+          code: 'EVALUATION_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to evaluate flags',
+        },
+      });
+    }
+  });
+
+  // Get flags changed since a config version for client SDK
+  server.get<{
+    Params: { sdkKey: string };
+    Querystring: { since?: string };
+  }>('/sdk/v1/client/:sdkKey/flags/delta', async (request, reply) => {
+    const { sdkKey } = request.params;
+    const query = deltaQuerySchema.safeParse(request.query);
+
+    if (!query.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: query.error.errors[0].message,
+          details: query.error.errors,
+        },
+      });
+    }
+
+    try {
+      const result = await sdkService.getFlagDeltas(
+        sdkKey,
+        'client',
+        query.data.since,
+        undefined,
+        request.headers['if-none-match']
+      );
+
+      if (!result) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_SDK_KEY',
+            message: 'Invalid client SDK key',
+          },
+        });
+      }
+
+      return sendVersionedFlags(reply, result);
+    } catch (error) {
+      return reply.code(500).send({
+        success: false,
+        error: {
+          code: 'EVALUATION_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to evaluate flags',
+        },
+      });
+    }
+  });
+
+  // Evaluate flags changed since a config version with context for client SDK
+  server.post<{
+    Params: { sdkKey: string };
+    Querystring: { since?: string };
+    Body: { context?: EvaluationContext };
+  }>('/sdk/v1/client/:sdkKey/flags/delta', async (request, reply) => {
+    const { sdkKey } = request.params;
+    const query = deltaQuerySchema.safeParse(request.query);
+    const validation = flagsRequestSchema.safeParse(request.body ?? {});
+
+    if (!query.success || !validation.success) {
+      const errors = [
+        ...(query.success ? [] : query.error.errors),
+        ...(validation.success ? [] : validation.error.errors),
+      ];
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errors[0].message,
+          details: errors,
+        },
+      });
+    }
+
+    try {
+      const result = await sdkService.getFlagDeltas(
+        sdkKey,
+        'client',
+        query.data.since,
+        validation.data.context,
+        request.headers['if-none-match']
+      );
+
+      if (!result) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_SDK_KEY',
+            message: 'Invalid client SDK key',
+          },
+        });
+      }
+
+      return sendVersionedFlags(reply, result);
     } catch (error) {
       return reply.code(500).send({
         success: false,
@@ -55,7 +233,43 @@ export default async function sdkRoutes(server: FastifyInstance) {
     const { sdkKey } = request.params;
 
     try {
-      const result = await sdkService.getAllFlags(sdkKey, 'server');
+      const result = await sdkService.getVersionedFlags(
+        sdkKey,
+        'server',
+        undefined,
+        request.headers['if-none-match']
+      );
+
+      if (!result) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_SDK_KEY',
+            message: 'Invalid server SDK key',
+          },
+        });
+      }
+
+      return sendVersionedFlags(reply, result);
+    } catch (error) {
+      return reply.code(500).send({
+        success: false,
+        error: {
+          code: 'EVALUATION_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to evaluate flags',
+        },
+      });
+    }
+  });
+
+  // Get the full ruleset for server SDKs that evaluate flags locally
+  server.get<{
+    Params: { sdkKey: string };
+  }>('/sdk/v1/server/:sdkKey/rules', async (request, reply) => {
+    const { sdkKey } = request.params;
+
+    try {
+      const result = await sdkService.getRules(sdkKey);
 
       if (!result) {
         return reply.code(401).send({
@@ -71,6 +285,161 @@ export default async function sdkRoutes(server: FastifyInstance) {
         success: true,
         data: result,
       };
+    } catch (error) {
+      return reply.code(500).send({
+        success: false,
+        error: {
+          code: 'RULES_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to load rules',
+        },
+      });
+    }
+  });
+
+  // Evaluate all flags with context for server SDK
+  server.post<{
+    Params: { sdkKey: string };
+    Body: { context?: EvaluationContext };
+  }>('/sdk/v1/server/:sdkKey/flags', async (request, reply) => {
+    const { sdkKey } = request.params;
+    const validation = flagsRequestSchema.safeParse(request.body ?? {});
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const result = await sdkService.getVersionedFlags(
+        sdkKey,
+        'server',
+        validation.data.context,
+        request.headers['if-none-match']
+      );
+
+      if (!result) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_SDK_KEY',
+            message: 'Invalid server SDK key',
+          },
+        });
+      }
+
+      return sendVersionedFlags(reply, result);
+    } catch (error) {
+      return reply.code(500).send({
+        success: false,
+        error: {
+          code: 'EVALUATION_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to evaluate flags',
+        },
+      });
+    }
+  });
+
+  // Get flags changed since a config version for server SDK
+  server.get<{
+    Params: { sdkKey: string };
+    Querystring: { since?: string };
+  }>('/sdk/v1/server/:sdkKey/flags/delta', async (request, reply) => {
+    const { sdkKey } = request.params;
+    const query = deltaQuerySchema.safeParse(request.query);
+
+    if (!query.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: query.error.errors[0].message,
+          details: query.error.errors,
+        },
+      });
+    }
+
+    try {
+      const result = await sdkService.getFlagDeltas(
+        sdkKey,
+        'server',
+        query.data.since,
+        undefined,
+        request.headers['if-none-match']
+      );
+
+      if (!result) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_SDK_KEY',
+            message: 'Invalid server SDK key',
+          },
+        });
+      }
+
+      return sendVersionedFlags(reply, result);
+    } catch (error) {
+      return reply.code(500).send({
+        success: false,
+        error: {
+          code: 'EVALUATION_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to evaluate flags',
+        },
+      });
+    }
+  });
+
+  // Evaluate flags changed since a config version with context for server SDK
+  server.post<{
+    Params: { sdkKey: string };
+    Querystring: { since?: string };
+    Body: { context?: EvaluationContext };
+  }>('/sdk/v1/server/:sdkKey/flags/delta', async (request, reply) => {
+    const { sdkKey } = request.params;
+    const query = deltaQuerySchema.safeParse(request.query);
+    const validation = flagsRequestSchema.safeParse(request.body ?? {});
+
+    if (!query.success || !validation.success) {
+      const errors = [
+        ...(query.success ? [] : query.error.errors),
+        ...(validation.success ? [] : validation.error.errors),
+      ];
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: errors[0].message,
+          details: errors,
+        },
+      });
+    }
+
+    try {
+      const result = await sdkService.getFlagDeltas(
+        sdkKey,
+        'server',
+        query.data.since,
+        validation.data.context,
+        request.headers['if-none-match']
+      );
+
+      if (!result) {
+        return reply.code(401).send({
+          success: false,
+          error: {
+            code: 'INVALID_SDK_KEY',
+            message: 'Invalid server SDK key',
+          },
+        });
+      }
+
+      return sendVersionedFlags(reply, result);
     } catch (error) {
       return reply.code(500).send({
         success: false,
@@ -0,0 +1,225 @@
+import { FastifyInstance } from 'fastify';
+import { z } from 'zod';
+import {
+  segmentService,
+  CreateSegmentInput,
+  UpdateSegmentInput,
+} from '../services/segment.service';
+import { ConditionOperator, ConditionLogic } from '@flagkit/evaluator';
+
+const timeWindowSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  days: z.array(z.number().int().min(0).max(6)).optional(),
+  timezone: z.string().optional(),
+});
+
+const conditionSchema = z.object({
+  attribute: z.string().min(1, 'Attribute is required'),
+  operator: z
+    .nativeEnum(ConditionOperator)
+    .refine(
+      (operator) =>
+        operator !== ConditionOperator.IN_SEGMENT && operator !== ConditionOperator.NOT_IN_SEGMENT,
+      'Segments cannot reference other segments'
+    ),
+  value: z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.array(z.string()),
+    z.array(z.number()),
+    timeWindowSchema,
+  ]),
+});
+
+const createSegmentSchema = z.object({
+  key: z
+    .string()
+    .min(2, 'Key must be at least 2 characters')
+    .max(100)
+    .regex(/^[a-z0-9_-]+$/, 'Key must be lowercase letters, numbers, underscores, and hyphens only'),
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(500).optional(),
+  conditions: z.array(conditionSchema),
+  conditionLogic: z.nativeEnum(ConditionLogic).optional(),
+});
+
+const updateSegmentSchema = z.object({
+  key: z.string().min(2).max(100).regex(/^[a-z0-9_-]+$/).optional(),
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(500).optional(),
+  conditions: z.array(conditionSchema).optional(),
+  conditionLogic: z.nativeEnum(ConditionLogic).optional(),
+});
+
+export default async function segmentRoutes(server: FastifyInstance) {
+  // Create segment
+  server.post<{
+    Body: CreateSegmentInput;
+    Params: { projectId: string };
+  }>('/projects/:projectId/segments', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { projectId } = request.params;
+    const validation = createSegmentSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const segment = await segmentService.create(projectId, request.user!.id, validation.data);
+
+      return {
+        success: true,
+        data: { segment },
+      };
+    } catch (error) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'CREATE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to create segment',
+        },
+      });
+    }
+  });
+
+  // Get all segments for a project
+  server.get<{
+    Params: { projectId: string };
+  }>('/projects/:projectId/segments', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { projectId } = request.params;
+
+    try {
+      const segments = await segmentService.getProjectSegments(projectId, request.user!.id);
+
+      return {
+        success: true,
+        data: { segments },
+      };
+    } catch (error) {
+      return reply.code(403).send({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: error instanceof Error ? error.message : 'Access denied',
+        },
+      });
+    }
+  });
+
+  // Get a single segment
+  server.get<{
+    Params: { projectId: string; segmentId: string };
+  }>('/projects/:projectId/segments/:segmentId', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { projectId, segmentId } = request.params;
+
+    try {
+      const segment = await segmentService.getById(projectId, segmentId, request.user!.id);
+
+      return {
+        success: true,
+        data: { segment },
+      };
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 403;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code: statusCode === 404 ? 'NOT_FOUND' : 'FORBIDDEN',
+          message: error instanceof Error ? error.message : 'Failed to get segment',
+        },
+      });
+    }
+  });
+
+  // Update a segment
+  server.put<{
+    Params: { projectId: string; segmentId: string };
+    Body: UpdateSegmentInput;
+  }>('/projects/:projectId/segments/:segmentId', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { projectId, segmentId } = request.params;
+    const validation = updateSegmentSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.code(400).send({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: validation.error.errors[0].message,
+          details: validation.error.errors,
+        },
+      });
+    }
+
+    try {
+      const segment = await segmentService.update(
+        projectId,
+        segmentId,
+        request.user!.id,
+        validation.data
+      );
+
+      return {
+        success: true,
+        data: { segment },
+      };
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 400;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code: statusCode === 404 ? 'NOT_FOUND' : 'UPDATE_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update segment',
+        },
+      });
+    }
+  });
+
+  // Delete a segment
+  server.delete<{
+    Params: { projectId: string; segmentId: string };
+  }>('/projects/:projectId/segments/:segmentId', async (request, reply) => {
+    await server.authenticate(request, reply);
+
+    const { projectId, segmentId } = request.params;
+
+    try {
+      await segmentService.delete(projectId, segmentId, request.user!.id);
+
+      return {
+        success: true,
+        data: { message: 'Segment deleted successfully' },
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete segment';
+      const statusCode = message.includes('not found')
+        ? 404
+        : message.includes('used by flags')
+          ? 409
+          : 403;
+      return reply.code(statusCode).send({
+        success: false,
+        error: {
+          code: statusCode === 404 ? 'NOT_FOUND' : statusCode === 409 ? 'SEGMENT_IN_USE' : 'DELETE_ERROR',
+          message,
+        },
+      });
+    }
+  });
+}
@@ -0,0 +1,99 @@
+import { FastifyInstance, FastifyBaseLogger } from 'fastify';
+import { EvaluationContextSchema } from '@flagkit/types';
+import { EvaluationContext } from '../services/sdk.service';
+import {
+  streamService,
+  STREAM_CLOSE_CODES,
+  SdkKeyType,
+  StreamOptions,
+  StreamSocket,
+} from '../services/stream.service';
+import { SseSocket } from '../utils/sse';
+
+/**
+ * Parse the JSON-encoded context a client stream is evaluated for
+ */
+function parseStreamContext(value: string): EvaluationContext | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  const validation = EvaluationContextSchema.safeParse(parsed);
+  return validation.success ? validation.data : null;
+}
+
+function getLastEventId(header: string | string[] | undefined): string | undefined {
+  return Array.isArray(header) ? header[0] : header;
+}
+
+export default async function streamRoutes(server: FastifyInstance) {
+  const openStream = async (
+    socket: StreamSocket,
+    log: FastifyBaseLogger,
+    sdkKey: string,
+    keyType: SdkKeyType,
+    encodedContext?: string,
+    options?: StreamOptions
+  ) => {
+    let context: EvaluationContext | undefined;
+
+    if (encodedContext) {
+      const parsed = parseStreamContext(encodedContext);
+      if (!parsed) {
+        socket.close(STREAM_CLOSE_CODES.INVALID_CONTEXT, 'Invalid context');
+        return;
+      }
+      context = parsed;
+    }
+
+    try {
+      await streamService.connect(socket, sdkKey, keyType, context, options);
+    } catch (err) {
+      log.error(err as Error, 'Failed to open flag stream');
+      socket.close(1011, 'Failed to open stream');
+    }
+  };
+
+  // Stream flag evaluations to client SDKs, for the context given as JSON in ?context=
+  server.get<{
+    Params: { sdkKey: string };
+    Querystring: { context?: string };
+  }>('/sdk/v1/client/:sdkKey/stream', { websocket: true }, (connection, request) =>
+    openStream(connection.socket, request.log, request.params.sdkKey, 'client', request.query.context)
+  );
+
+  // Stream flag definitions to server SDKs
+  server.get<{
+    Params: { sdkKey: string };
+  }>('/sdk/v1/server/:sdkKey/stream', { websocket: true }, (connection, request) =>
+    openStream(connection.socket, request.log, request.params.sdkKey, 'server')
+  );
+
+  // The same streams as Server-Sent Events, for networks whose proxies drop WebSockets.
+  // Reconnecting streams send Last-Event-ID to only receive what they missed.
+  server.get<{
+    Params: { sdkKey: string };
+    Querystring: { context?: string };
+  }>('/sdk/v1/client/:sdkKey/sse', async (request, reply) => {
+    const socket = new SseSocket(reply);
+    await openStream(socket, request.log, request.params.sdkKey, 'client', request.query.context, {
+      protocol: 'sse',
+      lastEventId: getLastEventId(request.headers['last-event-id']),
+    });
+    socket.open();
+  });
+
+  server.get<{
+    Params: { sdkKey: string };
+  }>('/sdk/v1/server/:sdkKey/sse', async (request, reply) => {
+    const socket = new SseSocket(reply);
+    await openStream(socket, request.log, request.params.sdkKey, 'server', undefined, {
+      protocol: 'sse',
+      lastEventId: getLastEventId(request.headers['last-event-id']),
+    });
+    socket.open();
+  });
+}
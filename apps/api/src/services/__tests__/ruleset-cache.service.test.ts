@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type Redis from 'ioredis';
+import {
+  CachedRuleset,
+  MemoryRulesetCache,
+  RedisRulesetCache,
+  rulesetCacheKey,
+} from '../ruleset-cache.service';
+
+const ruleset: CachedRuleset = {
+  environment: {
+    id: 'env-1',
+    name: 'Production',
+    key: 'prod',
+    projectId: 'proj-1',
+    configVersion: 3,
+  },
+  flags: [
+    {
+      key: 'launch',
+      variations: [{ key: 'true', value: true }],
+      config: null,
+    },
+  ],
+  segments: {},
+};
+
+describe('rulesetCacheKey', () => {
+  it('should keep client and server keys apart', () => {
+    expect(rulesetCacheKey('key-1', 'client')).not.toBe(rulesetCacheKey('key-1', 'server'));
+  });
+});
+
+describe('MemoryRulesetCache', () => {
+  let cache: MemoryRulesetCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    cache = new MemoryRulesetCache(60_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should serve cached rulesets until they expire', async () => {
+    await cache.add('client:key-1', ruleset);
+    expect(await cache.get('client:key-1')).toEqual(ruleset);
+    expect(await cache.get('client:key-2')).toBeNull();
+
+    vi.advanceTimersByTime(60_000);
+
+    expect(await cache.get('client:key-1')).toBeNull();
+  });
+
+  it('should only cache rulesets at least as new as the last invalidation', async () => {
+    await cache.add('client:key-1', ruleset);
+    await cache.invalidate(['client:key-1'], 4);
+
+    // A ruleset loaded before the change finishes after the invalidation
+    await cache.add('client:key-1', ruleset);
+    expect(await cache.get('client:key-1')).toBeNull();
+
+    const current = { ...ruleset, environment: { ...ruleset.environment, configVersion: 4 } };
+    await cache.add('client:key-1', current);
+    expect(await cache.get('client:key-1')).toEqual(current);
+
+    // Invalidations that arrive late don't drop newer rulesets
+    await cache.invalidate(['client:key-1'], 3);
+    expect(await cache.get('client:key-1')).toEqual(current);
+  });
+
+  it('should not cache keys invalidated without a config version again', async () => {
+    await cache.invalidate(['client:key-1']);
+    await cache.add('client:key-1', ruleset);
+
+    expect(await cache.get('client:key-1')).toBeNull();
+  });
+
+  it('should keep a bounded number of entries, sweeping expired ones first', async () => {
+    const bounded = new MemoryRulesetCache(60_000, 2);
+
+    await bounded.add('client:key-1', ruleset);
+    vi.advanceTimersByTime(30_000);
+    await bounded.add('client:key-2', ruleset);
+    vi.advanceTimersByTime(30_000);
+    await bounded.add('client:key-3', ruleset);
+    await bounded.add('client:key-4', ruleset);
+
+    expect(await bounded.get('client:key-2')).toBeNull();
+    expect(await bounded.get('client:key-3')).toEqual(ruleset);
+    expect(await bounded.get('client:key-4')).toEqual(ruleset);
+  });
+});
+
+describe('RedisRulesetCache', () => {
+  const createRedis = () => {
+    const pipeline = { eval: vi.fn(), exec: vi.fn().mockResolvedValue([]) };
+    return {
+      get: vi.fn(),
+      eval: vi.fn().mockResolvedValue(1),
+      pipeline: vi.fn(() => pipeline),
+      quit: vi.fn(),
+      pipelineCommands: pipeline,
+    };
+  };
+
+  it('should store rulesets as JSON behind their config version', async () => {
+    const redis = createRedis();
+    const cache = new RedisRulesetCache(redis as unknown as Redis, 60_000);
+
+    await cache.add('server:key-1', ruleset);
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      'flagkit:ruleset:server:key-1',
+      3,
+      JSON.stringify(ruleset),
+      60_000
+    );
+
+    redis.get.mockResolvedValueOnce(`3|${JSON.stringify(ruleset)}`).mockResolvedValueOnce('4|');
+    expect(await cache.get('server:key-1')).toEqual(ruleset);
+    expect(await cache.get('server:key-1')).toBeNull();
+  });
+
+  it('should mark invalidated keys with the config version of the change', async () => {
+    const redis = createRedis();
+    const cache = new RedisRulesetCache(redis as unknown as Redis, 60_000);
+
+    await cache.invalidate(['client:key-1', 'server:key-2'], 4);
+
+    expect(redis.pipelineCommands.eval.mock.calls).toEqual([
+      [expect.any(String), 1, 'flagkit:ruleset:client:key-1', 4, '', 60_000],
+      [expect.any(String), 1, 'flagkit:ruleset:server:key-2', 4, '', 60_000],
+    ]);
+    expect(redis.pipelineCommands.exec).toHaveBeenCalled();
+  });
+
+  it('should treat Redis errors as cache misses', async () => {
+    const redis = createRedis();
+    redis.get.mockRejectedValue(new Error('Connection is closed.'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = new RedisRulesetCache(redis as unknown as Redis, 60_000);
+
+    expect(await cache.get('client:key-1')).toBeNull();
+    expect(consoleError).toHaveBeenCalled();
+
+    consoleError.mockRestore();
+  });
+});
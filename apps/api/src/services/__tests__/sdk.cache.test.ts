@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma, Environment, Flag } from '@flagkit/database';
+import { sdkService } from '../sdk.service';
+import { rulesetCache, rulesetCacheKey } from '../ruleset-cache.service';
+
+vi.mock('@flagkit/database', () => ({
+  prisma: {
+    environment: {
+      findFirst: vi.fn(),
+    },
+    flag: {
+      findMany: vi.fn(),
+    },
+    segment: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+  },
+}));
+
+// The cache is disabled in tests by default
+vi.mock('../ruleset-cache.service', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../ruleset-cache.service')>();
+  return { ...actual, rulesetCache: new actual.MemoryRulesetCache(60_000) };
+});
+
+describe('SdkService with the ruleset cache', () => {
+  let sdkKey = 0;
+  let clientSdkKey: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // A new key per test, since cached rulesets outlive tests
+    clientSdkKey = `client-sdk-key-${++sdkKey}`;
+
+    vi.mocked(prisma.environment.findFirst).mockResolvedValue({
+      id: 'env-1',
+      name: 'Production',
+      key: 'prod',
+      projectId: 'proj-1',
+      configVersion: 3,
+    } as Environment);
+    vi.mocked(prisma.flag.findMany).mockResolvedValue([
+      {
+        id: 'flag-1',
+        key: 'launch',
+        status: 'ACTIVE',
+        variations: [{ key: 'true', value: JSON.stringify(true) }],
+        envConfigs: [],
+      },
+    ] as unknown as Flag[]);
+  });
+
+  it('should serve SDK requests for a key from its cached ruleset', async () => {
+    const first = await sdkService.getVersionedFlags(clientSdkKey, 'client');
+    const notModified = await sdkService.getVersionedFlags(clientSdkKey, 'client', undefined, first!.etag!);
+    const evaluation = await sdkService.evaluateFlag(clientSdkKey, 'client', 'launch');
+
+    expect(notModified).toEqual({ modified: false, etag: first!.etag });
+    expect(evaluation?.reason).toEqual({ kind: 'NO_CONFIG' });
+    expect(prisma.environment.findFirst).toHaveBeenCalledTimes(1);
+    expect(prisma.flag.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not serve a client key\'s cached ruleset to the server key endpoints', async () => {
+    await sdkService.getVersionedFlags(clientSdkKey, 'client');
+    vi.mocked(prisma.environment.findFirst).mockResolvedValue(null);
+
+    expect(await sdkService.getRules(clientSdkKey)).toBeNull();
+  });
+
+  it('should load the ruleset again once the key is invalidated', async () => {
+    await sdkService.getVersionedFlags(clientSdkKey, 'client');
+    await rulesetCache!.invalidate([rulesetCacheKey(clientSdkKey, 'client')]);
+    await sdkService.getVersionedFlags(clientSdkKey, 'client');
+
+    expect(prisma.flag.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache unknown SDK keys', async () => {
+    vi.mocked(prisma.environment.findFirst).mockResolvedValue(null);
+
+    expect(await sdkService.getVersionedFlags(clientSdkKey, 'client')).toBeNull();
+    expect(await sdkService.getVersionedFlags(clientSdkKey, 'client')).toBeNull();
+    expect(prisma.environment.findFirst).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { prisma, Environment, Flag, FlagVariation, FlagEnvironmentConfig, Segment } from '@flagkit/database';
+import type { FlagDefinition } from '@flagkit/evaluator';
+import { loadConformanceSuites } from '@flagkit/evaluator/conformance';
+import { sdkService } from '../sdk.service';
+
+// Mock the prisma client
+vi.mock('@flagkit/database', () => ({
+  prisma: {
+    environment: {
+      findFirst: vi.fn(),
+    },
+    flag: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+    },
+    segment: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+type FlagWithEnvConfig = Flag & {
+  variations: FlagVariation[];
+  envConfigs: FlagEnvironmentConfig[];
+};
+
+/**
+ * Store a fixture flag the way the database does, with JSON encoded variation values
+ */
+function toDatabaseFlag(definition: FlagDefinition): FlagWithEnvConfig {
+  const { config } = definition;
+
+  return {
+    id: `flag-${definition.key}`,
+    key: definition.key,
+    salt: definition.salt ?? null,
+    status: 'ACTIVE',
+    variations: definition.variations.map((variation) => ({
+      key: variation.key,
+      value: JSON.stringify(variation.value),
+    })),
+    envConfigs: config
+      ? [
+          {
+            ...config,
+            targetingRules: config.targetingRules ?? [],
+            defaultDistribution: config.defaultDistribution ?? null,
+            bucketBy: config.bucketBy ?? 'userId',
+            bucketingVersion: config.bucketingVersion ?? 1,
+            prerequisites: config.prerequisites ?? [],
+            individualTargets: config.individualTargets ?? {},
+            rolloutPlan: config.rolloutPlanned ? { status: 'ACTIVE' } : null,
+          },
+        ]
+      : [],
+  } as unknown as FlagWithEnvConfig;
+}
+
+describe('SdkService conformance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.environment.findFirst).mockResolvedValue({
+      id: 'env-1',
+      name: 'Production',
+      key: 'prod',
+      projectId: 'proj-1',
+    } as Environment);
+  });
+
+  for (const suite of loadConformanceSuites()) {
+    describe(suite.name, () => {
+      const flags = suite.flags.map(toDatabaseFlag);
+      const segments = Object.values(suite.segments ?? {}).map(
+        (segment) => ({ ...segment, projectId: 'proj-1' }) as unknown as Segment
+      );
+
+      beforeEach(() => {
+        vi.mocked(prisma.flag.findMany).mockResolvedValue(flags);
+        vi.mocked(prisma.segment.findMany).mockResolvedValue(segments);
+      });
+
+      for (const testCase of suite.cases) {
+        it(testCase.name, async () => {
+          const result = await sdkService.getAllFlags('server-sdk-key', 'server', testCase.context);
+
+          expect(result?.flags[testCase.flagKey]).toEqual({
+            key: testCase.flagKey,
+            ...testCase.expected,
+          });
+        });
+      }
+    });
+  }
+});
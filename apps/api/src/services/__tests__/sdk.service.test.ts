@@ -1,5 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { prisma, Environment, Flag, FlagVariation, FlagEnvironmentConfig } from '@flagkit/database';
+import {
+  prisma,
+  Environment,
+  EnvironmentConfigChange,
+  Flag,
+  FlagVariation,
+  FlagEnvironmentConfig,
+  Segment,
+} from '@flagkit/database';
 import { sdkService } from '../sdk.service';
 
 // Mock the prisma client
@@ -10,7 +18,13 @@ vi.mock('@flagkit/database', () => ({
     },
     flag: {
       findMany: vi.fn(),
-      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    segment: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    environmentConfigChange: {
+      findMany: vi.fn(),
     },
     flagEvaluation: {
       create: vi.fn(),
@@ -44,6 +58,7 @@ describe('SdkService', () => {
           name: true,
           key: true,
           projectId: true,
+          configVersion: true,
         },
       });
     });
@@ -68,6 +83,7 @@ describe('SdkService', () => {
           name: true,
           key: true,
           projectId: true,
+          configVersion: true,
         },
       });
     });
@@ -174,7 +190,7 @@ describe('SdkService', () => {
       expect(result?.flags['disabled-flag']).toBeDefined();
       expect(result?.flags['disabled-flag'].value).toBe(false);
       expect(result?.flags['disabled-flag'].enabled).toBe(false);
-      expect(result?.flags['disabled-flag'].reason).toBe('DISABLED');
+      expect(result?.flags['disabled-flag'].reason).toEqual({ kind: 'DISABLED' });
     });
 
     it('should handle flags without configuration', async () => {
@@ -211,7 +227,187 @@ describe('SdkService', () => {
       expect(result?.flags['no-config-flag']).toBeDefined();
       expect(result?.flags['no-config-flag'].value).toBe(false);
       expect(result?.flags['no-config-flag'].enabled).toBe(false);
-      expect(result?.flags['no-config-flag'].reason).toBe('NO_CONFIG');
+      expect(result?.flags['no-config-flag'].reason).toEqual({ kind: 'NO_CONFIG' });
+    });
+
+    it('should apply targeting rules when context is provided', async () => {
+      const mockEnvironment: Partial<Environment> = {
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      };
+
+      type FlagWithRelations = Flag & {
+        variations: Partial<FlagVariation>[];
+        envConfigs: Partial<FlagEnvironmentConfig>[];
+      };
+
+      const mockFlags: Partial<FlagWithRelations>[] = [
+        {
+          id: 'flag-1',
+          key: 'targeted-flag',
+          status: 'ACTIVE',
+          variations: [
+            { key: 'on', value: JSON.stringify('enabled') },
+            { key: 'off', value: JSON.stringify('disabled') },
+          ],
+          envConfigs: [
+            {
+              enabled: true,
+              defaultVariationKey: 'off',
+              fallbackVariationKey: 'off',
+              targetingRules: [
+                {
+                  id: 'rule-1',
+                  conditions: [
+                    {
+                      attribute: 'tier',
+                      operator: 'equals',
+                      value: 'premium',
+                    },
+                  ],
+                  conditionLogic: 'AND',
+                  variationKey: 'on',
+                },
+              ],
+              rolloutPercentage: null,
+            },
+          ],
+        },
+      ];
+
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue(mockFlags as Flag[]);
+
+      const withoutContext = await sdkService.getAllFlags('client-sdk-key', 'client');
+      expect(withoutContext?.flags['targeted-flag'].variationKey).toBe('off');
+      expect(withoutContext?.flags['targeted-flag'].reason).toEqual({ kind: 'DEFAULT' });
+
+      const withContext = await sdkService.getAllFlags('client-sdk-key', 'client', {
+        userId: 'user-123',
+        attributes: { tier: 'premium' },
+      });
+      expect(withContext?.flags['targeted-flag'].value).toBe('enabled');
+      expect(withContext?.flags['targeted-flag'].variationKey).toBe('on');
+      expect(withContext?.flags['targeted-flag'].reason).toEqual({ kind: 'RULE_MATCH', ruleId: 'rule-1', ruleIndex: 0 });
+    });
+
+    it('should serve the fallback variation when a prerequisite fails', async () => {
+      const mockEnvironment: Partial<Environment> = {
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      };
+
+      type FlagWithRelations = Flag & {
+        variations: Partial<FlagVariation>[];
+        envConfigs: Partial<FlagEnvironmentConfig>[];
+      };
+
+      const createFlag = (
+        key: string,
+        config: Partial<FlagEnvironmentConfig>
+      ): Partial<FlagWithRelations> => ({
+        id: key,
+        key,
+        status: 'ACTIVE',
+        variations: [
+          { key: 'on', value: JSON.stringify(true) },
+          { key: 'off', value: JSON.stringify(false) },
+        ],
+        envConfigs: [
+          {
+            enabled: true,
+            defaultVariationKey: 'on',
+            fallbackVariationKey: 'off',
+            targetingRules: null,
+            rolloutPercentage: null,
+            prerequisites: null,
+            ...config,
+          },
+        ],
+      });
+
+      const mockFlags = [
+        createFlag('new-checkout', {}),
+        createFlag('checkout-v2-payments', {
+          prerequisites: [{ flagKey: 'new-checkout', variationKey: 'on' }],
+        }),
+        createFlag('legacy-banner', { enabled: false }),
+        createFlag('banner-animation', {
+          prerequisites: [{ flagKey: 'legacy-banner', variationKey: 'on' }],
+        }),
+        createFlag('missing-dependency', {
+          prerequisites: [{ flagKey: 'archived-flag', variationKey: 'on' }],
+        }),
+      ];
+
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue(mockFlags as Flag[]);
+
+      const result = await sdkService.getAllFlags('client-sdk-key', 'client');
+
+      expect(result?.flags['checkout-v2-payments'].variationKey).toBe('on');
+      expect(result?.flags['checkout-v2-payments'].reason).toEqual({ kind: 'DEFAULT' });
+
+      expect(result?.flags['banner-animation'].variationKey).toBe('off');
+      expect(result?.flags['banner-animation'].value).toBe(false);
+      expect(result?.flags['banner-animation'].reason).toEqual({
+        kind: 'PREREQUISITE_FAILED',
+        prerequisiteKey: 'legacy-banner',
+      });
+
+      expect(result?.flags['missing-dependency'].reason).toEqual({
+        kind: 'PREREQUISITE_FAILED',
+        prerequisiteKey: 'archived-flag',
+      });
+    });
+
+    it('should fail prerequisites that form a cycle instead of recursing', async () => {
+      const mockEnvironment: Partial<Environment> = {
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      };
+
+      type FlagWithRelations = Flag & {
+        variations: Partial<FlagVariation>[];
+        envConfigs: Partial<FlagEnvironmentConfig>[];
+      };
+
+      const createFlag = (key: string, dependsOn: string): Partial<FlagWithRelations> => ({
+        id: key,
+        key,
+        status: 'ACTIVE',
+        variations: [
+          { key: 'on', value: JSON.stringify(true) },
+          { key: 'off', value: JSON.stringify(false) },
+        ],
+        envConfigs: [
+          {
+            enabled: true,
+            defaultVariationKey: 'on',
+            fallbackVariationKey: 'off',
+            targetingRules: null,
+            rolloutPercentage: null,
+            prerequisites: [{ flagKey: dependsOn, variationKey: 'on' }],
+          },
+        ],
+      });
+
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([
+        createFlag('flag-a', 'flag-b'),
+        createFlag('flag-b', 'flag-a'),
+      ] as Flag[]);
+
+      const result = await sdkService.getAllFlags('client-sdk-key', 'client');
+
+      expect(result?.flags['flag-a'].variationKey).toBe('off');
+      expect(result?.flags['flag-b'].variationKey).toBe('off');
     });
 
     it('should return null for invalid SDK key', async () => {
@@ -223,6 +419,270 @@ describe('SdkService', () => {
     });
   });
 
+  describe('getVersionedFlags', () => {
+    type FlagWithRelations = Flag & {
+      variations: Partial<FlagVariation>[];
+      envConfigs: Partial<FlagEnvironmentConfig>[];
+    };
+
+    const createFlag = (targetingRules: unknown = null): Partial<FlagWithRelations> => ({
+      id: 'flag-1',
+      key: 'launch',
+      status: 'ACTIVE',
+      variations: [
+        { key: 'true', value: JSON.stringify(true) },
+        { key: 'false', value: JSON.stringify(false) },
+      ],
+      envConfigs: [
+        {
+          enabled: true,
+          defaultVariationKey: 'false',
+          fallbackVariationKey: 'false',
+          targetingRules: targetingRules as FlagEnvironmentConfig['targetingRules'],
+          rolloutPercentage: null,
+        },
+      ],
+    });
+
+    const mockEnvironment = (configVersion: number) => {
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue({
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+        configVersion,
+      } as Environment);
+    };
+
+    beforeEach(() => {
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([createFlag()] as Flag[]);
+    });
+
+    it('should answer not modified when the SDK has the current version', async () => {
+      mockEnvironment(3);
+      const first = await sdkService.getVersionedFlags('client-sdk-key', 'client', { userId: 'user-1' });
+      expect(first).toMatchObject({ modified: true, etag: expect.stringMatching(/^"3-[0-9a-f]+"$/) });
+
+      const second = await sdkService.getVersionedFlags(
+        'client-sdk-key',
+        'client',
+        { userId: 'user-1' },
+        `W/${first!.etag}`
+      );
+
+      expect(second).toEqual({ modified: false, etag: first!.etag });
+    });
+
+    it('should serve flags again after the version or context changes', async () => {
+      mockEnvironment(3);
+      const first = await sdkService.getVersionedFlags('client-sdk-key', 'client', { userId: 'user-1' });
+
+      const otherContext = await sdkService.getVersionedFlags(
+        'client-sdk-key',
+        'client',
+        { userId: 'user-2' },
+        first!.etag!
+      );
+      expect(otherContext?.modified).toBe(true);
+
+      mockEnvironment(4);
+      const newVersion = await sdkService.getVersionedFlags(
+        'client-sdk-key',
+        'client',
+        { userId: 'user-1' },
+        first!.etag!
+      );
+      expect(newVersion).toMatchObject({ modified: true, etag: expect.stringMatching(/^"4-/) });
+    });
+
+    it('should not tag flags whose rules depend on the current time', async () => {
+      mockEnvironment(3);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([
+        createFlag([
+          {
+            id: 'launch-day',
+            conditions: [{ attribute: 'now', operator: 'after', value: '2025-01-01' }],
+            conditionLogic: 'AND',
+            variationKey: 'true',
+          },
+        ]),
+      ] as Flag[]);
+
+      const result = await sdkService.getVersionedFlags('client-sdk-key', 'client');
+
+      expect(result).toMatchObject({ modified: true, etag: null });
+    });
+  });
+
+  describe('getFlagDeltas', () => {
+    type FlagWithRelations = Flag & {
+      variations: Partial<FlagVariation>[];
+      envConfigs: Partial<FlagEnvironmentConfig>[];
+    };
+
+    const createFlag = (key: string, prerequisites: unknown = null): Partial<FlagWithRelations> => ({
+      id: `flag-${key}`,
+      key,
+      status: 'ACTIVE',
+      variations: [
+        { key: 'true', value: JSON.stringify(true) },
+        { key: 'false', value: JSON.stringify(false) },
+      ],
+      envConfigs: [
+        {
+          enabled: true,
+          defaultVariationKey: 'true',
+          fallbackVariationKey: 'false',
+          rolloutPercentage: null,
+          prerequisites: prerequisites as FlagEnvironmentConfig['prerequisites'],
+        },
+      ],
+    });
+
+    beforeEach(() => {
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue({
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+        configVersion: 5,
+      } as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([
+        createFlag('launch'),
+        createFlag('checkout', [{ flagKey: 'launch', variationKey: 'true' }]),
+        createFlag('banner'),
+      ] as Flag[]);
+    });
+
+    it('should return changed flags, their dependents and archived flags', async () => {
+      vi.mocked(prisma.environmentConfigChange.findMany).mockResolvedValue([
+        { flagKey: 'launch' },
+        { flagKey: 'old-flag' },
+      ] as EnvironmentConfigChange[]);
+
+      const result = await sdkService.getFlagDeltas('client-sdk-key', 'client', 3);
+
+      expect(prisma.environmentConfigChange.findMany).toHaveBeenCalledWith({
+        where: { environmentId: 'env-1', version: { gt: 3, lte: 5 } },
+        select: { flagKey: true },
+      });
+      expect(result).toMatchObject({
+        modified: true,
+        etag: expect.stringMatching(/^"5-/),
+        response: { version: 5, full: false, deleted: ['old-flag'] },
+      });
+      expect(result?.modified && Object.keys(result.response.flags).sort()).toEqual([
+        'checkout',
+        'launch',
+      ]);
+    });
+
+    it('should send a full snapshot when changes since the version are unknown', async () => {
+      // Only one of the two versions since the SDK's is still recorded
+      vi.mocked(prisma.environmentConfigChange.findMany).mockResolvedValue([
+        { flagKey: 'launch' },
+      ] as EnvironmentConfigChange[]);
+
+      const result = await sdkService.getFlagDeltas('client-sdk-key', 'client', 3);
+
+      expect(result).toMatchObject({ modified: true, response: { version: 5, full: true, deleted: [] } });
+      expect(result?.modified && Object.keys(result.response.flags)).toHaveLength(3);
+    });
+
+    it('should send a full snapshot after segment changes', async () => {
+      vi.mocked(prisma.environmentConfigChange.findMany).mockResolvedValue([
+        { flagKey: 'launch' },
+        { flagKey: null },
+      ] as EnvironmentConfigChange[]);
+
+      const result = await sdkService.getFlagDeltas('client-sdk-key', 'client', 3);
+
+      expect(result).toMatchObject({ modified: true, response: { full: true } });
+    });
+
+    it('should only answer not modified to SDKs at the version of the tag', async () => {
+      vi.mocked(prisma.environmentConfigChange.findMany).mockResolvedValue([]);
+
+      const current = await sdkService.getFlagDeltas('client-sdk-key', 'client', 5);
+      const etag = current!.etag!;
+
+      expect(await sdkService.getFlagDeltas('client-sdk-key', 'client', 5, undefined, etag)).toEqual({
+        modified: false,
+        etag,
+      });
+      // An SDK still at an older version needs the changes, whatever tag it sends
+      expect(await sdkService.getFlagDeltas('client-sdk-key', 'client', 3, undefined, etag)).toMatchObject({
+        modified: true,
+      });
+    });
+
+    it('should return null for invalid SDK key', async () => {
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(null);
+
+      const result = await sdkService.getFlagDeltas('invalid-key', 'client', 3);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getRules', () => {
+    it('should return flag definitions with parsed values and project segments', async () => {
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue({
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      } as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([
+        {
+          id: 'flag-1',
+          key: 'checkout',
+          salt: 'abc123',
+          status: 'ACTIVE',
+          variations: [
+            { key: 'on', value: JSON.stringify({ theme: 'dark' }) },
+            { key: 'off', value: JSON.stringify(null) },
+          ],
+          envConfigs: [],
+        },
+      ] as unknown as Flag[]);
+      vi.mocked(prisma.segment.findMany).mockResolvedValueOnce([
+        {
+          key: 'beta',
+          conditions: [{ attribute: 'beta', operator: 'equals', value: true }],
+          conditionLogic: 'AND',
+        },
+      ] as unknown as Segment[]);
+
+      const result = await sdkService.getRules('server-sdk-key');
+
+      expect(prisma.environment.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { serverSdkKey: 'server-sdk-key' } })
+      );
+      expect(result?.environment).toEqual({ id: 'env-1', name: 'Production', key: 'prod' });
+      expect(result?.flags).toEqual([
+        {
+          key: 'checkout',
+          salt: 'abc123',
+          variations: [
+            { key: 'on', value: { theme: 'dark' } },
+            { key: 'off', value: null },
+          ],
+          config: null,
+        },
+      ]);
+      expect(result?.segments.beta.conditionLogic).toBe('AND');
+    });
+
+    it('should return null for invalid SDK key', async () => {
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(null);
+
+      const result = await sdkService.getRules('invalid-key');
+
+      expect(result).toBeNull();
+    });
+  });
+
   describe('evaluateFlag', () => {
     it('should evaluate enabled flag with default variation', async () => {
       const mockEnvironment: Partial<Environment> = {
@@ -257,7 +717,7 @@ describe('SdkService', () => {
       };
 
       vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
-      vi.mocked(prisma.flag.findFirst).mockResolvedValue(mockFlag as Flag);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag] as Flag[]);
 
       const result = await sdkService.evaluateFlag('client-key', 'client', 'test-flag');
 
@@ -266,7 +726,7 @@ describe('SdkService', () => {
       expect(result?.value).toBe(true);
       expect(result?.variationKey).toBe('true');
       expect(result?.enabled).toBe(true);
-      expect(result?.reason).toBe('DEFAULT');
+      expect(result?.reason).toEqual({ kind: 'DEFAULT' });
     });
 
     it('should evaluate disabled flag correctly', async () => {
@@ -302,7 +762,7 @@ describe('SdkService', () => {
       };
 
       vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
-      vi.mocked(prisma.flag.findFirst).mockResolvedValue(mockFlag as Flag);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag] as Flag[]);
 
       const result = await sdkService.evaluateFlag('client-key', 'client', 'test-flag');
 
@@ -310,7 +770,7 @@ describe('SdkService', () => {
       expect(result?.value).toBe(false);
       expect(result?.variationKey).toBe('false');
       expect(result?.enabled).toBe(false);
-      expect(result?.reason).toBe('DISABLED');
+      expect(result?.reason).toEqual({ kind: 'DISABLED' });
     });
 
     it('should evaluate flag with targeting rules', async () => {
@@ -359,7 +819,7 @@ describe('SdkService', () => {
       };
 
       vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
-      vi.mocked(prisma.flag.findFirst).mockResolvedValue(mockFlag as Flag);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag] as Flag[]);
 
       const result = await sdkService.evaluateFlag(
         'client-key',
@@ -372,7 +832,338 @@ describe('SdkService', () => {
       expect(result?.value).toBe('enabled');
       expect(result?.variationKey).toBe('on');
       expect(result?.enabled).toBe(true);
-      expect(result?.reason).toBe('TARGETING_RULE:rule-1');
+      expect(result?.reason).toEqual({ kind: 'RULE_MATCH', ruleId: 'rule-1', ruleIndex: 0 });
+    });
+
+    it('should serve individually targeted users before targeting rules', async () => {
+      const mockEnvironment: Partial<Environment> = {
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      };
+
+      type FlagWithRelations = Flag & {
+        variations: Partial<FlagVariation>[];
+        envConfigs: Partial<FlagEnvironmentConfig>[];
+      };
+
+      const mockFlag: Partial<FlagWithRelations> = {
+        id: 'flag-1',
+        key: 'test-flag',
+        status: 'ACTIVE',
+        variations: [
+          { key: 'on', value: JSON.stringify('enabled') },
+          { key: 'off', value: JSON.stringify('disabled') },
+        ],
+        envConfigs: [
+          {
+            enabled: true,
+            defaultVariationKey: 'off',
+            fallbackVariationKey: 'off',
+            individualTargets: { on: ['qa-1', 'qa-2'], off: ['user-123'] },
+            targetingRules: [
+              {
+                id: 'rule-1',
+                priority: 1,
+                conditions: [
+                  {
+                    attribute: 'userId',
+                    operator: 'equals',
+                    value: 'user-123',
+                  },
+                ],
+                variationKey: 'on',
+              },
+            ],
+            rolloutPercentage: null,
+          },
+        ],
+      };
+
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag] as Flag[]);
+
+      const qaUser = await sdkService.evaluateFlag('client-key', 'client', 'test-flag', {
+        userId: 'qa-2',
+      });
+      expect(qaUser?.variationKey).toBe('on');
+      expect(qaUser?.reason).toEqual({ kind: 'TARGET_MATCH' });
+
+      const excludedUser = await sdkService.evaluateFlag('client-key', 'client', 'test-flag', {
+        userId: 'user-123',
+      });
+      expect(excludedUser?.variationKey).toBe('off');
+      expect(excludedUser?.reason).toEqual({ kind: 'TARGET_MATCH' });
+
+      const otherUser = await sdkService.evaluateFlag('client-key', 'client', 'test-flag', {
+        userId: 'user-456',
+      });
+      expect(otherUser?.reason).toEqual({ kind: 'DEFAULT' });
+    });
+
+    it('should resolve segment conditions against project segments', async () => {
+      const mockEnvironment: Partial<Environment> = {
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      };
+
+      type FlagWithRelations = Flag & {
+        variations: Partial<FlagVariation>[];
+        envConfigs: Partial<FlagEnvironmentConfig>[];
+      };
+
+      const mockFlag: Partial<FlagWithRelations> = {
+        id: 'flag-1',
+        key: 'test-flag',
+        status: 'ACTIVE',
+        variations: [
+          { key: 'on', value: JSON.stringify(true) },
+          { key: 'off', value: JSON.stringify(false) },
+        ],
+        envConfigs: [
+          {
+            enabled: true,
+            defaultVariationKey: 'off',
+            fallbackVariationKey: 'off',
+            targetingRules: [
+              {
+                id: 'beta-rule',
+                conditions: [
+                  {
+                    attribute: '',
+                    operator: 'inSegment',
+                    value: 'beta-testers',
+                  },
+                ],
+                conditionLogic: 'AND',
+                variationKey: 'on',
+              },
+            ],
+            rolloutPercentage: null,
+          },
+        ],
+      };
+
+      const mockSegments: Partial<Segment>[] = [
+        {
+          key: 'beta-testers',
+          conditions: [
+            { attribute: 'email', operator: 'endsWith', value: '@flagkit.io' },
+            { attribute: 'beta', operator: 'equals', value: true },
+          ],
+          conditionLogic: 'OR',
+        },
+      ];
+
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag] as Flag[]);
+      vi.mocked(prisma.segment.findMany).mockResolvedValue(mockSegments as Segment[]);
+
+      const member = await sdkService.evaluateFlag('client-key', 'client', 'test-flag', {
+        userId: 'user-1',
+        attributes: { email: 'dev@flagkit.io' },
+      });
+      expect(member?.variationKey).toBe('on');
+      expect(member?.reason).toEqual({ kind: 'RULE_MATCH', ruleId: 'beta-rule', ruleIndex: 0 });
+
+      const nonMember = await sdkService.evaluateFlag('client-key', 'client', 'test-flag', {
+        userId: 'user-2',
+        attributes: { email: 'someone@example.com', beta: false },
+      });
+      expect(nonMember?.variationKey).toBe('off');
+      expect(nonMember?.reason).toEqual({ kind: 'DEFAULT' });
+    });
+
+    it('should split users across weighted variations deterministically', async () => {
+      const mockEnvironment: Partial<Environment> = {
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      };
+
+      type FlagWithRelations = Flag & {
+        variations: Partial<FlagVariation>[];
+        envConfigs: Partial<FlagEnvironmentConfig>[];
+      };
+
+      const mockFlag: Partial<FlagWithRelations> = {
+        id: 'flag-1',
+        key: 'checkout-experiment',
+        status: 'ACTIVE',
+        variations: [
+          { key: 'control', value: JSON.stringify('control') },
+          { key: 'variant-a', value: JSON.stringify('a') },
+          { key: 'variant-b', value: JSON.stringify('b') },
+        ],
+        envConfigs: [
+          {
+            enabled: true,
+            defaultVariationKey: 'control',
+            fallbackVariationKey: 'control',
+            targetingRules: [],
+            defaultDistribution: [
+              { variationKey: 'control', weight: 50 },
+              { variationKey: 'variant-a', weight: 30 },
+              { variationKey: 'variant-b', weight: 20 },
+            ],
+            rolloutPercentage: null,
+          },
+        ],
+      };
+
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag] as Flag[]);
+
+      const counts: Record<string, number> = { control: 0, 'variant-a': 0, 'variant-b': 0 };
+      for (let i = 0; i < 2000; i++) {
+        const result = await sdkService.evaluateFlag('client-key', 'client', 'checkout-experiment', {
+          userId: `user-${i}`,
+        });
+        expect(result?.reason).toEqual({ kind: 'DEFAULT', split: true });
+        counts[result!.variationKey]++;
+      }
+
+      expect(counts.control / 2000).toBeCloseTo(0.5, 1);
+      expect(counts['variant-a'] / 2000).toBeCloseTo(0.3, 1);
+      expect(counts['variant-b'] / 2000).toBeCloseTo(0.2, 1);
+
+      const first = await sdkService.evaluateFlag('client-key', 'client', 'checkout-experiment', {
+        userId: 'user-42',
+      });
+      const second = await sdkService.evaluateFlag('client-key', 'client', 'checkout-experiment', {
+        userId: 'user-42',
+      });
+      expect(first?.variationKey).toBe(second?.variationKey);
+
+      const anonymous = await sdkService.evaluateFlag('client-key', 'client', 'checkout-experiment');
+      expect(anonymous?.variationKey).toBe('control');
+      expect(anonymous?.reason).toEqual({ kind: 'DEFAULT' });
+    });
+
+    it('should bucket rollouts by the configured attribute', async () => {
+      const mockEnvironment: Partial<Environment> = {
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      };
+
+      type FlagWithRelations = Flag & {
+        variations: Partial<FlagVariation>[];
+        envConfigs: Partial<FlagEnvironmentConfig>[];
+      };
+
+      const mockFlag: Partial<FlagWithRelations> = {
+        id: 'flag-1',
+        key: 'org-rollout',
+        status: 'ACTIVE',
+        salt: null,
+        variations: [
+          { key: 'on', value: JSON.stringify(true) },
+          { key: 'off', value: JSON.stringify(false) },
+        ],
+        envConfigs: [
+          {
+            enabled: true,
+            defaultVariationKey: 'on',
+            fallbackVariationKey: 'off',
+            targetingRules: [],
+            rolloutPercentage: 50,
+            bucketBy: 'companyId',
+          },
+        ],
+      };
+
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag] as Flag[]);
+
+      const included = new Set<string>();
+      for (let company = 0; company < 20; company++) {
+        const results = await Promise.all(
+          ['user-a', 'user-b', undefined].map((userId) =>
+            sdkService.evaluateFlag('client-key', 'client', 'org-rollout', {
+              userId,
+              attributes: { companyId: `company-${company}` },
+            })
+          )
+        );
+
+        // Every member of an organization lands in the same bucket, with or without a userId
+        const variationKeys = new Set(results.map((result) => result?.variationKey));
+        expect(variationKeys.size).toBe(1);
+        if (results[0]?.variationKey === 'on') {
+          included.add(`company-${company}`);
+        }
+      }
+
+      expect(included.size).toBeGreaterThan(0);
+      expect(included.size).toBeLessThan(20);
+
+      const withoutCompany = await sdkService.evaluateFlag('client-key', 'client', 'org-rollout', {
+        userId: 'user-a',
+      });
+      expect(withoutCompany?.variationKey).toBe('off');
+      // Contexts without a bucketing key have no bucket and are never in the rollout
+      expect(withoutCompany?.reason).toEqual({ kind: 'ROLLOUT', inRollout: false });
+    });
+
+    it('should reshuffle rollout cohorts when the flag salt changes', async () => {
+      const mockEnvironment: Partial<Environment> = {
+        id: 'env-1',
+        name: 'Production',
+        key: 'prod',
+        projectId: 'proj-1',
+      };
+
+      type FlagWithRelations = Flag & {
+        variations: Partial<FlagVariation>[];
+        envConfigs: Partial<FlagEnvironmentConfig>[];
+      };
+
+      const createFlag = (salt: string | null): Partial<FlagWithRelations> => ({
+        id: 'flag-1',
+        key: 'salted-rollout',
+        status: 'ACTIVE',
+        salt,
+        variations: [
+          { key: 'on', value: JSON.stringify(true) },
+          { key: 'off', value: JSON.stringify(false) },
+        ],
+        envConfigs: [
+          {
+            enabled: true,
+            defaultVariationKey: 'on',
+            fallbackVariationKey: 'off',
+            targetingRules: [],
+            rolloutPercentage: 50,
+            bucketBy: 'sessionId',
+          },
+        ],
+      });
+
+      vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
+
+      const assign = async (salt: string | null) => {
+        vi.mocked(prisma.flag.findMany).mockResolvedValue([createFlag(salt)] as Flag[]);
+        const assignments: string[] = [];
+        for (let i = 0; i < 100; i++) {
+          const result = await sdkService.evaluateFlag('client-key', 'client', 'salted-rollout', {
+            sessionId: `session-${i}`,
+          });
+          assignments.push(result!.variationKey);
+        }
+        return assignments;
+      };
+
+      const unsalted = await assign(null);
+      const reseeded = await assign('new-salt');
+
+      expect(unsalted).toEqual(await assign(null));
+      expect(reseeded).not.toEqual(unsalted);
     });
 
     it('should return null for non-existent flag', async () => {
@@ -384,7 +1175,7 @@ describe('SdkService', () => {
       };
 
       vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
-      vi.mocked(prisma.flag.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([]);
 
       const result = await sdkService.evaluateFlag('client-key', 'client', 'non-existent');
 
@@ -424,14 +1215,112 @@ describe('SdkService', () => {
       };
 
       vi.mocked(prisma.environment.findFirst).mockResolvedValue(mockEnvironment as Environment);
-      vi.mocked(prisma.flag.findFirst).mockResolvedValue(mockFlag as Flag);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag] as Flag[]);
 
       const result = await sdkService.evaluateFlag('client-key', 'client', 'test-flag');
 
       expect(result).toBeDefined();
       expect(result?.value).toBe(false);
       expect(result?.enabled).toBe(false);
-      expect(result?.reason).toBe('NO_CONFIG');
+      expect(result?.reason).toEqual({ kind: 'NO_CONFIG' });
+    });
+  });
+
+  describe('explainFlag', () => {
+    type FlagWithRelations = Flag & {
+      variations: Partial<FlagVariation>[];
+      envConfigs: Partial<FlagEnvironmentConfig>[];
+    };
+
+    const mockFlag: Partial<FlagWithRelations> = {
+      id: 'flag-1',
+      key: 'checkout-v2',
+      projectId: 'proj-1',
+      status: 'ACTIVE',
+      variations: [
+        { key: 'on', value: JSON.stringify(true) },
+        { key: 'off', value: JSON.stringify(false) },
+      ],
+      envConfigs: [
+        {
+          enabled: true,
+          defaultVariationKey: 'off',
+          fallbackVariationKey: 'off',
+          targetingRules: [
+            {
+              id: 'internal',
+              conditions: [{ attribute: 'email', operator: 'endsWith', value: '@example.com' }],
+              conditionLogic: 'AND',
+              variationKey: 'on',
+            },
+            {
+              id: 'pro-in-us',
+              conditions: [
+                { attribute: 'plan', operator: 'equals', value: 'pro' },
+                { attribute: 'country', operator: 'equals', value: 'US' },
+              ],
+              conditionLogic: 'AND',
+              variationKey: 'on',
+            },
+          ],
+          rolloutPercentage: null,
+        },
+      ],
+    };
+
+    it('should record which conditions of each rule passed or failed', async () => {
+      vi.mocked(prisma.flag.findUnique).mockResolvedValue(mockFlag as Flag);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([mockFlag as Flag]);
+
+      const result = await sdkService.explainFlag('flag-1', 'env-1', {
+        userId: 'user-1',
+        attributes: { email: 'someone@customer.com', plan: 'pro', country: 'DE' },
+      });
+
+      expect(result?.evaluation.variationKey).toBe('off');
+      expect(result?.evaluation.reason).toEqual({ kind: 'DEFAULT' });
+      expect(result?.steps.map((step) => step.type)).toEqual([
+        'CONFIG',
+        'ENABLED',
+        'RULE',
+        'RULE',
+        'DEFAULT',
+      ]);
+
+      const secondRule = result?.steps[3];
+      expect(secondRule).toMatchObject({
+        type: 'RULE',
+        ruleId: 'pro-in-us',
+        ruleIndex: 1,
+        passed: false,
+        conditions: {
+          conditionLogic: 'AND',
+          passed: false,
+          conditions: [
+            { attribute: 'plan', actualValue: 'pro', passed: true },
+            { attribute: 'country', actualValue: 'DE', passed: false },
+          ],
+        },
+      });
+    });
+
+    it('should return null for unknown flags', async () => {
+      vi.mocked(prisma.flag.findUnique).mockResolvedValue(null);
+
+      expect(await sdkService.explainFlag('missing', 'env-1')).toBeNull();
+    });
+
+    it('should report an error when the config serves a removed variation', async () => {
+      const flag = {
+        ...mockFlag,
+        envConfigs: [{ ...mockFlag.envConfigs![0], defaultVariationKey: 'legacy' }],
+      };
+      vi.mocked(prisma.flag.findUnique).mockResolvedValue(flag as Flag);
+      vi.mocked(prisma.flag.findMany).mockResolvedValue([flag as Flag]);
+
+      const result = await sdkService.explainFlag('flag-1', 'env-1');
+
+      expect(result?.evaluation.reason).toEqual({ kind: 'ERROR', errorKind: 'MALFORMED_FLAG' });
     });
   });
 });
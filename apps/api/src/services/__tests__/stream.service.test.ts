@@ -0,0 +1,423 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConditionLogic, ConditionOperator } from '@flagkit/evaluator';
+import type { FlagConfigDefinition, FlagDefinition } from '@flagkit/evaluator';
+import { sdkService } from '../sdk.service';
+import { streamService, StreamSocket, STREAM_CLOSE_CODES } from '../stream.service';
+
+// Shared with stream services imported again after a simulated restart
+const mockedSdkService = vi.hoisted(() => ({
+  getEnvironmentBySdkKey: vi.fn(),
+  getEnvironmentRuleset: vi.fn(),
+}));
+
+vi.mock('../sdk.service', () => ({ sdkService: mockedSdkService }));
+
+vi.mock('../../config', () => ({
+  config: {
+    stream: {
+      heartbeatIntervalMs: 1000,
+      maxConnectionsPerKey: 2,
+    },
+  },
+}));
+
+/**
+ * Parse an SSE event written as id, event and data lines
+ */
+function parseSseEvent(frame: string) {
+  const fields = Object.fromEntries(
+    frame
+      .trim()
+      .split('\n')
+      .map((line) => [line.slice(0, line.indexOf(': ')), line.slice(line.indexOf(': ') + 2)])
+  );
+  return { id: fields.id, event: fields.event, data: JSON.parse(fields.data) };
+}
+
+class MockSocket implements StreamSocket {
+  readyState = 1;
+  sent: unknown[] = [];
+  closedWith: number | null = null;
+  send = vi.fn((data: string) => {
+    this.sent.push(data.startsWith('id: ') ? parseSseEvent(data) : JSON.parse(data));
+  });
+  ping = vi.fn();
+  terminate = vi.fn();
+  private listeners = new Map<string, () => void>();
+
+  close(code?: number) {
+    this.readyState = 3;
+    this.closedWith = code ?? null;
+    this.emit('close');
+  }
+
+  on(event: 'pong' | 'close', listener: () => void) {
+    this.listeners.set(event, listener);
+  }
+
+  emit(event: 'pong' | 'close') {
+    this.listeners.get(event)?.();
+  }
+}
+
+const createFlag = (
+  key: string,
+  variationKey: string,
+  overrides: Partial<FlagConfigDefinition> = {}
+): FlagDefinition => ({
+  key,
+  variations: [
+    { key: 'on', value: true },
+    { key: 'off', value: false },
+  ],
+  config: {
+    enabled: true,
+    defaultVariationKey: variationKey,
+    fallbackVariationKey: 'off',
+    targetingRules: [],
+    rolloutPercentage: null,
+    ...overrides,
+  },
+});
+
+describe('StreamService', () => {
+  let flags: FlagDefinition[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    flags = [createFlag('new-ui', 'on')];
+
+    vi.mocked(sdkService.getEnvironmentBySdkKey).mockImplementation(async (sdkKey) =>
+      sdkKey.startsWith('valid')
+        ? { id: 'env-1', name: 'Production', key: 'prod', projectId: 'proj-1', configVersion: 0 }
+        : null
+    );
+    vi.mocked(sdkService.getEnvironmentRuleset).mockImplementation(async () => ({
+      flags,
+      segments: {},
+    }));
+  });
+
+  afterEach(() => {
+    streamService.closeAll();
+  });
+
+  describe('connect', () => {
+    it('should close streams with an invalid SDK key', async () => {
+      const socket = new MockSocket();
+
+      await streamService.connect(socket, 'invalid-key', 'server');
+
+      expect(socket.closedWith).toBe(STREAM_CLOSE_CODES.INVALID_SDK_KEY);
+      expect(socket.sent).toEqual([]);
+    });
+
+    it('should send server streams a snapshot of the ruleset', async () => {
+      const socket = new MockSocket();
+
+      await streamService.connect(socket, 'valid-server-key', 'server');
+
+      expect(socket.sent).toEqual([{ type: 'snapshot', data: { flags, segments: {} } }]);
+    });
+
+    it('should send client streams a snapshot evaluated for their context', async () => {
+      flags = [
+        createFlag('new-ui', 'off', {
+          targetingRules: [
+            {
+              id: 'beta',
+              conditions: [{ attribute: 'beta', operator: ConditionOperator.EQUALS, value: true }],
+              conditionLogic: ConditionLogic.AND,
+              variationKey: 'on',
+            },
+          ],
+        }),
+      ];
+      const socket = new MockSocket();
+
+      await streamService.connect(socket, 'valid-client-key', 'client', {
+        userId: 'user-1',
+        attributes: { beta: true },
+      });
+
+      expect(socket.sent).toEqual([
+        {
+          type: 'snapshot',
+          data: {
+            flags: { 'new-ui': expect.objectContaining({ value: true, variationKey: 'on' }) },
+          },
+        },
+      ]);
+    });
+
+    it('should limit the number of streams per SDK key', async () => {
+      const sockets = [new MockSocket(), new MockSocket(), new MockSocket()];
+      for (const socket of sockets) {
+        await streamService.connect(socket, 'valid-server-key', 'server');
+      }
+
+      expect(sockets[2].closedWith).toBe(STREAM_CLOSE_CODES.TOO_MANY_CONNECTIONS);
+      expect(streamService.countConnections('valid-server-key')).toBe(2);
+
+      // Closed streams free up their slot
+      sockets[0].close();
+      await streamService.connect(new MockSocket(), 'valid-server-key', 'server');
+      expect(streamService.countConnections('valid-server-key')).toBe(2);
+    });
+
+    it('should hold the limit for streams connecting at the same time', async () => {
+      const sockets = [new MockSocket(), new MockSocket(), new MockSocket()];
+      await Promise.all(
+        sockets.map((socket) => streamService.connect(socket, 'valid-server-key', 'server'))
+      );
+
+      expect(sockets.filter((socket) => socket.closedWith !== null)).toHaveLength(1);
+      expect(streamService.countConnections('valid-server-key')).toBe(2);
+    });
+
+    it('should free the slot of streams that fail to connect', async () => {
+      vi.mocked(sdkService.getEnvironmentRuleset).mockRejectedValueOnce(new Error('Connection lost'));
+
+      await expect(
+        streamService.connect(new MockSocket(), 'valid-server-key', 'server')
+      ).rejects.toThrow('Connection lost');
+      await streamService.connect(new MockSocket(), 'invalid-key', 'server');
+
+      expect(streamService.countConnections('valid-server-key')).toBe(0);
+      expect(streamService.countConnections('invalid-key')).toBe(0);
+    });
+  });
+
+  describe('publishFlagChange', () => {
+    it('should send server streams the changed flag definition', async () => {
+      const socket = new MockSocket();
+      await streamService.connect(socket, 'valid-server-key', 'server');
+
+      flags = [createFlag('new-ui', 'off')];
+      await streamService.publishFlagChange('proj-1', 'new-ui', 'env-1');
+
+      expect(socket.sent[1]).toEqual({ type: 'flag_update', data: flags[0] });
+    });
+
+    it('should delete flags that are no longer served', async () => {
+      const server = new MockSocket();
+      const client = new MockSocket();
+      await streamService.connect(server, 'valid-server-key', 'server');
+      await streamService.connect(client, 'valid-client-key', 'client');
+
+      flags = [];
+      await streamService.publishFlagChange('proj-1', 'new-ui');
+
+      expect(server.sent[1]).toEqual({ type: 'flag_delete', data: { flagKey: 'new-ui' } });
+      expect(client.sent[1]).toEqual({ type: 'flag_delete', data: { flagKey: 'new-ui' } });
+    });
+
+    it('should send client streams every evaluation the change affected', async () => {
+      flags = [
+        createFlag('new-ui', 'on'),
+        createFlag('checkout', 'on', { prerequisites: [{ flagKey: 'new-ui', variationKey: 'on' }] }),
+        createFlag('unrelated', 'on'),
+      ];
+      const socket = new MockSocket();
+      await streamService.connect(socket, 'valid-client-key', 'client', { userId: 'user-1' });
+
+      flags = [
+        createFlag('new-ui', 'off'),
+        createFlag('checkout', 'on', { prerequisites: [{ flagKey: 'new-ui', variationKey: 'on' }] }),
+        createFlag('unrelated', 'on'),
+      ];
+      await streamService.publishFlagChange('proj-1', 'new-ui', 'env-1');
+
+      const updates = socket.sent.slice(1) as { type: string; data: { flagKey: string; value: unknown } }[];
+      expect(updates.map((message) => [message.type, message.data.flagKey, message.data.value])).toEqual([
+        ['flag_update', 'new-ui', false],
+        ['flag_update', 'checkout', false],
+      ]);
+    });
+
+    it('should send server streams a new snapshot for changes without a flag key', async () => {
+      const server = new MockSocket();
+      const client = new MockSocket();
+      await streamService.connect(server, 'valid-server-key', 'server');
+      await streamService.connect(client, 'valid-client-key', 'client');
+
+      flags = [createFlag('new-ui', 'off')];
+      await streamService.publishFlagChange('proj-1', null);
+
+      expect(server.sent[1]).toEqual({ type: 'snapshot', data: { flags, segments: {} } });
+      expect(client.sent[1]).toEqual({
+        type: 'flag_update',
+        data: expect.objectContaining({ flagKey: 'new-ui', value: false }),
+      });
+    });
+
+    it('should only notify streams of the changed environment and project', async () => {
+      const socket = new MockSocket();
+      await streamService.connect(socket, 'valid-server-key', 'server');
+
+      await streamService.publishFlagChange('proj-1', 'new-ui', 'env-2');
+      await streamService.publishFlagChange('proj-2', 'new-ui');
+
+      expect(socket.sent).toHaveLength(1);
+    });
+  });
+
+  describe('SSE streams', () => {
+    type SseEvent = ReturnType<typeof parseSseEvent>;
+
+    it('should send snapshots and changes as put, patch and delete events', async () => {
+      const socket = new MockSocket();
+      await streamService.connect(socket, 'valid-server-key', 'server', undefined, { protocol: 'sse' });
+
+      flags = [createFlag('new-ui', 'off')];
+      await streamService.publishFlagChange('proj-1', 'new-ui', 'env-1');
+      flags = [];
+      await streamService.publishFlagChange('proj-1', 'new-ui');
+
+      const events = socket.sent as SseEvent[];
+      expect(events.map((event) => event.event)).toEqual(['put', 'patch', 'delete']);
+      expect(events[0].data).toEqual({ flags: [createFlag('new-ui', 'on')], segments: {} });
+      expect(events[1].data).toEqual(createFlag('new-ui', 'off'));
+      expect(events[2].data).toEqual({ flagKey: 'new-ui' });
+      expect(Number(events[2].id)).toBeGreaterThan(Number(events[1].id));
+    });
+
+    it('should only replay the changes a resuming server stream missed', async () => {
+      const first = new MockSocket();
+      await streamService.connect(first, 'valid-server-key', 'server', undefined, { protocol: 'sse' });
+      const lastEventId = (first.sent[0] as SseEvent).id;
+      first.close();
+
+      flags = [createFlag('new-ui', 'off'), createFlag('checkout', 'on')];
+      await streamService.publishFlagChange('proj-1', 'new-ui', 'env-1');
+      await streamService.publishFlagChange('proj-1', 'checkout', 'env-2');
+      await streamService.publishFlagChange('proj-1', 'checkout');
+      await streamService.publishFlagChange('proj-1', 'new-ui');
+
+      const resumed = new MockSocket();
+      await streamService.connect(resumed, 'valid-server-key', 'server', undefined, {
+        protocol: 'sse',
+        lastEventId,
+      });
+
+      const events = resumed.sent as SseEvent[];
+      expect(events.map((event) => [event.event, event.data.key])).toEqual([
+        ['patch', 'checkout'],
+        ['patch', 'new-ui'],
+      ]);
+    });
+
+    it('should send nothing to streams that resume without missing a change', async () => {
+      const first = new MockSocket();
+      await streamService.connect(first, 'valid-client-key', 'client', undefined, { protocol: 'sse' });
+      const lastEventId = (first.sent[0] as SseEvent).id;
+      await streamService.publishFlagChange('proj-2', 'new-ui');
+
+      const resumed = new MockSocket();
+      await streamService.connect(resumed, 'valid-client-key', 'client', undefined, {
+        protocol: 'sse',
+        lastEventId,
+      });
+
+      expect(resumed.sent).toEqual([]);
+      expect(streamService.countConnections('valid-client-key')).toBe(2);
+    });
+
+    it('should only send resumed client streams the evaluations that change later', async () => {
+      flags = [createFlag('new-ui', 'on'), createFlag('unrelated', 'on')];
+      const first = new MockSocket();
+      await streamService.connect(first, 'valid-client-key', 'client', undefined, { protocol: 'sse' });
+      const lastEventId = (first.sent[0] as SseEvent).id;
+      first.close();
+
+      const resumed = new MockSocket();
+      await streamService.connect(resumed, 'valid-client-key', 'client', undefined, {
+        protocol: 'sse',
+        lastEventId,
+      });
+      flags = [createFlag('new-ui', 'off'), createFlag('unrelated', 'on')];
+      await streamService.publishFlagChange('proj-1', 'new-ui');
+
+      const events = resumed.sent as SseEvent[];
+      expect(events.map((event) => [event.event, event.data.flagKey])).toEqual([['patch', 'new-ui']]);
+    });
+
+    it('should send a snapshot to server streams that missed a change without a flag key', async () => {
+      const first = new MockSocket();
+      await streamService.connect(first, 'valid-server-key', 'server', undefined, { protocol: 'sse' });
+      const lastEventId = (first.sent[0] as SseEvent).id;
+      first.close();
+
+      await streamService.publishFlagChange('proj-1', 'new-ui');
+      await streamService.publishFlagChange('proj-1', null);
+
+      const resumed = new MockSocket();
+      await streamService.connect(resumed, 'valid-server-key', 'server', undefined, {
+        protocol: 'sse',
+        lastEventId,
+      });
+
+      expect(resumed.sent).toEqual([
+        expect.objectContaining({ event: 'put', data: { flags, segments: {} } }),
+      ]);
+    });
+
+    it('should send a snapshot to streams resuming from before a restart', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const first = new MockSocket();
+      await streamService.connect(first, 'valid-server-key', 'server', undefined, { protocol: 'sse' });
+      await streamService.publishFlagChange('proj-1', 'new-ui');
+      const lastEventId = (first.sent[1] as SseEvent).id;
+
+      // The API starts again without the change history
+      vi.advanceTimersByTime(5000);
+      vi.resetModules();
+      const { streamService: restarted } = await import('../stream.service');
+      await restarted.publishFlagChange('proj-2', 'other-flag');
+
+      const resumed = new MockSocket();
+      await restarted.connect(resumed, 'valid-server-key', 'server', undefined, {
+        protocol: 'sse',
+        lastEventId,
+      });
+
+      expect(resumed.sent).toEqual([
+        expect.objectContaining({ event: 'put', data: { flags, segments: {} } }),
+      ]);
+      restarted.closeAll();
+      vi.useRealTimers();
+    });
+
+    it('should send a snapshot to streams resuming from an unknown event', async () => {
+      const socket = new MockSocket();
+      await streamService.connect(socket, 'valid-server-key', 'server', undefined, {
+        protocol: 'sse',
+        lastEventId: '42',
+      });
+
+      expect(socket.sent).toEqual([
+        expect.objectContaining({ event: 'put', data: { flags, segments: {} } }),
+      ]);
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('should drop streams that did not answer the last ping', async () => {
+      const alive = new MockSocket();
+      const dead = new MockSocket();
+      await streamService.connect(alive, 'valid-server-key', 'server');
+      await streamService.connect(dead, 'valid-server-key', 'server');
+
+      streamService.heartbeat();
+      expect(alive.ping).toHaveBeenCalledTimes(1);
+      expect(dead.ping).toHaveBeenCalledTimes(1);
+
+      alive.emit('pong');
+      streamService.heartbeat();
+
+      expect(alive.terminate).not.toHaveBeenCalled();
+      expect(dead.terminate).toHaveBeenCalledTimes(1);
+      expect(streamService.countConnections('valid-server-key')).toBe(1);
+    });
+  });
+});
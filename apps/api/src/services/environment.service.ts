@@ -1,4 +1,8 @@
 import { prisma, MemberRole } from '@flagkit/database';
+import { invalidateCachedRulesets } from './ruleset-cache.service';
+
+// Config versions whose changes are kept for delta syncs, older SDKs get a full snapshot
+const CONFIG_CHANGE_HISTORY_SIZE = 1000;
 
 export interface CreateEnvironmentInput {
   name: string;
@@ -188,6 +192,11 @@ class EnvironmentService {
       },
     });
 
+    // SDKs are served the environment's name and key, so their responses change with them
+    if (updated.name !== environment.name || updated.key !== environment.key) {
+      await this.bumpConfigVersion(environmentId);
+    }
+
     return updated;
   }
 
@@ -201,6 +210,7 @@ class EnvironmentService {
     await prisma.environment.delete({
       where: { id: environmentId },
     });
+    await invalidateCachedRulesets([environment]);
 
     return { success: true };
   }
@@ -233,8 +243,91 @@ class EnvironmentService {
       data: updateData,
     });
 
+    // Stop serving the old keys
+    await invalidateCachedRulesets([environment]);
+
     return updated;
   }
+
+  /**
+   * Bump the config version of an environment after a change to what its SDKs are served.
+   * The change is recorded under the new version, without a flag key when it can
+   * affect every flag, and the environment's cached rulesets are dropped.
+   */
+  async bumpConfigVersion(environmentId: string, flagKey: string | null = null): Promise<void> {
+    // SDKs must never see a version before its change is recorded
+    const environment = await prisma.$transaction(async (tx) => {
+      const updated = await tx.environment.update({
+        where: { id: environmentId },
+        data: { configVersion: { increment: 1 } },
+        select: { configVersion: true, clientSdkKey: true, serverSdkKey: true },
+      });
+
+      await tx.environmentConfigChange.create({
+        data: { environmentId, version: updated.configVersion, flagKey },
+      });
+
+      await tx.environmentConfigChange.deleteMany({
+        where: {
+          environmentId,
+          version: { lte: updated.configVersion - CONFIG_CHANGE_HISTORY_SIZE },
+        },
+      });
+
+      return updated;
+    });
+
+    await invalidateCachedRulesets([environment], environment.configVersion);
+  }
+
+  /**
+   * Bump the config version of every environment of a project, for changes to
+   * flags or segments that apply in all of them
+   */
+  async bumpProjectConfigVersions(projectId: string, flagKey: string | null = null): Promise<void> {
+    const environments = await prisma.environment.findMany({
+      where: { projectId },
+      select: { id: true },
+    });
+
+    for (const environment of environments) {
+      await this.bumpConfigVersion(environment.id, flagKey);
+    }
+  }
+
+  /**
+   * Get the keys of the flags changed after a config version, or null if the changes
+   * are no longer known or may affect every flag
+   */
+  async getChangedFlagKeys(
+    environmentId: string,
+    sinceVersion: number,
+    currentVersion: number
+  ): Promise<string[] | null> {
+    if (sinceVersion > currentVersion) {
+      return null;
+    }
+
+    const changes = await prisma.environmentConfigChange.findMany({
+      where: { environmentId, version: { gt: sinceVersion, lte: currentVersion } },
+      select: { flagKey: true },
+    });
+
+    // Every version has a change, so missing rows were pruned or predate the history
+    if (changes.length !== currentVersion - sinceVersion) {
+      return null;
+    }
+
+    const flagKeys = new Set<string>();
+    for (const change of changes) {
+      if (change.flagKey === null) {
+        return null;
+      }
+      flagKeys.add(change.flagKey);
+    }
+
+    return [...flagKeys];
+  }
 }
 
 export const environmentService = new EnvironmentService();
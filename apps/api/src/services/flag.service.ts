@@ -1,6 +1,23 @@
+import { z } from 'zod';
 import { prisma, Prisma } from '@flagkit/database';
 import { FlagType, FlagStatus, MemberRole, AuditAction, AuditResourceType } from '@flagkit/database';
 import { AuditService } from './audit.service';
+import {
+  TargetingRule,
+  WeightedVariation,
+  BucketingVersion,
+  LATEST_BUCKETING_VERSION,
+  validateDistribution,
+  validateConditionTree,
+  Prerequisite,
+  IndividualTargets,
+  validateIndividualTargets,
+} from '@flagkit/evaluator';
+import { createTargetingRulesSchema, createVariationsSchema } from '@flagkit/types';
+import { isRolloutInProgress } from '../types/rollout.types';
+import { sdkService, EvaluationContext } from './sdk.service';
+import { streamService } from './stream.service';
+import { environmentService } from './environment.service';
 
 export interface CreateFlagInput {
   key: string;
@@ -14,6 +31,7 @@ export interface CreateFlagInput {
     value: string;
     description?: string;
   }[];
+  jsonSchema?: Record<string, unknown>;
 }
 
 export interface UpdateFlagInput {
@@ -27,8 +45,13 @@ export interface UpdateFlagConfigInput {
   enabled?: boolean;
   defaultVariationKey?: string;
   fallbackVariationKey?: string;
-  targetingRules?: unknown;
+  targetingRules?: TargetingRule[];
   rolloutPercentage?: number;
+  defaultDistribution?: WeightedVariation[] | null;
+  bucketBy?: string;
+  bucketingVersion?: BucketingVersion;
+  prerequisites?: Prerequisite[];
+  individualTargets?: IndividualTargets;
 }
 
 class FlagService {
@@ -38,7 +61,10 @@ class FlagService {
     this.auditService = new AuditService(prisma);
   }
 
-  private async checkProjectPermission(projectId: string, userId: string): Promise<void> {
+  /**
+   * Ensure the user can manage flags in the project, VIEWERs cannot
+   */
+  async checkProjectPermission(projectId: string, userId: string): Promise<void> {
     const project = await prisma.project.findUnique({
       where: { id: projectId },
       include: {
@@ -91,31 +117,50 @@ class FlagService {
       throw new Error('Flag with this key already exists in the project');
     }
 
+    const type = input.type || FlagType.BOOLEAN;
+    if (input.jsonSchema && type !== FlagType.JSON) {
+      throw new Error('A JSON Schema can only be attached to JSON flags');
+    }
+    if (!input.variations && type !== FlagType.BOOLEAN) {
+      throw new Error(`Variations are required for ${type} flags`);
+    }
+
+    const variations = input.variations || [
+      {
+        key: 'true',
+        name: 'True',
+        value: JSON.stringify(true),
+        description: 'Flag is enabled',
+      },
+      {
+        key: 'false',
+        name: 'False',
+        value: JSON.stringify(false),
+        description: 'Flag is disabled',
+      },
+    ];
+
+    // Catch values that wouldn't parse or have the wrong type before SDKs evaluate them
+    const result = createVariationsSchema(type, input.jsonSchema).safeParse(variations);
+    if (!result.success) {
+      throw new z.ZodError(
+        result.error.issues.map((issue) => ({ ...issue, path: ['variations', ...issue.path] }))
+      );
+    }
+
     // Create flag with variations
     const flag = await prisma.flag.create({
       data: {
         key: input.key.toLowerCase(),
         name: input.name,
         description: input.description,
-        type: input.type || FlagType.BOOLEAN,
+        type,
         tags: input.tags || [],
+        jsonSchema: input.jsonSchema as Prisma.InputJsonValue | undefined,
         projectId,
         ownerId: userId,
         variations: {
-          create: input.variations || [
-            {
-              key: 'true',
-              name: 'True',
-              value: JSON.stringify(true),
-              description: 'Flag is enabled',
-            },
-            {
-              key: 'false',
-              name: 'False',
-              value: JSON.stringify(false),
-              description: 'Flag is disabled',
-            },
-          ],
+          create: result.data,
         },
       },
       include: {
@@ -128,6 +173,9 @@ class FlagService {
       },
     });
 
+    await environmentService.bumpProjectConfigVersions(projectId, flag.key);
+    await streamService.publishFlagChange(projectId, flag.key);
+
     return flag;
   }
 
@@ -216,6 +264,10 @@ class FlagService {
     const flag = await this.getById(flagId, userId);
     await this.checkProjectPermission(flag.projectId, userId);
 
+    if (input.status === FlagStatus.ARCHIVED && flag.status !== FlagStatus.ARCHIVED) {
+      await this.checkNoDependentFlags(flag.projectId, flag.key);
+    }
+
     const updated = await prisma.flag.update({
       where: { id: flagId },
       data: {
@@ -234,6 +286,173 @@ class FlagService {
       },
     });
 
+    // A status change starts or stops serving the flag in every environment
+    await environmentService.bumpProjectConfigVersions(flag.projectId, flag.key);
+    await streamService.publishFlagChange(flag.projectId, flag.key);
+
+    return updated;
+  }
+
+  /**
+   * Find the keys of flags whose environment configs list a flag as a prerequisite
+   */
+  private async getDependentFlagKeys(projectId: string, flagKey: string): Promise<string[]> {
+    const configs = await prisma.flagEnvironmentConfig.findMany({
+      where: {
+        flag: {
+          projectId,
+          key: { not: flagKey },
+          status: { not: FlagStatus.ARCHIVED },
+        },
+        prerequisites: { not: Prisma.DbNull },
+      },
+      include: {
+        flag: {
+          select: { key: true },
+        },
+      },
+    });
+
+    const flagKeys = new Set<string>();
+    for (const config of configs) {
+      const prerequisites = Array.isArray(config.prerequisites)
+        ? (config.prerequisites as unknown as Prerequisite[])
+        : [];
+      if (prerequisites.some((prerequisite) => prerequisite.flagKey === flagKey)) {
+        flagKeys.add(config.flag.key);
+      }
+    }
+
+    return Array.from(flagKeys);
+  }
+
+  /**
+   * Refuse to archive a flag that other flags list as a prerequisite
+   */
+  private async checkNoDependentFlags(projectId: string, flagKey: string): Promise<void> {
+    const dependentFlags = await this.getDependentFlagKeys(projectId, flagKey);
+    if (dependentFlags.length > 0) {
+      throw new Error(
+        `Flag is a prerequisite of other flags and cannot be archived: ${dependentFlags.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Validate prerequisites of a flag in an environment, rejecting unknown
+   * flags or variations and chains that lead back to the flag itself
+   */
+  private async validatePrerequisites(
+    flag: { key: string; projectId: string },
+    environmentId: string,
+    prerequisites: Prerequisite[]
+  ) {
+    const projectFlags = await prisma.flag.findMany({
+      where: {
+        projectId: flag.projectId,
+        status: { not: FlagStatus.ARCHIVED },
+      },
+      include: {
+        variations: {
+          select: { key: true },
+        },
+        envConfigs: {
+          where: { environmentId },
+          select: { prerequisites: true },
+        },
+      },
+    });
+
+    const flagsByKey = new Map(projectFlags.map((f) => [f.key, f]));
+
+    for (const prerequisite of prerequisites) {
+      if (prerequisite.flagKey === flag.key) {
+        throw new Error('A flag cannot be its own prerequisite');
+      }
+
+      const prerequisiteFlag = flagsByKey.get(prerequisite.flagKey);
+      if (!prerequisiteFlag) {
+        throw new Error(`Prerequisite flag not found: ${prerequisite.flagKey}`);
+      }
+
+      if (!prerequisiteFlag.variations.some((v) => v.key === prerequisite.variationKey)) {
+        throw new Error(
+          `Invalid variation key for prerequisite ${prerequisite.flagKey}: ${prerequisite.variationKey}`
+        );
+      }
+    }
+
+    // Prerequisite graph of the environment, with the flag's new prerequisites applied
+    const graph = new Map<string, string[]>();
+    for (const projectFlag of projectFlags) {
+      const stored = projectFlag.envConfigs[0]?.prerequisites;
+      const edges = Array.isArray(stored) ? (stored as unknown as Prerequisite[]) : [];
+      graph.set(projectFlag.key, edges.map((edge) => edge.flagKey));
+    }
+    graph.set(flag.key, prerequisites.map((prerequisite) => prerequisite.flagKey));
+
+    // Depth-first search for a path from the flag back to itself
+    const visited = new Set<string>();
+    const findCycle = (key: string, path: string[]): string[] | null => {
+      for (const next of graph.get(key) ?? []) {
+        if (next === flag.key) {
+          return [...path, next];
+        }
+        if (!visited.has(next)) {
+          visited.add(next);
+          const cycle = findCycle(next, [...path, next]);
+          if (cycle) {
+            return cycle;
+          }
+        }
+      }
+      return null;
+    };
+
+    const cycle = findCycle(flag.key, [flag.key]);
+    if (cycle) {
+      throw new Error(`Prerequisite cycle detected: ${cycle.join(' -> ')}`);
+    }
+  }
+
+  /**
+   * Generate a new rollout salt for a flag, reshuffling which contexts
+   * fall into rollout and split buckets in every environment
+   */
+  async reseed(flagId: string, userId: string) {
+    const flag = await this.getById(flagId, userId);
+    await this.checkProjectPermission(flag.projectId, userId);
+
+    const { createId } = await import('@paralleldrive/cuid2');
+
+    const updated = await prisma.flag.update({
+      where: { id: flagId },
+      data: {
+        salt: createId(),
+      },
+      include: {
+        variations: true,
+        _count: {
+          select: {
+            envConfigs: true,
+          },
+        },
+      },
+    });
+
+    await this.auditService.logFlagChange({
+      flagId,
+      userId,
+      changeType: 'UPDATED',
+      before: { salt: flag.salt },
+      after: { salt: updated.salt },
+      comment: 'Re-seeded rollout salt',
+    });
+
+    // Rollouts bucket differently with the new salt
+    await environmentService.bumpProjectConfigVersions(flag.projectId, flag.key);
+    await streamService.publishFlagChange(flag.projectId, flag.key);
+
     return updated;
   }
 
@@ -241,6 +460,8 @@ class FlagService {
     const flag = await this.getById(flagId, userId);
     await this.checkProjectPermission(flag.projectId, userId);
 
+    await this.checkNoDependentFlags(flag.projectId, flag.key);
+
     // Soft delete by archiving
     await prisma.flag.update({
       where: { id: flagId },
@@ -248,6 +469,9 @@ class FlagService {
         status: FlagStatus.ARCHIVED,
       },
     });
+
+    await environmentService.bumpProjectConfigVersions(flag.projectId, flag.key);
+    await streamService.publishFlagChange(flag.projectId, flag.key);
   }
 
   // Environment-specific configuration
@@ -273,18 +497,62 @@ class FlagService {
           enabled: false,
           defaultVariationKey: defaultVariation?.key || 'false',
           fallbackVariationKey: defaultVariation?.key || 'false',
+          bucketingVersion: LATEST_BUCKETING_VERSION,
         },
       });
+
+      // SDKs were serving the flag without a config
+      await environmentService.bumpConfigVersion(environmentId, flag.key);
+      await streamService.publishFlagChange(flag.projectId, flag.key, environmentId);
     }
 
     return config;
   }
 
+  /**
+   * Parse targeting rules against a flag's variation keys and check their condition trees
+   * and distributions. Schema errors are thrown as a ZodError with field paths under path.
+   */
+  validateTargetingRules(
+    targetingRules: unknown,
+    variationKeys: string[],
+    path: (string | number)[] = ['targetingRules']
+  ): TargetingRule[] {
+    const result = createTargetingRulesSchema(variationKeys).safeParse(targetingRules);
+    if (!result.success) {
+      throw new z.ZodError(
+        result.error.issues.map((issue) => ({ ...issue, path: [...path, ...issue.path] }))
+      );
+    }
+
+    for (const rule of result.data) {
+      const error = validateConditionTree(rule.conditions);
+      if (error) {
+        throw new Error(`Invalid condition in rule ${rule.id}: ${error}`);
+      }
+
+      if (rule.distribution && rule.distribution.length > 0) {
+        const error = validateDistribution(rule.distribution, variationKeys);
+        if (error) {
+          throw new Error(`Invalid distribution for rule ${rule.id}: ${error}`);
+        }
+      }
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Update or create the config of a flag in an environment. With expectedUpdatedAt the
+   * config is only updated if it wasn't changed since, for read-modify-write updates.
+   */
   async updateEnvironmentConfig(
     flagId: string,
     environmentId: string,
     userId: string,
-    input: UpdateFlagConfigInput
+    input: UpdateFlagConfigInput,
+    comment?: string,
+    expectedUpdatedAt?: Date
   ) {
     const flag = await this.getById(flagId, userId);
     await this.checkProjectPermission(flag.projectId, userId);
@@ -313,6 +581,22 @@ class FlagService {
       }
     }
 
+    // Validate weighted distributions
+    const variationKeys = flag.variations.map((v) => v.key);
+
+    if (input.defaultDistribution) {
+      const error = validateDistribution(input.defaultDistribution, variationKeys);
+      if (error) {
+        throw new Error(`Invalid default distribution: ${error}`);
+      }
+    }
+
+    // Field paths of rule errors are relative to the config, e.g. targetingRules.0.conditions.1.value
+    const targetingRules =
+      input.targetingRules !== undefined
+        ? this.validateTargetingRules(input.targetingRules, variationKeys)
+        : undefined;
+
     // Get current config for audit log
     const currentConfig = await prisma.flagEnvironmentConfig.findUnique({
       where: {
@@ -323,7 +607,75 @@ class FlagService {
       },
     });
 
-    // Upsert the config
+    // Fractional percentages need the high-resolution hash, djb2 only has whole buckets
+    const bucketingVersion =
+      input.bucketingVersion ?? currentConfig?.bucketingVersion ?? LATEST_BUCKETING_VERSION;
+
+    if (bucketingVersion === BucketingVersion.DJB2) {
+      const percentages = [
+        input.rolloutPercentage,
+        ...(input.defaultDistribution ?? []).map((entry) => entry.weight),
+      ];
+      for (const rule of targetingRules ?? []) {
+        percentages.push(
+          rule.rolloutPercentage,
+          ...(rule.distribution ?? []).map((entry) => entry.weight)
+        );
+      }
+
+      if (percentages.some((value) => value !== undefined && !Number.isInteger(value))) {
+        throw new Error('Fractional percentages require bucketing version 2');
+      }
+    }
+
+    if (
+      input.rolloutPercentage !== undefined &&
+      input.rolloutPercentage !== currentConfig?.rolloutPercentage &&
+      isRolloutInProgress(currentConfig?.rolloutPlan)
+    ) {
+      throw new Error('Rollout percentage is managed by a rollout plan, abort the plan first');
+    }
+
+    if (input.individualTargets) {
+      const error = validateIndividualTargets(input.individualTargets, variationKeys);
+      if (error) {
+        throw new Error(`Invalid individual targets: ${error}`);
+      }
+    }
+
+    if (input.prerequisites) {
+      await this.validatePrerequisites(flag, environmentId, input.prerequisites);
+    }
+
+    const defaultDistribution = input.defaultDistribution === null
+      ? Prisma.DbNull
+      : (input.defaultDistribution as Prisma.InputJsonValue | undefined);
+
+    const update = {
+      enabled: input.enabled,
+      defaultVariationKey: input.defaultVariationKey,
+      fallbackVariationKey: input.fallbackVariationKey,
+      targetingRules: targetingRules as Prisma.InputJsonValue | undefined,
+      rolloutPercentage: input.rolloutPercentage,
+      defaultDistribution,
+      bucketBy: input.bucketBy,
+      bucketingVersion: input.bucketingVersion,
+      prerequisites: input.prerequisites as unknown as Prisma.InputJsonValue | undefined,
+      individualTargets: input.individualTargets,
+    };
+
+    if (expectedUpdatedAt) {
+      const result = await prisma.flagEnvironmentConfig.updateMany({
+        where: { flagId, environmentId, updatedAt: expectedUpdatedAt },
+        data: update,
+      });
+
+      if (result.count === 0) {
+        throw new Error('Configuration was modified concurrently, please retry');
+      }
+    }
+
+    // Upsert the config, a no-op update after a conditional one
     const config = await prisma.flagEnvironmentConfig.upsert({
       where: {
         flagId_environmentId: {
@@ -331,21 +683,20 @@ class FlagService {
           environmentId,
         },
       },
-      update: {
-        enabled: input.enabled,
-        defaultVariationKey: input.defaultVariationKey,
-        fallbackVariationKey: input.fallbackVariationKey,
-        targetingRules: input.targetingRules as Prisma.InputJsonValue,
-        rolloutPercentage: input.rolloutPercentage,
-      },
+      update: expectedUpdatedAt ? {} : update,
       create: {
         flagId,
         environmentId,
         enabled: input.enabled ?? false,
         defaultVariationKey: input.defaultVariationKey || flag.variations[0]?.key || 'false',
         fallbackVariationKey: input.fallbackVariationKey || flag.variations[0]?.key || 'false',
-        targetingRules: input.targetingRules as Prisma.InputJsonValue,
+        targetingRules: targetingRules as Prisma.InputJsonValue | undefined,
         rolloutPercentage: input.rolloutPercentage,
+        defaultDistribution,
+        bucketBy: input.bucketBy,
+        bucketingVersion,
+        prerequisites: input.prerequisites as unknown as Prisma.InputJsonValue | undefined,
+        individualTargets: input.individualTargets,
       },
     });
 
@@ -379,19 +730,97 @@ class FlagService {
         defaultVariationKey: currentConfig.defaultVariationKey,
         targetingRules: currentConfig.targetingRules,
         rolloutPercentage: currentConfig.rolloutPercentage,
+        defaultDistribution: currentConfig.defaultDistribution,
+        bucketBy: currentConfig.bucketBy,
+        bucketingVersion: currentConfig.bucketingVersion,
+        prerequisites: currentConfig.prerequisites,
+        individualTargets: currentConfig.individualTargets,
       } : undefined,
       after: {
         enabled: config.enabled,
         defaultVariationKey: config.defaultVariationKey,
         targetingRules: config.targetingRules,
         rolloutPercentage: config.rolloutPercentage,
+        defaultDistribution: config.defaultDistribution,
+        bucketBy: config.bucketBy,
+        bucketingVersion: config.bucketingVersion,
+        prerequisites: config.prerequisites,
+        individualTargets: config.individualTargets,
       },
-      comment: `Updated configuration for ${environment.name} environment`,
+      comment: comment ?? `Updated configuration for ${environment.name} environment`,
     });
 
+    await environmentService.bumpConfigVersion(environmentId, flag.key);
+    await streamService.publishFlagChange(flag.projectId, flag.key, environmentId);
+
     return config;
   }
 
+  /**
+   * Add context keys to a variation's individual target list. Keys already
+   * targeted to another variation are moved.
+   */
+  async addIndividualTargets(
+    flagId: string,
+    environmentId: string,
+    userId: string,
+    variationKey: string,
+    contextKeys: string[]
+  ) {
+    const config = await this.getEnvironmentConfig(flagId, environmentId, userId);
+    const targets = this.removeFromTargets(
+      (config.individualTargets as IndividualTargets | null) ?? {},
+      contextKeys
+    );
+
+    targets[variationKey] = [...new Set([...(targets[variationKey] ?? []), ...contextKeys])];
+
+    return this.updateEnvironmentConfig(
+      flagId,
+      environmentId,
+      userId,
+      { individualTargets: targets },
+      undefined,
+      config.updatedAt
+    );
+  }
+
+  /**
+   * Remove context keys from a variation's individual target list
+   */
+  async removeIndividualTargets(
+    flagId: string,
+    environmentId: string,
+    userId: string,
+    variationKey: string,
+    contextKeys: string[]
+  ) {
+    const config = await this.getEnvironmentConfig(flagId, environmentId, userId);
+    const targets = { ...((config.individualTargets as IndividualTargets | null) ?? {}) };
+
+    if (targets[variationKey]) {
+      targets[variationKey] = targets[variationKey].filter((key) => !contextKeys.includes(key));
+    }
+
+    return this.updateEnvironmentConfig(
+      flagId,
+      environmentId,
+      userId,
+      { individualTargets: targets },
+      undefined,
+      config.updatedAt
+    );
+  }
+
+  private removeFromTargets(targets: IndividualTargets, contextKeys: string[]): IndividualTargets {
+    return Object.fromEntries(
+      Object.entries(targets).map(([variationKey, keys]) => [
+        variationKey,
+        keys.filter((key) => !contextKeys.includes(key)),
+      ])
+    );
+  }
+
   async getAllEnvironmentConfigs(flagId: string, userId: string) {
     const flag = await this.getById(flagId, userId);
 
@@ -418,6 +847,33 @@ class FlagService {
   ) {
     return this.updateEnvironmentConfig(flagId, environmentId, userId, { enabled });
   }
+
+  /**
+   * Evaluate a flag for a context and return every step the evaluation took
+   */
+  async explain(
+    flagId: string,
+    environmentId: string,
+    userId: string,
+    context?: EvaluationContext
+  ) {
+    const flag = await this.getById(flagId, userId);
+
+    const environment = await prisma.environment.findUnique({
+      where: { id: environmentId },
+    });
+
+    if (!environment || environment.projectId !== flag.projectId) {
+      throw new Error('Environment not found or does not belong to the flag\'s project');
+    }
+
+    const explanation = await sdkService.explainFlag(flagId, environmentId, context);
+    if (!explanation) {
+      throw new Error('Flag not found');
+    }
+
+    return explanation;
+  }
 }
 
 export const flagService = new FlagService();
@@ -1,4 +1,5 @@
 import { prisma, MemberRole } from '@flagkit/database';
+import { invalidateCachedRulesets } from './ruleset-cache.service';
 
 export interface CreateOrganizationInput {
   name: string;
@@ -268,10 +269,16 @@ export class OrganizationService {
     // Check if user is owner
     await this.checkPermission(organizationId, userId, [MemberRole.OWNER]);
 
+    const environments = await prisma.environment.findMany({
+      where: { project: { organizationId } },
+      select: { clientSdkKey: true, serverSdkKey: true },
+    });
+
     // Delete organization (cascade will delete members, projects, etc.)
     await prisma.organization.delete({
       where: { id: organizationId },
     });
+    await invalidateCachedRulesets(environments);
 
     return { success: true };
   }
@@ -1,4 +1,5 @@
 import { prisma, MemberRole } from '@flagkit/database';
+import { invalidateCachedRulesets } from './ruleset-cache.service';
 
 export interface CreateProjectInput {
   name: string;
@@ -198,9 +199,15 @@ class ProjectService {
       throw new Error('Only organization owners and admins can delete projects');
     }
 
+    const environments = await prisma.environment.findMany({
+      where: { projectId },
+      select: { clientSdkKey: true, serverSdkKey: true },
+    });
+
     await prisma.project.delete({
       where: { id: projectId },
     });
+    await invalidateCachedRulesets(environments);
 
     return { success: true };
   }
@@ -0,0 +1,255 @@
+import { prisma, Prisma, FlagEnvironmentConfig } from '@flagkit/database';
+import { AuditService } from './audit.service';
+import { flagService } from './flag.service';
+import { environmentService } from './environment.service';
+import { streamService } from './stream.service';
+import { BucketingVersion } from '@flagkit/evaluator';
+import {
+  RolloutPlan,
+  RolloutPlanStatus,
+  RolloutStep,
+  isRolloutInProgress,
+  isStepDue,
+  validateRolloutSteps,
+} from '../types/rollout.types';
+
+class RolloutService {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService(prisma);
+  }
+
+  /**
+   * Save a new plan state and rollout percentage, unless the config changed
+   * since it was read. Returns false if another writer got there first.
+   */
+  private async savePlan(
+    config: FlagEnvironmentConfig,
+    plan: RolloutPlan,
+    userId: string,
+    comment: string,
+    rolloutPercentage = plan.steps[plan.currentStep].percentage
+  ): Promise<boolean> {
+    const result = await prisma.flagEnvironmentConfig.updateMany({
+      where: { id: config.id, updatedAt: config.updatedAt },
+      data: {
+        rolloutPercentage,
+        rolloutPlan: plan as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    if (result.count === 0) {
+      return false;
+    }
+    const flag = await prisma.flag.findUniqueOrThrow({
+      where: { id: config.flagId },
+      select: { key: true, projectId: true },
+    });
+    await environmentService.bumpConfigVersion(config.environmentId, flag.key);
+    await streamService.publishFlagChange(flag.projectId, flag.key, config.environmentId);
+
+    await this.auditService.logFlagChange({
+      flagId: config.flagId,
+      userId,
+      changeType: 'CONFIG_UPDATED',
+      before: {
+        rolloutPercentage: config.rolloutPercentage,
+        rolloutPlan: config.rolloutPlan,
+      },
+      after: {
+        rolloutPercentage,
+        rolloutPlan: plan,
+      },
+      comment,
+    });
+
+    return true;
+  }
+
+  private async getConfigForUpdate(flagId: string, environmentId: string, userId: string) {
+    const flag = await flagService.getById(flagId, userId);
+    await flagService.checkProjectPermission(flag.projectId, userId);
+
+    const environment = await prisma.environment.findUnique({
+      where: { id: environmentId },
+    });
+
+    if (!environment || environment.projectId !== flag.projectId) {
+      throw new Error('Environment not found or does not belong to the flag\'s project');
+    }
+
+    return flagService.getEnvironmentConfig(flagId, environmentId, userId);
+  }
+
+  private async reload(configId: string) {
+    return prisma.flagEnvironmentConfig.findUniqueOrThrow({ where: { id: configId } });
+  }
+
+  async start(flagId: string, environmentId: string, userId: string, steps: RolloutStep[]) {
+    const config = await this.getConfigForUpdate(flagId, environmentId, userId);
+
+    const error = validateRolloutSteps(steps);
+    if (error) {
+      throw new Error(`Invalid rollout plan: ${error}`);
+    }
+
+    if (
+      config.bucketingVersion === BucketingVersion.DJB2 &&
+      steps.some((step) => !Number.isInteger(step.percentage))
+    ) {
+      throw new Error('Fractional percentages require bucketing version 2');
+    }
+
+    if (isRolloutInProgress(config.rolloutPlan)) {
+      throw new Error('A rollout plan is already in progress');
+    }
+
+    const plan: RolloutPlan = {
+      steps,
+      status: RolloutPlanStatus.ACTIVE,
+      currentStep: 0,
+      stepStartedAt: new Date().toISOString(),
+      createdById: userId,
+    };
+
+    const saved = await this.savePlan(
+      config,
+      plan,
+      userId,
+      `Started rollout plan at ${steps[0].percentage}%`
+    );
+    if (!saved) {
+      throw new Error('Configuration was modified concurrently, please retry');
+    }
+
+    return this.reload(config.id);
+  }
+
+  async pause(flagId: string, environmentId: string, userId: string) {
+    const config = await this.getConfigForUpdate(flagId, environmentId, userId);
+    const plan = config.rolloutPlan as unknown as RolloutPlan | null;
+
+    if (plan?.status !== RolloutPlanStatus.ACTIVE) {
+      throw new Error('No active rollout plan to pause');
+    }
+
+    const saved = await this.savePlan(
+      config,
+      { ...plan, status: RolloutPlanStatus.PAUSED, pausedAt: new Date().toISOString() },
+      userId,
+      `Paused rollout plan at ${plan.steps[plan.currentStep].percentage}%`
+    );
+    if (!saved) {
+      throw new Error('Configuration was modified concurrently, please retry');
+    }
+
+    return this.reload(config.id);
+  }
+
+  async resume(flagId: string, environmentId: string, userId: string) {
+    const config = await this.getConfigForUpdate(flagId, environmentId, userId);
+    const plan = config.rolloutPlan as unknown as RolloutPlan | null;
+
+    if (plan?.status !== RolloutPlanStatus.PAUSED) {
+      throw new Error('No paused rollout plan to resume');
+    }
+
+    // Time spent paused doesn't count towards the current step
+    const pausedFor = Date.now() - new Date(plan.pausedAt ?? Date.now()).getTime();
+    const stepStartedAt = new Date(new Date(plan.stepStartedAt).getTime() + pausedFor);
+
+    const saved = await this.savePlan(
+      config,
+      {
+        ...plan,
+        status: RolloutPlanStatus.ACTIVE,
+        stepStartedAt: stepStartedAt.toISOString(),
+        pausedAt: undefined,
+      },
+      userId,
+      `Resumed rollout plan at ${plan.steps[plan.currentStep].percentage}%`
+    );
+    if (!saved) {
+      throw new Error('Configuration was modified concurrently, please retry');
+    }
+
+    return this.reload(config.id);
+  }
+
+  /**
+   * Stop the plan and roll the flag back to 0%
+   */
+  async abort(flagId: string, environmentId: string, userId: string) {
+    const config = await this.getConfigForUpdate(flagId, environmentId, userId);
+    const plan = config.rolloutPlan as unknown as RolloutPlan | null;
+
+    if (!isRolloutInProgress(plan)) {
+      throw new Error('No rollout plan in progress to abort');
+    }
+
+    const saved = await this.savePlan(
+      config,
+      { ...plan, status: RolloutPlanStatus.ABORTED },
+      userId,
+      'Aborted rollout plan and rolled back to 0%',
+      0
+    );
+    if (!saved) {
+      throw new Error('Configuration was modified concurrently, please retry');
+    }
+
+    return this.reload(config.id);
+  }
+
+  /**
+   * Move every active plan whose current step has run its course to the next
+   * step. Plans advance at most one step per run, so a plan that fell behind
+   * while the API was down doesn't jump straight to its final percentage.
+   */
+  async advanceRollouts(now = new Date()): Promise<number> {
+    const configs = await prisma.flagEnvironmentConfig.findMany({
+      where: {
+        rolloutPlan: {
+          path: ['status'],
+          equals: RolloutPlanStatus.ACTIVE,
+        },
+      },
+    });
+
+    let advanced = 0;
+
+    for (const config of configs) {
+      const plan = config.rolloutPlan as unknown as RolloutPlan;
+      if (!isStepDue(plan, now)) {
+        continue;
+      }
+
+      const currentStep = plan.currentStep + 1;
+      const isLastStep = currentStep === plan.steps.length - 1;
+      const percentage = plan.steps[currentStep].percentage;
+
+      const saved = await this.savePlan(
+        config,
+        {
+          ...plan,
+          currentStep,
+          status: isLastStep ? RolloutPlanStatus.COMPLETED : RolloutPlanStatus.ACTIVE,
+          stepStartedAt: now.toISOString(),
+        },
+        plan.createdById,
+        isLastStep
+          ? `Completed rollout plan at ${percentage}%`
+          : `Advanced rollout plan to step ${currentStep + 1} of ${plan.steps.length} (${percentage}%)`
+      );
+
+      if (saved) {
+        advanced++;
+      }
+    }
+
+    return advanced;
+  }
+}
+
+export const rolloutService = new RolloutService();
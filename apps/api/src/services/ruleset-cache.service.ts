@@ -0,0 +1,234 @@
+import Redis from 'ioredis';
+import type { FlagDefinition, SegmentMap } from '@flagkit/evaluator';
+import { config } from '../config';
+
+const REDIS_KEY_PREFIX = 'flagkit:ruleset:';
+
+// Config version that invalidates a key for good, e.g. once its environment is deleted
+const DROPPED_VERSION = Number.MAX_SAFE_INTEGER;
+
+// Most entries kept by the in-process cache, expired entries are swept first
+const MAX_MEMORY_ENTRIES = 10_000;
+
+// Set a key to "<config version>|<ruleset JSON>" unless it holds a newer config version.
+// Invalidations store the version they were made at without a ruleset.
+const REDIS_SET_UNLESS_NEWER = `
+local current = redis.call('GET', KEYS[1])
+if current then
+  local version = tonumber(string.match(current, '^(%d+)|'))
+  if version and version > tonumber(ARGV[1]) then
+    return 0
+  end
+end
+redis.call('SET', KEYS[1], ARGV[1] .. '|' .. ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+/**
+ * Everything SDK endpoints need to serve an environment: the environment an SDK key
+ * belongs to, with its active flag definitions and segments
+ */
+export interface CachedRuleset {
+  environment: {
+    id: string;
+    name: string;
+    key: string;
+    projectId: string;
+    configVersion: number;
+  };
+  flags: FlagDefinition[];
+  segments: SegmentMap;
+}
+
+export interface RulesetCache {
+  get(cacheKey: string): Promise<CachedRuleset | null>;
+  // Cache a ruleset loaded after a miss, unless it's older than the key's last invalidation
+  add(cacheKey: string, ruleset: CachedRuleset): Promise<void>;
+  // Drop cached rulesets and refuse ones loaded before the given config version
+  invalidate(cacheKeys: string[], configVersion?: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Cache key of the ruleset served to an SDK key. Client and server keys are kept
+ * apart so neither kind of key can be used for the other's endpoints.
+ */
+export function rulesetCacheKey(sdkKey: string, keyType: 'client' | 'server'): string {
+  return `${keyType}:${sdkKey}`;
+}
+
+/**
+ * Rulesets cached in the API process. Only invalidations made by this process are
+ * seen, so deployments with several API instances should use Redis.
+ */
+export class MemoryRulesetCache implements RulesetCache {
+  // Invalidated keys are kept without a ruleset, so rulesets loaded before the change
+  // can't be cached once it's made
+  private entries = new Map<
+    string,
+    { configVersion: number; ruleset: CachedRuleset | null; expiresAt: number }
+  >();
+
+  constructor(
+    private ttlMs: number,
+    private maxEntries = MAX_MEMORY_ENTRIES
+  ) {}
+
+  async get(cacheKey: string): Promise<CachedRuleset | null> {
+    const entry = this.entries.get(cacheKey);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(cacheKey);
+      return null;
+    }
+
+    return entry?.ruleset ?? null;
+  }
+
+  async add(cacheKey: string, ruleset: CachedRuleset): Promise<void> {
+    this.set(cacheKey, ruleset.environment.configVersion, ruleset);
+  }
+
+  async invalidate(cacheKeys: string[], configVersion = DROPPED_VERSION): Promise<void> {
+    for (const cacheKey of cacheKeys) {
+      this.set(cacheKey, configVersion, null);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  private set(cacheKey: string, configVersion: number, ruleset: CachedRuleset | null): void {
+    const now = Date.now();
+    const entry = this.entries.get(cacheKey);
+    if (entry && entry.expiresAt > now && entry.configVersion > configVersion) {
+      return;
+    }
+
+    // Re-inserted so the oldest entries come first
+    this.entries.delete(cacheKey);
+    if (this.entries.size >= this.maxEntries) {
+      this.evict(now);
+    }
+    this.entries.set(cacheKey, { configVersion, ruleset, expiresAt: now + this.ttlMs });
+  }
+
+  /**
+   * Sweep expired entries, or the oldest one if none have expired
+   */
+  private evict(now: number): void {
+    for (const [cacheKey, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(cacheKey);
+      }
+    }
+
+    if (this.entries.size >= this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+}
+
+/**
+ * Rulesets cached in Redis and shared by every API instance. Redis errors are
+ * treated as cache misses, so SDKs are served from the database while Redis is down.
+ */
+export class RedisRulesetCache implements RulesetCache {
+  constructor(
+    private redis: Redis,
+    private ttlMs: number
+  ) {}
+
+  async get(cacheKey: string): Promise<CachedRuleset | null> {
+    try {
+      const value = await this.redis.get(REDIS_KEY_PREFIX + cacheKey);
+      const ruleset = value?.slice(value.indexOf('|') + 1);
+      return ruleset ? (JSON.parse(ruleset) as CachedRuleset) : null;
+    } catch (error) {
+      console.error('Failed to read cached ruleset:', error);
+      return null;
+    }
+  }
+
+  async add(cacheKey: string, ruleset: CachedRuleset): Promise<void> {
+    try {
+      await this.redis.eval(
+        REDIS_SET_UNLESS_NEWER,
+        1,
+        REDIS_KEY_PREFIX + cacheKey,
+        ruleset.environment.configVersion,
+        JSON.stringify(ruleset),
+        this.ttlMs
+      );
+    } catch (error) {
+      console.error('Failed to cache ruleset:', error);
+    }
+  }
+
+  async invalidate(cacheKeys: string[], configVersion = DROPPED_VERSION): Promise<void> {
+    if (cacheKeys.length === 0) {
+      return;
+    }
+
+    try {
+      const pipeline = this.redis.pipeline();
+      for (const cacheKey of cacheKeys) {
+        pipeline.eval(
+          REDIS_SET_UNLESS_NEWER,
+          1,
+          REDIS_KEY_PREFIX + cacheKey,
+          configVersion,
+          '',
+          this.ttlMs
+        );
+      }
+      await pipeline.exec();
+    } catch (error) {
+      // Stale rulesets are served until they expire
+      console.error('Failed to invalidate cached rulesets:', error);
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+}
+
+function createRulesetCache(): RulesetCache | null {
+  if (!config.rulesetCache.enabled) {
+    return null;
+  }
+
+  if (!config.redis.url) {
+    return new MemoryRulesetCache(config.rulesetCache.ttlMs);
+  }
+
+  const redis = new Redis(config.redis.url, {
+    // Connect on the first command, and fail commands instead of queueing them while Redis is down
+    lazyConnect: true,
+    maxRetriesPerRequest: 1,
+  });
+  redis.on('error', (error) => console.error('Redis connection error:', error));
+
+  return new RedisRulesetCache(redis, config.rulesetCache.ttlMs);
+}
+
+export const rulesetCache = createRulesetCache();
+
+/**
+ * Drop the cached rulesets of environments under both of their SDK keys. Rulesets
+ * older than the config version aren't cached again, and without a version the keys
+ * aren't cached again at all, e.g. once their environment is deleted.
+ */
+export async function invalidateCachedRulesets(
+  environments: Array<{ clientSdkKey: string; serverSdkKey: string }>,
+  configVersion?: number
+): Promise<void> {
+  await rulesetCache?.invalidate(
+    environments.flatMap((environment) => [
+      rulesetCacheKey(environment.clientSdkKey, 'client'),
+      rulesetCacheKey(environment.serverSdkKey, 'server'),
+    ]),
+    configVersion
+  );
+}
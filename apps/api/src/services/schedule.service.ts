@@ -0,0 +1,224 @@
+import { z } from 'zod';
+import { prisma, Prisma, ScheduledChangeAction, ScheduledChangeStatus } from '@flagkit/database';
+import { flagService, UpdateFlagConfigInput } from './flag.service';
+import { TargetingRule } from '@flagkit/evaluator';
+
+export interface CreateScheduledChangeInput {
+  action: ScheduledChangeAction;
+  value?: unknown;
+  scheduledFor: Date;
+  comment?: string;
+}
+
+export interface ListScheduledChangesFilters {
+  environmentId?: string;
+  status?: ScheduledChangeStatus;
+}
+
+// Changes left RUNNING for longer than this were interrupted (e.g. by a restart) and are retried
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+// Upper bound on changes applied per scheduler tick
+const BATCH_SIZE = 100;
+
+class ScheduleService {
+  /**
+   * Translate a scheduled action into the environment config update it applies
+   */
+  private toConfigInput(action: ScheduledChangeAction, value: unknown): UpdateFlagConfigInput {
+    switch (action) {
+      case ScheduledChangeAction.TOGGLE_ON:
+        return { enabled: true };
+      case ScheduledChangeAction.TOGGLE_OFF:
+        return { enabled: false };
+      case ScheduledChangeAction.SET_DEFAULT_VARIATION:
+        if (typeof value !== 'string' || value === '') {
+          throw new Error('SET_DEFAULT_VARIATION requires a variation key');
+        }
+        return { defaultVariationKey: value };
+      case ScheduledChangeAction.SET_TARGETING_RULES:
+        if (!Array.isArray(value)) {
+          throw new Error('SET_TARGETING_RULES requires an array of targeting rules');
+        }
+        return { targetingRules: value as TargetingRule[] };
+      case ScheduledChangeAction.SET_ROLLOUT:
+        if (typeof value !== 'number' || value < 0 || value > 100) {
+          throw new Error('SET_ROLLOUT requires a percentage between 0 and 100');
+        }
+        return { rolloutPercentage: value };
+      default:
+        throw new Error(`Unknown scheduled action: ${action}`);
+    }
+  }
+
+  async create(
+    flagId: string,
+    environmentId: string,
+    userId: string,
+    input: CreateScheduledChangeInput
+  ) {
+    const flag = await flagService.getById(flagId, userId);
+    await flagService.checkProjectPermission(flag.projectId, userId);
+
+    const environment = await prisma.environment.findUnique({
+      where: { id: environmentId },
+    });
+
+    if (!environment || environment.projectId !== flag.projectId) {
+      throw new Error('Environment not found or does not belong to the flag\'s project');
+    }
+
+    if (input.scheduledFor.getTime() <= Date.now()) {
+      throw new Error('Scheduled time must be in the future');
+    }
+
+    // Catch obvious mistakes now rather than when the change runs
+    const configInput = this.toConfigInput(input.action, input.value);
+    if (
+      configInput.defaultVariationKey &&
+      !flag.variations.some((v) => v.key === configInput.defaultVariationKey)
+    ) {
+      throw new Error('Invalid default variation key');
+    }
+    if (configInput.targetingRules) {
+      // Field paths of rule errors are relative to the request, e.g. value.0.variationKey
+      flagService.validateTargetingRules(
+        configInput.targetingRules,
+        flag.variations.map((v) => v.key),
+        ['value']
+      );
+    }
+
+    return prisma.scheduledFlagChange.create({
+      data: {
+        flagId,
+        environmentId,
+        createdById: userId,
+        action: input.action,
+        value: input.value === undefined ? undefined : (input.value as Prisma.InputJsonValue),
+        comment: input.comment,
+        scheduledFor: input.scheduledFor,
+      },
+    });
+  }
+
+  async list(flagId: string, userId: string, filters: ListScheduledChangesFilters = {}) {
+    await flagService.getById(flagId, userId);
+
+    return prisma.scheduledFlagChange.findMany({
+      where: {
+        flagId,
+        environmentId: filters.environmentId,
+        status: filters.status,
+      },
+      include: {
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { scheduledFor: 'asc' },
+    });
+  }
+
+  async cancel(flagId: string, changeId: string, userId: string) {
+    const flag = await flagService.getById(flagId, userId);
+    await flagService.checkProjectPermission(flag.projectId, userId);
+
+    // Only pending changes can be cancelled, a running change is already being applied
+    const result = await prisma.scheduledFlagChange.updateMany({
+      where: { id: changeId, flagId, status: ScheduledChangeStatus.PENDING },
+      data: { status: ScheduledChangeStatus.CANCELLED },
+    });
+
+    const change = await prisma.scheduledFlagChange.findFirst({
+      where: { id: changeId, flagId },
+    });
+
+    if (!change) {
+      throw new Error('Scheduled change not found');
+    }
+
+    if (result.count === 0) {
+      throw new Error(`Scheduled change is already ${change.status.toLowerCase()}`);
+    }
+
+    return change;
+  }
+
+  /**
+   * Apply every pending change that is due, as the user who scheduled it.
+   * Changes missed while the API was down are applied on the first run after
+   * it comes back. Each change is claimed with a conditional update before it
+   * is applied, so concurrent schedulers never apply the same change twice.
+   */
+  async runDueChanges(now = new Date()): Promise<number> {
+    await prisma.scheduledFlagChange.updateMany({
+      where: {
+        status: ScheduledChangeStatus.RUNNING,
+        claimedAt: { lt: new Date(Date.now() - STALE_CLAIM_MS) },
+      },
+      data: { status: ScheduledChangeStatus.PENDING, claimedAt: null },
+    });
+
+    const dueChanges = await prisma.scheduledFlagChange.findMany({
+      where: {
+        status: ScheduledChangeStatus.PENDING,
+        scheduledFor: { lte: now },
+      },
+      orderBy: { scheduledFor: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    let applied = 0;
+
+    for (const change of dueChanges) {
+      const claim = await prisma.scheduledFlagChange.updateMany({
+        where: { id: change.id, status: ScheduledChangeStatus.PENDING },
+        data: { status: ScheduledChangeStatus.RUNNING, claimedAt: new Date() },
+      });
+
+      if (claim.count === 0) {
+        // Cancelled or claimed by another instance in the meantime
+        continue;
+      }
+
+      try {
+        await flagService.updateEnvironmentConfig(
+          change.flagId,
+          change.environmentId,
+          change.createdById,
+          this.toConfigInput(change.action, change.value),
+          change.comment || `Applied scheduled change (${change.action})`
+        );
+
+        await prisma.scheduledFlagChange.update({
+          where: { id: change.id },
+          data: { status: ScheduledChangeStatus.COMPLETED, executedAt: new Date() },
+        });
+        applied++;
+      } catch (error) {
+        await prisma.scheduledFlagChange.update({
+          where: { id: change.id },
+          data: {
+            status: ScheduledChangeStatus.FAILED,
+            executedAt: new Date(),
+            error:
+              error instanceof z.ZodError
+                ? `${error.errors[0].path.join('.')}: ${error.errors[0].message}`
+                : error instanceof Error
+                  ? error.message
+                  : 'Failed to apply scheduled change',
+          },
+        });
+      }
+    }
+
+    return applied;
+  }
+}
+
+export const scheduleService = new ScheduleService();
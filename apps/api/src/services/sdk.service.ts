@@ -1,23 +1,71 @@
-import { prisma } from '@flagkit/database';
+import { prisma, Flag, FlagVariation, FlagEnvironmentConfig } from '@flagkit/database';
 import {
-  TargetingRule,
-  evaluateRule,
-  isInRollout,
-  EvaluationContext as TargetingContext,
-} from '../types/targeting.types';
-
-export type EvaluationContext = TargetingContext;
-
-export interface FlagEvaluation {
-  key: string;
-  value: unknown;
-  variationKey: string;
-  enabled: boolean;
-  reason: string;
+  Condition,
+  ConditionLogic,
+  EvaluationContext,
+  EvaluationStep,
+  FlagDefinition,
+  FlagEvaluation,
+  Prerequisite,
+  SegmentMap,
+  createFlagResolver,
+  evaluateAllFlags,
+  evaluateFlag,
+  usesCurrentTime,
+} from '@flagkit/evaluator';
+import { createEtag, matchesEtag } from '../utils/etag';
+import { isRolloutPlanned } from '../types/rollout.types';
+import { environmentService } from './environment.service';
+import { CachedRuleset, rulesetCache, rulesetCacheKey } from './ruleset-cache.service';
+
+export type { EvaluationContext, FlagEvaluation };
+
+export interface FlagExplanation {
+  evaluation: FlagEvaluation;
+  steps: EvaluationStep[];
 }
 
+type FlagWithEnvConfig = Flag & {
+  variations: FlagVariation[];
+  envConfigs: FlagEnvironmentConfig[];
+};
+
 export interface FlagsResponse {
   flags: Record<string, FlagEvaluation>;
+  // Config version of the environment, for requesting only later changes
+  version: number;
+  environment: {
+    id: string;
+    name: string;
+    key: string;
+  };
+}
+
+export interface RulesResponse {
+  flags: FlagDefinition[];
+  segments: SegmentMap;
+  environment: {
+    id: string;
+    name: string;
+    key: string;
+  };
+}
+
+export type EnvironmentRuleset = Pick<RulesResponse, 'flags' | 'segments'>;
+
+// A response, unless the SDK's If-None-Match tag is still current
+export type VersionedResponse<T> =
+  | { modified: false; etag: string }
+  | { modified: true; etag: string | null; response: T };
+
+export type VersionedFlagsResponse = VersionedResponse<FlagsResponse>;
+
+// Flags changed since the SDK's config version, or all of them when `full` is set
+export interface FlagDeltaResponse {
+  version: number;
+  full: boolean;
+  flags: Record<string, FlagEvaluation>;
+  deleted: string[];
   environment: {
     id: string;
     name: string;
@@ -28,80 +76,58 @@ export interface FlagsResponse {
 class SdkService {
 
   /**
-   * Evaluate targeting rules and return the variation key
+   * Map a flag loaded with its environment config to the evaluator's definition
    */
-  private evaluateTargeting(
-    config: {
-      targetingRules: unknown;
-      rolloutPercentage: number | null;
-      defaultVariationKey: string | null;
-    },
-    flagKey: string,
-    context?: EvaluationContext
-  ): { variationKey: string; reason: string } {
-    // Parse targeting rules
-    let rules: TargetingRule[] = [];
-    if (config.targetingRules && typeof config.targetingRules === 'object') {
-      try {
-        rules = Array.isArray(config.targetingRules)
-          ? (config.targetingRules as TargetingRule[])
-          : [];
-      } catch {
-        // Invalid targeting rules, ignore
-      }
-    }
+  private toFlagDefinition(flag: FlagWithEnvConfig): FlagDefinition {
+    const config = flag.envConfigs[0];
 
-    // If we have context and targeting rules, evaluate them in order
-    if (context && rules.length > 0) {
-      for (const rule of rules) {
-        if (evaluateRule(rule, context)) {
-          // Rule matched! Check if there's a rollout percentage for this rule
-          if (rule.rolloutPercentage !== undefined && rule.rolloutPercentage < 100) {
-            const inRollout = isInRollout(flagKey, context.userId, rule.rolloutPercentage);
-            if (inRollout) {
-              return {
-                variationKey: rule.variationKey,
-                reason: `TARGETING_RULE:${rule.id}:ROLLOUT`,
-              };
-            }
-            // Not in rollout percentage, continue to next rule
-            continue;
+    return {
+      key: flag.key,
+      salt: flag.salt,
+      variations: flag.variations.map((variation) => ({
+        key: variation.key,
+        value: JSON.parse(variation.value),
+      })),
+      config: config
+        ? {
+            enabled: config.enabled,
+            defaultVariationKey: config.defaultVariationKey,
+            fallbackVariationKey: config.fallbackVariationKey,
+            targetingRules: config.targetingRules,
+            rolloutPercentage: config.rolloutPercentage,
+            rolloutPlanned: isRolloutPlanned(config.rolloutPlan),
+            defaultDistribution: config.defaultDistribution,
+            bucketBy: config.bucketBy,
+            bucketingVersion: config.bucketingVersion,
+            prerequisites: config.prerequisites,
+            individualTargets: config.individualTargets,
           }
+        : null,
+    };
+  }
 
-          // No rollout or 100% rollout - return this variation
-          return {
-            variationKey: rule.variationKey,
-            reason: `TARGETING_RULE:${rule.id}`,
-          };
-        }
-      }
-    }
+  /**
+   * Load the segments of a project for resolving segment conditions
+   */
+  private async getProjectSegments(projectId: string): Promise<SegmentMap> {
+    const segments = await prisma.segment.findMany({
+      where: { projectId },
+    });
 
-    // Check global rollout percentage
-    if (config.rolloutPercentage !== null && config.rolloutPercentage > 0) {
-      const inRollout = isInRollout(
-        flagKey,
-        context?.userId,
-        config.rolloutPercentage
-      );
-      if (!inRollout) {
-        // User not in rollout - return default but as disabled
-        return {
-          variationKey: config.defaultVariationKey || 'false',
-          reason: 'ROLLOUT_NOT_INCLUDED',
-        };
-      }
-      return {
-        variationKey: config.defaultVariationKey || 'true',
-        reason: 'ROLLOUT_INCLUDED',
+    const segmentMap: SegmentMap = {};
+    for (const segment of segments) {
+      segmentMap[segment.key] = {
+        key: segment.key,
+        conditions: Array.isArray(segment.conditions)
+          ? (segment.conditions as unknown as Condition[])
+          : [],
+        conditionLogic: segment.conditionLogic === ConditionLogic.OR
+          ? ConditionLogic.OR
+          : ConditionLogic.AND,
       };
     }
 
-    // No targeting rules matched or no context provided - return default
-    return {
-      variationKey: config.defaultVariationKey || 'true',
-      reason: 'DEFAULT',
-    };
+    return segmentMap;
   }
 
   /**
@@ -110,7 +136,13 @@ class SdkService {
   async getEnvironmentBySdkKey(
     sdkKey: string,
     keyType: 'client' | 'server'
-  ): Promise<{ id: string; name: string; key: string; projectId: string } | null> {
+  ): Promise<{
+    id: string;
+    name: string;
+    key: string;
+    projectId: string;
+    configVersion: number;
+  } | null> {
     const environment = await prisma.environment.findFirst({
       where:
         keyType === 'client'
@@ -121,6 +153,7 @@ class SdkService {
         name: true,
         key: true,
         projectId: true,
+        configVersion: true,
       },
     });
 
@@ -128,108 +161,197 @@ class SdkService {
   }
 
   /**
-   * Get all flags for an environment with their evaluated values
+   * Get all flags for an environment with their evaluated values.
+   * Targeting rules and rollouts are applied when a context is provided.
    */
-  async getAllFlags(sdkKey: string, keyType: 'client' | 'server'): Promise<FlagsResponse | null> {
-    const environment = await this.getEnvironmentBySdkKey(sdkKey, keyType);
-    if (!environment) {
+  async getAllFlags(
+    sdkKey: string,
+    keyType: 'client' | 'server',
+    context?: EvaluationContext
+  ): Promise<FlagsResponse | null> {
+    const result = await this.getVersionedFlags(sdkKey, keyType, context);
+    return result?.modified ? result.response : null;
+  }
+
+  /**
+   * Get all flags like getAllFlags, unless the SDK sent the ETag of the current
+   * version. Tags cover the environment's config version and the context, and are
+   * left out when evaluations depend on the current time.
+   */
+  async getVersionedFlags(
+    sdkKey: string,
+    keyType: 'client' | 'server',
+    context?: EvaluationContext,
+    ifNoneMatch?: string
+  ): Promise<VersionedFlagsResponse | null> {
+    const ruleset = await this.getCachedRuleset(sdkKey, keyType);
+    if (!ruleset) {
       return null;
     }
 
-    // Get all active flags for the project
-    const flags = await prisma.flag.findMany({
-      where: {
-        projectId: environment.projectId,
-        status: 'ACTIVE',
-      },
-      include: {
-        variations: true,
-        envConfigs: {
-          where: {
-            environmentId: environment.id,
-          },
+    // Tags are only handed out for versions that don't use the time, so a
+    // matching tag means the evaluations are unchanged
+    const { environment, flags, segments } = ruleset;
+    const etag = createEtag(environment.configVersion, environment.id, context ?? null);
+    if (matchesEtag(ifNoneMatch, etag)) {
+      return { modified: false, etag };
+    }
+
+    return {
+      modified: true,
+      etag: usesCurrentTime(flags, segments) ? null : etag,
+      response: {
+        flags: evaluateAllFlags(flags, context, segments),
+        version: environment.configVersion,
+        environment: {
+          id: environment.id,
+          name: environment.name,
+          key: environment.key,
         },
       },
-    });
-
-    const evaluatedFlags: Record<string, FlagEvaluation> = {};
-
-    for (const flag of flags) {
-      const config = flag.envConfigs[0];
-
-      // If no config exists, create default disabled state
-      if (!config) {
-        const defaultVariation = flag.variations.find((v) => v.key === 'false') || flag.variations[0];
-        evaluatedFlags[flag.key] = {
-          key: flag.key,
-          value: defaultVariation ? JSON.parse(defaultVariation.value) : false,
-          variationKey: defaultVariation?.key || 'false',
-          enabled: false,
-          reason: 'NO_CONFIG',
-        };
-        continue;
-      }
+    };
+  }
 
-      // Flag is disabled
-      if (!config.enabled) {
-        const fallbackVariation = flag.variations.find(
-          (v) => v.key === config.fallbackVariationKey
-        ) || flag.variations.find((v) => v.key === 'false') || flag.variations[0];
-
-        evaluatedFlags[flag.key] = {
-          key: flag.key,
-          value: fallbackVariation ? JSON.parse(fallbackVariation.value) : false,
-          variationKey: fallbackVariation?.key || 'false',
-          enabled: false,
-          reason: 'DISABLED',
-        };
-        continue;
-      }
+  /**
+   * Get the flags changed since a config version of the environment, with the keys
+   * of flags that were archived. Versions too old to have their changes recorded,
+   * changes to segments and rules depending on the current time get a full snapshot.
+   * Tagged with the version changes are requested since too, as the response differs per
+   * version, so a tag only answers not modified to SDKs that already have the current one.
+   */
+  async getFlagDeltas(
+    sdkKey: string,
+    keyType: 'client' | 'server',
+    sinceVersion: number,
+    context?: EvaluationContext,
+    ifNoneMatch?: string
+  ): Promise<VersionedResponse<FlagDeltaResponse> | null> {
+    const ruleset = await this.getCachedRuleset(sdkKey, keyType);
+    if (!ruleset) {
+      return null;
+    }
 
-      // Flag is enabled - return default variation
-      const defaultVariation = flag.variations.find(
-        (v) => v.key === config.defaultVariationKey
-      ) || flag.variations.find((v) => v.key === 'true') || flag.variations[0];
-
-      evaluatedFlags[flag.key] = {
-        key: flag.key,
-        value: defaultVariation ? JSON.parse(defaultVariation.value) : true,
-        variationKey: defaultVariation?.key || 'true',
-        enabled: true,
-        reason: 'DEFAULT',
-      };
+    const { environment, flags, segments } = ruleset;
+    const etag = createEtag(environment.configVersion, environment.id, context ?? null, sinceVersion);
+    if (matchesEtag(ifNoneMatch, etag)) {
+      return { modified: false, etag };
     }
 
-    return {
-      flags: evaluatedFlags,
+    // The version was read before the flags, so SDKs at worst get a change twice
+    const changedKeys = await environmentService.getChangedFlagKeys(
+      environment.id,
+      sinceVersion,
+      environment.configVersion
+    );
+    const timeDependent = usesCurrentTime(flags, segments);
+    const response = {
+      version: environment.configVersion,
       environment: {
         id: environment.id,
         name: environment.name,
         key: environment.key,
       },
     };
+
+    if (!changedKeys || timeDependent) {
+      return {
+        modified: true,
+        etag: timeDependent ? null : etag,
+        response: {
+          ...response,
+          full: true,
+          flags: evaluateAllFlags(flags, context, segments),
+          deleted: [],
+        },
+      };
+    }
+
+    const flagsByKey = new Map(flags.map((flag) => [flag.key, flag]));
+    const resolveFlag = createFlagResolver(flagsByKey, context, segments);
+    const evaluations: Record<string, FlagEvaluation> = {};
+    const deleted: string[] = [];
+
+    for (const flagKey of this.withDependentFlagKeys(flags, changedKeys)) {
+      if (flagsByKey.has(flagKey)) {
+        evaluations[flagKey] = resolveFlag(flagKey)!;
+      } else {
+        deleted.push(flagKey);
+      }
+    }
+
+    return {
+      modified: true,
+      etag,
+      response: { ...response, full: false, flags: evaluations, deleted },
+    };
   }
 
   /**
-   * Evaluate a single flag for a given context
+   * Add the flags that have any of the given flags as a direct or indirect
+   * prerequisite, since their evaluations change with them
    */
-  async evaluateFlag(
+  private withDependentFlagKeys(flags: FlagDefinition[], flagKeys: string[]): Set<string> {
+    const affected = new Set(flagKeys);
+    let added = true;
+
+    while (added) {
+      added = false;
+      for (const flag of flags) {
+        if (affected.has(flag.key)) {
+          continue;
+        }
+        const prerequisites = Array.isArray(flag.config?.prerequisites)
+          ? (flag.config.prerequisites as Prerequisite[])
+          : [];
+        if (prerequisites.some((prerequisite) => affected.has(prerequisite.flagKey))) {
+          affected.add(flag.key);
+          added = true;
+        }
+      }
+    }
+
+    return affected;
+  }
+
+  /**
+   * Get the environment of an SDK key with its ruleset, from the ruleset cache
+   * when it's enabled. Keys that don't belong to an environment aren't cached.
+   */
+  async getCachedRuleset(
     sdkKey: string,
-    keyType: 'client' | 'server',
-    flagKey: string,
-    context?: EvaluationContext,
-    _sdkVersion?: string
-  ): Promise<FlagEvaluation | null> {
+    keyType: 'client' | 'server'
+  ): Promise<CachedRuleset | null> {
+    const cacheKey = rulesetCacheKey(sdkKey, keyType);
+    const cached = await rulesetCache?.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // The environment is loaded first, so a ruleset is never older than its config version
     const environment = await this.getEnvironmentBySdkKey(sdkKey, keyType);
     if (!environment) {
       return null;
     }
 
-    // Get the flag with its configuration
-    const flag = await prisma.flag.findFirst({
+    const ruleset: CachedRuleset = {
+      environment,
+      ...(await this.getEnvironmentRuleset(environment)),
+    };
+    await rulesetCache?.add(cacheKey, ruleset);
+
+    return ruleset;
+  }
+
+  /**
+   * Load the active flag definitions and segments of an environment
+   */
+  async getEnvironmentRuleset(environment: {
+    id: string;
+    projectId: string;
+  }): Promise<EnvironmentRuleset> {
+    const flags = await prisma.flag.findMany({
       where: {
         projectId: environment.projectId,
-        key: flagKey,
         status: 'ACTIVE',
       },
       include: {
@@ -242,67 +364,103 @@ class SdkService {
       },
     });
 
-    if (!flag) {
+    return {
+      flags: flags.map((flag) => this.toFlagDefinition(flag)),
+      segments: await this.getProjectSegments(environment.projectId),
+    };
+  }
+
+  /**
+   * Get the full ruleset of an environment for server SDKs to evaluate locally.
+   * Rules expose targeting details, so they are only served for server SDK keys.
+   */
+  async getRules(sdkKey: string): Promise<RulesResponse | null> {
+    const ruleset = await this.getCachedRuleset(sdkKey, 'server');
+    if (!ruleset) {
       return null;
     }
 
-    const config = flag.envConfigs[0];
+    const { environment, flags, segments } = ruleset;
+    return {
+      flags,
+      segments,
+      environment: {
+        id: environment.id,
+        name: environment.name,
+        key: environment.key,
+      },
+    };
+  }
 
-    let evaluation: FlagEvaluation;
-
-    // If no config exists, return default disabled state
-    if (!config) {
-      const defaultVariation = flag.variations.find((v) => v.key === 'false') || flag.variations[0];
-      evaluation = {
-        key: flag.key,
-        value: defaultVariation ? JSON.parse(defaultVariation.value) : false,
-        variationKey: defaultVariation?.key || 'false',
-        enabled: false,
-        reason: 'NO_CONFIG',
-      };
-    }
-    // Flag is disabled
-    else if (!config.enabled) {
-      const fallbackVariation = flag.variations.find(
-        (v) => v.key === config.fallbackVariationKey
-      ) || flag.variations.find((v) => v.key === 'false') || flag.variations[0];
-
-      evaluation = {
-        key: flag.key,
-        value: fallbackVariation ? JSON.parse(fallbackVariation.value) : false,
-        variationKey: fallbackVariation?.key || 'false',
-        enabled: false,
-        reason: 'DISABLED',
-      };
-    }
-    // Flag is enabled - evaluate targeting rules
-    else {
-      const { variationKey, reason } = this.evaluateTargeting(
-        {
-          targetingRules: config.targetingRules,
-          rolloutPercentage: config.rolloutPercentage,
-          defaultVariationKey: config.defaultVariationKey,
+  /**
+   * Evaluate a flag in an environment the way the SDK endpoints do, recording
+   * every step taken. Archived flags are explained as if they were active.
+   * Callers are responsible for checking access to the flag.
+   */
+  async explainFlag(
+    flagId: string,
+    environmentId: string,
+    context?: EvaluationContext
+  ): Promise<FlagExplanation | null> {
+    const include = {
+      variations: true,
+      envConfigs: {
+        where: {
+          environmentId,
         },
-        flag.key,
-        context
-      );
-
-      // Find the variation for the determined key
-      const variation = flag.variations.find((v) => v.key === variationKey) ||
-        flag.variations.find((v) => v.key === config.defaultVariationKey) ||
-        flag.variations.find((v) => v.key === 'true') ||
-        flag.variations[0];
-
-      evaluation = {
-        key: flag.key,
-        value: variation ? JSON.parse(variation.value) : true,
-        variationKey: variation?.key || 'true',
-        enabled: true,
-        reason,
-      };
+      },
+    };
+
+    const flag = await prisma.flag.findUnique({
+      where: { id: flagId },
+      include,
+    });
+
+    if (!flag) {
+      return null;
+    }
+
+    const flags = await prisma.flag.findMany({
+      where: {
+        projectId: flag.projectId,
+        status: 'ACTIVE',
+      },
+      include,
+    });
+
+    const segments = await this.getProjectSegments(flag.projectId);
+    const resolveFlag = createFlagResolver(
+      flags.map((f) => this.toFlagDefinition(f)),
+      context,
+      segments
+    );
+    const steps: EvaluationStep[] = [];
+    const evaluation = evaluateFlag(this.toFlagDefinition(flag), context, {
+      segments,
+      resolveFlag,
+      trace: steps,
+    });
+
+    return { evaluation, steps };
+  }
+
+  /**
+   * Evaluate a single flag for a given context
+   */
+  async evaluateFlag(
+    sdkKey: string,
+    keyType: 'client' | 'server',
+    flagKey: string,
+    context?: EvaluationContext,
+    _sdkVersion?: string
+  ): Promise<FlagEvaluation | null> {
+    const ruleset = await this.getCachedRuleset(sdkKey, keyType);
+    if (!ruleset) {
+      return null;
     }
 
-    return evaluation;
+    // Other flags are only evaluated when they are prerequisites of this one
+    return createFlagResolver(ruleset.flags, context, ruleset.segments)(flagKey);
   }
 }
 
@@ -0,0 +1,299 @@
+import { prisma, Prisma } from '@flagkit/database';
+import { MemberRole, AuditAction, AuditResourceType } from '@flagkit/database';
+import { AuditService } from './audit.service';
+import { environmentService } from './environment.service';
+import { streamService } from './stream.service';
+import {
+  Condition,
+  ConditionLogic,
+  TargetingRule,
+  getReferencedSegmentKeys,
+  validateCondition,
+} from '@flagkit/evaluator';
+
+export interface CreateSegmentInput {
+  key: string;
+  name: string;
+  description?: string;
+  conditions: Condition[];
+  conditionLogic?: ConditionLogic;
+}
+
+export interface UpdateSegmentInput {
+  key?: string;
+  name?: string;
+  description?: string;
+  conditions?: Condition[];
+  conditionLogic?: ConditionLogic;
+}
+
+class SegmentService {
+  private auditService: AuditService;
+
+  constructor() {
+    this.auditService = new AuditService(prisma);
+  }
+
+  /**
+   * Get a project with the membership of the given user
+   */
+  private async getProjectForUser(projectId: string, userId: string) {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+      include: {
+        organization: {
+          include: {
+            members: {
+              where: { userId },
+            },
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    if (project.organization.members.length === 0) {
+      throw new Error('Access denied');
+    }
+
+    return project;
+  }
+
+  private async checkProjectPermission(projectId: string, userId: string) {
+    const project = await this.getProjectForUser(projectId, userId);
+    const member = project.organization.members[0];
+
+    // VIEWER can read but not create/modify
+    const allowedRoles: MemberRole[] = [
+      MemberRole.OWNER,
+      MemberRole.ADMIN,
+      MemberRole.PROJECT_ADMIN,
+      MemberRole.DEVELOPER,
+    ];
+
+    if (!allowedRoles.includes(member.role)) {
+      throw new Error('Insufficient permissions to manage segments');
+    }
+
+    return project;
+  }
+
+  private validateConditions(conditions: Condition[]) {
+    for (const condition of conditions) {
+      const error = validateCondition(condition);
+      if (error) {
+        throw new Error(`Invalid segment condition: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Find the flags whose environment configs reference a segment key
+   */
+  private async getReferencingFlagKeys(projectId: string, segmentKey: string): Promise<string[]> {
+    const configs = await prisma.flagEnvironmentConfig.findMany({
+      where: {
+        flag: { projectId },
+        targetingRules: { not: Prisma.DbNull },
+      },
+      include: {
+        flag: {
+          select: { key: true },
+        },
+      },
+    });
+
+    const flagKeys = new Set<string>();
+    for (const config of configs) {
+      const rules = Array.isArray(config.targetingRules)
+        ? (config.targetingRules as unknown as TargetingRule[])
+        : [];
+      if (getReferencedSegmentKeys(rules).includes(segmentKey)) {
+        flagKeys.add(config.flag.key);
+      }
+    }
+
+    return Array.from(flagKeys);
+  }
+
+  async create(projectId: string, userId: string, input: CreateSegmentInput) {
+    const project = await this.checkProjectPermission(projectId, userId);
+    this.validateConditions(input.conditions);
+
+    // Check if segment key already exists in project
+    const existing = await prisma.segment.findUnique({
+      where: {
+        projectId_key: {
+          projectId,
+          key: input.key.toLowerCase(),
+        },
+      },
+    });
+
+    if (existing) {
+      throw new Error('Segment with this key already exists in the project');
+    }
+
+    const segment = await prisma.segment.create({
+      data: {
+        key: input.key.toLowerCase(),
+        name: input.name,
+        description: input.description,
+        conditions: input.conditions as unknown as Prisma.InputJsonValue,
+        conditionLogic: input.conditionLogic || ConditionLogic.AND,
+        projectId,
+      },
+    });
+    // Rules may already reference the new segment's key
+    await environmentService.bumpProjectConfigVersions(projectId);
+    await streamService.publishFlagChange(projectId, null);
+
+    await this.auditService.log({
+      action: AuditAction.CREATE,
+      resourceType: AuditResourceType.SEGMENT,
+      resourceId: segment.id,
+      userId,
+      organizationId: project.organizationId,
+      changes: {
+        after: segment,
+      },
+      metadata: {
+        segmentKey: segment.key,
+        segmentName: segment.name,
+        projectId,
+      },
+    });
+
+    return segment;
+  }
+
+  async getProjectSegments(projectId: string, userId: string) {
+    await this.getProjectForUser(projectId, userId);
+
+    const segments = await prisma.segment.findMany({
+      where: { projectId },
+      orderBy: {
+        createdAt: 'desc',
+      },
+    });
+
+    return segments;
+  }
+
+  async getById(projectId: string, segmentId: string, userId: string) {
+    await this.getProjectForUser(projectId, userId);
+
+    const segment = await prisma.segment.findUnique({
+      where: { id: segmentId },
+    });
+
+    if (!segment || segment.projectId !== projectId) {
+      throw new Error('Segment not found');
+    }
+
+    return segment;
+  }
+
+  async update(projectId: string, segmentId: string, userId: string, input: UpdateSegmentInput) {
+    const project = await this.checkProjectPermission(projectId, userId);
+    const segment = await this.getById(projectId, segmentId, userId);
+
+    if (input.conditions) {
+      this.validateConditions(input.conditions);
+    }
+
+    // If updating key, check it doesn't conflict and isn't referenced under the old key
+    if (input.key && input.key.toLowerCase() !== segment.key) {
+      const existing = await prisma.segment.findUnique({
+        where: {
+          projectId_key: {
+            projectId,
+            key: input.key.toLowerCase(),
+          },
+        },
+      });
+
+      if (existing) {
+        throw new Error('Segment with this key already exists in the project');
+      }
+
+      const referencingFlags = await this.getReferencingFlagKeys(projectId, segment.key);
+      if (referencingFlags.length > 0) {
+        throw new Error(
+          `Cannot change the key of a segment used by flags: ${referencingFlags.join(', ')}`
+        );
+      }
+    }
+
+    const updated = await prisma.segment.update({
+      where: { id: segmentId },
+      data: {
+        key: input.key?.toLowerCase(),
+        name: input.name,
+        description: input.description,
+        conditions: input.conditions as unknown as Prisma.InputJsonValue,
+        conditionLogic: input.conditionLogic,
+      },
+    });
+    await environmentService.bumpProjectConfigVersions(projectId);
+    await streamService.publishFlagChange(projectId, null);
+
+    await this.auditService.log({
+      action: AuditAction.UPDATE,
+      resourceType: AuditResourceType.SEGMENT,
+      resourceId: segmentId,
+      userId,
+      organizationId: project.organizationId,
+      changes: {
+        before: segment,
+        after: updated,
+      },
+      metadata: {
+        segmentKey: updated.key,
+        segmentName: updated.name,
+        projectId,
+      },
+    });
+
+    return updated;
+  }
+
+  async delete(projectId: string, segmentId: string, userId: string) {
+    const project = await this.checkProjectPermission(projectId, userId);
+    const segment = await this.getById(projectId, segmentId, userId);
+
+    const referencingFlags = await this.getReferencingFlagKeys(projectId, segment.key);
+    if (referencingFlags.length > 0) {
+      throw new Error(
+        `Segment is used by flags and cannot be deleted: ${referencingFlags.join(', ')}`
+      );
+    }
+
+    await prisma.segment.delete({
+      where: { id: segmentId },
+    });
+    await environmentService.bumpProjectConfigVersions(projectId);
+    await streamService.publishFlagChange(projectId, null);
+
+    await this.auditService.log({
+      action: AuditAction.DELETE,
+      resourceType: AuditResourceType.SEGMENT,
+      resourceId: segmentId,
+      userId,
+      organizationId: project.organizationId,
+      changes: {
+        before: segment,
+      },
+      metadata: {
+        segmentKey: segment.key,
+        segmentName: segment.name,
+        projectId,
+      },
+    });
+  }
+}
+
+export const segmentService = new SegmentService();
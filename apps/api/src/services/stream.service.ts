@@ -0,0 +1,433 @@
+import { evaluateAllFlags } from '@flagkit/evaluator';
+import type { FlagDefinition } from '@flagkit/evaluator';
+import { config } from '../config';
+import { sdkService, EnvironmentRuleset, EvaluationContext, FlagEvaluation } from './sdk.service';
+
+export type SdkKeyType = 'client' | 'server';
+
+// WebSocket streams send JSON messages, SSE streams send the same messages as put/patch/delete events
+export type StreamProtocol = 'websocket' | 'sse';
+
+// Close codes sent to SDKs when a stream is refused, in the application range of 4000-4999
+export const STREAM_CLOSE_CODES = {
+  INVALID_CONTEXT: 4400,
+  INVALID_SDK_KEY: 4401,
+  TOO_MANY_CONNECTIONS: 4429,
+} as const;
+
+// WebSocket.OPEN
+const SOCKET_OPEN = 1;
+
+// Number of recent flag changes kept so reconnecting SSE streams can resume with Last-Event-ID
+const CHANGE_HISTORY_SIZE = 1000;
+
+const SSE_EVENTS = {
+  snapshot: 'put',
+  flag_update: 'patch',
+  flag_delete: 'delete',
+} as const;
+
+/**
+ * The parts of a WebSocket a stream uses, so connections can be faked in tests
+ */
+export interface StreamSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  ping(): void;
+  close(code?: number, reason?: string): void;
+  terminate(): void;
+  on(event: 'pong' | 'close', listener: () => void): unknown;
+}
+
+// Client SDKs key evaluations by flagKey
+export type StreamFlagEvaluation = FlagEvaluation & { flagKey: string };
+
+// Client snapshots key evaluations by flag key, like the flags endpoints
+export type StreamMessage =
+  | { type: 'snapshot'; data: EnvironmentRuleset }
+  | { type: 'snapshot'; data: { flags: Record<string, FlagEvaluation> } }
+  | { type: 'flag_update'; data: FlagDefinition | StreamFlagEvaluation }
+  | { type: 'flag_delete'; data: { flagKey: string } };
+
+export interface StreamOptions {
+  protocol?: StreamProtocol;
+  // ID of the last event an SSE stream received before it reconnected
+  lastEventId?: string;
+}
+
+interface StreamConnection {
+  socket: StreamSocket;
+  sdkKey: string;
+  keyType: SdkKeyType;
+  protocol: StreamProtocol;
+  environmentId: string;
+  projectId: string;
+  context?: EvaluationContext;
+  // Last evaluation sent to a client stream per flag, as JSON, to only send changes
+  evaluations: Map<string, string>;
+  isAlive: boolean;
+}
+
+interface FlagChange {
+  id: number;
+  projectId: string;
+  environmentId?: string;
+  // null for changes that can affect every flag, e.g. segment changes
+  flagKey: string | null;
+}
+
+// A change streams can resume from by replaying the changed flag
+type SingleFlagChange = FlagChange & { flagKey: string };
+
+/**
+ * Pushes flag changes to connected SDKs. Server streams receive flag definitions to
+ * evaluate locally, client streams receive evaluations for the context they connected with.
+ * Connections, event IDs and the change history live in this process, so changes only
+ * reach streams of the API instance they were made on and streams can't resume across
+ * instances or restarts. Those get a new snapshot instead.
+ */
+class StreamService {
+  private connections = new Set<StreamConnection>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private changes: FlagChange[] = [];
+  // Event IDs start at the boot time so IDs from before a restart are never resumed from
+  private lastEventId = Date.now();
+
+  /**
+   * Authenticate a stream and send it a snapshot of the environment's flags, or only
+   * what it missed when it resumes from a recent event. Streams that are refused are
+   * closed with one of STREAM_CLOSE_CODES.
+   */
+  async connect(
+    socket: StreamSocket,
+    sdkKey: string,
+    keyType: SdkKeyType,
+    context?: EvaluationContext,
+    options: StreamOptions = {}
+  ): Promise<void> {
+    // The environment is filled in once the key is checked, until then no changes reach the stream
+    const connection: StreamConnection = {
+      socket,
+      sdkKey,
+      keyType,
+      protocol: options.protocol ?? 'websocket',
+      environmentId: '',
+      projectId: '',
+      context,
+      evaluations: new Map(),
+      isAlive: true,
+    };
+
+    // Take a slot before anything async, so concurrent connects can't all pass the limit
+    if (!this.reserve(connection)) {
+      socket.close(STREAM_CLOSE_CODES.TOO_MANY_CONNECTIONS, 'Too many streams for this SDK key');
+      return;
+    }
+
+    socket.on('pong', () => {
+      connection.isAlive = true;
+    });
+    socket.on('close', () => {
+      this.connections.delete(connection);
+    });
+
+    try {
+      await this.handshake(connection, options.lastEventId);
+    } catch (error) {
+      this.connections.delete(connection);
+      throw error;
+    }
+  }
+
+  /**
+   * Push a committed change of a flag to the streams of its project, or of one
+   * environment for config changes. Flags that are no longer served are deleted.
+   * Changes without a flag key, e.g. to segments, send server streams a new snapshot.
+   */
+  async publishFlagChange(
+    projectId: string,
+    flagKey: string | null,
+    environmentId?: string
+  ): Promise<void> {
+    const change = this.recordChange(projectId, flagKey, environmentId);
+
+    const connectionsByEnvironment = new Map<string, StreamConnection[]>();
+    for (const connection of this.connections) {
+      if (
+        connection.projectId !== projectId ||
+        (environmentId && connection.environmentId !== environmentId)
+      ) {
+        continue;
+      }
+      const environmentConnections = connectionsByEnvironment.get(connection.environmentId) ?? [];
+      environmentConnections.push(connection);
+      connectionsByEnvironment.set(connection.environmentId, environmentConnections);
+    }
+
+    for (const [id, environmentConnections] of connectionsByEnvironment) {
+      try {
+        const ruleset = await sdkService.getEnvironmentRuleset({ id, projectId });
+        const flag = ruleset.flags.find((definition) => definition.key === flagKey);
+
+        for (const connection of environmentConnections) {
+          if (connection.keyType === 'client') {
+            this.publishEvaluations(connection, ruleset, change.id);
+          } else if (flagKey === null) {
+            this.send(connection, { type: 'snapshot', data: ruleset }, change.id);
+          } else {
+            this.send(
+              connection,
+              flag ? { type: 'flag_update', data: flag } : { type: 'flag_delete', data: { flagKey } },
+              change.id
+            );
+          }
+        }
+      } catch {
+        // Streams are best effort, SDKs still pick up the change when they poll
+      }
+    }
+  }
+
+  /**
+   * Number of open streams of an SDK key
+   */
+  countConnections(sdkKey: string): number {
+    let count = 0;
+    for (const connection of this.connections) {
+      if (connection.sdkKey === sdkKey) {
+        count += 1;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Ping every stream at an interval, dropping streams that didn't answer the last ping
+   */
+  startHeartbeat(intervalMs: number): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), intervalMs);
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  heartbeat(): void {
+    for (const connection of this.connections) {
+      if (!connection.isAlive) {
+        this.connections.delete(connection);
+        connection.socket.terminate();
+        continue;
+      }
+
+      connection.isAlive = false;
+      connection.socket.ping();
+    }
+  }
+
+  /**
+   * Close every stream, e.g. when the server shuts down
+   */
+  closeAll(): void {
+    for (const connection of this.connections) {
+      connection.socket.close(1001, 'Server shutting down');
+    }
+    this.connections.clear();
+  }
+
+  /**
+   * Register a stream unless its SDK key is at the connection limit, counting and
+   * registering in one step. Returns false if the stream was refused.
+   */
+  private reserve(connection: StreamConnection): boolean {
+    if (this.countConnections(connection.sdkKey) >= config.stream.maxConnectionsPerKey) {
+      return false;
+    }
+
+    this.connections.add(connection);
+    return true;
+  }
+
+  /**
+   * Check a reserved stream's SDK key and send it what it needs to start, giving up
+   * its slot if it's refused
+   */
+  private async handshake(connection: StreamConnection, lastEventId?: string): Promise<void> {
+    const { socket, sdkKey, keyType } = connection;
+
+    const environment = await sdkService.getEnvironmentBySdkKey(sdkKey, keyType);
+    if (!environment) {
+      this.connections.delete(connection);
+      socket.close(STREAM_CLOSE_CODES.INVALID_SDK_KEY, 'Invalid SDK key');
+      return;
+    }
+
+    // The SDK may have hung up while the key was checked
+    if (socket.readyState !== SOCKET_OPEN) {
+      this.connections.delete(connection);
+      return;
+    }
+
+    connection.environmentId = environment.id;
+    connection.projectId = environment.projectId;
+
+    const snapshotEventId = this.lastEventId;
+    const missed = this.getMissedChanges(connection, lastEventId);
+    if (missed && missed.length === 0) {
+      // Client streams still need what they have, so later changes only send what differs
+      if (keyType === 'client') {
+        this.evaluate(connection, await sdkService.getEnvironmentRuleset(environment));
+      }
+      return;
+    }
+
+    const ruleset = await sdkService.getEnvironmentRuleset(environment);
+
+    if (keyType === 'server') {
+      if (missed) {
+        this.replayChanges(connection, ruleset, missed);
+      } else {
+        this.send(connection, { type: 'snapshot', data: ruleset }, snapshotEventId);
+      }
+      return;
+    }
+
+    // Evaluations of other flags may have changed with the missed ones, so client streams get a new snapshot
+    this.send(
+      connection,
+      { type: 'snapshot', data: { flags: this.evaluate(connection, ruleset) } },
+      snapshotEventId
+    );
+  }
+
+  private recordChange(
+    projectId: string,
+    flagKey: string | null,
+    environmentId?: string
+  ): FlagChange {
+    this.lastEventId += 1;
+    const change: FlagChange = { id: this.lastEventId, projectId, environmentId, flagKey };
+
+    this.changes.push(change);
+    if (this.changes.length > CHANGE_HISTORY_SIZE) {
+      this.changes.shift();
+    }
+
+    return change;
+  }
+
+  /**
+   * Changes a resuming stream's environment missed since its last event, or null when
+   * the stream can't resume because the event is unknown or too old, or it missed a
+   * change that can affect every flag
+   */
+  private getMissedChanges(
+    connection: StreamConnection,
+    lastEventId?: string
+  ): SingleFlagChange[] | null {
+    if (lastEventId === undefined || !/^\d+$/.test(lastEventId)) {
+      return null;
+    }
+
+    const id = Number(lastEventId);
+    const oldestResumableId = (this.changes[0]?.id ?? this.lastEventId + 1) - 1;
+    if (id < oldestResumableId || id > this.lastEventId) {
+      return null;
+    }
+
+    const missed = this.changes.filter(
+      (change) =>
+        change.id > id &&
+        change.projectId === connection.projectId &&
+        (!change.environmentId || change.environmentId === connection.environmentId)
+    );
+    const flagChanges = missed.filter(
+      (change): change is SingleFlagChange => change.flagKey !== null
+    );
+    return flagChanges.length === missed.length ? flagChanges : null;
+  }
+
+  /**
+   * Send a server stream the current definition of every flag it missed changes of,
+   * each with the ID of its last change so the stream can resume again part way
+   */
+  private replayChanges(
+    connection: StreamConnection,
+    ruleset: EnvironmentRuleset,
+    missed: SingleFlagChange[]
+  ): void {
+    const lastChangeIds = new Map<string, number>();
+    for (const change of missed) {
+      lastChangeIds.delete(change.flagKey);
+      lastChangeIds.set(change.flagKey, change.id);
+    }
+
+    for (const [flagKey, id] of lastChangeIds) {
+      const flag = ruleset.flags.find((definition) => definition.key === flagKey);
+      this.send(
+        connection,
+        flag ? { type: 'flag_update', data: flag } : { type: 'flag_delete', data: { flagKey } },
+        id
+      );
+    }
+  }
+
+  /**
+   * Evaluate every flag for a client stream's context, remembering what was sent
+   */
+  private evaluate(
+    connection: StreamConnection,
+    ruleset: EnvironmentRuleset
+  ): Record<string, FlagEvaluation> {
+    const evaluations = evaluateAllFlags(ruleset.flags, connection.context, ruleset.segments);
+
+    connection.evaluations.clear();
+    for (const [flagKey, evaluation] of Object.entries(evaluations)) {
+      connection.evaluations.set(flagKey, JSON.stringify(evaluation));
+    }
+
+    return evaluations;
+  }
+
+  /**
+   * Send a client stream the evaluations that changed since the last message. A change
+   * to one flag can change others too, e.g. flags that list it as a prerequisite.
+   */
+  private publishEvaluations(
+    connection: StreamConnection,
+    ruleset: EnvironmentRuleset,
+    eventId: number
+  ): void {
+    const previous = new Map(connection.evaluations);
+    const evaluations = this.evaluate(connection, ruleset);
+
+    for (const [flagKey, evaluation] of Object.entries(evaluations)) {
+      if (previous.get(flagKey) !== connection.evaluations.get(flagKey)) {
+        this.send(connection, { type: 'flag_update', data: { ...evaluation, flagKey } }, eventId);
+      }
+    }
+    for (const flagKey of previous.keys()) {
+      if (!connection.evaluations.has(flagKey)) {
+        this.send(connection, { type: 'flag_delete', data: { flagKey } }, eventId);
+      }
+    }
+  }
+
+  private send(connection: StreamConnection, message: StreamMessage, eventId: number): void {
+    if (connection.socket.readyState !== SOCKET_OPEN) {
+      return;
+    }
+
+    connection.socket.send(
+      connection.protocol === 'sse'
+        ? `id: ${eventId}\nevent: ${SSE_EVENTS[message.type]}\ndata: ${JSON.stringify(message.data)}\n\n`
+        : JSON.stringify(message)
+    );
+  }
+}
+
+export const streamService = new StreamService();
@@ -170,7 +170,7 @@ describe('E2E: Complete Flag Lifecycle', () => {
     expect(stagingEvalResponse.statusCode).toBe(200);
     const stagingEval = JSON.parse(stagingEvalResponse.body);
     expect(stagingEval.data.enabled).toBe(false);
-    expect(stagingEval.data.reason).toBe('NO_CONFIG');
+    expect(stagingEval.data.reason).toEqual({ kind: 'NO_CONFIG' });
 
     // Step 13: Delete flag
     const deleteResponse = await server.inject({
@@ -238,6 +238,10 @@ describe('E2E: Complete Flag Lifecycle', () => {
         key: 'theme',
         type: 'STRING',
         description: 'User theme preference',
+        variations: [
+          { key: 'light', name: 'Light', value: JSON.stringify('light') },
+          { key: 'dark', name: 'Dark', value: JSON.stringify('dark') },
+        ],
       },
     });
     const flag = JSON.parse(flagResponse.body).data.flag;
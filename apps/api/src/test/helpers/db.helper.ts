@@ -12,6 +12,7 @@ export async function clearDatabase(): Promise<void> {
   await prisma.comment.deleteMany();
   await prisma.flagChange.deleteMany();
   await prisma.auditLog.deleteMany();
+  await prisma.scheduledFlagChange.deleteMany();
   await prisma.apiToken.deleteMany();
   await prisma.segment.deleteMany();
   await prisma.flagEnvironmentConfig.deleteMany();
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RolloutPlan,
+  RolloutPlanStatus,
+  isRolloutPlanned,
+  isStepDue,
+  validateRolloutSteps,
+} from '../rollout.types';
+
+describe('validateRolloutSteps', () => {
+  it('should accept increasing steps where only the last step has no duration', () => {
+    expect(
+      validateRolloutSteps([
+        { percentage: 1, durationMinutes: 60 },
+        { percentage: 10, durationMinutes: 60 },
+        { percentage: 100, durationMinutes: 0 },
+      ])
+    ).toBeNull();
+  });
+
+  it('should require at least two steps', () => {
+    expect(validateRolloutSteps([{ percentage: 100, durationMinutes: 0 }])).toContain(
+      'at least two'
+    );
+  });
+
+  it('should reject decreasing percentages', () => {
+    expect(
+      validateRolloutSteps([
+        { percentage: 50, durationMinutes: 10 },
+        { percentage: 10, durationMinutes: 0 },
+      ])
+    ).toBe('Step 2: Percentages must not decrease');
+  });
+
+  it('should require a duration on every step but the last', () => {
+    expect(
+      validateRolloutSteps([
+        { percentage: 5, durationMinutes: 0 },
+        { percentage: 100, durationMinutes: 0 },
+      ])
+    ).toContain('Step 1');
+  });
+});
+
+describe('isStepDue', () => {
+  const plan: RolloutPlan = {
+    steps: [
+      { percentage: 5, durationMinutes: 30 },
+      { percentage: 100, durationMinutes: 0 },
+    ],
+    status: RolloutPlanStatus.ACTIVE,
+    currentStep: 0,
+    stepStartedAt: '2024-01-01T00:00:00.000Z',
+    createdById: 'user-1',
+  };
+
+  it('should be due once the step duration has passed', () => {
+    expect(isStepDue(plan, new Date('2024-01-01T00:29:59.000Z'))).toBe(false);
+    expect(isStepDue(plan, new Date('2024-01-01T00:30:00.000Z'))).toBe(true);
+  });
+
+  it('should never be due for paused plans or the last step', () => {
+    const later = new Date('2024-01-02T00:00:00.000Z');
+    expect(isStepDue({ ...plan, status: RolloutPlanStatus.PAUSED }, later)).toBe(false);
+    expect(isStepDue({ ...plan, currentStep: 1 }, later)).toBe(false);
+  });
+});
+
+describe('isRolloutPlanned', () => {
+  it('should only hold for configs with a rollout plan', () => {
+    expect(isRolloutPlanned({ status: RolloutPlanStatus.ACTIVE })).toBe(true);
+    expect(isRolloutPlanned({ status: RolloutPlanStatus.ABORTED })).toBe(true);
+    expect(isRolloutPlanned(null)).toBe(false);
+    expect(isRolloutPlanned({})).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+export interface RolloutStep {
+  percentage: number; // 0-100
+  durationMinutes: number; // Time spent at this percentage before moving to the next step
+}
+
+export enum RolloutPlanStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+  COMPLETED = 'COMPLETED',
+  ABORTED = 'ABORTED',
+}
+
+// Stored as FlagEnvironmentConfig.rolloutPlan
+export interface RolloutPlan {
+  steps: RolloutStep[];
+  status: RolloutPlanStatus;
+  currentStep: number; // Index into steps
+  stepStartedAt: string; // ISO-8601, shifted forward on resume so paused time doesn't count
+  pausedAt?: string;
+  createdById: string; // Steps are applied and audited as this user
+}
+
+export const MAX_ROLLOUT_STEPS = 20;
+
+export function isRolloutInProgress(plan: unknown): plan is RolloutPlan {
+  const status = (plan as RolloutPlan | null)?.status;
+  return status === RolloutPlanStatus.ACTIVE || status === RolloutPlanStatus.PAUSED;
+}
+
+/**
+ * Whether rolloutPercentage was set by a rollout plan, including one that was aborted
+ * or completed, so 0% serves no one the default instead of meaning there's no rollout
+ */
+export function isRolloutPlanned(plan: unknown): boolean {
+  const status = (plan as RolloutPlan | null)?.status;
+  return status !== undefined && Object.values(RolloutPlanStatus).includes(status);
+}
+
+/**
+ * Validate the steps of a rollout plan.
+ * Returns an error message, or null if the steps are valid.
+ */
+export function validateRolloutSteps(steps: RolloutStep[]): string | null {
+  if (steps.length < 2) {
+    return 'A rollout plan needs at least two steps';
+  }
+  if (steps.length > MAX_ROLLOUT_STEPS) {
+    return `A rollout plan can have at most ${MAX_ROLLOUT_STEPS} steps`;
+  }
+
+  for (let i = 0; i < steps.length; i++) {
+    const { percentage, durationMinutes } = steps[i];
+    if (typeof percentage !== 'number' || percentage < 0 || percentage > 100) {
+      return `Step ${i + 1}: Percentage must be between 0 and 100`;
+    }
+    if (i > 0 && percentage < steps[i - 1].percentage) {
+      return `Step ${i + 1}: Percentages must not decrease`;
+    }
+    // The last step is where the plan ends, so only earlier steps need a duration
+    if (i < steps.length - 1 && (!Number.isInteger(durationMinutes) || durationMinutes < 1)) {
+      return `Step ${i + 1}: Duration must be a whole number of minutes`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether the current step of an active plan has run for its full duration
+ */
+export function isStepDue(plan: RolloutPlan, now: Date): boolean {
+  if (plan.status !== RolloutPlanStatus.ACTIVE || plan.currentStep >= plan.steps.length - 1) {
+    return false;
+  }
+
+  const step = plan.steps[plan.currentStep];
+  const elapsed = now.getTime() - new Date(plan.stepStartedAt).getTime();
+  return elapsed >= step.durationMinutes * 60 * 1000;
+}
@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+
+/**
+ * Build an ETag from a config version and everything else the response depends on
+ */
+export function createEtag(version: number, ...parts: unknown[]): string {
+  const hash = createHash('sha1').update(JSON.stringify(parts)).digest('hex').slice(0, 16);
+  return `"${version}-${hash}"`;
+}
+
+/**
+ * Whether an If-None-Match header lists an ETag. Weak tags match their strong form.
+ */
+export function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
@@ -0,0 +1,104 @@
+import { EventEmitter } from 'events';
+import { FastifyReply } from 'fastify';
+import { STREAM_CLOSE_CODES, StreamSocket } from '../services/stream.service';
+
+// HTTP responses for streams refused before the event stream started
+const CLOSE_CODE_RESPONSES: Record<number, { status: number; code: string }> = {
+  [STREAM_CLOSE_CODES.INVALID_CONTEXT]: { status: 400, code: 'VALIDATION_ERROR' },
+  [STREAM_CLOSE_CODES.INVALID_SDK_KEY]: { status: 401, code: 'INVALID_SDK_KEY' },
+  [STREAM_CLOSE_CODES.TOO_MANY_CONNECTIONS]: { status: 429, code: 'TOO_MANY_CONNECTIONS' },
+};
+
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * A Server-Sent Events response that streams like a WebSocket. The event stream starts
+ * with the first event, so streams closed before then get a regular JSON error response.
+ */
+export class SseSocket extends EventEmitter implements StreamSocket {
+  readyState = OPEN;
+  private reply: FastifyReply;
+
+  constructor(reply: FastifyReply) {
+    super();
+    this.reply = reply;
+    reply.hijack();
+    reply.raw.on('close', () => this.markClosed());
+  }
+
+  /**
+   * Start the event stream if no event has started it yet
+   */
+  open(): void {
+    if (this.readyState !== OPEN || this.reply.raw.headersSent) {
+      return;
+    }
+
+    this.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop proxies such as nginx from buffering events
+      'X-Accel-Buffering': 'no',
+    });
+  }
+
+  send(data: string): void {
+    this.open();
+    this.reply.raw.write(data);
+  }
+
+  /**
+   * Send a comment to keep proxies from timing out the stream. Dead connections
+   * are noticed when writes fail, so there is no pong to wait for.
+   */
+  ping(): void {
+    this.send(':ping\n\n');
+    this.emit('pong');
+  }
+
+  close(code?: number, reason?: string): void {
+    if (this.readyState !== OPEN) {
+      return;
+    }
+
+    if (!this.reply.raw.headersSent) {
+      const response = (code && CLOSE_CODE_RESPONSES[code]) || { status: 500, code: 'STREAM_ERROR' };
+      this.writeHead(response.status, { 'Content-Type': 'application/json' });
+      this.reply.raw.end(
+        JSON.stringify({
+          success: false,
+          error: { code: response.code, message: reason ?? 'Failed to open stream' },
+        })
+      );
+    } else {
+      this.reply.raw.end();
+    }
+
+    this.markClosed();
+  }
+
+  terminate(): void {
+    this.reply.raw.destroy();
+    this.markClosed();
+  }
+
+  private writeHead(status: number, headers: Record<string, string>): void {
+    // Headers set by hooks such as CORS, which a hijacked reply doesn't send itself
+    for (const [name, value] of Object.entries(this.reply.getHeaders())) {
+      if (value !== undefined) {
+        this.reply.raw.setHeader(name, value);
+      }
+    }
+    this.reply.raw.writeHead(status, headers);
+  }
+
+  private markClosed(): void {
+    if (this.readyState === CLOSED) {
+      return;
+    }
+    this.readyState = CLOSED;
+    this.emit('close');
+  }
+}
@@ -30,7 +30,7 @@ export default defineConfig({
     fileParallelism: false,
     server: {
       deps: {
-        inline: ['@flagkit/database', '@prisma/client'],
+        inline: ['@flagkit/database', '@flagkit/evaluator', '@flagkit/types', '@prisma/client'],
       },
     },
   },
@@ -8,6 +8,8 @@ import { useEnvironmentStore } from '@/stores/environment.store';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { EnvironmentConfigDialog } from '@/components/flags/EnvironmentConfigDialog';
 import { AuditLogViewer } from '@/components/flags/AuditLogViewer';
+import { ScheduledChanges } from '@/components/flags/ScheduledChanges';
+import { RolloutPlanPanel } from '@/components/flags/RolloutPlanPanel';
 import { AnalyticsDashboard } from '@/components/flags/AnalyticsDashboard';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -15,7 +17,12 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { ArrowLeft, Flag, Settings as SettingsIcon } from 'lucide-react';
-import type { TargetingRule } from '@/types/targeting.types';
+import type {
+  TargetingRule,
+  WeightedVariation,
+  Prerequisite,
+  IndividualTargets,
+} from '@/types/targeting.types';
 
 export default function FlagDetailPage() {
   const router = useRouter();
@@ -23,13 +30,24 @@ export default function FlagDetailPage() {
   const flagId = params.id as string;
 
   const { isAuthenticated } = useAuthStore();
-  const { currentFlag, loadFlag, flagConfigs, loadFlagConfigs, toggleFlag, updateFlagConfig } = useFlagStore();
+  const {
+    currentFlag,
+    flags,
+    loadFlag,
+    loadProjectFlags,
+    flagConfigs,
+    loadFlagConfigs,
+    toggleFlag,
+    updateFlagConfig,
+    reseedFlag,
+  } = useFlagStore();
   const { environments, loadProjectEnvironments } = useEnvironmentStore();
 
   const [toggleStates, setToggleStates] = useState<Record<string, boolean>>({});
   const [isToggling, setIsToggling] = useState<Record<string, boolean>>({});
   const [configDialogOpen, setConfigDialogOpen] = useState(false);
   const [selectedEnvironment, setSelectedEnvironment] = useState<string | null>(null);
+  const [isReseeding, setIsReseeding] = useState(false);
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -46,8 +64,9 @@ export default function FlagDetailPage() {
   useEffect(() => {
     if (currentFlag?.projectId) {
       loadProjectEnvironments(currentFlag.projectId);
+      loadProjectFlags(currentFlag.projectId);
     }
-  }, [currentFlag?.projectId, loadProjectEnvironments]);
+  }, [currentFlag?.projectId, loadProjectEnvironments, loadProjectFlags]);
 
   // Initialize toggle states from configs
   useEffect(() => {
@@ -90,6 +109,12 @@ export default function FlagDetailPage() {
     setIsToggling((prev) => ({ ...prev, [environmentId]: false }));
   };
 
+  const handleReseed = async () => {
+    setIsReseeding(true);
+    await reseedFlag(flagId);
+    setIsReseeding(false);
+  };
+
   const handleOpenConfig = (environmentId: string) => {
     setSelectedEnvironment(environmentId);
     setConfigDialogOpen(true);
@@ -105,6 +130,10 @@ export default function FlagDetailPage() {
     defaultVariationKey: string | null;
     targetingRules: TargetingRule[];
     rolloutPercentage: number | null;
+    defaultDistribution: WeightedVariation[] | null;
+    bucketBy: string;
+    prerequisites: Prerequisite[];
+    individualTargets: IndividualTargets;
   }) => {
     if (!selectedEnvironment) return;
 
@@ -113,6 +142,10 @@ export default function FlagDetailPage() {
       defaultVariationKey: config.defaultVariationKey || undefined,
       targetingRules: config.targetingRules,
       rolloutPercentage: config.rolloutPercentage || undefined,
+      defaultDistribution: config.defaultDistribution,
+      bucketBy: config.bucketBy,
+      prerequisites: config.prerequisites,
+      individualTargets: config.individualTargets,
     });
 
     // Reload configs to get updated data
@@ -201,6 +234,24 @@ export default function FlagDetailPage() {
                   </p>
                 </div>
               </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label className="text-sm text-muted-foreground">Rollout Salt</Label>
+                  <p className="mt-1">
+                    <code className="text-sm font-mono bg-muted px-2 py-1 rounded">
+                      {currentFlag.salt || currentFlag.key}
+                    </code>
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleReseed}
+                  disabled={isReseeding}
+                >
+                  {isReseeding ? 'Re-seeding...' : 'Re-seed Rollouts'}
+                </Button>
+              </div>
               {currentFlag.tags.length > 0 && (
                 <div>
                   <Label className="text-sm text-muted-foreground">Tags</Label>
@@ -248,6 +299,16 @@ export default function FlagDetailPage() {
                   </div>
                 ))}
               </div>
+              {currentFlag.jsonSchema && (
+                <div className="mt-4">
+                  <p className="text-sm text-muted-foreground mb-2">
+                    Every variation must match this JSON Schema
+                  </p>
+                  <pre className="text-xs bg-muted p-3 rounded font-mono overflow-x-auto">
+                    {JSON.stringify(currentFlag.jsonSchema, null, 2)}
+                  </pre>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -320,6 +381,16 @@ export default function FlagDetailPage() {
                         </div>
                       </CardContent>
                     )}
+                    {config && (
+                      <CardContent>
+                        <RolloutPlanPanel
+                          flagId={flagId}
+                          environmentId={env.id}
+                          plan={config.rolloutPlan}
+                          onChange={() => loadFlagConfigs(flagId)}
+                        />
+                      </CardContent>
+                    )}
                   </Card>
                 );
               })}
@@ -336,6 +407,17 @@ export default function FlagDetailPage() {
           )}
         </div>
 
+        {/* Scheduled Changes */}
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4">Scheduled Changes</h2>
+          <ScheduledChanges
+            flagId={flagId}
+            environments={environments.map((env) => ({ id: env.id, name: env.name }))}
+            variations={currentFlag.variations.map((v) => ({ key: v.key, name: v.name }))}
+            onApplied={() => loadFlagConfigs(flagId)}
+          />
+        </div>
+
         {/* Analytics Dashboard */}
         <div className="mb-8">
           <h2 className="text-xl font-bold mb-4">Analytics & Metrics</h2>
@@ -372,7 +454,29 @@ export default function FlagDetailPage() {
               rolloutPercentage: flagConfigs[flagId]?.find(
                 (c) => c.environmentId === selectedEnvironment
               )?.rolloutPercentage,
+              defaultDistribution: (flagConfigs[flagId]?.find(
+                (c) => c.environmentId === selectedEnvironment
+              )?.defaultDistribution as WeightedVariation[] | null) ?? null,
+              bucketBy: flagConfigs[flagId]?.find(
+                (c) => c.environmentId === selectedEnvironment
+              )?.bucketBy,
+              bucketingVersion: flagConfigs[flagId]?.find(
+                (c) => c.environmentId === selectedEnvironment
+              )?.bucketingVersion,
+              prerequisites: (flagConfigs[flagId]?.find(
+                (c) => c.environmentId === selectedEnvironment
+              )?.prerequisites as Prerequisite[] | null) ?? [],
+              individualTargets: (flagConfigs[flagId]?.find(
+                (c) => c.environmentId === selectedEnvironment
+              )?.individualTargets as IndividualTargets | null) ?? {},
             }}
+            availableFlags={flags
+              .filter((f) => f.id !== flagId && f.status !== 'ARCHIVED')
+              .map((f) => ({
+                key: f.key,
+                name: f.name,
+                variations: f.variations.map((v) => ({ key: v.key, name: v.name })),
+              }))}
             onSave={handleSaveConfig}
           />
         )}
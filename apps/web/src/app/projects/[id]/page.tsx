@@ -20,6 +20,22 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  VariationsEditor,
+  VariationDraft,
+  createDefaultVariations,
+  encodeVariationValue,
+} from '@/components/flags/VariationsEditor';
+import { FieldError } from '@/types/targeting.types';
+import { cn } from '@/lib/utils';
+import { JsonSchemaSchema, createVariationsSchema } from '@flagkit/types';
 import { ArrowLeft, Plus, Copy, Check, Flag, MoreVertical } from 'lucide-react';
 
 const ENVIRONMENT_COLORS = [
@@ -31,6 +47,8 @@ const ENVIRONMENT_COLORS = [
   { name: 'Pink', value: '#ec4899' },
 ];
 
+const FLAG_TYPES = ['BOOLEAN', 'STRING', 'NUMBER', 'JSON'] as const;
+
 export default function ProjectDetailPage() {
   const router = useRouter();
   const params = useParams();
@@ -55,6 +73,11 @@ export default function ProjectDetailPage() {
   const [flagName, setFlagName] = useState('');
   const [flagKey, setFlagKey] = useState('');
   const [flagDescription, setFlagDescription] = useState('');
+  const [flagType, setFlagType] = useState<string>('BOOLEAN');
+  const [flagVariations, setFlagVariations] = useState<VariationDraft[]>([]);
+  const [jsonSchemaText, setJsonSchemaText] = useState('');
+  const [variationErrors, setVariationErrors] = useState<FieldError[]>([]);
+  const [jsonSchemaError, setJsonSchemaError] = useState('');
   const [createFlagError, setCreateFlagError] = useState('');
   const [isCreatingFlag, setIsCreatingFlag] = useState(false);
 
@@ -153,9 +176,18 @@ export default function ProjectDetailPage() {
     }
   };
 
+  const handleFlagTypeChange = (value: string) => {
+    setFlagType(value);
+    setFlagVariations(value === 'BOOLEAN' ? [] : createDefaultVariations(value));
+    setVariationErrors([]);
+    setJsonSchemaError('');
+  };
+
   const handleCreateFlag = async (e: React.FormEvent) => {
     e.preventDefault();
     setCreateFlagError('');
+    setVariationErrors([]);
+    setJsonSchemaError('');
 
     if (!flagName || !flagKey) {
       setCreateFlagError('Name and key are required');
@@ -167,11 +199,57 @@ export default function ProjectDetailPage() {
       return;
     }
 
+    let jsonSchema: Record<string, unknown> | undefined;
+    if (flagType === 'JSON' && jsonSchemaText.trim()) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(jsonSchemaText);
+      } catch {
+        setJsonSchemaError('JSON Schema must be valid JSON');
+        return;
+      }
+
+      const schemaResult = JsonSchemaSchema.safeParse(parsed);
+      if (!schemaResult.success) {
+        setJsonSchemaError(schemaResult.error.issues[0].message);
+        return;
+      }
+      jsonSchema = schemaResult.data;
+    }
+
+    // BOOLEAN flags are created with true and false variations
+    const variations =
+      flagType === 'BOOLEAN'
+        ? undefined
+        : flagVariations.map((variation) => ({
+            key: variation.key.trim(),
+            name: variation.name.trim(),
+            value: encodeVariationValue(flagType, variation.value),
+          }));
+
+    // Validate variations with the API's schema, keeping field paths to highlight them
+    if (variations) {
+      const result = createVariationsSchema(
+        flagType as (typeof FLAG_TYPES)[number],
+        jsonSchema
+      ).safeParse(variations);
+      if (!result.success) {
+        setVariationErrors(
+          result.error.issues.map((issue) => ({ path: issue.path, message: issue.message }))
+        );
+        setCreateFlagError('Some variations are invalid');
+        return;
+      }
+    }
+
     setIsCreatingFlag(true);
     const flag = await createFlag(projectId, {
       name: flagName,
       key: flagKey,
       description: flagDescription || undefined,
+      type: flagType,
+      variations,
+      jsonSchema,
     });
     setIsCreatingFlag(false);
 
@@ -180,8 +258,11 @@ export default function ProjectDetailPage() {
       setFlagName('');
       setFlagKey('');
       setFlagDescription('');
+      setFlagType('BOOLEAN');
+      setFlagVariations([]);
+      setJsonSchemaText('');
     } else {
-      setCreateFlagError('Failed to create flag');
+      setCreateFlagError(useFlagStore.getState().error || 'Failed to create flag');
     }
   };
 
@@ -394,7 +475,7 @@ export default function ProjectDetailPage() {
                   New Flag
                 </Button>
               </DialogTrigger>
-              <DialogContent>
+              <DialogContent className="max-h-[90vh] overflow-y-auto">
                 <form onSubmit={handleCreateFlag}>
                   <DialogHeader>
                     <DialogTitle>Create Feature Flag</DialogTitle>
@@ -447,6 +528,65 @@ export default function ProjectDetailPage() {
                         disabled={isCreatingFlag}
                       />
                     </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="flag-type">Type</Label>
+                      <Select
+                        value={flagType}
+                        onValueChange={handleFlagTypeChange}
+                        disabled={isCreatingFlag}
+                      >
+                        <SelectTrigger id="flag-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FLAG_TYPES.map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {type}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {flagType === 'JSON' && (
+                      <div className="space-y-2">
+                        <Label htmlFor="flag-json-schema">JSON Schema (Optional)</Label>
+                        <textarea
+                          id="flag-json-schema"
+                          placeholder='{"type": "object", "required": ["steps"]}'
+                          value={jsonSchemaText}
+                          onChange={(e) => setJsonSchemaText(e.target.value)}
+                          disabled={isCreatingFlag}
+                          rows={4}
+                          aria-invalid={!!jsonSchemaError}
+                          className={cn(
+                            'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                            jsonSchemaError && 'border-destructive'
+                          )}
+                        />
+                        {jsonSchemaError ? (
+                          <p className="text-xs text-destructive">{jsonSchemaError}</p>
+                        ) : (
+                          <p className="text-xs text-muted-foreground">
+                            Every variation must match the schema
+                          </p>
+                        )}
+                      </div>
+                    )}
+
+                    {flagType !== 'BOOLEAN' && (
+                      <div className="space-y-2">
+                        <Label>Variations</Label>
+                        <VariationsEditor
+                          type={flagType}
+                          variations={flagVariations}
+                          onChange={setFlagVariations}
+                          errors={variationErrors}
+                          disabled={isCreatingFlag}
+                        />
+                      </div>
+                    )}
                   </div>
 
                   <DialogFooter>
@@ -1,7 +1,16 @@
 'use client';
 
 import { useState } from 'react';
-import { Condition, ConditionOperator } from '@/types/targeting.types';
+import {
+  Condition,
+  ConditionOperator,
+  SEGMENT_OPERATORS,
+  SEMVER_OPERATORS,
+  DATE_OPERATORS,
+  TimeWindow,
+  FieldError,
+} from '@/types/targeting.types';
+import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -19,6 +28,7 @@ interface ConditionEditorProps {
   onChange: (condition: Condition) => void;
   onRemove: () => void;
   canRemove: boolean;
+  errors?: FieldError[];
 }
 
 const OPERATOR_LABELS: Record<ConditionOperator, string> = {
@@ -36,11 +46,55 @@ const OPERATOR_LABELS: Record<ConditionOperator, string> = {
   [ConditionOperator.NOT_MATCHES]: 'Does not match regex',
   [ConditionOperator.STARTS_WITH]: 'Starts with',
   [ConditionOperator.ENDS_WITH]: 'Ends with',
+  [ConditionOperator.IN_SEGMENT]: 'Is in segment',
+  [ConditionOperator.NOT_IN_SEGMENT]: 'Is not in segment',
+  [ConditionOperator.SEMVER_EQUALS]: 'Version equals',
+  [ConditionOperator.SEMVER_GREATER_THAN]: 'Version greater than',
+  [ConditionOperator.SEMVER_LESS_THAN]: 'Version less than',
+  [ConditionOperator.SEMVER_IN_RANGE]: 'Version in range',
+  [ConditionOperator.BEFORE]: 'Before date',
+  [ConditionOperator.AFTER]: 'After date',
+  [ConditionOperator.IN_TIME_WINDOW]: 'In time window',
+};
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DEFAULT_TIME_WINDOW: TimeWindow = {
+  start: '09:00',
+  end: '17:00',
+  days: [1, 2, 3, 4, 5],
+  timezone: 'UTC',
 };
 
+type ValueKind = 'array' | 'timeWindow' | 'scalar';
+
+function getValueKind(operator: ConditionOperator): ValueKind {
+  if (operator === ConditionOperator.IN_TIME_WINDOW) return 'timeWindow';
+  return ARRAY_OPERATORS.includes(operator) ? 'array' : 'scalar';
+}
+
+function isTimeWindow(value: Condition['value']): value is TimeWindow {
+  return typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Format a stored ISO-8601 string or epoch millis for a datetime-local input
+ */
+function toDateTimeInput(value: Condition['value']): string {
+  if (typeof value !== 'string' && typeof value !== 'number') return '';
+  const date = new Date(typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value);
+  if (isNaN(date.getTime())) return '';
+
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
+
 const ARRAY_OPERATORS = [
   ConditionOperator.IN,
   ConditionOperator.NOT_IN,
+  ...SEGMENT_OPERATORS,
 ];
 
 export function ConditionEditor({
@@ -48,12 +102,15 @@ export function ConditionEditor({
   onChange,
   onRemove,
   canRemove,
+  errors = [],
 }: ConditionEditorProps) {
   const [attributeInput, setAttributeInput] = useState(condition.attribute);
   const [valueInput, setValueInput] = useState(
     Array.isArray(condition.value)
       ? condition.value.join(', ')
-      : String(condition.value)
+      : isTimeWindow(condition.value)
+        ? ''
+        : String(condition.value)
   );
 
   const handleAttributeChange = (value: string) => {
@@ -62,12 +119,13 @@ export function ConditionEditor({
   };
 
   const handleOperatorChange = (value: ConditionOperator) => {
-    // Reset value if switching to/from array operators
-    const wasArray = ARRAY_OPERATORS.includes(condition.operator);
-    const isArray = ARRAY_OPERATORS.includes(value);
+    // Reset value if switching between list, time window and single values
+    const previousKind = getValueKind(condition.operator);
+    const nextKind = getValueKind(value);
 
-    if (wasArray !== isArray) {
-      const newValue = isArray ? [] : '';
+    if (previousKind !== nextKind) {
+      const newValue =
+        nextKind === 'array' ? [] : nextKind === 'timeWindow' ? DEFAULT_TIME_WINDOW : '';
       setValueInput('');
       onChange({ ...condition, operator: value, value: newValue });
     } else {
@@ -75,6 +133,27 @@ export function ConditionEditor({
     }
   };
 
+  const handleDateChange = (value: string) => {
+    // datetime-local values are in the browser's timezone, store them as UTC ISO-8601
+    const date = new Date(value);
+    onChange({ ...condition, value: isNaN(date.getTime()) ? '' : date.toISOString() });
+  };
+
+  const handleTimeWindowChange = (changes: Partial<TimeWindow>) => {
+    const current = isTimeWindow(condition.value) ? condition.value : DEFAULT_TIME_WINDOW;
+    onChange({ ...condition, value: { ...current, ...changes } });
+  };
+
+  const handleDayToggle = (day: number) => {
+    const current = isTimeWindow(condition.value) ? condition.value : DEFAULT_TIME_WINDOW;
+    const days = current.days ?? [];
+    handleTimeWindowChange({
+      days: days.includes(day)
+        ? days.filter((d) => d !== day)
+        : [...days, day].sort((a, b) => a - b),
+    });
+  };
+
   const handleValueChange = (value: string) => {
     setValueInput(value);
 
@@ -87,6 +166,9 @@ export function ConditionEditor({
         .map((v) => v.trim())
         .filter(Boolean);
       onChange({ ...condition, value: arrayValue });
+    } else if (SEMVER_OPERATORS.includes(condition.operator)) {
+      // Versions like "2" or "2.10" must not be parsed as numbers
+      onChange({ ...condition, value: value.trim() });
     } else {
       // Try to parse as number or boolean
       let parsedValue: string | number | boolean = value;
@@ -104,9 +186,22 @@ export function ConditionEditor({
   };
 
   const isArrayOperator = ARRAY_OPERATORS.includes(condition.operator);
+  const isSegmentOperator = SEGMENT_OPERATORS.includes(condition.operator);
+  const isSemverOperator = SEMVER_OPERATORS.includes(condition.operator);
+  const isDateOperator = DATE_OPERATORS.includes(condition.operator);
+  const timeWindow = isTimeWindow(condition.value) ? condition.value : null;
+
+  // Errors of a time window's fields are shown on the value as a whole
+  const hasError = (field: keyof Condition) => errors.some((error) => error.path[0] === field);
+  const valueClassName = cn('h-9', hasError('value') && 'border-destructive');
 
   return (
-    <div className="flex items-start gap-2 p-4 border rounded-lg bg-muted/30">
+    <div
+      className={cn(
+        'flex items-start gap-2 p-4 border rounded-lg bg-muted/30',
+        errors.length > 0 && 'border-destructive'
+      )}
+    >
       <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-3">
         {/* Attribute */}
         <div>
@@ -114,8 +209,19 @@ export function ConditionEditor({
           <Input
             value={attributeInput}
             onChange={(e) => handleAttributeChange(e.target.value)}
-            placeholder="e.g. tier, region, userId"
-            className="h-9"
+            placeholder={
+              isSegmentOperator
+                ? 'Not used for segments'
+                : isSemverOperator
+                  ? 'e.g. appVersion'
+                  : isDateOperator
+                    ? 'e.g. createdAt, or now for server time'
+                    : 'e.g. tier, organization.plan, device.platform'
+            }
+            disabled={isSegmentOperator}
+            title="Use dots for nested attributes, e.g. device.os.version"
+            aria-invalid={hasError('attribute')}
+            className={cn('h-9', hasError('attribute') && 'border-destructive')}
           />
         </div>
 
@@ -126,7 +232,10 @@ export function ConditionEditor({
             value={condition.operator}
             onValueChange={handleOperatorChange}
           >
-            <SelectTrigger className="h-9">
+            <SelectTrigger
+              aria-invalid={hasError('operator')}
+              className={cn('h-9', hasError('operator') && 'border-destructive')}
+            >
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
@@ -142,19 +251,92 @@ export function ConditionEditor({
         {/* Value */}
         <div>
           <Label className="text-xs text-muted-foreground mb-2">
-            Value {isArrayOperator && '(comma-separated)'}
+            {isSegmentOperator
+              ? 'Segment keys'
+              : timeWindow
+                ? 'Between (start - end)'
+                : 'Value'}{' '}
+            {isArrayOperator && '(comma-separated)'}
           </Label>
-          <Input
-            value={valueInput}
-            onChange={(e) => handleValueChange(e.target.value)}
-            placeholder={
-              isArrayOperator
-                ? 'premium, enterprise'
-                : 'premium'
-            }
-            className="h-9"
-          />
+          {timeWindow ? (
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={timeWindow.start}
+                onChange={(e) => handleTimeWindowChange({ start: e.target.value })}
+                aria-invalid={hasError('value')}
+                className={valueClassName}
+              />
+              <Input
+                type="time"
+                value={timeWindow.end}
+                onChange={(e) => handleTimeWindowChange({ end: e.target.value })}
+                aria-invalid={hasError('value')}
+                className={valueClassName}
+              />
+            </div>
+          ) : isDateOperator ? (
+            <Input
+              type="datetime-local"
+              value={toDateTimeInput(condition.value)}
+              onChange={(e) => handleDateChange(e.target.value)}
+              aria-invalid={hasError('value')}
+              className={valueClassName}
+            />
+          ) : (
+            <Input
+              value={valueInput}
+              onChange={(e) => handleValueChange(e.target.value)}
+              placeholder={
+                isSegmentOperator
+                  ? 'beta-testers, internal'
+                  : condition.operator === ConditionOperator.SEMVER_IN_RANGE
+                    ? '^2.3 or >=2.10.0 <3.0.0'
+                    : isSemverOperator
+                      ? '2.10.0'
+                      : isArrayOperator
+                        ? 'premium, enterprise'
+                        : 'premium'
+              }
+              aria-invalid={hasError('value')}
+              className={valueClassName}
+            />
+          )}
         </div>
+
+        {/* Time Window Days and Timezone */}
+        {timeWindow && (
+          <div className="md:col-span-3 flex flex-wrap items-center gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <Button
+                key={label}
+                type="button"
+                size="sm"
+                variant={timeWindow.days?.includes(day) ? 'default' : 'outline'}
+                onClick={() => handleDayToggle(day)}
+                className="h-8 px-2 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+            <Input
+              value={timeWindow.timezone ?? ''}
+              onChange={(e) => handleTimeWindowChange({ timezone: e.target.value || undefined })}
+              placeholder="UTC"
+              className="h-8 w-40"
+            />
+          </div>
+        )}
+
+        {errors.length > 0 && (
+          <div className="md:col-span-3 space-y-1">
+            {errors.map((error, index) => (
+              <p key={index} className="text-xs text-destructive">
+                {error.message}
+              </p>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Remove Button */}
@@ -0,0 +1,155 @@
+'use client';
+
+import {
+  Condition,
+  ConditionGroup,
+  ConditionNode,
+  ConditionOperator,
+  ConditionLogic,
+  MAX_CONDITION_DEPTH,
+  FieldError,
+  isConditionGroup,
+  getNestedErrors,
+} from '@/types/targeting.types';
+import { ConditionEditor } from './ConditionEditor';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
+  depth?: number;
+  errors?: FieldError[];
+}
+
+const createCondition = (): Condition => ({
+  attribute: '',
+  operator: ConditionOperator.EQUALS,
+  value: '',
+});
+
+export function ConditionGroupEditor({
+  group,
+  onChange,
+  onRemove,
+  depth = 1,
+  errors = [],
+}: ConditionGroupEditorProps) {
+  const handleNodeChange = (index: number, node: ConditionNode) => {
+    const newConditions = [...group.conditions];
+    newConditions[index] = node;
+    onChange({ ...group, conditions: newConditions });
+  };
+
+  const handleRemoveNode = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+  };
+
+  const handleAddCondition = () => {
+    onChange({ ...group, conditions: [...group.conditions, createCondition()] });
+  };
+
+  const handleAddGroup = () => {
+    // Default to the opposite logic, since a group with the same logic adds nothing
+    const newGroup: ConditionGroup = {
+      conditionLogic:
+        group.conditionLogic === ConditionLogic.AND ? ConditionLogic.OR : ConditionLogic.AND,
+      conditions: [createCondition()],
+    };
+    onChange({ ...group, conditions: [...group.conditions, newGroup] });
+  };
+
+  const canRemoveNode = group.conditions.length > 1;
+
+  // Errors of the group itself rather than one of its conditions, e.g. an empty group
+  const groupErrors = errors.filter((error) => typeof error.path[1] !== 'number');
+
+  return (
+    <div className={depth > 1 ? 'rounded-md border border-dashed p-3 space-y-2' : 'space-y-2'}>
+      {(group.conditions.length > 1 || onRemove) && (
+        <div className="flex items-center justify-between">
+          {group.conditions.length > 1 ? (
+            <Select
+              value={group.conditionLogic}
+              onValueChange={(conditionLogic: ConditionLogic) =>
+                onChange({ ...group, conditionLogic })
+              }
+            >
+              <SelectTrigger className="w-24 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ConditionLogic.AND}>AND</SelectItem>
+                <SelectItem value={ConditionLogic.OR}>OR</SelectItem>
+              </SelectContent>
+            </Select>
+          ) : (
+            <span />
+          )}
+          {onRemove && (
+            <Button variant="ghost" size="icon" onClick={onRemove} className="h-8 w-8">
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {group.conditions.map((node, index) => (
+        <div key={index}>
+          {isConditionGroup(node) ? (
+            <ConditionGroupEditor
+              group={node}
+              onChange={(g) => handleNodeChange(index, g)}
+              onRemove={canRemoveNode ? () => handleRemoveNode(index) : undefined}
+              depth={depth + 1}
+              errors={getNestedErrors(errors, 'conditions', index)}
+            />
+          ) : (
+            <ConditionEditor
+              condition={node}
+              onChange={(c) => handleNodeChange(index, c)}
+              onRemove={() => handleRemoveNode(index)}
+              canRemove={canRemoveNode}
+              errors={getNestedErrors(errors, 'conditions', index)}
+            />
+          )}
+          {index < group.conditions.length - 1 && (
+            <div className="flex justify-center py-1">
+              <Badge variant="outline" className="text-xs">
+                {group.conditionLogic}
+              </Badge>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {groupErrors.map((error, index) => (
+        <p key={index} className="text-xs text-destructive">
+          {error.message}
+        </p>
+      ))}
+
+      <div className="flex gap-2 pt-1">
+        <Button variant="outline" size="sm" onClick={handleAddCondition}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Condition
+        </Button>
+        {depth < MAX_CONDITION_DEPTH && (
+          <Button variant="outline" size="sm" onClick={handleAddGroup}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
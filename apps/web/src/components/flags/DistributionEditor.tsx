@@ -0,0 +1,83 @@
+'use client';
+
+import { WeightedVariation } from '@/types/targeting.types';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+
+interface DistributionEditorProps {
+  distribution: WeightedVariation[];
+  variations: Array<{ key: string; name: string }>;
+  onChange: (distribution: WeightedVariation[]) => void;
+}
+
+/**
+ * Build an even split across the given variations, with any remainder
+ * assigned to the first variation so the weights add up to 100
+ */
+export function createEvenDistribution(
+  variations: Array<{ key: string }>
+): WeightedVariation[] {
+  if (variations.length === 0) return [];
+
+  const share = Math.floor(100 / variations.length);
+  const remainder = 100 - share * variations.length;
+
+  return variations.map((variation, index) => ({
+    variationKey: variation.key,
+    weight: index === 0 ? share + remainder : share,
+  }));
+}
+
+export function getDistributionTotal(distribution: WeightedVariation[]): number {
+  return distribution.reduce((sum, entry) => sum + entry.weight, 0);
+}
+
+export function DistributionEditor({
+  distribution,
+  variations,
+  onChange,
+}: DistributionEditorProps) {
+  const getWeight = (variationKey: string) =>
+    distribution.find((entry) => entry.variationKey === variationKey)?.weight ?? 0;
+
+  const handleWeightChange = (variationKey: string, value: string) => {
+    const weight = Math.min(100, Math.max(0, Number(value) || 0));
+    const newDistribution = variations.map((variation) => ({
+      variationKey: variation.key,
+      weight: variation.key === variationKey ? weight : getWeight(variation.key),
+    }));
+    onChange(newDistribution);
+  };
+
+  const total = getDistributionTotal(distribution);
+
+  return (
+    <div className="space-y-2">
+      {variations.map((variation) => (
+        <div key={variation.key} className="flex items-center gap-3">
+          <span className="flex-1 text-sm">
+            {variation.name}{' '}
+            <code className="text-xs text-muted-foreground">({variation.key})</code>
+          </span>
+          <Input
+            type="number"
+            min={0}
+            max={100}
+            value={getWeight(variation.key)}
+            onChange={(e) => handleWeightChange(variation.key, e.target.value)}
+            className="w-24"
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between pt-1">
+        <p className="text-xs text-muted-foreground">
+          Users are split across variations by weight (stable bucketing)
+        </p>
+        <Badge variant={total === 100 ? 'secondary' : 'destructive'} className="text-xs">
+          Total {total}%
+        </Badge>
+      </div>
+    </div>
+  );
+}
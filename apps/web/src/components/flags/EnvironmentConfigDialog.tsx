@@ -5,9 +5,24 @@ import {
   TargetingRule,
   ConditionOperator,
   ConditionLogic,
+  SEGMENT_OPERATORS,
+  WeightedVariation,
+  Prerequisite,
+  IndividualTargets,
+  ConditionNode,
+  FieldError,
+  isConditionGroup,
+  createTargetingRulesSchema,
 } from '@/types/targeting.types';
 import { TargetingRuleBuilder } from './TargetingRuleBuilder';
+import {
+  DistributionEditor,
+  createEvenDistribution,
+  getDistributionTotal,
+} from './DistributionEditor';
+import { IndividualTargetsEditor } from './IndividualTargetsEditor';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
@@ -30,13 +45,24 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { Plus, AlertCircle, Code } from 'lucide-react';
+import { Plus, AlertCircle, Code, X } from 'lucide-react';
 
 interface EnvironmentConfig {
   enabled: boolean;
   defaultVariationKey: string | null;
   targetingRules: TargetingRule[];
   rolloutPercentage: number | null;
+  defaultDistribution: WeightedVariation[] | null;
+  bucketBy: string;
+  bucketingVersion: number;
+  prerequisites: Prerequisite[];
+  individualTargets: IndividualTargets;
+}
+
+interface PrerequisiteFlagOption {
+  key: string;
+  name: string;
+  variations: Array<{ key: string; name: string }>;
 }
 
 interface EnvironmentConfigDialogProps {
@@ -45,6 +71,7 @@ interface EnvironmentConfigDialogProps {
   environmentName: string;
   variations: Array<{ key: string; name: string; value: string }>;
   initialConfig?: Partial<EnvironmentConfig>;
+  availableFlags?: PrerequisiteFlagOption[];
   onSave: (config: EnvironmentConfig) => Promise<void>;
 }
 
@@ -54,6 +81,7 @@ export function EnvironmentConfigDialog({
   environmentName,
   variations,
   initialConfig,
+  availableFlags = [],
   onSave,
 }: EnvironmentConfigDialogProps) {
   const [config, setConfig] = useState<EnvironmentConfig>({
@@ -61,11 +89,17 @@ export function EnvironmentConfigDialog({
     defaultVariationKey: initialConfig?.defaultVariationKey ?? variations[0]?.key ?? null,
     targetingRules: initialConfig?.targetingRules ?? [],
     rolloutPercentage: initialConfig?.rolloutPercentage ?? null,
+    defaultDistribution: initialConfig?.defaultDistribution ?? null,
+    bucketBy: initialConfig?.bucketBy ?? 'userId',
+    bucketingVersion: initialConfig?.bucketingVersion ?? 2,
+    prerequisites: initialConfig?.prerequisites ?? [],
+    individualTargets: initialConfig?.individualTargets ?? {},
   });
 
   const [isSaving, setIsSaving] = useState(false);
   const [activeTab, setActiveTab] = useState('visual');
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [ruleErrors, setRuleErrors] = useState<FieldError[][]>([]);
 
   useEffect(() => {
     if (initialConfig) {
@@ -74,6 +108,11 @@ export function EnvironmentConfigDialog({
         defaultVariationKey: initialConfig.defaultVariationKey ?? variations[0]?.key ?? null,
         targetingRules: initialConfig.targetingRules ?? [],
         rolloutPercentage: initialConfig.rolloutPercentage ?? null,
+        defaultDistribution: initialConfig.defaultDistribution ?? null,
+        bucketBy: initialConfig.bucketBy ?? 'userId',
+        bucketingVersion: initialConfig.bucketingVersion ?? 2,
+        prerequisites: initialConfig.prerequisites ?? [],
+        individualTargets: initialConfig.individualTargets ?? {},
       });
     }
   }, [initialConfig, variations, isOpen]);
@@ -108,12 +147,37 @@ export function EnvironmentConfigDialog({
   const handleRemoveRule = (index: number) => {
     const newRules = config.targetingRules.filter((_, i) => i !== index);
     setConfig({ ...config, targetingRules: newRules });
+    setRuleErrors(ruleErrors.filter((_, i) => i !== index));
   };
 
   const handleGlobalRolloutChange = (percentage: number | null) => {
     setConfig({ ...config, rolloutPercentage: percentage });
   };
 
+  const handleAddPrerequisite = () => {
+    const flag = availableFlags[0];
+    if (!flag) return;
+
+    setConfig({
+      ...config,
+      prerequisites: [
+        ...config.prerequisites,
+        { flagKey: flag.key, variationKey: flag.variations[0]?.key ?? '' },
+      ],
+    });
+  };
+
+  const handlePrerequisiteChange = (index: number, prerequisite: Prerequisite) => {
+    const newPrerequisites = [...config.prerequisites];
+    newPrerequisites[index] = prerequisite;
+    setConfig({ ...config, prerequisites: newPrerequisites });
+  };
+
+  const handleRemovePrerequisite = (index: number) => {
+    const newPrerequisites = config.prerequisites.filter((_, i) => i !== index);
+    setConfig({ ...config, prerequisites: newPrerequisites });
+  };
+
   const validateConfig = (): boolean => {
     const errors: string[] = [];
 
@@ -122,34 +186,71 @@ export function EnvironmentConfigDialog({
       errors.push('Default variation must be selected');
     }
 
-    // Validate targeting rules
+    if (!config.bucketBy.trim()) {
+      errors.push('Bucketing attribute is required');
+    }
+
+    if (config.defaultDistribution && getDistributionTotal(config.defaultDistribution) !== 100) {
+      errors.push('Default split: Weights must add up to 100%');
+    }
+
+    const prerequisiteKeys = new Set<string>();
+    config.prerequisites.forEach((prerequisite, index) => {
+      if (!prerequisite.flagKey || !prerequisite.variationKey) {
+        errors.push(`Prerequisite ${index + 1}: Flag and variation must be selected`);
+      }
+      if (prerequisiteKeys.has(prerequisite.flagKey)) {
+        errors.push(`Prerequisite ${index + 1}: Flag is already a prerequisite`);
+      }
+      prerequisiteKeys.add(prerequisite.flagKey);
+    });
+
+    // Validate targeting rules with the API's schema, keeping field paths to highlight them
+    const newRuleErrors: FieldError[][] = config.targetingRules.map(() => []);
+    const result = createTargetingRulesSchema(variations.map((v) => v.key)).safeParse(
+      config.targetingRules
+    );
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const [ruleIndex, ...path] = issue.path;
+        newRuleErrors[Number(ruleIndex)]?.push({ path, message: issue.message });
+        errors.push(`Rule ${Number(ruleIndex) + 1}: ${issue.message}`);
+      }
+    }
+
     config.targetingRules.forEach((rule, index) => {
-      if (!rule.variationKey) {
-        errors.push(`Rule ${index + 1}: Variation must be selected`);
+      if (rule.distribution && getDistributionTotal(rule.distribution) !== 100) {
+        errors.push(`Rule ${index + 1}: Split weights must add up to 100%`);
       }
 
       if (rule.conditions.length === 0) {
         errors.push(`Rule ${index + 1}: At least one condition is required`);
       }
 
-      rule.conditions.forEach((condition, condIndex) => {
-        if (!condition.attribute.trim()) {
-          errors.push(
-            `Rule ${index + 1}, Condition ${condIndex + 1}: Attribute is required`
-          );
-        }
-        if (
-          condition.value === '' ||
-          (Array.isArray(condition.value) && condition.value.length === 0)
-        ) {
-          errors.push(
-            `Rule ${index + 1}, Condition ${condIndex + 1}: Value is required`
-          );
-        }
-      });
+      // Nested conditions are numbered by path, e.g. "Condition 2.1"
+      const validateNodes = (nodes: ConditionNode[], path: string) => {
+        nodes.forEach((node, condIndex) => {
+          const label = `Rule ${index + 1}, Condition ${path}${condIndex + 1}`;
+
+          if (isConditionGroup(node)) {
+            validateNodes(node.conditions, `${path}${condIndex + 1}.`);
+            return;
+          }
+
+          if (!SEGMENT_OPERATORS.includes(node.operator) && !node.attribute.trim()) {
+            errors.push(`${label}: Attribute is required`);
+          }
+          if (node.value === '' || (Array.isArray(node.value) && node.value.length === 0)) {
+            errors.push(`${label}: Value is required`);
+          }
+        });
+      };
+
+      validateNodes(rule.conditions, '');
     });
 
     setValidationErrors(errors);
+    setRuleErrors(newRuleErrors);
     return errors.length === 0;
   };
 
@@ -175,6 +276,10 @@ export function EnvironmentConfigDialog({
       enabled: config.enabled,
       defaultVariationKey: config.defaultVariationKey,
       rolloutPercentage: config.rolloutPercentage,
+      defaultDistribution: config.defaultDistribution,
+      bucketBy: config.bucketBy,
+      prerequisites: config.prerequisites,
+      individualTargets: config.individualTargets,
       targetingRules: config.targetingRules,
     },
     null,
@@ -182,6 +287,9 @@ export function EnvironmentConfigDialog({
   );
 
   const hasGlobalRollout = config.rolloutPercentage !== null;
+  const hasDefaultDistribution = config.defaultDistribution !== null;
+  // Legacy bucketing only has whole-percent buckets
+  const rolloutStep = config.bucketingVersion >= 2 ? 0.1 : 1;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -218,13 +326,125 @@ export function EnvironmentConfigDialog({
               </CardContent>
             </Card>
 
+            {/* Prerequisites */}
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <Label className="text-base">Prerequisites</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleAddPrerequisite}
+                    disabled={availableFlags.length === 0}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Prerequisite
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground mt-1 mb-3">
+                  Other flags that must serve the given variation in this environment. If any
+                  prerequisite fails, the fallback variation is served.
+                </p>
+                {config.prerequisites.length > 0 ? (
+                  <div className="space-y-2">
+                    {config.prerequisites.map((prerequisite, index) => {
+                      const flag = availableFlags.find((f) => f.key === prerequisite.flagKey);
+                      return (
+                        <div key={index} className="flex items-center gap-2">
+                          <Select
+                            value={prerequisite.flagKey}
+                            onValueChange={(flagKey) =>
+                              handlePrerequisiteChange(index, {
+                                flagKey,
+                                variationKey:
+                                  availableFlags.find((f) => f.key === flagKey)?.variations[0]
+                                    ?.key ?? '',
+                              })
+                            }
+                          >
+                            <SelectTrigger className="flex-1">
+                              <SelectValue placeholder="Select flag" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {availableFlags.map((f) => (
+                                <SelectItem key={f.key} value={f.key}>
+                                  {f.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <span className="text-sm text-muted-foreground">serves</span>
+                          <Select
+                            value={prerequisite.variationKey}
+                            onValueChange={(variationKey) =>
+                              handlePrerequisiteChange(index, { ...prerequisite, variationKey })
+                            }
+                          >
+                            <SelectTrigger className="w-40">
+                              <SelectValue placeholder="Select variation" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(flag?.variations ?? []).map((v) => (
+                                <SelectItem key={v.key} value={v.key}>
+                                  {v.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemovePrerequisite(index)}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No prerequisites</p>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Default Variation */}
             <Card>
               <CardContent className="pt-6">
-                <Label className="text-base">Default Variation</Label>
+                <div className="flex items-center justify-between">
+                  <Label className="text-base">Default Variation</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setConfig({
+                        ...config,
+                        defaultDistribution: hasDefaultDistribution
+                          ? null
+                          : createEvenDistribution(variations),
+                      })
+                    }
+                  >
+                    {hasDefaultDistribution ? 'Serve single variation' : 'Split by percentage'}
+                  </Button>
+                </div>
                 <p className="text-sm text-muted-foreground mt-1 mb-3">
                   Served when no targeting rules match or flag evaluation fails
                 </p>
+                {hasDefaultDistribution && (
+                  <div className="mb-4">
+                    <DistributionEditor
+                      distribution={config.defaultDistribution || []}
+                      variations={variations.map((v) => ({ key: v.key, name: v.name }))}
+                      onChange={(defaultDistribution) =>
+                        setConfig({ ...config, defaultDistribution })
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground mt-3 mb-2">
+                      Users without a userId receive the default variation below
+                    </p>
+                  </div>
+                )}
                 <Select
                   value={config.defaultVariationKey || ''}
                   onValueChange={(value) =>
@@ -250,6 +470,22 @@ export function EnvironmentConfigDialog({
               </CardContent>
             </Card>
 
+            {/* Individual Targets */}
+            <Card>
+              <CardContent className="pt-6">
+                <Label className="text-base">Individual Targets</Label>
+                <p className="text-sm text-muted-foreground mt-1 mb-3">
+                  Users listed here always receive the variation, before targeting rules are
+                  evaluated
+                </p>
+                <IndividualTargetsEditor
+                  targets={config.individualTargets}
+                  variations={variations.map((v) => ({ key: v.key, name: v.name }))}
+                  onChange={(individualTargets) => setConfig({ ...config, individualTargets })}
+                />
+              </CardContent>
+            </Card>
+
             {/* Targeting Rules */}
             <div>
               <div className="flex items-center justify-between mb-4">
@@ -276,6 +512,8 @@ export function EnvironmentConfigDialog({
                       onRemove={() => handleRemoveRule(index)}
                       canRemove={true}
                       ruleIndex={index}
+                      rolloutStep={rolloutStep}
+                      errors={ruleErrors[index]}
                     />
                   ))}
                 </div>
@@ -316,10 +554,12 @@ export function EnvironmentConfigDialog({
                     <div className="flex items-center gap-4">
                       <Slider
                         value={[config.rolloutPercentage || 100]}
-                        onValueChange={(values) => handleGlobalRolloutChange(values[0])}
+                        onValueChange={(values) =>
+                          handleGlobalRolloutChange(Math.round(values[0] * 10) / 10)
+                        }
                         min={0}
                         max={100}
-                        step={1}
+                        step={rolloutStep}
                         className="flex-1"
                       />
                       <div className="w-16 text-right">
@@ -330,13 +570,29 @@ export function EnvironmentConfigDialog({
                     </div>
                     <p className="text-xs text-muted-foreground">
                       {config.rolloutPercentage}% of users will receive the default variation
-                      (stable bucketing by userId)
+                      (stable bucketing by {config.bucketBy || 'userId'})
                     </p>
                   </div>
                 )}
               </CardContent>
             </Card>
 
+            {/* Bucketing Attribute */}
+            <Card>
+              <CardContent className="pt-6">
+                <Label className="text-base">Bucket By</Label>
+                <p className="text-sm text-muted-foreground mt-1 mb-3">
+                  Context attribute used to assign users to the global rollout and default split,
+                  e.g. userId, sessionId or organization
+                </p>
+                <Input
+                  value={config.bucketBy}
+                  onChange={(e) => setConfig({ ...config, bucketBy: e.target.value })}
+                  placeholder="userId"
+                />
+              </CardContent>
+            </Card>
+
             {/* Validation Errors */}
             {validationErrors.length > 0 && (
               <Alert variant="destructive">
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { IndividualTargets } from '@/types/targeting.types';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
+
+interface IndividualTargetsEditorProps {
+  targets: IndividualTargets;
+  variations: Array<{ key: string; name: string }>;
+  onChange: (targets: IndividualTargets) => void;
+}
+
+/**
+ * Split pasted or typed input into context keys, accepting commas,
+ * whitespace and newlines as separators
+ */
+export function parseContextKeys(input: string): string[] {
+  return input
+    .split(/[\s,]+/)
+    .map((key) => key.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Add context keys to a variation, moving any that are targeted to another variation
+ */
+export function addTargets(
+  targets: IndividualTargets,
+  variationKey: string,
+  contextKeys: string[]
+): IndividualTargets {
+  const next: IndividualTargets = {};
+  for (const [key, keys] of Object.entries(targets)) {
+    next[key] = keys.filter((contextKey) => !contextKeys.includes(contextKey));
+  }
+  next[variationKey] = [...new Set([...(next[variationKey] ?? []), ...contextKeys])];
+  return next;
+}
+
+export function IndividualTargetsEditor({
+  targets,
+  variations,
+  onChange,
+}: IndividualTargetsEditorProps) {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const handleAdd = (variationKey: string) => {
+    const contextKeys = parseContextKeys(drafts[variationKey] ?? '');
+    if (contextKeys.length === 0) return;
+
+    onChange(addTargets(targets, variationKey, contextKeys));
+    setDrafts({ ...drafts, [variationKey]: '' });
+  };
+
+  const handleRemove = (variationKey: string, contextKey: string) => {
+    onChange({
+      ...targets,
+      [variationKey]: (targets[variationKey] ?? []).filter((key) => key !== contextKey),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {variations.map((variation) => {
+        const contextKeys = targets[variation.key] ?? [];
+        return (
+          <div key={variation.key} className="space-y-2">
+            <span className="text-sm">
+              {variation.name}{' '}
+              <code className="text-xs text-muted-foreground">({variation.key})</code>
+            </span>
+            {contextKeys.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {contextKeys.map((contextKey) => (
+                  <Badge key={contextKey} variant="secondary" className="gap-1 font-mono">
+                    {contextKey}
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(variation.key, contextKey)}
+                      aria-label={`Remove ${contextKey}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <Input
+              value={drafts[variation.key] ?? ''}
+              onChange={(e) => setDrafts({ ...drafts, [variation.key]: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAdd(variation.key);
+                }
+              }}
+              onBlur={() => handleAdd(variation.key)}
+              placeholder="Add user IDs, separated by commas"
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import { useState } from 'react';
+import { api, RolloutPlan, RolloutStep } from '@/lib/api';
+import { authStorage } from '@/lib/auth';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Pause, Play, Plus, Square, TrendingUp, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface RolloutPlanPanelProps {
+  flagId: string;
+  environmentId: string;
+  plan: RolloutPlan | null;
+  onChange: () => void;
+}
+
+const DEFAULT_STEPS: RolloutStep[] = [
+  { percentage: 1, durationMinutes: 60 },
+  { percentage: 10, durationMinutes: 60 },
+  { percentage: 50, durationMinutes: 60 },
+  { percentage: 100, durationMinutes: 0 },
+];
+
+/**
+ * When the current step of an active plan moves on, or null for the last step
+ */
+function getNextStepAt(plan: RolloutPlan): Date | null {
+  if (plan.currentStep >= plan.steps.length - 1) return null;
+  const step = plan.steps[plan.currentStep];
+  return new Date(new Date(plan.stepStartedAt).getTime() + step.durationMinutes * 60 * 1000);
+}
+
+export function RolloutPlanPanel({ flagId, environmentId, plan, onChange }: RolloutPlanPanelProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [steps, setSteps] = useState<RolloutStep[]>(DEFAULT_STEPS);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const inProgress = plan?.status === 'ACTIVE' || plan?.status === 'PAUSED';
+
+  const run = async (
+    action: (token: string) => ReturnType<typeof api.startRolloutPlan>,
+    fallback: string
+  ) => {
+    const token = authStorage.getToken();
+    if (!token) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await action(token);
+      if (response.success) {
+        setIsEditing(false);
+        onChange();
+      } else {
+        setError(response.error?.message || fallback);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStart = () =>
+    run(
+      (token) => api.startRolloutPlan(token, flagId, environmentId, steps),
+      'Failed to start rollout plan'
+    );
+
+  const handleStatus = (action: 'pause' | 'resume' | 'abort') =>
+    run(
+      (token) => api.updateRolloutPlanStatus(token, flagId, environmentId, action),
+      `Failed to ${action} rollout plan`
+    );
+
+  const updateStep = (index: number, field: keyof RolloutStep, value: string) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, [field]: Number(value) } : step)));
+  };
+
+  const renderProgress = (current: RolloutPlan) => {
+    const step = current.steps[current.currentStep];
+    const nextStepAt = current.status === 'ACTIVE' ? getNextStepAt(current) : null;
+
+    return (
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm">
+          <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          <span className="font-medium">
+            Step {current.currentStep + 1} of {current.steps.length} · {step.percentage}%
+          </span>
+          <Badge variant={current.status === 'ACTIVE' ? 'default' : 'outline'} className="text-xs">
+            {current.status.toLowerCase()}
+          </Badge>
+          {nextStepAt && (
+            <span className="text-muted-foreground">
+              next step {formatDistanceToNow(nextStepAt, { addSuffix: true })}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {current.status === 'ACTIVE' ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleStatus('pause')}
+              disabled={isSaving}
+            >
+              <Pause className="h-4 w-4 mr-1" />
+              Pause
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleStatus('resume')}
+              disabled={isSaving}
+            >
+              <Play className="h-4 w-4 mr-1" />
+              Resume
+            </Button>
+          )}
+          <Button
+            variant="destructive"
+            size="sm"
+            onClick={() => handleStatus('abort')}
+            disabled={isSaving}
+          >
+            <Square className="h-4 w-4 mr-1" />
+            Abort
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderEditor = () => (
+    <div className="space-y-3">
+      {steps.map((step, index) => (
+        <div key={index} className="flex items-end gap-3">
+          <div>
+            <Label className="text-xs">Step {index + 1} percentage</Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              step={0.1}
+              value={step.percentage}
+              onChange={(e) => updateStep(index, 'percentage', e.target.value)}
+              className="mt-1 w-32"
+            />
+          </div>
+          {index < steps.length - 1 && (
+            <div>
+              <Label className="text-xs">Hold for (minutes)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={step.durationMinutes}
+                onChange={(e) => updateStep(index, 'durationMinutes', e.target.value)}
+                className="mt-1 w-32"
+              />
+            </div>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+            disabled={steps.length <= 2}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setSteps([...steps, { percentage: 100, durationMinutes: 0 }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Step
+        </Button>
+        <Button size="sm" onClick={handleStart} disabled={isSaving}>
+          {isSaving ? 'Starting...' : 'Start Rollout'}
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {inProgress && plan ? (
+        renderProgress(plan)
+      ) : isEditing ? (
+        renderEditor()
+      ) : (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {plan?.status === 'COMPLETED'
+              ? `Last rollout plan completed at ${plan.steps[plan.currentStep].percentage}%`
+              : plan?.status === 'ABORTED'
+                ? 'Last rollout plan was aborted'
+                : 'No progressive rollout'}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+            <TrendingUp className="h-4 w-4 mr-1" />
+            Plan Rollout
+          </Button>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, ScheduledFlagChange, ScheduledChangeAction, ScheduledChangeStatus } from '@/lib/api';
+import { authStorage } from '@/lib/auth';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, CalendarClock, X } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface ScheduledChangesProps {
+  flagId: string;
+  environments: Array<{ id: string; name: string }>;
+  variations: Array<{ key: string; name: string }>;
+  onApplied?: () => void;
+}
+
+const ACTION_LABELS: Record<ScheduledChangeAction, string> = {
+  TOGGLE_ON: 'Turn on',
+  TOGGLE_OFF: 'Turn off',
+  SET_DEFAULT_VARIATION: 'Set default variation',
+  SET_TARGETING_RULES: 'Replace targeting rules',
+  SET_ROLLOUT: 'Set global rollout',
+};
+
+const STATUS_VARIANTS: Record<
+  ScheduledChangeStatus,
+  'default' | 'secondary' | 'destructive' | 'outline'
+> = {
+  PENDING: 'default',
+  RUNNING: 'default',
+  COMPLETED: 'secondary',
+  FAILED: 'destructive',
+  CANCELLED: 'outline',
+};
+
+/**
+ * Describe the value a scheduled change applies, e.g. "to 50%"
+ */
+function describeValue(change: ScheduledFlagChange): string {
+  switch (change.action) {
+    case 'SET_DEFAULT_VARIATION':
+      return `to ${String(change.value)}`;
+    case 'SET_ROLLOUT':
+      return `to ${String(change.value)}%`;
+    case 'SET_TARGETING_RULES':
+      return Array.isArray(change.value) ? `(${change.value.length} rules)` : '';
+    default:
+      return '';
+  }
+}
+
+export function ScheduledChanges({
+  flagId,
+  environments,
+  variations,
+  onApplied,
+}: ScheduledChangesProps) {
+  const [changes, setChanges] = useState<ScheduledFlagChange[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [environmentId, setEnvironmentId] = useState('');
+  const [action, setAction] = useState<ScheduledChangeAction>('TOGGLE_ON');
+  const [value, setValue] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
+
+  const loadChanges = useCallback(async () => {
+    const token = authStorage.getToken();
+    if (!token) return;
+
+    const response = await api.getScheduledChanges(token, flagId);
+    if (response.success && response.data) {
+      setChanges(response.data.changes);
+    } else {
+      setError(response.error?.message || 'Failed to load scheduled changes');
+    }
+  }, [flagId]);
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  const parseValue = (): unknown => {
+    switch (action) {
+      case 'SET_DEFAULT_VARIATION':
+        return value;
+      case 'SET_ROLLOUT':
+        return Number(value);
+      case 'SET_TARGETING_RULES':
+        return JSON.parse(value);
+      default:
+        return undefined;
+    }
+  };
+
+  const handleSchedule = async () => {
+    const token = authStorage.getToken();
+    if (!token) return;
+
+    if (!environmentId || !scheduledFor) {
+      setError('Environment and time are required');
+      return;
+    }
+
+    let parsedValue: unknown;
+    try {
+      parsedValue = parseValue();
+    } catch {
+      setError('Targeting rules must be valid JSON');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await api.createScheduledChange(token, flagId, environmentId, {
+        action,
+        value: parsedValue,
+        // datetime-local values are in the browser's timezone
+        scheduledFor: new Date(scheduledFor).toISOString(),
+      });
+
+      if (response.success) {
+        setValue('');
+        setScheduledFor('');
+        await loadChanges();
+      } else {
+        setError(response.error?.message || 'Failed to schedule change');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (changeId: string) => {
+    const token = authStorage.getToken();
+    if (!token) return;
+
+    const response = await api.cancelScheduledChange(token, flagId, changeId);
+    if (!response.success) {
+      setError(response.error?.message || 'Failed to cancel scheduled change');
+      // The change may have been applied in the meantime
+      onApplied?.();
+    }
+    await loadChanges();
+  };
+
+  const getEnvironmentName = (id: string) =>
+    environments.find((env) => env.id === id)?.name || 'Unknown environment';
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="grid gap-3 md:grid-cols-5 items-end">
+          <div>
+            <Label className="text-sm">Environment</Label>
+            <Select value={environmentId} onValueChange={setEnvironmentId}>
+              <SelectTrigger className="mt-2">
+                <SelectValue placeholder="Select environment" />
+              </SelectTrigger>
+              <SelectContent>
+                {environments.map((env) => (
+                  <SelectItem key={env.id} value={env.id}>
+                    {env.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-sm">Action</Label>
+            <Select
+              value={action}
+              onValueChange={(next: ScheduledChangeAction) => {
+                setAction(next);
+                setValue(next === 'SET_DEFAULT_VARIATION' ? (variations[0]?.key ?? '') : '');
+              }}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACTION_LABELS) as ScheduledChangeAction[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {ACTION_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            {action === 'SET_DEFAULT_VARIATION' && (
+              <>
+                <Label className="text-sm">Variation</Label>
+                <Select value={value} onValueChange={setValue}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {variations.map((variation) => (
+                      <SelectItem key={variation.key} value={variation.key}>
+                        {variation.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
+            {action === 'SET_ROLLOUT' && (
+              <>
+                <Label className="text-sm">Percentage</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  className="mt-2"
+                />
+              </>
+            )}
+            {action === 'SET_TARGETING_RULES' && (
+              <>
+                <Label className="text-sm">Rules (JSON)</Label>
+                <Input
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder="[]"
+                  className="mt-2 font-mono"
+                />
+              </>
+            )}
+          </div>
+          <div>
+            <Label className="text-sm">When</Label>
+            <Input
+              type="datetime-local"
+              value={scheduledFor}
+              onChange={(e) => setScheduledFor(e.target.value)}
+              className="mt-2"
+            />
+          </div>
+          <Button onClick={handleSchedule} disabled={isSaving}>
+            <CalendarClock className="h-4 w-4 mr-2" />
+            {isSaving ? 'Scheduling...' : 'Schedule'}
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {changes.length > 0 ? (
+          <div className="divide-y">
+            {changes.map((change) => (
+              <div key={change.id} className="flex items-center justify-between py-3">
+                <div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">
+                      {ACTION_LABELS[change.action]} {describeValue(change)}
+                    </span>
+                    <span className="text-muted-foreground">
+                      in {getEnvironmentName(change.environmentId)}
+                    </span>
+                    <Badge variant={STATUS_VARIANTS[change.status]} className="text-xs">
+                      {change.status.toLowerCase()}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {format(new Date(change.scheduledFor), 'PPpp')} (
+                    {formatDistanceToNow(new Date(change.scheduledFor), { addSuffix: true })})
+                    {change.createdBy &&
+                      ` · scheduled by ${change.createdBy.name || change.createdBy.email}`}
+                  </p>
+                  {change.error && <p className="text-xs text-destructive mt-1">{change.error}</p>}
+                </div>
+                {change.status === 'PENDING' && (
+                  <Button variant="ghost" size="sm" onClick={() => handleCancel(change.id)}>
+                    <X className="h-4 w-4 mr-1" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No scheduled changes</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
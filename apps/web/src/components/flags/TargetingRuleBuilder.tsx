@@ -3,11 +3,12 @@
 import { useState } from 'react';
 import {
   TargetingRule,
-  Condition,
-  ConditionOperator,
-  ConditionLogic,
+  ConditionGroup,
+  WeightedVariation,
+  FieldError,
 } from '@/types/targeting.types';
-import { ConditionEditor } from './ConditionEditor';
+import { ConditionGroupEditor } from './ConditionGroupEditor';
+import { DistributionEditor, createEvenDistribution } from './DistributionEditor';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,7 +22,8 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { Trash2, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
 
 interface TargetingRuleBuilderProps {
   rule: TargetingRule;
@@ -30,6 +32,8 @@ interface TargetingRuleBuilderProps {
   onRemove: () => void;
   canRemove: boolean;
   ruleIndex: number;
+  rolloutStep?: number;
+  errors?: FieldError[];
 }
 
 export function TargetingRuleBuilder({
@@ -39,37 +43,20 @@ export function TargetingRuleBuilder({
   onRemove,
   canRemove,
   ruleIndex,
+  rolloutStep = 1,
+  errors = [],
 }: TargetingRuleBuilderProps) {
   const [isExpanded, setIsExpanded] = useState(true);
 
-  const handleConditionChange = (index: number, condition: Condition) => {
-    const newConditions = [...rule.conditions];
-    newConditions[index] = condition;
-    onChange({ ...rule, conditions: newConditions });
-  };
-
-  const handleAddCondition = () => {
-    const newCondition: Condition = {
-      attribute: '',
-      operator: ConditionOperator.EQUALS,
-      value: '',
-    };
-    onChange({ ...rule, conditions: [...rule.conditions, newCondition] });
-  };
-
-  const handleRemoveCondition = (index: number) => {
-    const newConditions = rule.conditions.filter((_, i) => i !== index);
-    onChange({ ...rule, conditions: newConditions });
+  // The rule itself is the outermost condition group
+  const handleConditionsChange = ({ conditions, conditionLogic }: ConditionGroup) => {
+    onChange({ ...rule, conditions, conditionLogic });
   };
 
   const handleDescriptionChange = (description: string) => {
     onChange({ ...rule, description });
   };
 
-  const handleLogicChange = (logic: ConditionLogic) => {
-    onChange({ ...rule, conditionLogic: logic });
-  };
-
   const handleVariationChange = (variationKey: string) => {
     onChange({ ...rule, variationKey });
   };
@@ -78,10 +65,28 @@ export function TargetingRuleBuilder({
     onChange({ ...rule, rolloutPercentage: percentage });
   };
 
+  const handleDistributionChange = (distribution: WeightedVariation[] | undefined) => {
+    onChange({ ...rule, distribution });
+  };
+
   const hasRollout = rule.rolloutPercentage !== undefined;
+  const hasDistribution = rule.distribution !== undefined;
+  const bucketBy = rule.bucketBy ?? 'userId';
+
+  const handleBucketByChange = (value: string) => {
+    // Keep the rule JSON minimal when bucketing by the default attribute
+    onChange({ ...rule, bucketBy: value === 'userId' ? undefined : value });
+  };
+
+  // Condition errors are shown on the condition, everything else under the rule title
+  const conditionErrors = errors.filter((error) => error.path[0] === 'conditions');
+  const ruleErrors = errors.filter((error) => error.path[0] !== 'conditions');
+  const hasVariationError = errors.some(
+    (error) => error.path[0] === 'variationKey' || error.path[0] === 'distribution'
+  );
 
   return (
-    <Card className="border-2">
+    <Card className={cn('border-2', errors.length > 0 && 'border-destructive')}>
       <CardHeader className="cursor-pointer" onClick={() => setIsExpanded(!isExpanded)}>
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
@@ -98,12 +103,22 @@ export function TargetingRuleBuilder({
                     {rule.rolloutPercentage}% rollout
                   </Badge>
                 )}
+                {hasDistribution && (
+                  <Badge variant="secondary" className="text-xs">
+                    Split
+                  </Badge>
+                )}
               </CardTitle>
               {rule.description && (
                 <p className="text-sm text-muted-foreground mt-1">
                   {rule.description}
                 </p>
               )}
+              {ruleErrors.map((error, index) => (
+                <p key={index} className="text-xs text-destructive mt-1">
+                  {error.message}
+                </p>
+              ))}
             </div>
           </div>
           {canRemove && (
@@ -137,73 +152,63 @@ export function TargetingRuleBuilder({
 
           {/* Conditions */}
           <div>
-            <div className="flex items-center justify-between mb-3">
-              <Label className="text-sm">Conditions</Label>
-              {rule.conditions.length > 1 && (
-                <Select
-                  value={rule.conditionLogic}
-                  onValueChange={handleLogicChange}
-                >
-                  <SelectTrigger className="w-24 h-8">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value={ConditionLogic.AND}>AND</SelectItem>
-                    <SelectItem value={ConditionLogic.OR}>OR</SelectItem>
-                  </SelectContent>
-                </Select>
-              )}
-            </div>
-
-            <div className="space-y-2">
-              {rule.conditions.map((condition, index) => (
-                <div key={index}>
-                  <ConditionEditor
-                    condition={condition}
-                    onChange={(c) => handleConditionChange(index, c)}
-                    onRemove={() => handleRemoveCondition(index)}
-                    canRemove={rule.conditions.length > 1}
-                  />
-                  {index < rule.conditions.length - 1 && (
-                    <div className="flex justify-center py-1">
-                      <Badge variant="outline" className="text-xs">
-                        {rule.conditionLogic}
-                      </Badge>
-                    </div>
-                  )}
-                </div>
-              ))}
+            <Label className="text-sm">Conditions</Label>
+            <div className="mt-3">
+              <ConditionGroupEditor
+                group={{ conditionLogic: rule.conditionLogic, conditions: rule.conditions }}
+                onChange={handleConditionsChange}
+                errors={conditionErrors}
+              />
             </div>
-
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleAddCondition}
-              className="mt-3"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Condition
-            </Button>
           </div>
 
           {/* Serve Variation */}
           <div>
-            <Label className="text-sm">Serve Variation</Label>
-            <Select
-              value={rule.variationKey}
-              onValueChange={handleVariationChange}
-            >
-              <SelectTrigger className="mt-2">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {variations.map((variation) => (
-                  <SelectItem key={variation.key} value={variation.key}>
-                    {variation.name} ({variation.key})
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">
+                {hasDistribution ? 'Split Between Variations' : 'Serve Variation'}
+              </Label>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  handleDistributionChange(
+                    hasDistribution ? undefined : createEvenDistribution(variations)
+                  )
+                }
+                className="h-7 text-xs"
+              >
+                {hasDistribution ? 'Serve single variation' : 'Split by percentage'}
+              </Button>
+            </div>
+            {hasDistribution ? (
+              <div className="mt-2">
+                <DistributionEditor
+                  distribution={rule.distribution || []}
+                  variations={variations}
+                  onChange={handleDistributionChange}
+                />
+              </div>
+            ) : (
+              <Select
+                value={rule.variationKey}
+                onValueChange={handleVariationChange}
+              >
+                <SelectTrigger
+                  aria-invalid={hasVariationError}
+                  className={cn('mt-2', hasVariationError && 'border-destructive')}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {variations.map((variation) => (
+                    <SelectItem key={variation.key} value={variation.key}>
+                      {variation.name} ({variation.key})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
 
           {/* Rollout Percentage */}
@@ -227,10 +232,10 @@ export function TargetingRuleBuilder({
                 <div className="flex items-center gap-4">
                   <Slider
                     value={[rule.rolloutPercentage || 100]}
-                    onValueChange={(values) => handleRolloutChange(values[0])}
+                    onValueChange={(values) => handleRolloutChange(Math.round(values[0] * 10) / 10)}
                     min={0}
                     max={100}
-                    step={1}
+                    step={rolloutStep}
                     className="flex-1"
                   />
                   <div className="w-16 text-right">
@@ -241,11 +246,27 @@ export function TargetingRuleBuilder({
                 </div>
                 <p className="text-xs text-muted-foreground">
                   Only {rule.rolloutPercentage}% of users matching this rule will receive the
-                  variation (stable bucketing by userId)
+                  variation (stable bucketing by {bucketBy})
                 </p>
               </div>
             )}
           </div>
+
+          {/* Bucketing Attribute */}
+          {(hasRollout || hasDistribution) && (
+            <div>
+              <Label className="text-sm">Bucket By</Label>
+              <Input
+                value={bucketBy}
+                onChange={(e) => handleBucketByChange(e.target.value)}
+                placeholder="userId"
+                className="mt-2"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Context attribute used for bucketing, e.g. userId, sessionId or organization
+              </p>
+            </div>
+          )}
         </CardContent>
       )}
     </Card>
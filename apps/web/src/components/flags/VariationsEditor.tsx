@@ -0,0 +1,135 @@
+'use client';
+
+import { FieldError, getNestedErrors } from '@/types/targeting.types';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, X } from 'lucide-react';
+
+// Variation as typed into the form, string values are entered without quotes
+export interface VariationDraft {
+  key: string;
+  name: string;
+  value: string;
+}
+
+interface VariationsEditorProps {
+  type: string;
+  variations: VariationDraft[];
+  onChange: (variations: VariationDraft[]) => void;
+  errors?: FieldError[];
+  disabled?: boolean;
+}
+
+const VALUE_PLACEHOLDERS: Record<string, string> = {
+  STRING: 'e.g. dark',
+  NUMBER: 'e.g. 42',
+  JSON: 'e.g. {"steps": 3}',
+};
+
+/**
+ * JSON-encode a typed value the way the API stores it. Only string values are
+ * quoted, numbers and JSON are sent as typed so invalid input is reported.
+ */
+export function encodeVariationValue(type: string, value: string): string {
+  return type === 'STRING' ? JSON.stringify(value) : value.trim();
+}
+
+/**
+ * Starting variations for a flag type, BOOLEAN flags always get true and false
+ */
+export function createDefaultVariations(type: string): VariationDraft[] {
+  const values: Record<string, [string, string]> = {
+    STRING: ['control', 'treatment'],
+    NUMBER: ['0', '1'],
+    JSON: ['{}', '{}'],
+  };
+  const [control, treatment] = values[type] ?? ['', ''];
+
+  return [
+    { key: 'control', name: 'Control', value: control },
+    { key: 'treatment', name: 'Treatment', value: treatment },
+  ];
+}
+
+export function VariationsEditor({
+  type,
+  variations,
+  onChange,
+  errors = [],
+  disabled,
+}: VariationsEditorProps) {
+  const handleChange = (index: number, field: keyof VariationDraft, value: string) => {
+    onChange(variations.map((v, i) => (i === index ? { ...v, [field]: value } : v)));
+  };
+
+  const handleAdd = () => {
+    onChange([...variations, { key: '', name: '', value: '' }]);
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(variations.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {variations.map((variation, index) => {
+        const rowErrors = getNestedErrors(errors, index);
+        const hasError = (field: keyof VariationDraft) =>
+          rowErrors.some((error) => error.path[0] === field);
+
+        return (
+          <div key={index} className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Input
+                value={variation.key}
+                onChange={(e) => handleChange(index, 'key', e.target.value)}
+                placeholder="Key"
+                aria-invalid={hasError('key')}
+                className={cn('w-28 font-mono', hasError('key') && 'border-destructive')}
+                disabled={disabled}
+              />
+              <Input
+                value={variation.name}
+                onChange={(e) => handleChange(index, 'name', e.target.value)}
+                placeholder="Name"
+                aria-invalid={hasError('name')}
+                className={cn('w-32', hasError('name') && 'border-destructive')}
+                disabled={disabled}
+              />
+              <Input
+                value={variation.value}
+                onChange={(e) => handleChange(index, 'value', e.target.value)}
+                placeholder={VALUE_PLACEHOLDERS[type]}
+                aria-invalid={hasError('value')}
+                className={cn('flex-1 font-mono', hasError('value') && 'border-destructive')}
+                disabled={disabled}
+              />
+              {variations.length > 1 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(index)}
+                  className="h-9 w-9 shrink-0"
+                  disabled={disabled}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {rowErrors.map((error, errorIndex) => (
+              <p key={errorIndex} className="text-xs text-destructive">
+                {error.message}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+      <Button type="button" variant="outline" size="sm" onClick={handleAdd} disabled={disabled}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Variation
+      </Button>
+    </div>
+  );
+}
@@ -135,6 +135,8 @@ export interface Flag {
   projectId: string;
   tags: string[];
   ownerId: string | null;
+  salt: string | null;
+  jsonSchema: Record<string, unknown> | null;
   createdAt: string;
   updatedAt: string;
   variations: FlagVariation[];
@@ -152,9 +154,31 @@ export interface FlagEnvironmentConfig {
   fallbackVariationKey: string | null;
   targetingRules: unknown | null;
   rolloutPercentage: number | null;
+  defaultDistribution: unknown | null;
+  bucketBy: string;
+  bucketingVersion: number;
+  prerequisites: unknown | null;
+  individualTargets: unknown | null;
+  rolloutPlan: RolloutPlan | null;
   updatedAt: string;
 }
 
+export interface RolloutStep {
+  percentage: number;
+  durationMinutes: number;
+}
+
+export type RolloutPlanStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'ABORTED';
+
+export interface RolloutPlan {
+  steps: RolloutStep[];
+  status: RolloutPlanStatus;
+  currentStep: number;
+  stepStartedAt: string;
+  pausedAt?: string;
+  createdById: string;
+}
+
 export interface CreateFlagInput {
   key: string;
   name: string;
@@ -167,6 +191,7 @@ export interface CreateFlagInput {
     value: string;
     description?: string;
   }[];
+  jsonSchema?: Record<string, unknown>;
 }
 
 export interface UpdateFlagInput {
@@ -182,6 +207,46 @@ export interface UpdateFlagConfigInput {
   fallbackVariationKey?: string;
   targetingRules?: unknown;
   rolloutPercentage?: number;
+  defaultDistribution?: unknown | null;
+  bucketBy?: string;
+  prerequisites?: unknown;
+  individualTargets?: unknown;
+}
+
+export type ScheduledChangeAction =
+  | 'TOGGLE_ON'
+  | 'TOGGLE_OFF'
+  | 'SET_DEFAULT_VARIATION'
+  | 'SET_TARGETING_RULES'
+  | 'SET_ROLLOUT';
+
+export type ScheduledChangeStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface ScheduledFlagChange {
+  id: string;
+  flagId: string;
+  environmentId: string;
+  createdById: string;
+  createdBy?: {
+    id: string;
+    name: string | null;
+    email: string;
+  };
+  action: ScheduledChangeAction;
+  value: unknown | null;
+  comment: string | null;
+  scheduledFor: string;
+  status: ScheduledChangeStatus;
+  executedAt: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface CreateScheduledChangeInput {
+  action: ScheduledChangeAction;
+  value?: unknown;
+  scheduledFor: string;
+  comment?: string;
 }
 
 class ApiClient {
@@ -497,6 +562,15 @@ class ApiClient {
     });
   }
 
+  async reseedFlag(token: string, id: string): Promise<ApiResponse<{ flag: Flag }>> {
+    return this.request<{ flag: Flag }>(`/api/v1/flags/${id}/reseed`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    });
+  }
+
   async deleteFlag(token: string, id: string): Promise<ApiResponse<{ message: string }>> {
     return this.request<{ message: string }>(`/api/v1/flags/${id}`, {
       method: 'DELETE',
@@ -558,6 +632,90 @@ class ApiClient {
     );
   }
 
+  async getScheduledChanges(
+    token: string,
+    flagId: string
+  ): Promise<ApiResponse<{ changes: ScheduledFlagChange[] }>> {
+    return this.request<{ changes: ScheduledFlagChange[] }>(
+      `/api/v1/flags/${flagId}/scheduled-changes`,
+      {
+        method: 'GET',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }
+    );
+  }
+
+  async createScheduledChange(
+    token: string,
+    flagId: string,
+    environmentId: string,
+    data: CreateScheduledChangeInput
+  ): Promise<ApiResponse<{ change: ScheduledFlagChange }>> {
+    return this.request<{ change: ScheduledFlagChange }>(
+      `/api/v1/flags/${flagId}/environments/${environmentId}/scheduled-changes`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(data),
+      }
+    );
+  }
+
+  async cancelScheduledChange(
+    token: string,
+    flagId: string,
+    changeId: string
+  ): Promise<ApiResponse<{ change: ScheduledFlagChange }>> {
+    return this.request<{ change: ScheduledFlagChange }>(
+      `/api/v1/flags/${flagId}/scheduled-changes/${changeId}`,
+      {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }
+    );
+  }
+
+  async startRolloutPlan(
+    token: string,
+    flagId: string,
+    environmentId: string,
+    steps: RolloutStep[]
+  ): Promise<ApiResponse<{ config: FlagEnvironmentConfig }>> {
+    return this.request<{ config: FlagEnvironmentConfig }>(
+      `/api/v1/flags/${flagId}/environments/${environmentId}/rollout-plan`,
+      {
+        method: 'PUT',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ steps }),
+      }
+    );
+  }
+
+  async updateRolloutPlanStatus(
+    token: string,
+    flagId: string,
+    environmentId: string,
+    action: 'pause' | 'resume' | 'abort'
+  ): Promise<ApiResponse<{ config: FlagEnvironmentConfig }>> {
+    return this.request<{ config: FlagEnvironmentConfig }>(
+      `/api/v1/flags/${flagId}/environments/${environmentId}/rollout-plan/${action}`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      }
+    );
+  }
+
   async getAllFlagEnvironmentConfigs(
     token: string,
     flagId: string
@@ -21,6 +21,7 @@ interface FlagState {
   loadFlag: (id: string) => Promise<void>;
   createFlag: (projectId: string, data: CreateFlagInput) => Promise<Flag | null>;
   updateFlag: (id: string, data: UpdateFlagInput) => Promise<Flag | null>;
+  reseedFlag: (id: string) => Promise<Flag | null>;
   deleteFlag: (id: string) => Promise<boolean>;
   loadFlagConfigs: (flagId: string) => Promise<void>;
   updateFlagConfig: (
@@ -187,6 +188,43 @@ export const useFlagStore = create<FlagState>((set) => ({
     }
   },
 
+  reseedFlag: async (id: string) => {
+    const token = authStorage.getToken();
+    if (!token) {
+      set({ error: 'Not authenticated' });
+      return null;
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const response = await api.reseedFlag(token, id);
+
+      if (response.success && response.data) {
+        const updated = response.data.flag;
+
+        set((state) => ({
+          flags: state.flags.map((f) => (f.id === id ? updated : f)),
+          currentFlag: state.currentFlag?.id === id ? updated : state.currentFlag,
+          isLoading: false,
+        }));
+
+        return updated;
+      } else {
+        set({
+          error: response.error?.message || 'Failed to re-seed flag',
+          isLoading: false,
+        });
+        return null;
+      }
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to re-seed flag',
+        isLoading: false,
+      });
+      return null;
+    }
+  },
+
   deleteFlag: async (id: string) => {
     const token = authStorage.getToken();
     if (!token) {
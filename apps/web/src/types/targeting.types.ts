@@ -1,40 +1,40 @@
-// Targeting rule types (matching backend)
+// Targeting rule types, shared with the API through the evaluator package
 
-export enum ConditionOperator {
-  EQUALS = 'equals',
-  NOT_EQUALS = 'notEquals',
-  CONTAINS = 'contains',
-  NOT_CONTAINS = 'notContains',
-  IN = 'in',
-  NOT_IN = 'notIn',
-  GREATER_THAN = 'greaterThan',
-  LESS_THAN = 'lessThan',
-  GREATER_THAN_OR_EQUAL = 'greaterThanOrEqual',
-  LESS_THAN_OR_EQUAL = 'lessThanOrEqual',
-  MATCHES = 'matches',
-  NOT_MATCHES = 'notMatches',
-  STARTS_WITH = 'startsWith',
-  ENDS_WITH = 'endsWith',
-}
+export {
+  ConditionOperator,
+  ConditionLogic,
+  SEGMENT_OPERATORS,
+  SEMVER_OPERATORS,
+  DATE_OPERATORS,
+  MAX_CONDITION_DEPTH,
+  isConditionGroup,
+} from '@flagkit/evaluator';
 
-export type ConditionValue = string | number | boolean | string[] | number[];
+export type {
+  TimeWindow,
+  ConditionValue,
+  Condition,
+  ConditionGroup,
+  ConditionNode,
+  WeightedVariation,
+  Prerequisite,
+  IndividualTargets,
+  TargetingRule,
+} from '@flagkit/evaluator';
 
-export interface Condition {
-  attribute: string;
-  operator: ConditionOperator;
-  value: ConditionValue;
-}
+export { createTargetingRulesSchema } from '@flagkit/types';
 
-export enum ConditionLogic {
-  AND = 'AND',
-  OR = 'OR',
+// Validation error of a rule field, the path is relative to the rule, group or condition it's passed to
+export interface FieldError {
+  path: (string | number)[];
+  message: string;
 }
 
-export interface TargetingRule {
-  id: string;
-  description?: string;
-  conditions: Condition[];
-  conditionLogic: ConditionLogic;
-  variationKey: string;
-  rolloutPercentage?: number;
+/**
+ * Narrow field errors to those under a path, e.g. the errors of one condition of a group
+ */
+export function getNestedErrors(errors: FieldError[], ...prefix: (string | number)[]): FieldError[] {
+  return errors
+    .filter((error) => prefix.every((segment, index) => error.path[index] === segment))
+    .map((error) => ({ ...error, path: error.path.slice(prefix.length) }));
 }
@@ -0,0 +1,7 @@
+module.exports = {
+  extends: ['../config/.eslintrc.js'],
+  parserOptions: {
+    project: './tsconfig.json',
+    tsconfigRootDir: __dirname,
+  },
+};
@@ -0,0 +1,46 @@
+// Conformance fixtures every evaluator consumer runs in its own test suite,
+// so the API and the SDKs provably return identical results for the same input.
+
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import type {
+  EvaluationContext,
+  EvaluationReason,
+  FlagDefinition,
+  SegmentMap,
+} from './src/types';
+
+export interface ConformanceCase {
+  name: string;
+  flagKey: string;
+  context?: EvaluationContext;
+  expected: {
+    variationKey: string;
+    value: unknown;
+    enabled: boolean;
+    reason: EvaluationReason;
+  };
+}
+
+export interface ConformanceSuite {
+  name: string; // Fixture file name without extension
+  description: string;
+  flags: FlagDefinition[];
+  segments?: SegmentMap;
+  cases: ConformanceCase[];
+}
+
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+/**
+ * Load every fixture suite, sorted by file name
+ */
+export function loadConformanceSuites(): ConformanceSuite[] {
+  return readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => ({
+      name: path.basename(file, '.json'),
+      ...JSON.parse(readFileSync(path.join(FIXTURES_DIR, file), 'utf8')),
+    }));
+}
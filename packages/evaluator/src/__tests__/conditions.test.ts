@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConditionLogic,
+  ConditionOperator,
+  TargetingRule,
+  evaluateCondition,
+  evaluateRule,
+  getBucketingKey,
+  getReferencedSegmentKeys,
+  resolveAttribute,
+  validateConditionTree,
+} from '../index';
+
+const context = {
+  userId: 'user-1',
+  attributes: {
+    'legacy.flat': 'flat-value',
+    company: { plan: 'enterprise', id: 42 },
+    device: { os: { name: 'ios', version: '17.2.1' } },
+    roles: ['admin', 'billing'],
+    teams: [{ name: 'payments' }, { name: 'growth' }],
+    tags: [],
+  },
+};
+
+describe('resolveAttribute', () => {
+  it('should resolve dot paths through nested objects', () => {
+    expect(resolveAttribute(context.attributes, 'company.plan')).toEqual({
+      found: true,
+      value: 'enterprise',
+    });
+    expect(resolveAttribute(context.attributes, 'device.os.version').value).toBe('17.2.1');
+  });
+
+  it('should prefer an exact key containing dots', () => {
+    expect(resolveAttribute(context.attributes, 'legacy.flat').value).toBe('flat-value');
+  });
+
+  it('should collect values when a path crosses an array', () => {
+    expect(resolveAttribute(context.attributes, 'teams.name').value).toEqual([
+      'payments',
+      'growth',
+    ]);
+  });
+
+  it('should report missing paths', () => {
+    expect(resolveAttribute(context.attributes, 'company.region').found).toBe(false);
+    expect(resolveAttribute(context.attributes, 'company.plan.tier').found).toBe(false);
+    expect(resolveAttribute(context.attributes, 'company.constructor').found).toBe(false);
+  });
+});
+
+describe('evaluateCondition with nested and list attributes', () => {
+  it('should match nested attributes', () => {
+    expect(
+      evaluateCondition(
+        { attribute: 'company.plan', operator: ConditionOperator.EQUALS, value: 'enterprise' },
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        {
+          attribute: 'device.os.version',
+          operator: ConditionOperator.SEMVER_IN_RANGE,
+          value: '>=17',
+        },
+        context
+      )
+    ).toBe(true);
+  });
+
+  it('should match list-valued attributes if any element matches', () => {
+    expect(
+      evaluateCondition(
+        { attribute: 'roles', operator: ConditionOperator.EQUALS, value: 'admin' },
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { attribute: 'roles', operator: ConditionOperator.IN, value: ['owner', 'billing'] },
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { attribute: 'teams.name', operator: ConditionOperator.STARTS_WITH, value: 'grow' },
+        context
+      )
+    ).toBe(true);
+  });
+
+  it('should match negated operators only if no element matches', () => {
+    expect(
+      evaluateCondition(
+        { attribute: 'roles', operator: ConditionOperator.NOT_EQUALS, value: 'admin' },
+        context
+      )
+    ).toBe(false);
+    expect(
+      evaluateCondition(
+        { attribute: 'roles', operator: ConditionOperator.NOT_IN, value: ['owner'] },
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { attribute: 'tags', operator: ConditionOperator.NOT_CONTAINS, value: 'beta' },
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { attribute: 'tags', operator: ConditionOperator.CONTAINS, value: 'beta' },
+        context
+      )
+    ).toBe(false);
+  });
+});
+
+describe('getBucketingKey', () => {
+  it('should bucket by nested attributes', () => {
+    expect(getBucketingKey(context, 'company.id')).toBe('42');
+    expect(getBucketingKey(context, 'roles')).toBeUndefined();
+  });
+});
+
+describe('evaluateRule with nested condition groups', () => {
+  // (country = US AND plan = pro) OR betaTester = true
+  const rule: TargetingRule = {
+    id: 'rule-1',
+    conditionLogic: ConditionLogic.OR,
+    variationKey: 'on',
+    conditions: [
+      {
+        conditionLogic: ConditionLogic.AND,
+        conditions: [
+          { attribute: 'country', operator: ConditionOperator.EQUALS, value: 'US' },
+          { attribute: 'plan', operator: ConditionOperator.EQUALS, value: 'pro' },
+        ],
+      },
+      { attribute: 'betaTester', operator: ConditionOperator.EQUALS, value: true },
+    ],
+  };
+
+  it('should evaluate groups with their own logic', () => {
+    expect(evaluateRule(rule, { attributes: { country: 'US', plan: 'pro' } })).toBe(true);
+    expect(evaluateRule(rule, { attributes: { country: 'US', plan: 'free' } })).toBe(false);
+    expect(evaluateRule(rule, { attributes: { country: 'DE', betaTester: true } })).toBe(true);
+  });
+
+  it('should keep evaluating flat rules', () => {
+    const flatRule: TargetingRule = {
+      id: 'rule-2',
+      conditionLogic: ConditionLogic.AND,
+      variationKey: 'on',
+      conditions: [
+        { attribute: 'country', operator: ConditionOperator.EQUALS, value: 'US' },
+        { attribute: 'plan', operator: ConditionOperator.EQUALS, value: 'pro' },
+      ],
+    };
+
+    expect(evaluateRule(flatRule, { attributes: { country: 'US', plan: 'pro' } })).toBe(true);
+    expect(evaluateRule(flatRule, { attributes: { country: 'US' } })).toBe(false);
+  });
+
+  it('should collect segment keys from nested groups', () => {
+    expect(
+      getReferencedSegmentKeys([
+        {
+          ...rule,
+          conditions: [
+            {
+              conditionLogic: ConditionLogic.OR,
+              conditions: [
+                { attribute: '', operator: ConditionOperator.IN_SEGMENT, value: 'beta-users' },
+              ],
+            },
+          ],
+        },
+      ])
+    ).toEqual(['beta-users']);
+  });
+
+  it('should reject empty and overly deep groups', () => {
+    expect(validateConditionTree(rule.conditions)).toBeNull();
+    expect(
+      validateConditionTree([{ conditionLogic: ConditionLogic.AND, conditions: [] }])
+    ).toContain('at least one condition');
+
+    let deep = rule.conditions;
+    for (let i = 0; i < 5; i++) {
+      deep = [{ conditionLogic: ConditionLogic.AND, conditions: deep }];
+    }
+    expect(validateConditionTree(deep)).toContain('levels deep');
+  });
+});
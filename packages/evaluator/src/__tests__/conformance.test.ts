@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { loadConformanceSuites } from '../../conformance';
+import { createFlagResolver, evaluateAllFlags } from '../index';
+
+describe('conformance fixtures', () => {
+  for (const suite of loadConformanceSuites()) {
+    describe(suite.name, () => {
+      for (const testCase of suite.cases) {
+        it(testCase.name, () => {
+          const resolveFlag = createFlagResolver(suite.flags, testCase.context, suite.segments);
+          const result = resolveFlag(testCase.flagKey);
+
+          expect(result).toEqual({ key: testCase.flagKey, ...testCase.expected });
+        });
+      }
+
+      it('evaluates every flag of the suite at once', () => {
+        for (const testCase of suite.cases) {
+          const results = evaluateAllFlags(suite.flags, testCase.context, suite.segments);
+          expect(results[testCase.flagKey]).toEqual({ key: testCase.flagKey, ...testCase.expected });
+        }
+      });
+
+      it('resolves flags already keyed by flag key', () => {
+        const flagsByKey = new Map(suite.flags.map((flag) => [flag.key, flag]));
+
+        for (const testCase of suite.cases) {
+          const resolveFlag = createFlagResolver(flagsByKey, testCase.context, suite.segments);
+          expect(resolveFlag(testCase.flagKey)).toEqual({ key: testCase.flagKey, ...testCase.expected });
+        }
+      });
+    });
+  }
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ContextKind,
+  ConditionOperator,
+  EvaluationContext,
+  evaluateCondition,
+  getBucketingKey,
+  getContextKind,
+  resolveContextAttribute,
+} from '../index';
+
+const multiKindContext: EvaluationContext = {
+  user: { key: 'user-1', attributes: { plan: 'pro' } },
+  organization: { key: 'acme', attributes: { plan: 'enterprise', region: { name: 'eu' } } },
+  device: { key: 'device-9', attributes: { platform: 'ios' } },
+};
+
+describe('getContextKind', () => {
+  it('should treat single-kind contexts as the user kind', () => {
+    const context = { userId: 'user-1', attributes: { plan: 'pro' } };
+
+    expect(getContextKind(context, ContextKind.USER)).toEqual({
+      key: 'user-1',
+      attributes: { plan: 'pro' },
+    });
+    expect(getContextKind(context, ContextKind.ORGANIZATION)).toBeUndefined();
+    expect(getContextKind({}, ContextKind.USER)).toBeUndefined();
+  });
+
+  it('should prefer the user kind over the flat user fields', () => {
+    expect(getContextKind({ userId: 'legacy', user: { key: 'user-1' } }, ContextKind.USER)).toEqual({
+      key: 'user-1',
+    });
+  });
+});
+
+describe('resolveContextAttribute', () => {
+  it('should resolve kind-qualified attributes and keys', () => {
+    expect(resolveContextAttribute(multiKindContext, 'organization.plan').value).toBe('enterprise');
+    expect(resolveContextAttribute(multiKindContext, 'organization.region.name').value).toBe('eu');
+    expect(resolveContextAttribute(multiKindContext, 'device.key').value).toBe('device-9');
+    expect(resolveContextAttribute(multiKindContext, 'device').value).toBe('device-9');
+  });
+
+  it('should resolve unqualified attributes and userId against the user kind', () => {
+    expect(resolveContextAttribute(multiKindContext, 'plan').value).toBe('pro');
+    expect(resolveContextAttribute(multiKindContext, 'user.plan').value).toBe('pro');
+    expect(resolveContextAttribute(multiKindContext, 'userId').value).toBe('user-1');
+  });
+
+  it('should keep resolving nested user attributes named like a kind', () => {
+    const context = { userId: 'user-1', attributes: { device: { os: 'android' } } };
+
+    expect(resolveContextAttribute(context, 'device.os')).toEqual({ found: true, value: 'android' });
+    expect(resolveContextAttribute(context, 'request.ip').found).toBe(false);
+  });
+
+  it('should not fall back to another kind for missing attributes', () => {
+    expect(resolveContextAttribute(multiKindContext, 'device.plan').found).toBe(false);
+  });
+});
+
+describe('multi-kind conditions and bucketing', () => {
+  it('should match conditions against the referenced kind', () => {
+    expect(
+      evaluateCondition(
+        { attribute: 'organization.plan', operator: ConditionOperator.EQUALS, value: 'enterprise' },
+        multiKindContext
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { attribute: 'plan', operator: ConditionOperator.EQUALS, value: 'enterprise' },
+        multiKindContext
+      )
+    ).toBe(false);
+  });
+
+  it('should bucket by the key of a kind', () => {
+    expect(getBucketingKey(multiKindContext, 'organization')).toBe('acme');
+    expect(getBucketingKey(multiKindContext, 'userId')).toBe('user-1');
+    expect(getBucketingKey({ userId: 'user-1' }, 'organization')).toBeUndefined();
+  });
+});
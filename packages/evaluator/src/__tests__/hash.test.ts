@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { murmurHash3 } from '../hash';
+import {
+  BucketingVersion,
+  hashToBucket,
+  hashToPercentage,
+  isInRollout,
+  selectWeightedVariation,
+} from '../index';
+
+const SAMPLE_SIZE = 100000;
+
+/**
+ * Chi-square statistic of bucket counts against a uniform distribution
+ */
+function chiSquare(counts: number[], total: number): number {
+  const expected = total / counts.length;
+  return counts.reduce((sum, count) => sum + (count - expected) ** 2 / expected, 0);
+}
+
+describe('murmurHash3', () => {
+  it('should match reference values', () => {
+    expect(murmurHash3('')).toBe(0);
+    expect(murmurHash3('', 1)).toBe(0x514e28b7);
+    expect(murmurHash3('hello')).toBe(0x248bfa47);
+    expect(murmurHash3('The quick brown fox jumps over the lazy dog')).toBe(0x2e4ff723);
+  });
+
+  it('should hash multi-byte characters by their UTF-8 bytes', () => {
+    expect(murmurHash3('ü')).toBe(murmurHash3('ü'));
+    expect(murmurHash3('ü')).not.toBe(murmurHash3('u'));
+  });
+});
+
+describe('hashToBucket', () => {
+  it('should keep version 1 assignments identical to the legacy hash', () => {
+    for (let i = 0; i < 1000; i++) {
+      const key = `checkout:user-${i}`;
+      expect(hashToBucket(key, BucketingVersion.DJB2)).toBe(hashToPercentage(key));
+    }
+  });
+
+  it('should return fractional percentages for version 2', () => {
+    const buckets = new Set<number>();
+    for (let i = 0; i < 1000; i++) {
+      const bucket = hashToBucket(`checkout:user-${i}`, BucketingVersion.MURMUR3);
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(100);
+      buckets.add(bucket);
+    }
+
+    expect(Array.from(buckets).some((bucket) => !Number.isInteger(bucket))).toBe(true);
+  });
+
+  it('should distribute sequential IDs uniformly across percentage buckets', () => {
+    const counts = new Array(100).fill(0);
+    for (let i = 0; i < SAMPLE_SIZE; i++) {
+      counts[Math.floor(hashToBucket(`new-checkout:${i}`, BucketingVersion.MURMUR3))]++;
+    }
+
+    // 99 degrees of freedom, 0.999 critical value is ~148.2
+    expect(chiSquare(counts, SAMPLE_SIZE)).toBeLessThan(148.2);
+  });
+
+  it('should distribute better than the legacy hash for sequential IDs', () => {
+    const legacy = new Array(100).fill(0);
+    const current = new Array(100).fill(0);
+    for (let i = 0; i < SAMPLE_SIZE; i++) {
+      legacy[hashToBucket(`new-checkout:user-${i}`, BucketingVersion.DJB2)]++;
+      current[Math.floor(hashToBucket(`new-checkout:user-${i}`, BucketingVersion.MURMUR3))]++;
+    }
+
+    expect(chiSquare(current, SAMPLE_SIZE)).toBeLessThan(chiSquare(legacy, SAMPLE_SIZE));
+  });
+});
+
+describe('isInRollout', () => {
+  it('should support sub-percent rollouts with version 2', () => {
+    let included = 0;
+    for (let i = 0; i < SAMPLE_SIZE; i++) {
+      if (isInRollout('new-checkout', `user-${i}`, 0.5, BucketingVersion.MURMUR3)) {
+        included++;
+      }
+    }
+
+    const ratio = included / SAMPLE_SIZE;
+    expect(ratio).toBeGreaterThan(0.004);
+    expect(ratio).toBeLessThan(0.006);
+  });
+
+  it('should keep rollouts monotonic as the percentage grows', () => {
+    for (let i = 0; i < 1000; i++) {
+      const userId = `user-${i}`;
+      if (isInRollout('new-checkout', userId, 10, BucketingVersion.MURMUR3)) {
+        expect(isInRollout('new-checkout', userId, 25, BucketingVersion.MURMUR3)).toBe(true);
+      }
+    }
+  });
+});
+
+describe('selectWeightedVariation', () => {
+  it('should split sequential IDs close to the configured weights', () => {
+    const distribution = [
+      { variationKey: 'a', weight: 33.3 },
+      { variationKey: 'b', weight: 33.3 },
+      { variationKey: 'c', weight: 33.4 },
+    ];
+
+    const counts: Record<string, number> = { a: 0, b: 0, c: 0 };
+    for (let i = 0; i < SAMPLE_SIZE; i++) {
+      const variationKey = selectWeightedVariation(
+        distribution,
+        'experiment',
+        `user-${i}`,
+        BucketingVersion.MURMUR3
+      );
+      counts[variationKey!]++;
+    }
+
+    for (const entry of distribution) {
+      expect(Math.abs(counts[entry.variationKey] / SAMPLE_SIZE - entry.weight / 100)).toBeLessThan(
+        0.01
+      );
+    }
+  });
+});
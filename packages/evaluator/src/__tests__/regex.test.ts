@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileRegexPattern,
+  testRegexPattern,
+  validateRegexPattern,
+  MAX_REGEX_INPUT_LENGTH,
+  MAX_REGEX_PATTERN_LENGTH,
+} from '../regex';
+import { ConditionOperator, evaluateCondition, validateCondition } from '../index';
+
+describe('validateRegexPattern', () => {
+  it('should accept common patterns', () => {
+    for (const pattern of [
+      '@example\\.com$',
+      '^[a-z0-9._%+-]+@(acme|globex)\\.com$',
+      '^user-\\d{1,6}$',
+      '^(foo|bar)+$',
+      '^(?:beta|canary)-\\d+$',
+      '^\\s*(?<region>us|eu)-\\w+$',
+      '(?<!beta)\\.example\\.com',
+      '^[A-Z]+\\d+$',
+      '^\\d+-\\d+$',
+      '^.*@[a-z]+\\.com$',
+      '^\\w{1,8}\\w{1,8}$',
+    ]) {
+      expect(validateRegexPattern(pattern), pattern).toBeNull();
+    }
+  });
+
+  it('should reject nested quantifiers', () => {
+    for (const pattern of [
+      '(a+)+',
+      '^(\\d+)*$',
+      '(.*)*',
+      '(\\w+\\s?)*$',
+      '^(([a-z])+.)+[A-Z]([a-z])+$',
+      '(x+y+)+z',
+      '^(a{1,10}){2,}$',
+      '((ab)*c)+',
+    ]) {
+      expect(validateRegexPattern(pattern), pattern).toContain('repeats a quantified group');
+    }
+  });
+
+  it('should reject repeated groups of optional atoms', () => {
+    for (const pattern of [
+      '^(a?a?)+$',
+      '^(a?){26}a{26}$',
+      '^([a-z]?)*$',
+      '^(a{0,1}b)+$',
+      '^((a|)b)+$',
+      '^((?=a)\\w)+$',
+    ]) {
+      expect(validateRegexPattern(pattern), pattern).toContain('repeats a quantified group');
+    }
+  });
+
+  it('should reject repeated groups that can match empty', () => {
+    for (const pattern of ['(\\b)+', '(^)*', '(?:$)+']) {
+      expect(validateRegexPattern(pattern), pattern).toContain('can match empty');
+    }
+  });
+
+  it('should reject repeated overlapping alternatives', () => {
+    for (const pattern of ['(a|a)*', '^(a|ab)+$', '(\\w|\\d)+', '(.|\\s)*', '(a|)+', '(?:x|[xy])*']) {
+      expect(validateRegexPattern(pattern), pattern).toContain('overlapping alternatives');
+    }
+  });
+
+  it('should reject unbounded repeats of overlapping characters back to back', () => {
+    for (const pattern of [
+      '.*.*.*.*x',
+      '\\d*\\d*\\d*\\d*\\d*x',
+      '[a-z]*[a-z]*[a-z]*[a-z]*[a-z]*!',
+      '^\\w+\\d+$',
+      'a+?a*',
+      '\\s*[ \\t]{1,}',
+      '(x+x+)+y',
+    ]) {
+      expect(validateRegexPattern(pattern), pattern).toContain('overlapping characters back to back');
+    }
+  });
+
+  it('should reject backreferences', () => {
+    for (const pattern of ['(a|b)*\\1', '^(\\w)\\1$', '(?<c>a)\\k<c>']) {
+      expect(validateRegexPattern(pattern), pattern).toContain('backreference');
+    }
+  });
+
+  it('should allow quantified groups that are only repeated once', () => {
+    expect(validateRegexPattern('^(a+)?$')).toBeNull();
+    expect(validateRegexPattern('^(a|ab){1}$')).toBeNull();
+  });
+
+  it('should reject invalid and overlong patterns', () => {
+    expect(validateRegexPattern('[a-')).toContain('Invalid regular expression');
+    expect(validateRegexPattern('a'.repeat(MAX_REGEX_PATTERN_LENGTH + 1))).toContain(
+      `longer than ${MAX_REGEX_PATTERN_LENGTH} characters`
+    );
+  });
+});
+
+describe('compileRegexPattern', () => {
+  it('should compile each pattern once', () => {
+    const regex = compileRegexPattern('^cache-\\d+$');
+
+    expect(regex).toBeInstanceOf(RegExp);
+    expect(compileRegexPattern('^cache-\\d+$')).toBe(regex);
+  });
+
+  it('should not compile unsafe patterns', () => {
+    expect(compileRegexPattern('(a+)+$')).toBeNull();
+    expect(compileRegexPattern('[a-')).toBeNull();
+  });
+});
+
+describe('testRegexPattern', () => {
+  it('should not run unsafe patterns against hostile input', () => {
+    const start = Date.now();
+
+    expect(testRegexPattern('^(a+)+$', 'a'.repeat(40) + '!')).toBeNull();
+    expect(testRegexPattern('^(a?a?)+$', 'a'.repeat(40) + '!')).toBeNull();
+    expect(testRegexPattern('\\d*\\d*\\d*\\d*\\d*x', '1'.repeat(MAX_REGEX_INPUT_LENGTH))).toBeNull();
+    expect(Date.now() - start).toBeLessThan(100);
+  });
+
+  it('should not match values over the input length limit', () => {
+    expect(testRegexPattern('^a+$', 'a'.repeat(MAX_REGEX_INPUT_LENGTH))).toBe(true);
+    expect(testRegexPattern('^a+$', 'a'.repeat(MAX_REGEX_INPUT_LENGTH + 1))).toBeNull();
+  });
+});
+
+describe('regex conditions', () => {
+  it('should require a safe single pattern', () => {
+    expect(
+      validateCondition({ attribute: 'email', operator: ConditionOperator.MATCHES, value: '@acme\\.com$' })
+    ).toBeNull();
+    expect(
+      validateCondition({ attribute: 'email', operator: ConditionOperator.NOT_MATCHES, value: '(a|a)*' })
+    ).toContain('overlapping alternatives');
+    expect(
+      validateCondition({ attribute: 'email', operator: ConditionOperator.MATCHES, value: ['a', 'b'] })
+    ).toBe('Operator matches requires a single pattern');
+  });
+
+  it('should match neither way for unsafe patterns or overlong values', () => {
+    const unsafe = { attribute: 'name', value: '^(a+)+$' };
+    const context = { userId: 'user-1', attributes: { name: 'a'.repeat(40) + '!', bio: 'x'.repeat(5000) } };
+
+    expect(evaluateCondition({ ...unsafe, operator: ConditionOperator.MATCHES }, context)).toBe(false);
+    expect(evaluateCondition({ ...unsafe, operator: ConditionOperator.NOT_MATCHES }, context)).toBe(false);
+
+    const overlong = { attribute: 'bio', value: '^y' };
+    expect(evaluateCondition({ ...overlong, operator: ConditionOperator.MATCHES }, context)).toBe(false);
+    expect(evaluateCondition({ ...overlong, operator: ConditionOperator.NOT_MATCHES }, context)).toBe(false);
+  });
+
+  it('should still match safe patterns both ways', () => {
+    const context = { userId: 'user-1', attributes: { email: 'jo@acme.com' } };
+
+    expect(
+      evaluateCondition({ attribute: 'email', operator: ConditionOperator.MATCHES, value: '@acme\\.com$' }, context)
+    ).toBe(true);
+    expect(
+      evaluateCondition({ attribute: 'email', operator: ConditionOperator.NOT_MATCHES, value: '@acme\\.com$' }, context)
+    ).toBe(false);
+  });
+});
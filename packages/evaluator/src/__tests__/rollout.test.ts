@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { BucketingVersion, FlagDefinition, evaluateFlag } from '../index';
+
+const createFlag = (rolloutPercentage: number | null, rolloutPlanned = true): FlagDefinition => ({
+  key: 'new-checkout',
+  variations: [
+    { key: 'true', value: true },
+    { key: 'false', value: false },
+  ],
+  config: {
+    enabled: true,
+    defaultVariationKey: 'true',
+    fallbackVariationKey: 'false',
+    rolloutPercentage,
+    rolloutPlanned,
+    bucketingVersion: BucketingVersion.MURMUR3,
+  },
+});
+
+const countServed = (flag: FlagDefinition, sampleSize = 2000) => {
+  let served = 0;
+  for (let i = 0; i < sampleSize; i++) {
+    if (evaluateFlag(flag, { userId: `user-${i}` }).value === true) {
+      served++;
+    }
+  }
+  return served;
+};
+
+describe('global rollout percentage', () => {
+  it('should serve everyone the default variation at the default 0%', () => {
+    expect(countServed(createFlag(0, false))).toBe(2000);
+    expect(evaluateFlag(createFlag(0, false)).reason).toEqual({ kind: 'DEFAULT' });
+  });
+
+  it('should serve no one the default variation at a planned 0%', () => {
+    expect(countServed(createFlag(0))).toBe(0);
+    expect(evaluateFlag(createFlag(0)).variationKey).toBe('false');
+  });
+
+  it('should serve a share of contexts at 1%', () => {
+    const served = countServed(createFlag(1));
+    expect(served).toBeGreaterThan(0);
+    expect(served).toBeLessThan(60);
+  });
+
+  it('should serve everyone the default variation without a rollout', () => {
+    expect(countServed(createFlag(null))).toBe(2000);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { parseVersion, compareVersions, satisfiesRange, isValidRange, SemVer } from '../semver';
+import {
+  ConditionOperator,
+  evaluateCondition,
+  validateCondition,
+} from '../index';
+
+function v(input: string): SemVer {
+  const parsed = parseVersion(input);
+  if (!parsed) {
+    throw new Error(`Test version ${input} is invalid`);
+  }
+  return parsed;
+}
+
+describe('parseVersion', () => {
+  it('should parse full, partial and prefixed versions', () => {
+    expect(parseVersion('2.10.0')).toEqual({ major: 2, minor: 10, patch: 0, prerelease: [] });
+    expect(parseVersion('v2.3')).toEqual({ major: 2, minor: 3, patch: 0, prerelease: [] });
+    expect(parseVersion('1.0.0-beta.1+build.5')).toEqual({
+      major: 1,
+      minor: 0,
+      patch: 0,
+      prerelease: ['beta', '1'],
+    });
+  });
+
+  it('should reject malformed versions', () => {
+    expect(parseVersion('')).toBeNull();
+    expect(parseVersion('2.x')).toBeNull();
+    expect(parseVersion('01.2.3')).toBeNull();
+    expect(parseVersion('1.2.3.4')).toBeNull();
+    expect(parseVersion('latest')).toBeNull();
+  });
+});
+
+describe('compareVersions', () => {
+  it('should compare components numerically', () => {
+    expect(compareVersions(v('2.10.0'), v('2.9.0'))).toBeGreaterThan(0);
+    expect(compareVersions(v('2.3'), v('2.3.0'))).toBe(0);
+    expect(compareVersions(v('1.0.1'), v('1.1.0'))).toBeLessThan(0);
+  });
+
+  it('should order prereleases before releases', () => {
+    expect(compareVersions(v('1.0.0-alpha'), v('1.0.0'))).toBeLessThan(0);
+    expect(compareVersions(v('1.0.0-alpha'), v('1.0.0-alpha.1'))).toBeLessThan(0);
+    expect(compareVersions(v('1.0.0-beta.2'), v('1.0.0-beta.11'))).toBeLessThan(0);
+    expect(compareVersions(v('1.0.0-rc.1'), v('1.0.0-beta'))).toBeGreaterThan(0);
+  });
+});
+
+describe('satisfiesRange', () => {
+  it('should support caret ranges', () => {
+    expect(satisfiesRange(v('2.3.0'), '^2.3')).toBe(true);
+    expect(satisfiesRange(v('2.99.1'), '^2.3')).toBe(true);
+    expect(satisfiesRange(v('3.0.0'), '^2.3')).toBe(false);
+    expect(satisfiesRange(v('2.2.9'), '^2.3')).toBe(false);
+    expect(satisfiesRange(v('0.2.5'), '^0.2.3')).toBe(true);
+    expect(satisfiesRange(v('0.3.0'), '^0.2.3')).toBe(false);
+  });
+
+  it('should support tilde ranges', () => {
+    expect(satisfiesRange(v('1.2.9'), '~1.2.0')).toBe(true);
+    expect(satisfiesRange(v('1.3.0'), '~1.2.0')).toBe(false);
+    expect(satisfiesRange(v('1.9.0'), '~1')).toBe(true);
+  });
+
+  it('should support comparator sets and alternatives', () => {
+    expect(satisfiesRange(v('1.5.0'), '>=1.2.0 <2.0.0')).toBe(true);
+    expect(satisfiesRange(v('2.0.0'), '>=1.2.0 <2.0.0')).toBe(false);
+    expect(satisfiesRange(v('3.1.0'), '1.x || 3.x')).toBe(true);
+    expect(satisfiesRange(v('2.1.0'), '1.x || 3.x')).toBe(false);
+    expect(satisfiesRange(v('2.10.0'), '>= 2.10')).toBe(true);
+    expect(satisfiesRange(v('9.9.9'), '*')).toBe(true);
+  });
+
+  it('should validate ranges', () => {
+    expect(isValidRange('^2.3')).toBe(true);
+    expect(isValidRange('>=1.2.0 <2.0.0')).toBe(true);
+    expect(isValidRange('^two')).toBe(false);
+    expect(isValidRange('>=1.0 ||')).toBe(false);
+  });
+});
+
+describe('semver conditions', () => {
+  const context = { userId: 'user-1', attributes: { appVersion: '2.10.0' } };
+
+  it('should compare versions semantically rather than as strings', () => {
+    expect(
+      evaluateCondition(
+        { attribute: 'appVersion', operator: ConditionOperator.SEMVER_GREATER_THAN, value: '2.9.0' },
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { attribute: 'appVersion', operator: ConditionOperator.SEMVER_LESS_THAN, value: '2.9.0' },
+        context
+      )
+    ).toBe(false);
+    expect(
+      evaluateCondition(
+        { attribute: 'appVersion', operator: ConditionOperator.SEMVER_EQUALS, value: '2.10' },
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { attribute: 'appVersion', operator: ConditionOperator.SEMVER_IN_RANGE, value: '^2.3' },
+        context
+      )
+    ).toBe(true);
+  });
+
+  it('should not match malformed context versions', () => {
+    expect(
+      evaluateCondition(
+        { attribute: 'appVersion', operator: ConditionOperator.SEMVER_GREATER_THAN, value: '1.0.0' },
+        { attributes: { appVersion: 'nightly' } }
+      )
+    ).toBe(false);
+  });
+
+  it('should reject malformed versions when validating', () => {
+    expect(
+      validateCondition({
+        attribute: 'appVersion',
+        operator: ConditionOperator.SEMVER_GREATER_THAN,
+        value: '2.x.1',
+      })
+    ).toContain('Invalid version');
+    expect(
+      validateCondition({
+        attribute: 'appVersion',
+        operator: ConditionOperator.SEMVER_IN_RANGE,
+        value: '^nope',
+      })
+    ).toContain('Invalid version range');
+    expect(
+      validateCondition({
+        attribute: 'appVersion',
+        operator: ConditionOperator.SEMVER_IN_RANGE,
+        value: '>=2.10.0 <3',
+      })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseTimestamp, parseTimeOfDay, getZonedTime } from '../time';
+import {
+  ConditionLogic,
+  ConditionOperator,
+  FlagDefinition,
+  evaluateCondition,
+  usesCurrentTime,
+  validateCondition,
+} from '../index';
+
+describe('parseTimestamp', () => {
+  it('should parse ISO-8601 strings and epoch millis', () => {
+    expect(parseTimestamp('2025-01-01')).toBe(Date.UTC(2025, 0, 1));
+    expect(parseTimestamp('2025-01-01T09:30:00Z')).toBe(Date.UTC(2025, 0, 1, 9, 30));
+    expect(parseTimestamp('2025-01-01T09:30:00+02:00')).toBe(Date.UTC(2025, 0, 1, 7, 30));
+    expect(parseTimestamp(1735689600000)).toBe(1735689600000);
+    expect(parseTimestamp('1735689600000')).toBe(1735689600000);
+  });
+
+  it('should reject other values', () => {
+    expect(parseTimestamp('yesterday')).toBeNull();
+    expect(parseTimestamp('01/02/2025')).toBeNull();
+    expect(parseTimestamp('2025-13-45')).toBeNull();
+    expect(parseTimestamp(true)).toBeNull();
+  });
+});
+
+describe('parseTimeOfDay', () => {
+  it('should parse HH:MM', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('9:30')).toBeNull();
+  });
+});
+
+describe('getZonedTime', () => {
+  it('should resolve weekday and time in a timezone', () => {
+    // Wednesday 2025-01-01 23:30 UTC is Thursday 08:30 in Tokyo
+    const timestamp = Date.UTC(2025, 0, 1, 23, 30);
+    expect(getZonedTime(timestamp)).toEqual({ weekday: 3, minutes: 23 * 60 + 30 });
+    expect(getZonedTime(timestamp, 'Asia/Tokyo')).toEqual({ weekday: 4, minutes: 8 * 60 + 30 });
+  });
+});
+
+describe('date conditions', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should compare context dates with before and after', () => {
+    const context = { attributes: { createdAt: '2024-06-15T12:00:00Z' } };
+
+    expect(
+      evaluateCondition(
+        { attribute: 'createdAt', operator: ConditionOperator.BEFORE, value: '2025-01-01' },
+        context
+      )
+    ).toBe(true);
+    expect(
+      evaluateCondition(
+        { attribute: 'createdAt', operator: ConditionOperator.AFTER, value: '2025-01-01' },
+        context
+      )
+    ).toBe(false);
+    expect(
+      evaluateCondition(
+        { attribute: 'createdAt', operator: ConditionOperator.AFTER, value: 1700000000000 },
+        context
+      )
+    ).toBe(true);
+  });
+
+  it('should use the server clock for the now attribute', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-03-01T00:00:00Z'));
+
+    const condition = {
+      attribute: 'now',
+      operator: ConditionOperator.AFTER,
+      value: '2025-02-01T00:00:00Z',
+    };
+
+    expect(evaluateCondition(condition, {})).toBe(true);
+    // A client-supplied "now" is ignored
+    expect(evaluateCondition(condition, { attributes: { now: '2020-01-01' } })).toBe(true);
+  });
+
+  it('should match recurring time windows', () => {
+    vi.useFakeTimers();
+    const condition = {
+      attribute: 'now',
+      operator: ConditionOperator.IN_TIME_WINDOW,
+      value: { start: '09:00', end: '17:00', days: [1, 2, 3, 4, 5], timezone: 'UTC' },
+    };
+
+    // Wednesday
+    vi.setSystemTime(new Date('2025-01-01T10:00:00Z'));
+    expect(evaluateCondition(condition, {})).toBe(true);
+
+    vi.setSystemTime(new Date('2025-01-01T17:00:00Z'));
+    expect(evaluateCondition(condition, {})).toBe(false);
+
+    // Saturday
+    vi.setSystemTime(new Date('2025-01-04T10:00:00Z'));
+    expect(evaluateCondition(condition, {})).toBe(false);
+  });
+
+  it('should match windows that wrap past midnight', () => {
+    const condition = {
+      attribute: 'lastSeenAt',
+      operator: ConditionOperator.IN_TIME_WINDOW,
+      value: { start: '22:00', end: '06:00' },
+    };
+
+    expect(
+      evaluateCondition(condition, { attributes: { lastSeenAt: '2025-01-01T23:00:00Z' } })
+    ).toBe(true);
+    expect(
+      evaluateCondition(condition, { attributes: { lastSeenAt: '2025-01-01T05:59:00Z' } })
+    ).toBe(true);
+    expect(
+      evaluateCondition(condition, { attributes: { lastSeenAt: '2025-01-01T12:00:00Z' } })
+    ).toBe(false);
+  });
+
+  it('should reject malformed dates and windows when validating', () => {
+    expect(
+      validateCondition({ attribute: 'createdAt', operator: ConditionOperator.BEFORE, value: 'soon' })
+    ).toContain('Invalid date');
+    expect(
+      validateCondition({
+        attribute: 'now',
+        operator: ConditionOperator.IN_TIME_WINDOW,
+        value: { start: '9am', end: '17:00' },
+      })
+    ).toContain('HH:MM');
+    expect(
+      validateCondition({
+        attribute: 'now',
+        operator: ConditionOperator.IN_TIME_WINDOW,
+        value: { start: '09:00', end: '17:00', timezone: 'Mars/Olympus' },
+      })
+    ).toContain('Invalid timezone');
+    expect(
+      validateCondition({
+        attribute: 'now',
+        operator: ConditionOperator.IN_TIME_WINDOW,
+        value: { start: '09:00', end: '17:00', days: [1, 5], timezone: 'Europe/Berlin' },
+      })
+    ).toBeNull();
+  });
+});
+
+describe('usesCurrentTime', () => {
+  const flagWithCondition = (attribute: string): FlagDefinition => ({
+    key: 'launch',
+    variations: [{ key: 'on', value: true }],
+    config: {
+      enabled: true,
+      defaultVariationKey: 'on',
+      fallbackVariationKey: 'on',
+      rolloutPercentage: null,
+      targetingRules: [
+        {
+          id: 'rule-1',
+          conditionLogic: ConditionLogic.AND,
+          variationKey: 'on',
+          conditions: [
+            {
+              conditionLogic: ConditionLogic.OR,
+              conditions: [{ attribute, operator: ConditionOperator.AFTER, value: '2025-01-01' }],
+            },
+          ],
+        },
+      ],
+    },
+  });
+
+  it('should find now conditions in nested groups and segments', () => {
+    expect(usesCurrentTime([flagWithCondition('now')])).toBe(true);
+    expect(
+      usesCurrentTime([], {
+        launch: {
+          key: 'launch',
+          conditionLogic: ConditionLogic.AND,
+          conditions: [{ attribute: 'now', operator: ConditionOperator.BEFORE, value: '2025-01-01' }],
+        },
+      })
+    ).toBe(true);
+  });
+
+  it('should ignore dates from the context', () => {
+    expect(usesCurrentTime([flagWithCondition('createdAt')])).toBe(false);
+  });
+});
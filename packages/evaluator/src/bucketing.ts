@@ -0,0 +1,148 @@
+// Assignment of contexts to rollout and split buckets
+
+import { murmurHash3 } from './hash';
+import { resolveContextAttribute } from './context';
+import {
+  BucketingVersion,
+  DEFAULT_BUCKET_BY,
+  EvaluationContext,
+  WeightedVariation,
+} from './types';
+
+const BUCKET_COUNT = 100000;
+
+/**
+ * Hash a string to a number between 0-99 (for percentage rollout)
+ * Uses simple djb2 hash algorithm
+ */
+export function hashToPercentage(key: string): number {
+  let hash = 5381;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 33) ^ key.charCodeAt(i);
+  }
+  return Math.abs(hash) % 100;
+}
+
+/**
+ * Hash a string to a percentage in [0, 100) using the given bucketing version.
+ * Version 1 returns whole percentages, later versions have 0.001% resolution.
+ */
+export function hashToBucket(
+  key: string,
+  version: BucketingVersion = BucketingVersion.DJB2
+): number {
+  if (version === BucketingVersion.DJB2) {
+    return hashToPercentage(key);
+  }
+  return (murmurHash3(key) % BUCKET_COUNT) / (BUCKET_COUNT / 100);
+}
+
+/**
+ * Resolve the value a context is bucketed by: userId, sessionId, a context kind's key
+ * (e.g. "organization") or an attribute (e.g. "company.id" or "organization.region").
+ */
+export function getBucketingKey(
+  context: EvaluationContext | undefined,
+  bucketBy: string = DEFAULT_BUCKET_BY
+): string | undefined {
+  if (!context) {
+    return undefined;
+  }
+
+  const { value } = resolveContextAttribute(context, bucketBy);
+
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Get the rollout bucket in [0, 100) of a bucketing key, undefined without one.
+ * The seed is the flag's rollout salt, or the flag key for unsalted flags.
+ */
+export function getRolloutBucket(
+  seed: string,
+  bucketingKey: string | undefined,
+  version: BucketingVersion = BucketingVersion.DJB2
+): number | undefined {
+  if (!bucketingKey) {
+    return undefined;
+  }
+
+  // Create a stable hash key combining seed and bucketing key
+  return hashToBucket(`${seed}:${bucketingKey}`, version);
+}
+
+/**
+ * Check if a bucketing key should be included in a percentage rollout
+ */
+export function isInRollout(
+  seed: string,
+  bucketingKey: string | undefined,
+  percentage: number,
+  version: BucketingVersion = BucketingVersion.DJB2
+): boolean {
+  if (!bucketingKey || percentage <= 0) {
+    return false;
+  }
+  if (percentage >= 100) {
+    return true;
+  }
+
+  return getRolloutBucket(seed, bucketingKey, version)! < percentage;
+}
+
+/**
+ * Pick a variation from a weighted distribution.
+ * Contexts are bucketed deterministically, returns null without a bucketing key.
+ */
+export function selectWeightedVariation(
+  distribution: WeightedVariation[],
+  seed: string,
+  bucketingKey: string | undefined,
+  version: BucketingVersion = BucketingVersion.DJB2
+): string | null {
+  if (!bucketingKey || distribution.length === 0) {
+    return null;
+  }
+
+  // Salted separately from the rollout hash so splits are independent of rollout cohorts
+  const bucket = hashToBucket(`${seed}:split:${bucketingKey}`, version);
+
+  let cumulative = 0;
+  for (const entry of distribution) {
+    cumulative += entry.weight;
+    if (bucket < cumulative) {
+      return entry.variationKey;
+    }
+  }
+
+  // Guard against weights that round to slightly under 100
+  return distribution[distribution.length - 1].variationKey;
+}
+
+/**
+ * Validate a weighted distribution against the flag's variation keys.
+ * Returns an error message, or null if the distribution is valid.
+ */
+export function validateDistribution(
+  distribution: WeightedVariation[],
+  variationKeys: string[]
+): string | null {
+  for (const entry of distribution) {
+    if (!variationKeys.includes(entry.variationKey)) {
+      return `Unknown variation key in distribution: ${entry.variationKey}`;
+    }
+    if (typeof entry.weight !== 'number' || entry.weight < 0 || entry.weight > 100) {
+      return 'Distribution weights must be between 0 and 100';
+    }
+  }
+
+  const total = distribution.reduce((sum, entry) => sum + entry.weight, 0);
+  if (Math.abs(total - 100) > 0.0001) {
+    return `Distribution weights must add up to 100 (got ${total})`;
+  }
+
+  return null;
+}
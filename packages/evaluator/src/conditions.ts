@@ -0,0 +1,514 @@
+// Condition and rule evaluation
+
+import { parseVersion, compareVersions, satisfiesRange, isValidRange } from './semver';
+import {
+  parseTimestamp,
+  parseTimeOfDay,
+  isValidTimezone,
+  getZonedTime,
+} from './time';
+import { testRegexPattern, validateRegexPattern } from './regex';
+import { resolveContextAttribute } from './context';
+import {
+  Condition,
+  ConditionGroup,
+  ConditionGroupTrace,
+  ConditionLogic,
+  ConditionNode,
+  ConditionNodeTrace,
+  ConditionOperator,
+  ConditionTrace,
+  ConditionValue,
+  EvaluationContext,
+  MAX_CONDITION_DEPTH,
+  NOW_ATTRIBUTE,
+  SegmentDefinition,
+  SegmentMap,
+  TargetingRule,
+  TimeWindow,
+} from './types';
+
+// Operators that match against segment keys instead of a context attribute
+export const SEGMENT_OPERATORS = [ConditionOperator.IN_SEGMENT, ConditionOperator.NOT_IN_SEGMENT];
+
+// Operators that match a regex pattern, checked for catastrophic backtracking when saved
+export const REGEX_OPERATORS = [ConditionOperator.MATCHES, ConditionOperator.NOT_MATCHES];
+
+// Operators that compare timestamps (ISO-8601 strings or epoch millis)
+export const DATE_OPERATORS = [
+  ConditionOperator.BEFORE,
+  ConditionOperator.AFTER,
+  ConditionOperator.IN_TIME_WINDOW,
+];
+
+// Operators that compare semantic versions, their values are always kept as strings
+export const SEMVER_OPERATORS = [
+  ConditionOperator.SEMVER_EQUALS,
+  ConditionOperator.SEMVER_GREATER_THAN,
+  ConditionOperator.SEMVER_LESS_THAN,
+  ConditionOperator.SEMVER_IN_RANGE,
+];
+
+/**
+ * Check if a context matches a segment's conditions.
+ * A segment without conditions matches nobody.
+ */
+export function isInSegment(
+  segment: SegmentDefinition,
+  context: EvaluationContext
+): boolean {
+  if (!segment.conditions || segment.conditions.length === 0) {
+    return false;
+  }
+
+  const results = segment.conditions.map((condition) =>
+    evaluateCondition(condition, context)
+  );
+
+  return segment.conditionLogic === ConditionLogic.OR
+    ? results.some((result) => result === true)
+    : results.every((result) => result === true);
+}
+
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return Array.isArray((node as ConditionGroup).conditions);
+}
+
+/**
+ * Flatten a condition tree into its leaf conditions
+ */
+export function getLeafConditions(nodes: ConditionNode[]): Condition[] {
+  return nodes.flatMap((node) =>
+    isConditionGroup(node) ? getLeafConditions(node.conditions) : [node]
+  );
+}
+
+/**
+ * Validate the shape of a condition tree and every condition in it.
+ * Returns an error message, or null if the tree is valid.
+ */
+export function validateConditionTree(nodes: ConditionNode[], depth = 1): string | null {
+  for (const node of nodes) {
+    if (!isConditionGroup(node)) {
+      const error = validateCondition(node);
+      if (error) {
+        return error;
+      }
+      continue;
+    }
+
+    if (depth >= MAX_CONDITION_DEPTH) {
+      return `Condition groups cannot be nested more than ${MAX_CONDITION_DEPTH} levels deep`;
+    }
+    if (node.conditionLogic !== ConditionLogic.AND && node.conditionLogic !== ConditionLogic.OR) {
+      return 'Condition group logic must be AND or OR';
+    }
+    if (node.conditions.length === 0) {
+      return 'Condition groups must contain at least one condition';
+    }
+
+    const error = validateConditionTree(node.conditions, depth + 1);
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Collect the segment keys referenced by a list of targeting rules
+ */
+export function getReferencedSegmentKeys(rules: TargetingRule[]): string[] {
+  const keys = new Set<string>();
+
+  for (const rule of rules) {
+    for (const condition of getLeafConditions(rule.conditions || [])) {
+      if (!SEGMENT_OPERATORS.includes(condition.operator)) {
+        continue;
+      }
+      const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+      values.forEach((value) => keys.add(String(value)));
+    }
+  }
+
+  return Array.from(keys);
+}
+
+/**
+ * Validate a condition's value for its operator.
+ * Returns an error message, or null if the condition is valid.
+ */
+export function validateCondition(condition: Condition): string | null {
+  if (REGEX_OPERATORS.includes(condition.operator)) {
+    return typeof condition.value === 'string'
+      ? validateRegexPattern(condition.value)
+      : `Operator ${condition.operator} requires a single pattern`;
+  }
+
+  if (DATE_OPERATORS.includes(condition.operator)) {
+    return validateDateCondition(condition);
+  }
+
+  if (!SEMVER_OPERATORS.includes(condition.operator)) {
+    return null;
+  }
+
+  if (typeof condition.value !== 'string' && typeof condition.value !== 'number') {
+    return `Operator ${condition.operator} requires a single version`;
+  }
+
+  const value = String(condition.value);
+  if (condition.operator === ConditionOperator.SEMVER_IN_RANGE) {
+    return isValidRange(value) ? null : `Invalid version range: ${value}`;
+  }
+  return parseVersion(value) ? null : `Invalid version: ${value}`;
+}
+
+function isTimeWindow(value: unknown): value is TimeWindow {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateDateCondition(condition: Condition): string | null {
+  if (condition.operator !== ConditionOperator.IN_TIME_WINDOW) {
+    return parseTimestamp(condition.value) === null
+      ? `Invalid date: ${String(condition.value)}, expected ISO-8601 or epoch milliseconds`
+      : null;
+  }
+
+  const window = condition.value;
+  if (!isTimeWindow(window)) {
+    return 'Time window requires start and end times';
+  }
+  if (parseTimeOfDay(window.start) === null || parseTimeOfDay(window.end) === null) {
+    return 'Time window start and end must be HH:MM';
+  }
+  if (
+    window.days !== undefined &&
+    (!Array.isArray(window.days) ||
+      window.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6))
+  ) {
+    return 'Time window days must be between 0 (Sunday) and 6 (Saturday)';
+  }
+  if (window.timezone !== undefined && !isValidTimezone(window.timezone)) {
+    return `Invalid timezone: ${window.timezone}`;
+  }
+
+  return null;
+}
+
+/**
+ * Compare a context timestamp against a date or recurring time window.
+ * Values that aren't valid timestamps never match.
+ */
+function evaluateDateCondition(
+  operator: ConditionOperator,
+  actualValue: unknown,
+  value: ConditionValue
+): boolean {
+  const timestamp = parseTimestamp(actualValue);
+  if (timestamp === null) {
+    return false;
+  }
+
+  if (operator !== ConditionOperator.IN_TIME_WINDOW) {
+    const boundary = parseTimestamp(value);
+    if (boundary === null) {
+      return false;
+    }
+    return operator === ConditionOperator.BEFORE ? timestamp < boundary : timestamp > boundary;
+  }
+
+  if (!isTimeWindow(value) || validateDateCondition({ attribute: '', operator, value })) {
+    return false;
+  }
+
+  const start = parseTimeOfDay(value.start)!;
+  const end = parseTimeOfDay(value.end)!;
+  const { weekday, minutes } = getZonedTime(timestamp, value.timezone);
+
+  if (value.days && value.days.length > 0 && !value.days.includes(weekday)) {
+    return false;
+  }
+
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Compare a context value against a version or range.
+ * Values that aren't valid versions never match.
+ */
+function evaluateSemverCondition(
+  operator: ConditionOperator,
+  actualValue: unknown,
+  value: ConditionValue
+): boolean {
+  if (typeof actualValue !== 'string' && typeof actualValue !== 'number') {
+    return false;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return false;
+  }
+
+  const actualVersion = parseVersion(String(actualValue));
+  if (!actualVersion) {
+    return false;
+  }
+
+  if (operator === ConditionOperator.SEMVER_IN_RANGE) {
+    return satisfiesRange(actualVersion, String(value));
+  }
+
+  const expectedVersion = parseVersion(String(value));
+  if (!expectedVersion) {
+    return false;
+  }
+
+  const result = compareVersions(actualVersion, expectedVersion);
+  switch (operator) {
+    case ConditionOperator.SEMVER_EQUALS:
+      return result === 0;
+    case ConditionOperator.SEMVER_GREATER_THAN:
+      return result > 0;
+    case ConditionOperator.SEMVER_LESS_THAN:
+      return result < 0;
+    default:
+      return false;
+  }
+}
+
+// Operators that match a list-valued attribute only if no element matches the positive form
+const NEGATED_OPERATORS = [
+  ConditionOperator.NOT_EQUALS,
+  ConditionOperator.NOT_CONTAINS,
+  ConditionOperator.NOT_IN,
+  ConditionOperator.NOT_MATCHES,
+];
+
+/**
+ * Get the value a condition attribute has in the evaluation context
+ */
+function resolveConditionAttribute(
+  attribute: string,
+  context: EvaluationContext
+): { found: boolean; value: unknown } {
+  if (attribute === NOW_ATTRIBUTE) {
+    // Always the server clock, clients can't supply their own time
+    return { found: true, value: Date.now() };
+  }
+  return resolveContextAttribute(context, attribute);
+}
+
+/**
+ * Evaluate a single condition against the evaluation context
+ */
+export function evaluateCondition(
+  condition: Condition,
+  context: EvaluationContext,
+  segments: SegmentMap = {}
+): boolean {
+  const { attribute, operator, value } = condition;
+
+  // Segment operators match against stored segment conditions, not an attribute
+  if (SEGMENT_OPERATORS.includes(operator)) {
+    const segmentKeys = (Array.isArray(value) ? value : [value]).map(String);
+    const inAnySegment = segmentKeys.some((key) => {
+      const segment = segments[key];
+      return segment ? isInSegment(segment, context) : false;
+    });
+    return operator === ConditionOperator.IN_SEGMENT ? inAnySegment : !inAnySegment;
+  }
+
+  const resolved = resolveConditionAttribute(attribute, context);
+  if (!resolved.found) {
+    // Attribute not found in context
+    return false;
+  }
+  const actualValue = resolved.value;
+
+  // List-valued attributes match if any element matches, or no element for negated operators
+  if (Array.isArray(actualValue)) {
+    return NEGATED_OPERATORS.includes(operator)
+      ? actualValue.every((item) => compareValue(operator, item, value))
+      : actualValue.some((item) => compareValue(operator, item, value));
+  }
+
+  return compareValue(operator, actualValue, value);
+}
+
+/**
+ * Compare a single context value against a condition value
+ */
+function compareValue(
+  operator: ConditionOperator,
+  actualValue: unknown,
+  value: ConditionValue
+): boolean {
+  switch (operator) {
+    case ConditionOperator.EQUALS:
+      return actualValue === value;
+
+    case ConditionOperator.NOT_EQUALS:
+      return actualValue !== value;
+
+    case ConditionOperator.CONTAINS:
+      return typeof actualValue === 'string' && typeof value === 'string'
+        ? actualValue.includes(value)
+        : false;
+
+    case ConditionOperator.NOT_CONTAINS:
+      return typeof actualValue === 'string' && typeof value === 'string'
+        ? !actualValue.includes(value)
+        : false;
+
+    case ConditionOperator.IN:
+      return Array.isArray(value) ? (value as (string | number)[]).includes(actualValue as string | number) : false;
+
+    case ConditionOperator.NOT_IN:
+      return Array.isArray(value) ? !(value as (string | number)[]).includes(actualValue as string | number) : false;
+
+    case ConditionOperator.GREATER_THAN:
+      return typeof actualValue === 'number' && typeof value === 'number'
+        ? actualValue > value
+        : false;
+
+    case ConditionOperator.LESS_THAN:
+      return typeof actualValue === 'number' && typeof value === 'number'
+        ? actualValue < value
+        : false;
+
+    case ConditionOperator.GREATER_THAN_OR_EQUAL:
+      return typeof actualValue === 'number' && typeof value === 'number'
+        ? actualValue >= value
+        : false;
+
+    case ConditionOperator.LESS_THAN_OR_EQUAL:
+      return typeof actualValue === 'number' && typeof value === 'number'
+        ? actualValue <= value
+        : false;
+
+    case ConditionOperator.STARTS_WITH:
+      return typeof actualValue === 'string' && typeof value === 'string'
+        ? actualValue.startsWith(value)
+        : false;
+
+    case ConditionOperator.ENDS_WITH:
+      return typeof actualValue === 'string' && typeof value === 'string'
+        ? actualValue.endsWith(value)
+        : false;
+
+    case ConditionOperator.MATCHES:
+    case ConditionOperator.NOT_MATCHES: {
+      if (typeof actualValue !== 'string' || typeof value !== 'string') {
+        return false;
+      }
+      // Unsafe patterns and overlong values match neither way
+      const matched = testRegexPattern(value, actualValue);
+      if (matched === null) {
+        return false;
+      }
+      return operator === ConditionOperator.MATCHES ? matched : !matched;
+    }
+
+    case ConditionOperator.SEMVER_EQUALS:
+    case ConditionOperator.SEMVER_GREATER_THAN:
+    case ConditionOperator.SEMVER_LESS_THAN:
+    case ConditionOperator.SEMVER_IN_RANGE:
+      return evaluateSemverCondition(operator, actualValue, value);
+
+    case ConditionOperator.BEFORE:
+    case ConditionOperator.AFTER:
+    case ConditionOperator.IN_TIME_WINDOW:
+      return evaluateDateCondition(operator, actualValue, value);
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a list of conditions and nested groups joined by the given logic
+ */
+function evaluateConditionNodes(
+  nodes: ConditionNode[],
+  conditionLogic: ConditionLogic,
+  context: EvaluationContext,
+  segments: SegmentMap
+): boolean {
+  const matches = (node: ConditionNode) =>
+    isConditionGroup(node)
+      ? evaluateConditionNodes(node.conditions, node.conditionLogic, context, segments)
+      : evaluateCondition(node, context, segments);
+
+  // Apply condition logic
+  if (conditionLogic === ConditionLogic.AND) {
+    return nodes.every(matches);
+  } else {
+    // OR logic
+    return nodes.some(matches);
+  }
+}
+
+/**
+ * Evaluate a targeting rule against the evaluation context
+ */
+export function evaluateRule(
+  rule: TargetingRule,
+  context: EvaluationContext,
+  segments: SegmentMap = {}
+): boolean {
+  if (!rule.conditions || rule.conditions.length === 0) {
+    return true; // No conditions means rule always matches
+  }
+
+  return evaluateConditionNodes(rule.conditions, rule.conditionLogic, context, segments);
+}
+
+/**
+ * Evaluate a list of conditions and nested groups like evaluateConditionNodes,
+ * but without short-circuiting, recording the outcome of every condition
+ */
+function explainConditionNodes(
+  nodes: ConditionNode[],
+  conditionLogic: ConditionLogic,
+  context: EvaluationContext,
+  segments: SegmentMap
+): ConditionGroupTrace {
+  const conditions = nodes.map((node): ConditionNodeTrace => {
+    if (isConditionGroup(node)) {
+      return explainConditionNodes(node.conditions, node.conditionLogic, context, segments);
+    }
+
+    const trace: ConditionTrace = { ...node, passed: evaluateCondition(node, context, segments) };
+    if (!SEGMENT_OPERATORS.includes(node.operator)) {
+      const resolved = resolveConditionAttribute(node.attribute, context);
+      if (resolved.found) {
+        trace.actualValue = resolved.value;
+      }
+    }
+    return trace;
+  });
+
+  const passed =
+    conditionLogic === ConditionLogic.AND
+      ? conditions.every((condition) => condition.passed)
+      : conditions.some((condition) => condition.passed);
+
+  return { conditionLogic, conditions, passed };
+}
+
+/**
+ * Evaluate a targeting rule, recording which of its conditions passed or failed
+ */
+export function explainRule(
+  rule: TargetingRule,
+  context: EvaluationContext,
+  segments: SegmentMap = {}
+): ConditionGroupTrace {
+  const trace = explainConditionNodes(rule.conditions || [], rule.conditionLogic, context, segments);
+
+  // No conditions means rule always matches
+  return trace.conditions.length === 0 ? { ...trace, passed: true } : trace;
+}
@@ -0,0 +1,112 @@
+// Multi-kind evaluation contexts and attribute lookup
+
+import { ContextKind, EvaluationContext, KindContext } from './types';
+
+export const CONTEXT_KINDS = Object.values(ContextKind) as string[];
+
+export function isContextKind(value: string): value is ContextKind {
+  return CONTEXT_KINDS.includes(value);
+}
+
+/**
+ * Get one kind of a context. The flat userId and attributes are the user kind
+ * of contexts that don't describe their user separately.
+ */
+export function getContextKind(
+  context: EvaluationContext | undefined,
+  kind: ContextKind
+): Partial<KindContext> | undefined {
+  if (!context) {
+    return undefined;
+  }
+  if (kind === ContextKind.USER && !context.user) {
+    return context.userId === undefined && context.attributes === undefined
+      ? undefined
+      : { key: context.userId, attributes: context.attributes };
+  }
+  return context[kind];
+}
+
+/**
+ * Resolve an attribute reference against context attributes.
+ * An exact key wins, otherwise dots walk nested objects (e.g. "company.plan"),
+ * mapping over arrays along the way (e.g. "teams.name" collects every team name).
+ */
+export function resolveAttribute(
+  attributes: Record<string, unknown> | undefined,
+  path: string
+): { found: boolean; value: unknown } {
+  if (!attributes) {
+    return { found: false, value: undefined };
+  }
+  if (Object.prototype.hasOwnProperty.call(attributes, path)) {
+    return { found: true, value: attributes[path] };
+  }
+  if (!path.includes('.')) {
+    return { found: false, value: undefined };
+  }
+
+  let current: unknown[] = [attributes];
+  let isList = false;
+
+  for (const segment of path.split('.')) {
+    const next: unknown[] = [];
+    for (const item of current) {
+      if (
+        typeof item !== 'object' ||
+        item === null ||
+        !Object.prototype.hasOwnProperty.call(item, segment)
+      ) {
+        continue;
+      }
+      const value = (item as Record<string, unknown>)[segment];
+      if (Array.isArray(value)) {
+        isList = true;
+        next.push(...value);
+      } else {
+        next.push(value);
+      }
+    }
+    if (next.length === 0 && !isList) {
+      return { found: false, value: undefined };
+    }
+    current = next;
+  }
+
+  return { found: true, value: isList ? current : current[0] };
+}
+
+/**
+ * Resolve an attribute reference against a context, e.g. "plan", "organization.plan"
+ * or "device.key". References without a kind, and kinds the context doesn't have,
+ * are looked up in the user's attributes like before multi-kind contexts.
+ */
+export function resolveContextAttribute(
+  context: EvaluationContext,
+  path: string
+): { found: boolean; value: unknown } {
+  if (path === 'userId') {
+    return { found: true, value: getContextKind(context, ContextKind.USER)?.key };
+  }
+  if (path === 'sessionId') {
+    return { found: true, value: context.sessionId };
+  }
+
+  const separator = path.indexOf('.');
+  const prefix = separator === -1 ? path : path.slice(0, separator);
+  const kindContext = isContextKind(prefix) ? getContextKind(context, prefix) : undefined;
+
+  if (kindContext) {
+    // A bare kind refers to its key, e.g. for bucketing by organization
+    const attribute = separator === -1 ? 'key' : path.slice(separator + 1);
+    if (attribute === 'key') {
+      return { found: kindContext.key !== undefined, value: kindContext.key };
+    }
+    const resolved = resolveAttribute(kindContext.attributes, attribute);
+    if (resolved.found) {
+      return resolved;
+    }
+  }
+
+  return resolveAttribute(getContextKind(context, ContextKind.USER)?.attributes, path);
+}
@@ -0,0 +1,397 @@
+// Flag evaluation: prerequisites, individual targets, rules, rollouts and defaults
+
+import { evaluateRule, explainRule, getLeafConditions } from './conditions';
+import { getContextKind } from './context';
+import {
+  getBucketingKey,
+  getRolloutBucket,
+  isInRollout,
+  selectWeightedVariation,
+} from './bucketing';
+import { findIndividualTarget } from './targets';
+import {
+  BucketingVersion,
+  ContextKind,
+  DEFAULT_BUCKET_BY,
+  EvaluationContext,
+  EvaluationErrorKind,
+  EvaluationReason,
+  EvaluationReasonKind,
+  EvaluationStep,
+  FlagConfigDefinition,
+  FlagDefinition,
+  FlagEvaluation,
+  FlagResolver,
+  IndividualTargets,
+  NOW_ATTRIBUTE,
+  Prerequisite,
+  RolloutCheck,
+  SegmentMap,
+  TargetingRule,
+  WeightedVariation,
+} from './types';
+
+export interface EvaluateFlagOptions {
+  segments?: SegmentMap;
+  resolveFlag?: FlagResolver; // Evaluates prerequisite flags, every prerequisite fails without one
+  trace?: EvaluationStep[]; // Steps are appended here when given
+}
+
+// Variation keys served when a config doesn't name one, these aren't errors for flags without them
+const IMPLICIT_VARIATION_KEYS = ['true', 'false'];
+
+/**
+ * Check a percentage rollout, recording the bucket the context fell into
+ */
+function checkRollout(
+  seed: string,
+  bucketingKey: string | undefined,
+  percentage: number,
+  bucketingVersion: BucketingVersion
+): RolloutCheck {
+  return {
+    percentage,
+    bucketingKey,
+    bucket: getRolloutBucket(seed, bucketingKey, bucketingVersion),
+    passed: isInRollout(seed, bucketingKey, percentage, bucketingVersion),
+  };
+}
+
+/**
+ * Evaluate targeting rules and return the variation key
+ */
+function evaluateTargeting(
+  config: FlagConfigDefinition,
+  bucketingSeed: string,
+  context: EvaluationContext | undefined,
+  segments: SegmentMap,
+  trace?: EvaluationStep[]
+): { variationKey: string; reason: EvaluationReason } {
+  const bucketingVersion = config.bucketingVersion ?? BucketingVersion.DJB2;
+
+  // Individually targeted context keys take precedence over rules
+  if (context && config.individualTargets && typeof config.individualTargets === 'object') {
+    const targetedVariation = findIndividualTarget(
+      config.individualTargets as IndividualTargets,
+      getContextKind(context, ContextKind.USER)?.key
+    );
+    trace?.push({
+      type: 'INDIVIDUAL_TARGETS',
+      variationKey: targetedVariation ?? undefined,
+      passed: targetedVariation !== null,
+    });
+    if (targetedVariation) {
+      return {
+        variationKey: targetedVariation,
+        reason: { kind: EvaluationReasonKind.TARGET_MATCH },
+      };
+    }
+  }
+
+  // Malformed targeting rules are ignored
+  const rules: TargetingRule[] = Array.isArray(config.targetingRules)
+    ? (config.targetingRules as TargetingRule[])
+    : [];
+
+  // If we have context and targeting rules, evaluate them in order
+  if (context && rules.length > 0) {
+    for (const [ruleIndex, rule] of rules.entries()) {
+      let step: Extract<EvaluationStep, { type: 'RULE' }> | undefined;
+      if (trace) {
+        step = {
+          type: 'RULE',
+          ruleId: rule.id,
+          ruleIndex,
+          description: rule.description,
+          conditions: explainRule(rule, context, segments),
+          passed: false,
+        };
+        trace.push(step);
+      }
+
+      const matched = step ? step.conditions.passed : evaluateRule(rule, context, segments);
+      if (!matched) {
+        continue;
+      }
+
+      const reason: EvaluationReason = {
+        kind: EvaluationReasonKind.RULE_MATCH,
+        ruleId: rule.id,
+        ruleIndex,
+      };
+
+      // Rule matched! Check if there's a rollout percentage for this rule
+      const bucketingKey = getBucketingKey(context, rule.bucketBy);
+
+      if (rule.rolloutPercentage !== undefined && rule.rolloutPercentage < 100) {
+        const rollout = checkRollout(
+          bucketingSeed,
+          bucketingKey,
+          rule.rolloutPercentage,
+          bucketingVersion
+        );
+        if (step) {
+          step.rollout = rollout;
+        }
+        if (!rollout.passed) {
+          // Not in rollout percentage, continue to next rule
+          continue;
+        }
+        reason.inRollout = true;
+        reason.bucket = rollout.bucket;
+      }
+
+      let variationKey = rule.variationKey;
+
+      // Split matched users across the rule's weighted variations
+      if (rule.distribution && rule.distribution.length > 0) {
+        const splitVariationKey = selectWeightedVariation(
+          rule.distribution,
+          bucketingSeed,
+          bucketingKey,
+          bucketingVersion
+        );
+        if (!splitVariationKey) {
+          // Cannot bucket without a bucketing key, continue to next rule
+          continue;
+        }
+        variationKey = splitVariationKey;
+        reason.split = true;
+      }
+
+      if (step) {
+        step.variationKey = variationKey;
+        step.passed = true;
+      }
+
+      return { variationKey, reason };
+    }
+  }
+
+  const defaultDistribution = Array.isArray(config.defaultDistribution)
+    ? (config.defaultDistribution as WeightedVariation[])
+    : [];
+
+  const bucketingKey = getBucketingKey(context, config.bucketBy ?? DEFAULT_BUCKET_BY);
+
+  // Serve the default variation, or split users across the default distribution
+  const serveDefault = (reason: EvaluationReason) => {
+    const splitVariationKey =
+      defaultDistribution.length > 0
+        ? selectWeightedVariation(defaultDistribution, bucketingSeed, bucketingKey, bucketingVersion)
+        : null;
+    const variationKey = splitVariationKey || config.defaultVariationKey || 'true';
+
+    trace?.push({ type: 'DEFAULT', variationKey, split: splitVariationKey !== null });
+
+    return {
+      variationKey,
+      reason: splitVariationKey ? { ...reason, split: true } : reason,
+    };
+  };
+
+  // Check global rollout percentage. 0% is the column default and means no rollout,
+  // unless a rollout plan set it, which holds everyone back on the fallback.
+  const rolloutPercentage = config.rolloutPercentage ?? null;
+  if (rolloutPercentage !== null && (rolloutPercentage > 0 || config.rolloutPlanned)) {
+    const rollout = checkRollout(
+      bucketingSeed,
+      bucketingKey,
+      rolloutPercentage,
+      bucketingVersion
+    );
+    trace?.push({ type: 'ROLLOUT', ...rollout });
+
+    const reason: EvaluationReason = {
+      kind: EvaluationReasonKind.ROLLOUT,
+      inRollout: rollout.passed,
+      bucket: rollout.bucket,
+    };
+
+    if (!rollout.passed) {
+      // User not in rollout - serve the fallback variation
+      return {
+        variationKey: config.fallbackVariationKey || config.defaultVariationKey || 'false',
+        reason,
+      };
+    }
+    return serveDefault(reason);
+  }
+
+  // No targeting rules matched or no context provided - return default
+  return serveDefault({ kind: EvaluationReasonKind.DEFAULT });
+}
+
+/**
+ * Evaluate a flag in one environment for a given context
+ */
+export function evaluateFlag(
+  flag: FlagDefinition,
+  context?: EvaluationContext,
+  options: EvaluateFlagOptions = {}
+): FlagEvaluation {
+  const { segments = {}, resolveFlag = () => null, trace } = options;
+  const config = flag.config;
+  trace?.push({ type: 'CONFIG', passed: !!config });
+
+  const findVariation = (key: string | null | undefined) =>
+    flag.variations.find((v) => v.key === key);
+
+  // If no config exists, return default disabled state
+  if (!config) {
+    const defaultVariation = findVariation('false') || flag.variations[0];
+    return {
+      key: flag.key,
+      value: defaultVariation ? defaultVariation.value : false,
+      variationKey: defaultVariation?.key || 'false',
+      enabled: false,
+      reason: { kind: EvaluationReasonKind.NO_CONFIG },
+    };
+  }
+
+  const fallbackVariation =
+    findVariation(config.fallbackVariationKey) || findVariation('false') || flag.variations[0];
+  const serveFallback = (enabled: boolean, reason: EvaluationReason): FlagEvaluation => ({
+    key: flag.key,
+    value: fallbackVariation ? fallbackVariation.value : false,
+    variationKey: fallbackVariation?.key || 'false',
+    enabled,
+    reason,
+  });
+
+  // Flag is disabled
+  trace?.push({ type: 'ENABLED', passed: config.enabled });
+  if (!config.enabled) {
+    return serveFallback(false, { kind: EvaluationReasonKind.DISABLED });
+  }
+
+  // Every prerequisite flag must be on and serving the required variation
+  const prerequisites = Array.isArray(config.prerequisites)
+    ? (config.prerequisites as Prerequisite[])
+    : [];
+
+  for (const prerequisite of prerequisites) {
+    const result = resolveFlag(prerequisite.flagKey);
+    const passed =
+      !!result && result.enabled && result.variationKey === prerequisite.variationKey;
+    trace?.push({
+      type: 'PREREQUISITE',
+      flagKey: prerequisite.flagKey,
+      variationKey: prerequisite.variationKey,
+      actualVariationKey: result?.variationKey ?? null,
+      passed,
+    });
+
+    if (!passed) {
+      return serveFallback(true, {
+        kind: EvaluationReasonKind.PREREQUISITE_FAILED,
+        prerequisiteKey: prerequisite.flagKey,
+      });
+    }
+  }
+
+  // Flag is enabled - evaluate targeting rules
+  const targeting = evaluateTargeting(
+    config,
+    // Unsalted flags keep bucketing by flag key so existing assignments are preserved
+    flag.salt || flag.key,
+    context,
+    segments,
+    trace
+  );
+
+  let reason = targeting.reason;
+  let variation = findVariation(targeting.variationKey);
+
+  // The config points at a variation that was since removed from the flag
+  if (!variation && !IMPLICIT_VARIATION_KEYS.includes(targeting.variationKey)) {
+    reason = { kind: EvaluationReasonKind.ERROR, errorKind: EvaluationErrorKind.MALFORMED_FLAG };
+  }
+
+  // Fall back to the default variation if the determined key doesn't exist
+  variation =
+    variation || findVariation(config.defaultVariationKey) || findVariation('true') || flag.variations[0];
+
+  return {
+    key: flag.key,
+    value: variation ? variation.value : true,
+    variationKey: variation?.key || 'true',
+    enabled: true,
+    reason,
+  };
+}
+
+/**
+ * Create a resolver that evaluates flags by key, memoizing results so
+ * prerequisites shared by several flags are only evaluated once.
+ * Callers evaluating many contexts can pass flags already keyed by flag key.
+ */
+export function createFlagResolver(
+  flags: FlagDefinition[] | ReadonlyMap<string, FlagDefinition>,
+  context?: EvaluationContext,
+  segments: SegmentMap = {}
+): FlagResolver {
+  const flagsByKey = Array.isArray(flags)
+    ? new Map(flags.map((flag) => [flag.key, flag]))
+    : (flags as ReadonlyMap<string, FlagDefinition>);
+  const evaluations = new Map<string, FlagEvaluation>();
+  const inProgress = new Set<string>();
+
+  const resolve: FlagResolver = (flagKey) => {
+    const cached = evaluations.get(flagKey);
+    if (cached) {
+      return cached;
+    }
+
+    const flag = flagsByKey.get(flagKey);
+    if (!flag || inProgress.has(flagKey)) {
+      return null;
+    }
+
+    inProgress.add(flagKey);
+    const evaluation = evaluateFlag(flag, context, { segments, resolveFlag: resolve });
+    inProgress.delete(flagKey);
+
+    evaluations.set(flagKey, evaluation);
+    return evaluation;
+  };
+
+  return resolve;
+}
+
+/**
+ * Evaluate every flag of an environment for a given context, keyed by flag key
+ */
+export function evaluateAllFlags(
+  flags: FlagDefinition[],
+  context?: EvaluationContext,
+  segments: SegmentMap = {}
+): Record<string, FlagEvaluation> {
+  const resolveFlag = createFlagResolver(flags, context, segments);
+  const evaluations: Record<string, FlagEvaluation> = {};
+
+  for (const flag of flags) {
+    evaluations[flag.key] = resolveFlag(flag.key)!;
+  }
+
+  return evaluations;
+}
+
+/**
+ * Whether any rule or segment compares against the reserved `now` attribute,
+ * in which case evaluations can change over time without the flags changing
+ */
+export function usesCurrentTime(flags: FlagDefinition[], segments: SegmentMap = {}): boolean {
+  const conditions = [
+    ...flags.flatMap((flag) =>
+      Array.isArray(flag.config?.targetingRules)
+        ? (flag.config.targetingRules as TargetingRule[]).flatMap((rule) =>
+            getLeafConditions(rule.conditions || [])
+          )
+        : []
+    ),
+    ...Object.values(segments).flatMap((segment) => getLeafConditions(segment.conditions)),
+  ];
+
+  return conditions.some((condition) => condition.attribute === NOW_ATTRIBUTE);
+}
@@ -0,0 +1,60 @@
+// TextEncoder rather than Buffer so hashing works the same in browsers
+const textEncoder = new TextEncoder();
+
+const C1 = 0xcc9e2d51;
+const C2 = 0x1b873593;
+
+function rotl32(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+/**
+ * MurmurHash3 (x86, 32-bit) of the UTF-8 bytes of a string.
+ * Returns an unsigned 32-bit integer.
+ */
+export function murmurHash3(key: string, seed = 0): number {
+  const data = textEncoder.encode(key);
+  const length = data.length;
+  const blockEnd = length - (length % 4);
+
+  let h1 = seed >>> 0;
+  let k1 = 0;
+
+  for (let i = 0; i < blockEnd; i += 4) {
+    k1 = data[i] | (data[i + 1] << 8) | (data[i + 2] << 16) | (data[i + 3] << 24);
+    k1 = Math.imul(k1, C1);
+    k1 = rotl32(k1, 15);
+    k1 = Math.imul(k1, C2);
+
+    h1 ^= k1;
+    h1 = rotl32(h1, 13);
+    h1 = (Math.imul(h1, 5) + 0xe6546b64) | 0;
+  }
+
+  // Remaining 1-3 bytes
+  k1 = 0;
+  switch (length & 3) {
+    case 3:
+      k1 ^= data[blockEnd + 2] << 16;
+    // falls through
+    case 2:
+      k1 ^= data[blockEnd + 1] << 8;
+    // falls through
+    case 1:
+      k1 ^= data[blockEnd];
+      k1 = Math.imul(k1, C1);
+      k1 = rotl32(k1, 15);
+      k1 = Math.imul(k1, C2);
+      h1 ^= k1;
+  }
+
+  // Finalization mix
+  h1 ^= length;
+  h1 ^= h1 >>> 16;
+  h1 = Math.imul(h1, 0x85ebca6b);
+  h1 ^= h1 >>> 13;
+  h1 = Math.imul(h1, 0xc2b2ae35);
+  h1 ^= h1 >>> 16;
+
+  return h1 >>> 0;
+}
@@ -0,0 +1,7 @@
+export * from './types';
+export * from './context';
+export * from './conditions';
+export * from './regex';
+export * from './bucketing';
+export * from './targets';
+export * from './evaluate';
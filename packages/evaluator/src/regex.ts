@@ -0,0 +1,351 @@
+// Regex conditions run developer-supplied patterns against user-supplied values on every
+// evaluation, so patterns are checked for catastrophic backtracking before they're saved
+// and inputs are capped in length before they're matched.
+
+export const MAX_REGEX_PATTERN_LENGTH = 500;
+
+// Longer context values never match a regex condition, in either direction. Safe patterns
+// can still take quadratic time, so this is kept to what attributes like emails need.
+export const MAX_REGEX_INPUT_LENGTH = 256;
+
+// Compiled patterns kept across evaluations, oldest evicted first
+const MAX_CACHED_PATTERNS = 1000;
+
+// Escapes that match a class of characters rather than one literal character
+const CLASS_ESCAPES = 'dDwWsSbB';
+
+// Characters tried against two character classes to tell whether they overlap
+const SAMPLE_CHARACTERS = [
+  ...Array.from({ length: 256 }, (_, code) => String.fromCharCode(code)),
+  '\u0100',
+  '\u2028',
+  '\u3000',
+  '\u4e00',
+  '\uffff',
+];
+
+interface RepeatedAtom {
+  // The atom itself contains a repeating or optional quantifier, e.g. (a+) or (a?)
+  hasRepeat: boolean;
+  // The atom can match without consuming input, e.g. (a|) or (\b)
+  canMatchEmpty: boolean;
+  // First character of each alternative of a group, '' when it can't be pinned down
+  alternatives: string[] | null;
+  // Source of an atom that matches one character, e.g. a, \d or [a-z], null for groups
+  source: string | null;
+  // Source of the atom right before this one if it was repeated without bound
+  previousUnbounded: string | null;
+  // Whether its group had to consume input before this atom, restored if the atom is optional
+  requiredBefore: boolean;
+}
+
+interface GroupFrame {
+  hasRepeat: boolean;
+  alternatives: string[];
+  // Whether the current alternative has consumed its first atom yet
+  started: boolean;
+  // Whether the current alternative has an atom that must consume input
+  required: boolean;
+  // Whether an earlier alternative can match without consuming input
+  canMatchEmpty: boolean;
+  // Lookarounds never consume input, e.g. (?=a)
+  lookaround: boolean;
+  // Whether the enclosing group had to consume input before this group
+  requiredBefore: boolean;
+}
+
+const createFrame = (requiredBefore: boolean, lookaround = false): GroupFrame => ({
+  hasRepeat: false,
+  alternatives: [],
+  started: false,
+  required: false,
+  canMatchEmpty: false,
+  lookaround,
+  requiredBefore,
+});
+
+/**
+ * Parse a quantifier at the given index. Returns its length, whether it can repeat the atom
+ * more than once and whether it can skip the atom, or null if there is none.
+ */
+function readQuantifier(
+  pattern: string,
+  index: number
+): { length: number; repeats: boolean; unbounded: boolean; optional: boolean } | null {
+  const char = pattern[index];
+  let length: number;
+  let min: number;
+  let max: number;
+
+  if (char === '*' || char === '+') {
+    length = 1;
+    min = char === '*' ? 0 : 1;
+    max = Infinity;
+  } else if (char === '?') {
+    length = 1;
+    min = 0;
+    max = 1;
+  } else if (char === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (!match) {
+      return null;
+    }
+    length = match[0].length;
+    min = Number(match[1]);
+    max = match[2] === undefined ? min : match[3] === '' ? Infinity : Number(match[3]);
+  } else {
+    return null;
+  }
+
+  // Lazy quantifiers backtrack just as much
+  if (pattern[index + length] === '?') {
+    length += 1;
+  }
+
+  return { length, repeats: max > 1, unbounded: max === Infinity, optional: min === 0 };
+}
+
+/**
+ * Whether two atoms that each match one character can match the same character.
+ * Atoms that can't be compiled on their own are assumed to overlap.
+ */
+function canMatchSameCharacter(first: string, second: string): boolean {
+  try {
+    const firstRegex = new RegExp(`^(?:${first})$`);
+    const secondRegex = new RegExp(`^(?:${second})$`);
+    return SAMPLE_CHARACTERS.some((char) => firstRegex.test(char) && secondRegex.test(char));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Whether repeating a group of alternatives can match the same input in more than one way,
+ * e.g. (a|ab)* or (\w|\d)+. Alternatives that start with distinct literals are safe.
+ */
+function hasOverlappingAlternatives(alternatives: string[]): boolean {
+  if (alternatives.length < 2) {
+    return false;
+  }
+  if (alternatives.some((first) => first === '')) {
+    return true;
+  }
+  return new Set(alternatives).size !== alternatives.length;
+}
+
+/**
+ * Check a pattern for constructs that can backtrack catastrophically: nested quantifiers
+ * like (a+)+ or (a?a?)+, repeated overlapping alternatives like (a|a)*, repeated groups
+ * that can match empty like (\b)+, unbounded repeats of overlapping characters back to
+ * back like .*.* and backreferences like (a|b)*\1. Optional atoms and groups that can
+ * match empty count as repeats inside a repeated group, since they can split the same
+ * input in as many ways.
+ * Returns an error message, or null if the pattern is safe to evaluate.
+ */
+export function validateRegexPattern(pattern: string): string | null {
+  if (pattern.length > MAX_REGEX_PATTERN_LENGTH) {
+    return `Regular expression is longer than ${MAX_REGEX_PATTERN_LENGTH} characters`;
+  }
+
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    return `Invalid regular expression: ${(error as Error).message}`;
+  }
+
+  const stack: GroupFrame[] = [createFrame(false)];
+  let atom: RepeatedAtom | null = null;
+  let lastUnbounded: string | null = null;
+
+  const startAtom = (
+    first: string,
+    next: Omit<RepeatedAtom, 'canMatchEmpty' | 'previousUnbounded' | 'requiredBefore'>,
+    consumes = true
+  ) => {
+    const frame = stack[stack.length - 1];
+    if (!frame.started) {
+      frame.alternatives.push(first);
+      frame.started = true;
+    }
+    atom = {
+      ...next,
+      canMatchEmpty: !consumes,
+      previousUnbounded: lastUnbounded,
+      requiredBefore: frame.required,
+    };
+    frame.required ||= consumes;
+    lastUnbounded = null;
+  };
+
+  let index = 0;
+  while (index < pattern.length) {
+    const char = pattern[index];
+
+    const quantifier = readQuantifier(pattern, index);
+    if (quantifier && atom) {
+      const quantified: RepeatedAtom = atom;
+      const frame = stack[stack.length - 1];
+      if (quantifier.repeats) {
+        if (quantified.hasRepeat) {
+          return 'Regular expression repeats a quantified group, e.g. (a+)+, which can backtrack catastrophically';
+        }
+        if (quantified.alternatives && hasOverlappingAlternatives(quantified.alternatives)) {
+          return 'Regular expression repeats overlapping alternatives, e.g. (a|ab)*, which can backtrack catastrophically';
+        }
+        if (quantified.canMatchEmpty) {
+          return 'Regular expression repeats a group that can match empty, e.g. (\\b)+, which can backtrack catastrophically';
+        }
+      }
+      if (quantifier.repeats || quantifier.optional) {
+        frame.hasRepeat = true;
+      }
+      if (quantifier.optional) {
+        frame.required = quantified.requiredBefore;
+      }
+      if (quantifier.unbounded && quantified.source !== null) {
+        if (
+          quantified.previousUnbounded !== null &&
+          canMatchSameCharacter(quantified.previousUnbounded, quantified.source)
+        ) {
+          return 'Regular expression repeats overlapping characters back to back, e.g. .*.*, which can backtrack catastrophically';
+        }
+        lastUnbounded = quantified.source;
+      }
+      atom = null;
+      index += quantifier.length;
+      continue;
+    }
+
+    switch (char) {
+      case '\\': {
+        const escaped = pattern[index + 1] ?? '';
+        if (/[1-9]/.test(escaped) || pattern.startsWith('k<', index + 1)) {
+          return 'Regular expression uses a backreference, e.g. (a|b)*\\1, which can backtrack catastrophically';
+        }
+        // Word boundaries don't consume input
+        startAtom(
+          CLASS_ESCAPES.includes(escaped) ? '' : escaped,
+          { hasRepeat: false, alternatives: null, source: pattern.slice(index, index + 2) },
+          escaped !== 'b' && escaped !== 'B'
+        );
+        index += 2;
+        continue;
+      }
+
+      case '[': {
+        // Skip to the closing bracket, a leading ] is literal
+        let end = index + 1;
+        if (pattern[end] === '^') end += 1;
+        if (pattern[end] === ']') end += 1;
+        while (end < pattern.length && pattern[end] !== ']') {
+          end += pattern[end] === '\\' ? 2 : 1;
+        }
+        startAtom('', { hasRepeat: false, alternatives: null, source: pattern.slice(index, end + 1) });
+        index = end + 1;
+        continue;
+      }
+
+      case '(': {
+        const requiredBefore = stack[stack.length - 1].required;
+        startAtom('', { hasRepeat: false, alternatives: null, source: null });
+        stack.push(createFrame(requiredBefore, /^\(\?<?[=!]/.test(pattern.slice(index))));
+        atom = null;
+
+        // Skip group modifiers, e.g. (?:, (?=, (?<name>
+        index += 1;
+        if (pattern[index] === '?') {
+          const named = /^\?<([A-Za-z_$][\w$]*)>/.exec(pattern.slice(index));
+          index += named ? named[0].length : pattern[index + 1] === '<' ? 3 : 2;
+        }
+        continue;
+      }
+
+      case ')': {
+        const frame = stack.pop()!;
+        if (!frame.started) {
+          frame.alternatives.push('');
+        }
+        const canMatchEmpty = frame.lookaround || frame.canMatchEmpty || !frame.required;
+        const parent = stack[stack.length - 1];
+        parent.hasRepeat ||= frame.hasRepeat || canMatchEmpty;
+        if (canMatchEmpty) {
+          parent.required = frame.requiredBefore;
+        }
+        atom = {
+          hasRepeat: frame.hasRepeat,
+          alternatives: frame.alternatives,
+          canMatchEmpty,
+          source: null,
+          previousUnbounded: null,
+          requiredBefore: frame.requiredBefore,
+        };
+        lastUnbounded = null;
+        index += 1;
+        continue;
+      }
+
+      case '|': {
+        const frame = stack[stack.length - 1];
+        if (!frame.started) {
+          frame.alternatives.push('');
+        }
+        frame.canMatchEmpty ||= !frame.required;
+        frame.required = false;
+        frame.started = false;
+        atom = null;
+        lastUnbounded = null;
+        index += 1;
+        continue;
+      }
+
+      case '^':
+      case '$':
+        atom = null;
+        lastUnbounded = null;
+        index += 1;
+        continue;
+
+      default:
+        startAtom(char === '.' ? '' : char, { hasRepeat: false, alternatives: null, source: char });
+        index += 1;
+    }
+  }
+
+  return null;
+}
+
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Compile a regex condition pattern, or return null if it's invalid or unsafe.
+ * Compiled patterns are cached by pattern for every flag and environment, and kept
+ * until MAX_CACHED_PATTERNS newer patterns push them out of the cache.
+ */
+export function compileRegexPattern(pattern: string): RegExp | null {
+  if (compiledPatterns.has(pattern)) {
+    return compiledPatterns.get(pattern)!;
+  }
+
+  // Patterns saved before validation existed are checked here too
+  const regex = validateRegexPattern(pattern) === null ? new RegExp(pattern) : null;
+
+  if (compiledPatterns.size >= MAX_CACHED_PATTERNS) {
+    compiledPatterns.delete(compiledPatterns.keys().next().value!);
+  }
+  compiledPatterns.set(pattern, regex);
+
+  return regex;
+}
+
+/**
+ * Test a context value against a regex condition pattern.
+ * Returns null if the pattern is unsafe or the value is too long to match.
+ */
+export function testRegexPattern(pattern: string, value: string): boolean | null {
+  if (value.length > MAX_REGEX_INPUT_LENGTH) {
+    return null;
+  }
+
+  const regex = compileRegexPattern(pattern);
+  return regex ? regex.test(value) : null;
+}
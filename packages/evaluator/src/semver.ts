@@ -0,0 +1,236 @@
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+// Optional leading "v", missing minor/patch default to 0, build metadata is ignored
+const VERSION_PATTERN =
+  /^v?(0|[1-9]\d*)(?:\.(0|[1-9]\d*))?(?:\.(0|[1-9]\d*))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+// A partial version inside a range, components may be missing or wildcards
+const PARTIAL_PATTERN =
+  /^v?(0|[1-9]\d*|[xX*])(?:\.(0|[1-9]\d*|[xX*]))?(?:\.(0|[1-9]\d*|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?$/;
+
+const COMPARATOR_PATTERN = /^(\^|~|>=|<=|>|<|=)?\s*(.+)$/;
+
+type Comparator = { operator: '>=' | '<=' | '>' | '<' | '='; version: SemVer };
+
+/**
+ * Parse a version string such as "2.10.0", "v2.3" or "1.0.0-beta.1".
+ * Returns null for malformed versions.
+ */
+export function parseVersion(input: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+  // A version without prerelease has higher precedence
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) {
+      return Number(a[i]) - Number(b[i]);
+    }
+    if (aNumeric !== bNumeric) {
+      return aNumeric ? -1 : 1;
+    }
+    return a[i] < b[i] ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two parsed versions, returns a negative number, zero or a positive number
+ */
+export function compareVersions(a: SemVer, b: SemVer): number {
+  return (
+    a.major - b.major ||
+    a.minor - b.minor ||
+    a.patch - b.patch ||
+    comparePrerelease(a.prerelease, b.prerelease)
+  );
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): SemVer {
+  return { major, minor, patch, prerelease };
+}
+
+/**
+ * Expand one range token (e.g. "^2.3", "~1.2.0", ">=2.10", "2.x") into comparators
+ */
+function parseComparator(token: string): Comparator[] | null {
+  const match = COMPARATOR_PATTERN.exec(token);
+  if (!match) {
+    return null;
+  }
+
+  const operator = match[1] ?? '';
+  const partial = PARTIAL_PATTERN.exec(match[2]);
+  if (!partial) {
+    return null;
+  }
+
+  const isWildcard = (part: string | undefined) => part === undefined || /^[xX*]$/.test(part);
+  const prerelease = partial[4] ? partial[4].split('.') : [];
+
+  // "*" or "x" matches any version
+  if (isWildcard(partial[1])) {
+    return operator === '' || operator === '>=' || operator === '=' ? [] : null;
+  }
+
+  const major = Number(partial[1]);
+  const hasMinor = !isWildcard(partial[2]);
+  const hasPatch = hasMinor && !isWildcard(partial[3]);
+  const minor = hasMinor ? Number(partial[2]) : 0;
+  const patch = hasPatch ? Number(partial[3]) : 0;
+  const lower = version(major, minor, patch, prerelease);
+
+  switch (operator) {
+    case '^': {
+      // Allow changes that don't modify the left-most non-zero component
+      const upper =
+        major > 0 || !hasMinor
+          ? version(major + 1, 0, 0)
+          : minor > 0 || !hasPatch
+            ? version(0, minor + 1, 0)
+            : version(0, 0, patch + 1);
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+
+    case '~': {
+      // Allow patch-level changes, or minor-level if no minor was given
+      const upper = hasMinor ? version(major, minor + 1, 0) : version(major + 1, 0, 0);
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+
+    case '':
+    case '=': {
+      if (hasPatch) {
+        return [{ operator: '=', version: lower }];
+      }
+      // Partial versions match every version they prefix
+      const upper = hasMinor ? version(major, minor + 1, 0) : version(major + 1, 0, 0);
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+
+    case '>':
+      if (hasPatch) {
+        return [{ operator: '>', version: lower }];
+      }
+      // ">2.3" means greater than every 2.3.x version
+      return [
+        {
+          operator: '>=',
+          version: hasMinor ? version(major, minor + 1, 0) : version(major + 1, 0, 0),
+        },
+      ];
+
+    case '<=':
+      if (hasPatch) {
+        return [{ operator: '<=', version: lower }];
+      }
+      // "<=2.3" includes every 2.3.x version
+      return [
+        {
+          operator: '<',
+          version: hasMinor ? version(major, minor + 1, 0) : version(major + 1, 0, 0),
+        },
+      ];
+
+    default:
+      return [{ operator: operator as Comparator['operator'], version: lower }];
+  }
+}
+
+/**
+ * Parse a range into comparator sets. Sets are separated by "||" and match if
+ * any set matches, comparators within a set are separated by whitespace and must all match.
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+
+  for (const part of range.split('||')) {
+    // Join operators separated from their version, e.g. ">= 2.0"
+    const tokens = part.trim().replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) {
+      return null;
+    }
+
+    const comparators: Comparator[] = [];
+    for (const token of tokens) {
+      const parsed = parseComparator(token);
+      if (!parsed) {
+        return null;
+      }
+      comparators.push(...parsed);
+    }
+    sets.push(comparators);
+  }
+
+  return sets;
+}
+
+/**
+ * Check that a range such as "^2.3", ">=1.2.0 <2.0.0" or "1.x || 3.x" is well-formed
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Check if a version satisfies a range. Malformed ranges match nothing.
+ */
+export function satisfiesRange(target: SemVer, range: string): boolean {
+  const sets = parseRange(range);
+  if (!sets) {
+    return false;
+  }
+
+  return sets.some((comparators) =>
+    comparators.every(({ operator, version: bound }) => {
+      const result = compareVersions(target, bound);
+      switch (operator) {
+        case '>=':
+          return result >= 0;
+        case '<=':
+          return result <= 0;
+        case '>':
+          return result > 0;
+        case '<':
+          return result < 0;
+        default:
+          return result === 0;
+      }
+    })
+  );
+}
@@ -0,0 +1,56 @@
+// Individual targeting of context keys
+
+import { IndividualTargets, MAX_INDIVIDUAL_TARGETS } from './types';
+
+/**
+ * Validate individual target lists against the flag's variation keys.
+ * Returns an error message, or null if the lists are valid.
+ */
+export function validateIndividualTargets(
+  targets: IndividualTargets,
+  variationKeys: string[]
+): string | null {
+  const seen = new Set<string>();
+
+  for (const [variationKey, contextKeys] of Object.entries(targets)) {
+    if (!variationKeys.includes(variationKey)) {
+      return `Unknown variation key in individual targets: ${variationKey}`;
+    }
+
+    for (const contextKey of contextKeys) {
+      if (typeof contextKey !== 'string' || contextKey.trim() === '') {
+        return 'Individual target keys must be non-empty strings';
+      }
+      if (seen.has(contextKey)) {
+        return `Context key is targeted more than once: ${contextKey}`;
+      }
+      seen.add(contextKey);
+    }
+  }
+
+  if (seen.size > MAX_INDIVIDUAL_TARGETS) {
+    return `Individual targets are limited to ${MAX_INDIVIDUAL_TARGETS} keys per environment`;
+  }
+
+  return null;
+}
+
+/**
+ * Find the variation a context key is individually targeted to, if any
+ */
+export function findIndividualTarget(
+  targets: IndividualTargets,
+  contextKey: string | undefined
+): string | null {
+  if (!contextKey) {
+    return null;
+  }
+
+  for (const [variationKey, contextKeys] of Object.entries(targets)) {
+    if (contextKeys.includes(contextKey)) {
+      return variationKey;
+    }
+  }
+
+  return null;
+}
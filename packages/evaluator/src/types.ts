@@ -0,0 +1,252 @@
+// Types shared by every FlagKit evaluator
+
+export enum ConditionOperator {
+  EQUALS = 'equals',
+  NOT_EQUALS = 'notEquals',
+  CONTAINS = 'contains',
+  NOT_CONTAINS = 'notContains',
+  IN = 'in',
+  NOT_IN = 'notIn',
+  GREATER_THAN = 'greaterThan',
+  LESS_THAN = 'lessThan',
+  GREATER_THAN_OR_EQUAL = 'greaterThanOrEqual',
+  LESS_THAN_OR_EQUAL = 'lessThanOrEqual',
+  MATCHES = 'matches', // Regex match
+  NOT_MATCHES = 'notMatches',
+  STARTS_WITH = 'startsWith',
+  ENDS_WITH = 'endsWith',
+  IN_SEGMENT = 'inSegment', // Value is a segment key or list of segment keys
+  NOT_IN_SEGMENT = 'notInSegment',
+  SEMVER_EQUALS = 'semverEquals',
+  SEMVER_GREATER_THAN = 'semverGreaterThan',
+  SEMVER_LESS_THAN = 'semverLessThan',
+  SEMVER_IN_RANGE = 'semverInRange', // e.g. "^2.3", ">=1.2.0 <2.0.0"
+  BEFORE = 'before', // ISO-8601 string or epoch millis
+  AFTER = 'after',
+  IN_TIME_WINDOW = 'inTimeWindow', // Value is a TimeWindow
+}
+
+// Recurring window of time, e.g. 09:00-17:00 UTC on weekdays
+export interface TimeWindow {
+  start: string; // "HH:MM", inclusive
+  end: string; // "HH:MM", exclusive, windows with end before start wrap past midnight
+  days?: number[]; // 0 = Sunday ... 6 = Saturday, every day when omitted
+  timezone?: string; // IANA timezone, defaults to UTC
+}
+
+// Reserved attribute that resolves to the current server time
+export const NOW_ATTRIBUTE = 'now';
+
+export type ConditionValue = string | number | boolean | string[] | number[] | TimeWindow;
+
+export interface Condition {
+  attribute: string; // e.g., 'userId', 'email', 'country', custom attribute
+  operator: ConditionOperator;
+  value: ConditionValue;
+}
+
+export enum ConditionLogic {
+  AND = 'AND',
+  OR = 'OR',
+}
+
+// A nested group of conditions joined by its own logic, e.g. (country = US AND plan = pro)
+export interface ConditionGroup {
+  conditionLogic: ConditionLogic;
+  conditions: ConditionNode[];
+}
+
+export type ConditionNode = Condition | ConditionGroup;
+
+// Rules are the outermost group, so a rule can hold groups up to this many levels deep
+export const MAX_CONDITION_DEPTH = 5;
+
+export interface WeightedVariation {
+  variationKey: string;
+  weight: number; // 0-100, weights of a distribution add up to 100
+}
+
+export interface TargetingRule {
+  id: string;
+  description?: string;
+  conditions: ConditionNode[]; // Flat rules only hold conditions, nested rules also hold groups
+  conditionLogic: ConditionLogic;
+  variationKey: string;
+  rolloutPercentage?: number; // 0-100, optional percentage rollout for matched users
+  distribution?: WeightedVariation[]; // Optional weighted split, overrides variationKey
+  bucketBy?: string; // Context attribute used for rollout/split bucketing, defaults to userId
+}
+
+// Another flag that must serve a given variation before targeting applies
+export interface Prerequisite {
+  flagKey: string;
+  variationKey: string;
+}
+
+// Context keys always served a variation, keyed by variation key
+export type IndividualTargets = Record<string, string[]>;
+
+export const MAX_INDIVIDUAL_TARGETS = 10000;
+
+// Attribute used for bucketing when a rule or config doesn't specify one.
+// A context kind, e.g. "organization", buckets by the key of that kind.
+export const DEFAULT_BUCKET_BY = 'userId';
+
+// Kinds of entity a context can describe. The flat userId and attributes describe the user.
+export enum ContextKind {
+  USER = 'user',
+  ORGANIZATION = 'organization',
+  DEVICE = 'device',
+  REQUEST = 'request',
+}
+
+// One kind of a multi-kind context, with its own key and attributes
+export interface KindContext {
+  key: string;
+  attributes?: Record<string, unknown>;
+}
+
+export interface EvaluationContext {
+  userId?: string;
+  sessionId?: string;
+  attributes?: Record<string, unknown>;
+  // Multi-kind contexts, referenced by conditions as e.g. "organization.plan" or "device.platform"
+  user?: KindContext; // Takes the place of userId and attributes when given
+  organization?: KindContext;
+  device?: KindContext;
+  request?: KindContext;
+}
+
+export interface SegmentDefinition {
+  key: string;
+  conditions: Condition[];
+  conditionLogic: ConditionLogic;
+}
+
+// Segments of a project, keyed by segment key
+export type SegmentMap = Record<string, SegmentDefinition>;
+
+// Outcome of a single condition, for explaining an evaluation
+export interface ConditionTrace extends Condition {
+  actualValue?: unknown; // Omitted for segment conditions and missing attributes
+  passed: boolean;
+}
+
+export interface ConditionGroupTrace {
+  conditionLogic: ConditionLogic;
+  conditions: ConditionNodeTrace[];
+  passed: boolean;
+}
+
+export type ConditionNodeTrace = ConditionTrace | ConditionGroupTrace;
+
+
+// Hash algorithms used to assign contexts to rollout and split buckets.
+// Configs keep the version they were created with so existing assignments never move.
+export enum BucketingVersion {
+  DJB2 = 1, // 100 integer buckets
+  MURMUR3 = 2, // 100,000 buckets, 0.001% resolution
+}
+
+export const LATEST_BUCKETING_VERSION = BucketingVersion.MURMUR3;
+
+export enum EvaluationReasonKind {
+  NO_CONFIG = 'NO_CONFIG', // Flag has no config in the environment
+  DISABLED = 'DISABLED', // Flag is turned off in the environment
+  PREREQUISITE_FAILED = 'PREREQUISITE_FAILED',
+  TARGET_MATCH = 'TARGET_MATCH', // Context key is individually targeted
+  RULE_MATCH = 'RULE_MATCH',
+  ROLLOUT = 'ROLLOUT', // Global rollout decided the variation, see inRollout
+  DEFAULT = 'DEFAULT', // No rule matched and there is no global rollout
+  ERROR = 'ERROR',
+}
+
+export enum EvaluationErrorKind {
+  MALFORMED_FLAG = 'MALFORMED_FLAG', // Config serves a variation the flag no longer has
+  FLAG_NOT_FOUND = 'FLAG_NOT_FOUND', // Flag key isn't part of the ruleset
+  CLIENT_NOT_READY = 'CLIENT_NOT_READY', // SDK was asked before its ruleset was loaded
+  WRONG_TYPE = 'WRONG_TYPE', // Served value doesn't have the type of the caller's default
+}
+
+export interface EvaluationReason {
+  kind: EvaluationReasonKind;
+  ruleId?: string;
+  ruleIndex?: number; // Position of the matched rule, starting at 0
+  inRollout?: boolean; // Set when a percentage rollout was checked
+  bucket?: number; // Rollout bucket of the context in [0, 100)
+  split?: boolean; // Variation was picked from a weighted distribution
+  prerequisiteKey?: string; // First prerequisite that wasn't met
+  errorKind?: EvaluationErrorKind;
+}
+
+export interface RolloutCheck {
+  percentage: number;
+  bucketingKey?: string;
+  bucket?: number; // Contexts without a bucketing key have no bucket and are never included
+  passed: boolean;
+}
+
+// One step of an explained evaluation, in the order the evaluator took them
+export type EvaluationStep =
+  | { type: 'CONFIG'; passed: boolean }
+  | { type: 'ENABLED'; passed: boolean }
+  | {
+      type: 'PREREQUISITE';
+      flagKey: string;
+      variationKey: string; // Required variation
+      actualVariationKey: string | null; // Null if the flag is missing or part of a cycle
+      passed: boolean;
+    }
+  | { type: 'INDIVIDUAL_TARGETS'; variationKey?: string; passed: boolean }
+  | {
+      type: 'RULE';
+      ruleId: string;
+      ruleIndex: number;
+      description?: string;
+      conditions: ConditionGroupTrace;
+      rollout?: RolloutCheck;
+      variationKey?: string; // Set when the rule served a variation
+      passed: boolean;
+    }
+  | ({ type: 'ROLLOUT' } & RolloutCheck)
+  | { type: 'DEFAULT'; variationKey: string; split: boolean };
+
+export interface FlagVariationDefinition {
+  key: string;
+  value: unknown; // Parsed JSON value served to clients
+}
+
+// Environment-specific config of a flag. JSON columns are typed loosely since
+// stored values are only trusted as far as the evaluator checks them.
+export interface FlagConfigDefinition {
+  enabled: boolean;
+  defaultVariationKey: string | null;
+  fallbackVariationKey: string | null;
+  targetingRules?: unknown; // TargetingRule[]
+  rolloutPercentage: number | null;
+  rolloutPlanned?: boolean; // Set by rollout plans, 0% then serves no one the default
+  defaultDistribution?: unknown; // WeightedVariation[]
+  bucketBy?: string;
+  bucketingVersion?: number;
+  prerequisites?: unknown; // Prerequisite[]
+  individualTargets?: unknown; // IndividualTargets
+}
+
+// Everything needed to evaluate a flag in one environment
+export interface FlagDefinition {
+  key: string;
+  salt?: string | null; // Rollout salt, unsalted flags bucket by flag key
+  variations: FlagVariationDefinition[];
+  config: FlagConfigDefinition | null; // Null if the flag has no config in the environment
+}
+
+export interface FlagEvaluation {
+  key: string;
+  value: unknown;
+  variationKey: string;
+  enabled: boolean;
+  reason: EvaluationReason;
+}
+
+// Evaluates a flag by key, null if the flag doesn't exist or is part of a prerequisite cycle
+export type FlagResolver = (flagKey: string) => FlagEvaluation | null;
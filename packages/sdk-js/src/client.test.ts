@@ -54,20 +54,18 @@ describe('FlagKitClient', () => {
     });
 
     it('should initialize successfully and fetch flags', async () => {
-      const mockFlags: FlagEvaluation[] = [
-        {
-          flagKey: 'test-flag',
+      const mockFlags: Record<string, Omit<FlagEvaluation, 'flagKey'>> = {
+        'test-flag': {
           value: true,
           variationKey: 'on',
           reason: 'DEFAULT',
         },
-        {
-          flagKey: 'string-flag',
+        'string-flag': {
           value: 'hello',
           variationKey: 'variation-1',
           reason: 'TARGETING',
         },
-      ];
+      };
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -87,12 +85,18 @@ describe('FlagKitClient', () => {
       expect(mockFetch).toHaveBeenCalledWith(
         'http://localhost:3001/sdk/v1/client/test-sdk-key/flags'
       );
+      expect(client.getFlag('string-flag')).toEqual({
+        flagKey: 'string-flag',
+        value: 'hello',
+        variationKey: 'variation-1',
+        reason: 'TARGETING',
+      });
     });
 
     it('should emit ready event after initialization', async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       client = new FlagKitClient({
@@ -142,38 +146,33 @@ describe('FlagKitClient', () => {
 
   describe('Flag Getters', () => {
     beforeEach(async () => {
-      const mockFlags: FlagEvaluation[] = [
-        {
-          flagKey: 'boolean-flag',
+      const mockFlags: Record<string, Omit<FlagEvaluation, 'flagKey'>> = {
+        'boolean-flag': {
           value: true,
           variationKey: 'on',
           reason: 'DEFAULT',
         },
-        {
-          flagKey: 'string-flag',
+        'string-flag': {
           value: 'test-value',
           variationKey: 'variation-1',
           reason: 'TARGETING',
         },
-        {
-          flagKey: 'number-flag',
+        'number-flag': {
           value: 42,
           variationKey: 'variation-2',
           reason: 'ROLLOUT',
         },
-        {
-          flagKey: 'json-flag',
+        'json-flag': {
           value: { key: 'value', nested: { data: 123 } },
           variationKey: 'variation-3',
           reason: 'DEFAULT',
         },
-        {
-          flagKey: 'wrong-type-flag',
+        'wrong-type-flag': {
           value: 'string-value',
           variationKey: 'variation-4',
           reason: 'DEFAULT',
         },
-      ];
+      };
 
       mockFetch.mockResolvedValueOnce({
         ok: true,
@@ -265,7 +264,7 @@ describe('FlagKitClient', () => {
     beforeEach(async () => {
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       client = new FlagKitClient({
@@ -304,13 +303,31 @@ describe('FlagKitClient', () => {
       expect(mockFetch).toHaveBeenCalledTimes(2); // Initial + update fetch
       expect(updateHandler).toHaveBeenCalled();
     });
+
+    it('should send the context when re-evaluating flags', async () => {
+      const context = {
+        userId: 'user-123',
+        attributes: { tier: 'premium' },
+      };
+
+      await client.updateContext(context, true);
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:3001/sdk/v1/client/test-sdk-key/flags',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ context }),
+        }
+      );
+    });
   });
 
   describe('Flag Evaluation', () => {
     beforeEach(async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       client = new FlagKitClient({
@@ -367,7 +384,7 @@ describe('FlagKitClient', () => {
     beforeEach(async () => {
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       client = new FlagKitClient({
@@ -386,7 +403,7 @@ describe('FlagKitClient', () => {
       // Trigger another initialization to fire ready again
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       // Note: ready was already fired during initialization in beforeEach
@@ -427,9 +444,9 @@ describe('FlagKitClient', () => {
     });
 
     it('should start polling when enabled', async () => {
-      const mockFlags: FlagEvaluation[] = [
-        { flagKey: 'test', value: true, variationKey: 'on', reason: 'DEFAULT' },
-      ];
+      const mockFlags: Record<string, Omit<FlagEvaluation, 'flagKey'>> = {
+        test: { value: true, variationKey: 'on', reason: 'DEFAULT' },
+      };
 
       mockFetch.mockResolvedValue({
         ok: true,
@@ -453,13 +470,13 @@ describe('FlagKitClient', () => {
     });
 
     it('should emit update event when flags change during polling', async () => {
-      const initialFlags: FlagEvaluation[] = [
-        { flagKey: 'test', value: false, variationKey: 'off', reason: 'DEFAULT' },
-      ];
+      const initialFlags: Record<string, Omit<FlagEvaluation, 'flagKey'>> = {
+        test: { value: false, variationKey: 'off', reason: 'DEFAULT' },
+      };
 
-      const updatedFlags: FlagEvaluation[] = [
-        { flagKey: 'test', value: true, variationKey: 'on', reason: 'DEFAULT' },
-      ];
+      const updatedFlags: Record<string, Omit<FlagEvaluation, 'flagKey'>> = {
+        test: { value: true, variationKey: 'on', reason: 'DEFAULT' },
+      };
 
       mockFetch
         .mockResolvedValueOnce({
@@ -489,9 +506,9 @@ describe('FlagKitClient', () => {
     });
 
     it('should not emit update event when flags are unchanged', async () => {
-      const flags: FlagEvaluation[] = [
-        { flagKey: 'test', value: true, variationKey: 'on', reason: 'DEFAULT' },
-      ];
+      const flags: Record<string, Omit<FlagEvaluation, 'flagKey'>> = {
+        test: { value: true, variationKey: 'on', reason: 'DEFAULT' },
+      };
 
       mockFetch.mockResolvedValue({
         ok: true,
@@ -522,7 +539,7 @@ describe('FlagKitClient', () => {
     it('should not start polling when interval is 0', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       client = new FlagKitClient({
@@ -545,7 +562,7 @@ describe('FlagKitClient', () => {
     it('should stop polling when client is closed', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       client = new FlagKitClient({
@@ -564,13 +581,252 @@ describe('FlagKitClient', () => {
       // Should still only have the initial fetch
       expect(mockFetch).toHaveBeenCalledTimes(1);
     });
+
+    it('should send the ETag of the last response and keep flags on 304 Not Modified', async () => {
+      const json = vi.fn(async () =>
+        createSuccessResponse({
+          flags: {test: { value: true, variationKey: 'on', reason: 'DEFAULT' }},
+        })
+      );
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers({ ETag: '"3-abc"' }), json })
+        .mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers({ ETag: '"3-abc"' }) });
+
+      client = new FlagKitClient({
+        sdkKey: 'test-sdk-key',
+        pollingInterval: 30000,
+        enableStreaming: false,
+      });
+      const updateHandler = vi.fn();
+      client.on('update', updateHandler);
+
+      await client.initialize();
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect(mockFetch).toHaveBeenLastCalledWith('http://localhost:3001/sdk/v1/client/test-sdk-key/flags', {
+        headers: { 'If-None-Match': '"3-abc"' },
+      });
+      expect(json).toHaveBeenCalledTimes(1);
+      expect(updateHandler).not.toHaveBeenCalled();
+      expect(client.getBooleanFlag('test')).toBe(true);
+    });
+
+    it('should poll for changes since the config version and emit a change event per flag', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () =>
+            createSuccessResponse({
+              flags: {
+                kept: { value: true, variationKey: 'on', reason: 'DEFAULT' },
+                toggled: { value: false, variationKey: 'off', reason: 'DEFAULT' },
+                removed: { value: true, variationKey: 'on', reason: 'DEFAULT' },
+              },
+              version: 7,
+            }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () =>
+            createSuccessResponse({
+              version: 9,
+              full: false,
+              flags: { toggled: { value: true, variationKey: 'on', reason: 'DEFAULT' } },
+              deleted: ['removed'],
+            }),
+        });
+
+      client = new FlagKitClient({
+        sdkKey: 'test-sdk-key',
+        pollingInterval: 30000,
+        enableStreaming: false,
+      });
+      const changeHandler = vi.fn();
+      const updateHandler = vi.fn();
+      client.on('change', changeHandler);
+      client.on('update', updateHandler);
+
+      await client.initialize();
+      expect(changeHandler).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:3001/sdk/v1/client/test-sdk-key/flags/delta?since=7'
+      );
+      expect(client.getAllFlags()).toEqual({
+        kept: { flagKey: 'kept', value: true, variationKey: 'on', reason: 'DEFAULT' },
+        toggled: { flagKey: 'toggled', value: true, variationKey: 'on', reason: 'DEFAULT' },
+      });
+      expect(changeHandler.mock.calls.map(([event]) => event.data)).toEqual([
+        {
+          flagKey: 'toggled',
+          flag: { flagKey: 'toggled', value: true, variationKey: 'on', reason: 'DEFAULT' },
+          previous: { flagKey: 'toggled', value: false, variationKey: 'off', reason: 'DEFAULT' },
+        },
+        {
+          flagKey: 'removed',
+          flag: undefined,
+          previous: { flagKey: 'removed', value: true, variationKey: 'on', reason: 'DEFAULT' },
+        },
+      ]);
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fetch all flags again after the context changes', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => createSuccessResponse({ flags: {}, version: 7 }),
+      });
+
+      client = new FlagKitClient({
+        sdkKey: 'test-sdk-key',
+        pollingInterval: 30000,
+        enableStreaming: false,
+      });
+
+      await client.initialize();
+      await client.updateContext({ userId: 'user-1' }, false);
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://localhost:3001/sdk/v1/client/test-sdk-key/flags',
+        expect.objectContaining({ method: 'POST' })
+      );
+    });
+  });
+
+  describe('Streaming', () => {
+    class MockWebSocket {
+      static instances: MockWebSocket[] = [];
+
+      onopen: (() => void) | null = null;
+      onmessage: ((event: { data: string }) => void) | null = null;
+      onerror: ((error: unknown) => void) | null = null;
+      onclose: (() => void) | null = null;
+
+      constructor(public url: string) {
+        MockWebSocket.instances.push(this);
+      }
+
+      close() {
+        this.onclose?.();
+      }
+
+      receive(message: unknown) {
+        this.onmessage?.({ data: JSON.stringify(message) });
+      }
+    }
+
+    beforeEach(() => {
+      MockWebSocket.instances = [];
+      vi.stubGlobal('WebSocket', MockWebSocket);
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () =>
+          createSuccessResponse({
+            flags: {'new-ui': { value: false, variationKey: 'off', reason: 'DEFAULT' }},
+          }),
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    const createStreamingClient = () =>
+      new FlagKitClient({
+        sdkKey: 'test-sdk-key',
+        pollingInterval: 0,
+        enableStreaming: true,
+        streamUrl: 'wss://flags.example.com',
+      });
+
+    it('should apply snapshots, updates and deletions', async () => {
+      client = createStreamingClient();
+      await client.initialize();
+
+      const socket = MockWebSocket.instances[0];
+      expect(socket.url).toBe('wss://flags.example.com/sdk/v1/client/test-sdk-key/stream');
+
+      socket.receive({
+        type: 'snapshot',
+        data: {
+          flags: {
+            'new-ui': { value: true, variationKey: 'on', reason: 'DEFAULT' },
+            theme: { value: 'dark', variationKey: 'dark', reason: 'DEFAULT' },
+          },
+        },
+      });
+      expect(client.getBooleanFlag('new-ui')).toBe(true);
+      expect(client.getFlag('theme')?.flagKey).toBe('theme');
+
+      socket.receive({
+        type: 'flag_update',
+        data: { flagKey: 'theme', value: 'light', variationKey: 'light', reason: 'DEFAULT' },
+      });
+      expect(client.getStringFlag('theme')).toBe('light');
+
+      socket.receive({ type: 'flag_delete', data: { flagKey: 'theme' } });
+      expect(client.getAllFlags()).not.toHaveProperty('theme');
+    });
+
+    it('should reopen the stream for a new context', async () => {
+      client = createStreamingClient();
+      await client.initialize();
+
+      await client.updateContext({ userId: 'user-1' });
+
+      expect(MockWebSocket.instances).toHaveLength(2);
+      expect(MockWebSocket.instances[1].url).toBe(
+        `wss://flags.example.com/sdk/v1/client/test-sdk-key/stream?context=${encodeURIComponent(
+          JSON.stringify({ userId: 'user-1' })
+        )}`
+      );
+    });
+
+    it('should stream Server-Sent Events from the API when configured', async () => {
+      const flagsResponse = {
+        ok: true,
+        json: async () => createSuccessResponse({ flags: {} }),
+      };
+      const events = new TextEncoder().encode(
+        'id: 1\nevent: patch\ndata: {"flagKey":"new-ui","value":true,"variationKey":"on","reason":"DEFAULT"}\n\n'
+      );
+      mockFetch.mockImplementation(async (url: string) =>
+        url.includes('/sse')
+          ? {
+              ok: true,
+              status: 200,
+              body: new ReadableStream({ start: (controller) => controller.enqueue(events) }),
+            }
+          : flagsResponse
+      );
+
+      client = new FlagKitClient({
+        sdkKey: 'test-sdk-key',
+        apiUrl: 'https://api.example.com',
+        pollingInterval: 0,
+        enableStreaming: true,
+        streamTransport: 'sse',
+      });
+      await client.initialize();
+
+      await vi.waitFor(() => expect(client.getBooleanFlag('new-ui')).toBe(true));
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://api.example.com/sdk/v1/client/test-sdk-key/sse',
+        expect.objectContaining({ headers: { Accept: 'text/event-stream' } })
+      );
+      expect(MockWebSocket.instances).toHaveLength(0);
+    });
   });
 
   describe('Client Lifecycle', () => {
     it('should close client and cleanup resources', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       client = new FlagKitClient({
@@ -593,7 +849,7 @@ describe('FlagKitClient', () => {
     it('should handle multiple close calls safely', async () => {
       mockFetch.mockResolvedValue({
         ok: true,
-        json: async () => createSuccessResponse({ flags: [] }),
+        json: async () => createSuccessResponse({ flags: {} }),
       });
 
       client = new FlagKitClient({
@@ -2,12 +2,17 @@ import type {
   FlagKitOptions,
   EvaluationContext,
   FlagEvaluation,
-  ApiResponse,
+  FlagEvaluationRecord,
+  FlagDeltas,
+  FlagChangeEvent,
   SdkEventType,
   EventListener,
   CacheEntry,
   SdkEvent,
+  StreamMessage,
 } from './types';
+import { FlagKitTransport } from './transport';
+import type { StreamHandlers } from './transport';
 
 /**
  * FlagKit JavaScript SDK Client
@@ -16,12 +21,14 @@ export class FlagKitClient {
   private options: Required<FlagKitOptions>;
   private flags: Map<string, FlagEvaluation> = new Map();
   private cache: Map<string, CacheEntry> = new Map();
-  private pollingTimer?: ReturnType<typeof setInterval>;
-  private websocket: WebSocket | null = null;
+  private transport: FlagKitTransport;
   private initialized = false;
   private eventListeners: Map<SdkEventType, Set<EventListener>> = new Map();
-  private fetchImpl: typeof fetch;
   private context?: EvaluationContext;
+  // ETag of the last flags response, sent back so unchanged flags aren't downloaded again
+  private flagsEtag: string | null = null;
+  // Config version of the environment the flags are at, later fetches only download changes
+  private flagsVersion: number | null = null;
 
   constructor(options: FlagKitOptions) {
     this.options = {
@@ -30,13 +37,19 @@ export class FlagKitClient {
       pollingInterval: options.pollingInterval ?? 30000,
       enableStreaming: options.enableStreaming ?? false,
       streamUrl: options.streamUrl || 'ws://localhost:3001',
+      streamTransport: options.streamTransport || 'websocket',
       timeout: options.timeout || 10000,
       enableCache: options.enableCache ?? true,
       fetch: options.fetch || globalThis.fetch,
       sdkVersion: options.sdkVersion || '0.1.0',
     };
 
-    this.fetchImpl = this.options.fetch.bind(globalThis);
+    this.transport = new FlagKitTransport({
+      apiUrl: this.options.apiUrl,
+      streamUrl: this.options.streamUrl,
+      fetch: this.options.fetch,
+      log: (...args) => this.log(...args),
+    });
   }
 
   /**
@@ -53,9 +66,9 @@ export class FlagKitClient {
         this.startPolling();
       }
 
-      // Connect WebSocket if enabled
+      // Connect stream if enabled
       if (this.options.enableStreaming) {
-        this.connectWebSocket();
+        this.connectStream();
       }
     } catch (error) {
       this.emit('error', error);
@@ -64,57 +77,128 @@ export class FlagKitClient {
   }
 
   /**
-   * Fetch all flags from the API
+   * Fetch flags from the API, evaluated against the current context if one is set.
+   * Once the config version is known only flags changed since then are fetched.
+   * Returns whether any flag changed.
    */
-  private async fetchFlags(): Promise<void> {
-    const url = `${this.options.apiUrl}/sdk/v1/client/${this.options.sdkKey}/flags`;
+  private async fetchFlags(): Promise<boolean> {
+    const path = `/sdk/v1/client/${this.options.sdkKey}/flags`;
+    const body = this.context ? { context: this.context } : undefined;
+
+    if (this.flagsVersion !== null) {
+      return this.fetchFlagDeltas(`${path}/delta?since=${this.flagsVersion}`, body);
+    }
 
-    this.log('Fetching flags from:', url);
+    this.log('Fetching flags from:', path);
 
-    const response = await this.fetchImpl(url);
+    const result = await this.transport.requestIfModified<{ flags: FlagEvaluationRecord; version?: number }>(
+      path,
+      'fetch flags',
+      body,
+      this.flagsEtag
+    );
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch flags: ${response.status} ${response.statusText}`);
+    if (!result) {
+      this.log('Flags not modified');
+      return false;
     }
 
-    const data = (await response.json()) as ApiResponse<{ flags: FlagEvaluation[] }>;
+    this.flagsEtag = result.etag;
+    this.flagsVersion = result.data.version ?? null;
+    const changed = this.replaceFlags(result.data.flags);
+    this.log('Fetched', this.flags.size, 'flags');
 
-    if (!data.success || !data.data) {
-      throw new Error(data.error?.message || 'Failed to fetch flags');
+    return changed;
+  }
+
+  /**
+   * Fetch and apply the flags changed since the last known config version
+   */
+  private async fetchFlagDeltas(path: string, body?: unknown): Promise<boolean> {
+    this.log('Fetching flag changes from:', path);
+
+    const result = await this.transport.requestIfModified<FlagDeltas>(
+      path,
+      'fetch flag changes',
+      body,
+      this.flagsEtag
+    );
+
+    if (!result) {
+      this.log('Flags not modified');
+      return false;
     }
 
-    // Convert array of flag evaluations to Map
-    this.flags.clear();
-    for (const flag of data.data.flags) {
-      this.flags.set(flag.flagKey, flag);
+    const { version, full, flags, deleted } = result.data;
+    this.flagsEtag = result.etag;
+    this.flagsVersion = version;
+
+    if (full) {
+      return this.replaceFlags(flags);
     }
-    this.log('Fetched', this.flags.size, 'flags');
+
+    const evaluations = toFlagEvaluations(flags);
+    let changed = false;
+    for (const flag of evaluations) {
+      changed = this.setFlag(flag.flagKey, flag) || changed;
+    }
+    for (const flagKey of deleted) {
+      changed = this.setFlag(flagKey, undefined) || changed;
+    }
+    this.log('Applied', evaluations.length, 'changed and', deleted.length, 'deleted flags');
+
+    return changed;
+  }
+
+  /**
+   * Replace all flags with a snapshot, returning whether any flag changed
+   */
+  private replaceFlags(flags: FlagEvaluationRecord): boolean {
+    const flagKeys = new Set(Object.keys(flags));
+    let changed = false;
+
+    for (const flagKey of [...this.flags.keys()]) {
+      if (!flagKeys.has(flagKey)) {
+        changed = this.setFlag(flagKey, undefined) || changed;
+      }
+    }
+    for (const flag of toFlagEvaluations(flags)) {
+      changed = this.setFlag(flag.flagKey, flag) || changed;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Set or delete a flag, emitting a change event once initialized if its evaluation changed
+   */
+  private setFlag(flagKey: string, flag: FlagEvaluation | undefined): boolean {
+    const previous = this.flags.get(flagKey);
+    if (JSON.stringify(previous) === JSON.stringify(flag)) {
+      return false;
+    }
+
+    if (flag) {
+      this.flags.set(flagKey, flag);
+    } else {
+      this.flags.delete(flagKey);
+    }
+
+    if (this.initialized) {
+      const event: FlagChangeEvent = { flagKey, flag, previous };
+      this.emit('change', event);
+    }
+
+    return true;
   }
 
   /**
    * Start polling for flag updates
    */
   private startPolling(): void {
-    this.log('Starting polling with interval:', this.options.pollingInterval, 'ms');
-
-    this.pollingTimer = setInterval(async () => {
+    this.transport.startPolling(this.options.pollingInterval, async () => {
       try {
-        // Create a snapshot of current flags
-        const oldFlags = new Map(this.flags);
-        await this.fetchFlags();
-
-        // Check if flags changed by comparing Map entries
-        let hasChanges = oldFlags.size !== this.flags.size;
-        if (!hasChanges) {
-          for (const [key, value] of this.flags) {
-            if (JSON.stringify(oldFlags.get(key)) !== JSON.stringify(value)) {
-              hasChanges = true;
-              break;
-            }
-          }
-        }
-
-        if (hasChanges) {
+        if (await this.fetchFlags()) {
           this.log('Flags updated');
           this.emit('update', this.flags);
         }
@@ -122,78 +206,45 @@ export class FlagKitClient {
         this.log('Polling error:', error);
         this.emit('error', error);
       }
-    }, this.options.pollingInterval);
-  }
-
-  /**
-   * Stop polling
-   */
-  private stopPolling(): void {
-    if (this.pollingTimer) {
-      clearInterval(this.pollingTimer);
-      this.pollingTimer = undefined;
-      this.log('Polling stopped');
-    }
+    });
   }
 
   /**
-   * Connect to WebSocket for real-time updates
+   * Connect to the flag stream over WebSocket or SSE for real-time updates
    */
-  private connectWebSocket(): void {
-    if (typeof WebSocket === 'undefined') {
-      this.log('WebSocket not available in this environment');
-      return;
-    }
-
-    const wsUrl = `${this.options.streamUrl}/sdk/v1/client/${this.options.sdkKey}/stream`;
-    this.log('Connecting to WebSocket:', wsUrl);
-
-    try {
-      this.websocket = new WebSocket(wsUrl);
-
-      this.websocket.onopen = () => {
-        this.log('WebSocket connected');
-        this.emit('connection', { connected: true });
-      };
-
-      this.websocket.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          this.log('WebSocket message received:', message);
-
-          if (message.type === 'flag_update') {
-            // Update the specific flag
-            if (message.data && message.data.flagKey) {
-              this.flags.set(message.data.flagKey, message.data);
-              this.emit('update', this.flags);
-            }
+  private connectStream(): void {
+    // Streamed flags are evaluated for the context the stream was opened with
+    const query = this.context ? `?context=${encodeURIComponent(JSON.stringify(this.context))}` : '';
+    const basePath = `/sdk/v1/client/${this.options.sdkKey}`;
+    const handlers: StreamHandlers = {
+      onOpen: () => this.emit('connection', { connected: true }),
+      onMessage: (message) => {
+        const { type, data } = message as StreamMessage;
+
+        if (type === 'snapshot') {
+          // Replace all flags with the current state sent on connect
+          this.replaceFlags(data.flags);
+          this.emit('update', this.flags);
+        } else if (type === 'flag_update') {
+          // Update the specific flag
+          if (data && data.flagKey) {
+            this.setFlag(data.flagKey, data);
+            this.emit('update', this.flags);
+          }
+        } else if (type === 'flag_delete') {
+          if (this.setFlag(data.flagKey, undefined)) {
+            this.emit('update', this.flags);
           }
-        } catch (error) {
-          this.log('WebSocket message parse error:', error);
         }
-      };
+      },
+      onError: (error) => this.emit('error', error),
+      onClose: () => this.emit('connection', { connected: false }),
+    };
 
-      this.websocket.onerror = (error) => {
-        this.log('WebSocket error:', error);
-        this.emit('error', error);
-      };
-
-      this.websocket.onclose = () => {
-        this.log('WebSocket disconnected');
-        this.emit('connection', { connected: false });
-
-        // Attempt to reconnect after a delay if still initialized
-        if (this.initialized && this.options.enableStreaming) {
-          setTimeout(() => {
-            if (this.initialized) {
-              this.connectWebSocket();
-            }
-          }, 5000);
-        }
-      };
-    } catch (error) {
-      this.log('WebSocket connection error:', error);
-      this.emit('error', error);
+    if (this.options.streamTransport === 'sse') {
+      this.transport.connectEventStream(`${basePath}/sse${query}`, handlers);
+    } else {
+      this.transport.connectStream(`${basePath}/stream${query}`, handlers);
     }
   }
 
@@ -293,12 +344,20 @@ export class FlagKitClient {
    */
   async updateContext(context: EvaluationContext, reevaluate = true): Promise<void> {
     this.context = context;
+    // Changes since the last version were evaluated for the previous context
+    this.flagsVersion = null;
     this.log('Context updated:', context);
 
     if (reevaluate && this.initialized) {
       await this.fetchFlags();
       this.emit('update', this.flags);
     }
+
+    // Reopen the stream so updates are evaluated for the new context
+    if (this.initialized && this.options.enableStreaming) {
+      this.transport.closeStream();
+      this.connectStream();
+    }
   }
 
   /**
@@ -312,33 +371,17 @@ export class FlagKitClient {
    * Evaluate a specific flag with custom context
    */
   async evaluateFlag(flagKey: string, context?: EvaluationContext): Promise<FlagEvaluation | null> {
-    const url = `${this.options.apiUrl}/sdk/v1/client/${this.options.sdkKey}/evaluate`;
-
     this.log('Evaluating flag:', flagKey, 'with context:', context || this.context);
 
     try {
-      const response = await this.fetchImpl(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
+      return await this.transport.request<FlagEvaluation>(
+        `/sdk/v1/client/${this.options.sdkKey}/evaluate`,
+        'evaluate flag',
+        {
           flagKey,
           context: context || this.context,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to evaluate flag: ${response.status} ${response.statusText}`);
-      }
-
-      const data = (await response.json()) as ApiResponse<FlagEvaluation>;
-
-      if (!data.success || !data.data) {
-        throw new Error(data.error?.message || 'Failed to evaluate flag');
-      }
-
-      return data.data;
+        }
+      );
     } catch (error) {
       this.log('Flag evaluation error:', error);
       return null;
@@ -385,17 +428,13 @@ export class FlagKitClient {
    * Clean up and close the SDK
    */
   close(): void {
-    this.stopPolling();
+    this.transport.close();
     this.flags.clear();
+    this.flagsEtag = null;
+    this.flagsVersion = null;
     this.initialized = false;
     this.eventListeners.clear();
 
-    // Close WebSocket if open
-    if (this.websocket) {
-      this.websocket.close();
-      this.websocket = null;
-    }
-
     this.log('SDK closed');
   }
 
@@ -426,3 +465,10 @@ export class FlagKitClient {
     }
   }
 }
+
+/**
+ * Add their flag keys to evaluations keyed by flag key, as the API sends them
+ */
+function toFlagEvaluations(flags: FlagEvaluationRecord): FlagEvaluation[] {
+  return Object.entries(flags).map(([flagKey, flag]) => ({ ...flag, flagKey }));
+}
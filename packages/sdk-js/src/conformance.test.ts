@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { loadConformanceSuites } from '@flagkit/evaluator/conformance';
+import { createFlagResolver } from './index';
+
+describe('local evaluation conformance', () => {
+  for (const suite of loadConformanceSuites()) {
+    describe(suite.name, () => {
+      for (const testCase of suite.cases) {
+        it(testCase.name, () => {
+          const resolveFlag = createFlagResolver(suite.flags, testCase.context, suite.segments);
+
+          expect(resolveFlag(testCase.flagKey)).toEqual({
+            key: testCase.flagKey,
+            ...testCase.expected,
+          });
+        });
+      }
+    });
+  }
+});
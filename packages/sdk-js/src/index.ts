@@ -26,16 +26,43 @@
  */
 
 export { FlagKitClient } from './client';
+export { FlagKitTransport } from './transport';
+export type { TransportOptions, StreamHandlers } from './transport';
 export type {
   FlagKitOptions,
   EvaluationContext,
+  KindContext,
   FlagEvaluation,
+  FlagEvaluationRecord,
   FlagValue,
   Flag,
   FlagVariation,
   ApiResponse,
   SdkEventType,
   SdkEvent,
+  FlagChangeEvent,
+  FlagDeltas,
   EventListener,
   CacheEntry,
+  StreamMessage,
+  StreamTransport,
 } from './types';
+
+// Local evaluation against flag definitions, identical to the API's evaluation
+export {
+  evaluateFlag,
+  evaluateAllFlags,
+  createFlagResolver,
+  EvaluationReasonKind,
+  EvaluationErrorKind,
+} from '@flagkit/evaluator';
+export type {
+  FlagDefinition,
+  FlagConfigDefinition,
+  FlagVariationDefinition,
+  SegmentMap,
+  EvaluationReason,
+  EvaluateFlagOptions,
+  EvaluationContext as LocalEvaluationContext,
+  FlagEvaluation as LocalFlagEvaluation,
+} from '@flagkit/evaluator';
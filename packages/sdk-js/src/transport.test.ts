@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FlagKitTransport } from './transport';
+
+class MockWebSocket {
+  static instances: MockWebSocket[] = [];
+
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  close() {
+    this.onclose?.();
+  }
+}
+
+describe('FlagKitTransport', () => {
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let transport: FlagKitTransport;
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+    MockWebSocket.instances = [];
+    transport = new FlagKitTransport({
+      apiUrl: 'http://localhost:3001',
+      streamUrl: 'ws://localhost:3001',
+      fetch: mockFetch as unknown as typeof fetch,
+      WebSocket: MockWebSocket as unknown as typeof WebSocket,
+    });
+  });
+
+  afterEach(() => {
+    transport.close();
+    vi.useRealTimers();
+  });
+
+  describe('request', () => {
+    it('should send a GET without a body and unwrap the response data', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { flags: {} } }),
+      });
+
+      const data = await transport.request('/sdk/v1/server/key/rules', 'fetch rules');
+
+      expect(data).toEqual({ flags: {} });
+      expect(mockFetch).toHaveBeenCalledWith('http://localhost:3001/sdk/v1/server/key/rules');
+    });
+
+    it('should send a JSON POST with a body', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: true, data: { flags: {} } }),
+      });
+
+      await transport.request('/sdk/v1/client/key/flags', 'fetch flags', { context: {} });
+
+      expect(mockFetch).toHaveBeenCalledWith('http://localhost:3001/sdk/v1/client/key/flags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ context: {} }),
+      });
+    });
+
+    it('should name the action when the request fails', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' });
+
+      await expect(transport.request('/path', 'fetch rules')).rejects.toThrow(
+        'Failed to fetch rules: 401 Unauthorized'
+      );
+    });
+
+    it('should throw the API error message of an unsuccessful response', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ success: false, error: { message: 'Invalid server SDK key' } }),
+      });
+
+      await expect(transport.request('/path', 'fetch rules')).rejects.toThrow(
+        'Invalid server SDK key'
+      );
+    });
+  });
+
+  describe('requestIfModified', () => {
+    it('should return the data with its ETag', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"1-abc"' }),
+        json: async () => ({ success: true, data: { flags: {} } }),
+      });
+
+      const result = await transport.requestIfModified('/sdk/v1/client/key/flags', 'fetch flags');
+
+      expect(result).toEqual({ data: { flags: {} }, etag: '"1-abc"' });
+      expect(mockFetch).toHaveBeenCalledWith('http://localhost:3001/sdk/v1/client/key/flags');
+    });
+
+    it('should send the ETag as If-None-Match and resolve to null when not modified', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 304, headers: new Headers() });
+
+      const result = await transport.requestIfModified(
+        '/sdk/v1/client/key/flags',
+        'fetch flags',
+        { context: { userId: 'user-1' } },
+        '"1-abc"'
+      );
+
+      expect(result).toBeNull();
+      expect(mockFetch).toHaveBeenCalledWith('http://localhost:3001/sdk/v1/client/key/flags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'If-None-Match': '"1-abc"' },
+        body: JSON.stringify({ context: { userId: 'user-1' } }),
+      });
+    });
+  });
+
+  describe('polling', () => {
+    it('should poll at the interval until stopped', async () => {
+      vi.useFakeTimers();
+      const poll = vi.fn().mockResolvedValue(undefined);
+
+      transport.startPolling(1000, poll);
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(poll).toHaveBeenCalledTimes(3);
+
+      transport.stopPolling();
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(poll).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('streaming', () => {
+    it('should pass parsed messages to the handler', () => {
+      const onMessage = vi.fn();
+
+      transport.connectStream('/sdk/v1/server/key/stream', { onMessage });
+      const socket = MockWebSocket.instances[0];
+      socket.onmessage?.({ data: JSON.stringify({ type: 'flag_update' }) });
+      socket.onmessage?.({ data: 'not json' });
+
+      expect(socket.url).toBe('ws://localhost:3001/sdk/v1/server/key/stream');
+      expect(onMessage).toHaveBeenCalledTimes(1);
+      expect(onMessage).toHaveBeenCalledWith({ type: 'flag_update' });
+    });
+
+    it('should reconnect after the connection drops', async () => {
+      vi.useFakeTimers();
+      const onClose = vi.fn();
+
+      transport.connectStream('/stream', { onMessage: vi.fn(), onClose }, 1000);
+      MockWebSocket.instances[0].onclose?.();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(MockWebSocket.instances).toHaveLength(2);
+    });
+
+    it('should not reconnect after the stream is closed', async () => {
+      vi.useFakeTimers();
+
+      transport.connectStream('/stream', { onMessage: vi.fn() }, 1000);
+      transport.closeStream();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(MockWebSocket.instances).toHaveLength(1);
+    });
+  });
+
+  describe('event streams', () => {
+    /**
+     * Respond to a fetch with an event stream of the given chunks, kept open
+     * until the returned end function is called
+     */
+    function mockEventStream(chunks: string[]) {
+      let end = () => {};
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          const encoder = new TextEncoder();
+          for (const chunk of chunks) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+          end = () => controller.close();
+        },
+      });
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, body });
+      return () => end();
+    }
+
+    it('should pass events to the handler as stream messages', async () => {
+      const onMessage = vi.fn();
+      mockEventStream([
+        'id: 1\nevent: put\ndata: {"flags":{}}\n\n:ping\n\nid: 2\nevent: pat',
+        'ch\ndata: {"flagKey":"new-ui"}\n\nid: 3\nevent: delete\ndata: {"flagKey":"old-ui"}\n\n',
+      ]);
+
+      transport.connectEventStream('/sdk/v1/client/key/sse', { onMessage });
+      await vi.waitFor(() => expect(onMessage).toHaveBeenCalledTimes(3));
+
+      expect(mockFetch).toHaveBeenCalledWith('http://localhost:3001/sdk/v1/client/key/sse', {
+        headers: { Accept: 'text/event-stream' },
+        signal: expect.any(AbortSignal),
+      });
+      expect(onMessage.mock.calls.map(([message]) => message)).toEqual([
+        { type: 'snapshot', data: { flags: {} } },
+        { type: 'flag_update', data: { flagKey: 'new-ui' } },
+        { type: 'flag_delete', data: { flagKey: 'old-ui' } },
+      ]);
+    });
+
+    it('should resume from the last event after the stream drops', async () => {
+      vi.useFakeTimers();
+      const onClose = vi.fn();
+      const end = mockEventStream(['id: 7\nevent: put\ndata: {"flags":{}}\n\n']);
+      mockEventStream([]);
+
+      transport.connectEventStream('/sse', { onMessage: vi.fn(), onClose }, 1000);
+      await vi.advanceTimersByTimeAsync(0);
+      end();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].headers).toEqual({
+        Accept: 'text/event-stream',
+        'Last-Event-ID': '7',
+      });
+    });
+
+    it('should reconnect when the stream is refused', async () => {
+      vi.useFakeTimers();
+      const onError = vi.fn();
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests' });
+      mockEventStream([]);
+
+      transport.connectEventStream('/sse', { onMessage: vi.fn(), onError }, 1000);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(onError).toHaveBeenCalledWith(
+        new Error('Failed to open event stream: 429 Too Many Requests')
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should abort the stream without reconnecting when closed', async () => {
+      vi.useFakeTimers();
+      mockEventStream([]);
+
+      transport.connectEventStream('/sse', { onMessage: vi.fn() }, 1000);
+      await vi.advanceTimersByTimeAsync(0);
+      transport.closeStream();
+      await vi.advanceTimersByTimeAsync(5000);
+
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
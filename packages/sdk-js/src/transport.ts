@@ -0,0 +1,370 @@
+import type { ApiResponse } from './types';
+
+/**
+ * Transport configuration
+ */
+export interface TransportOptions {
+  /** API base URL */
+  apiUrl: string;
+
+  /** WebSocket base URL */
+  streamUrl: string;
+
+  /** Fetch implementation */
+  fetch: typeof fetch;
+
+  /** WebSocket implementation (default: globalThis.WebSocket) */
+  WebSocket?: typeof WebSocket;
+
+  /** Debug logger */
+  log?: (...args: unknown[]) => void;
+}
+
+/**
+ * Callbacks for a streaming connection
+ */
+export interface StreamHandlers {
+  onOpen?: () => void;
+  onMessage: (message: unknown) => void;
+  onError?: (error: unknown) => void;
+  onClose?: () => void;
+}
+
+// Server-Sent Events carry the same messages as the WebSocket stream under shorter names
+const SSE_MESSAGE_TYPES: Record<string, string> = {
+  put: 'snapshot',
+  patch: 'flag_update',
+  delete: 'flag_delete',
+};
+
+/**
+ * HTTP requests, polling and streaming shared by the FlagKit SDK clients
+ */
+export class FlagKitTransport {
+  private options: TransportOptions;
+  private fetchImpl: typeof fetch;
+  private pollingTimer?: ReturnType<typeof setInterval>;
+  private websocket: WebSocket | null = null;
+  private eventStream: AbortController | null = null;
+  private lastEventId: string | null = null;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private streaming = false;
+
+  constructor(options: TransportOptions) {
+    this.options = options;
+    this.fetchImpl = options.fetch.bind(globalThis);
+  }
+
+  /**
+   * Call an SDK endpoint and unwrap its response. Requests with a body are
+   * sent as JSON POSTs, others as GETs. The action names the request in errors.
+   */
+  async request<T>(path: string, action: string, body?: unknown): Promise<T> {
+    const response = await this.send(path, body);
+    return this.unwrap<T>(response, action);
+  }
+
+  /**
+   * Call an SDK endpoint like request, sending the ETag of the previous response as
+   * If-None-Match. Resolves to null without reading the body on 304 Not Modified.
+   */
+  async requestIfModified<T>(
+    path: string,
+    action: string,
+    body?: unknown,
+    etag?: string | null
+  ): Promise<{ data: T; etag: string | null } | null> {
+    const response = await this.send(path, body, etag ? { 'If-None-Match': etag } : {});
+
+    if (response.status === 304) {
+      return null;
+    }
+
+    return {
+      data: await this.unwrap<T>(response, action),
+      etag: response.headers?.get('ETag') ?? null,
+    };
+  }
+
+  /**
+   * Send a GET without a body, or a JSON POST with one
+   */
+  private async send(
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = `${this.options.apiUrl}${path}`;
+
+    if (body === undefined) {
+      return Object.keys(headers).length > 0
+        ? this.fetchImpl(url, { headers })
+        : this.fetchImpl(url);
+    }
+
+    return this.fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  private async unwrap<T>(response: Response, action: string): Promise<T> {
+    if (!response.ok) {
+      throw new Error(`Failed to ${action}: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as ApiResponse<T>;
+
+    if (!data.success || !data.data) {
+      throw new Error(data.error?.message || `Failed to ${action}`);
+    }
+
+    return data.data;
+  }
+
+  /**
+   * Run a poll at a fixed interval until polling is stopped
+   */
+  startPolling(intervalMs: number, poll: () => Promise<void>): void {
+    this.stopPolling();
+    this.log('Starting polling with interval:', intervalMs, 'ms');
+    this.pollingTimer = setInterval(poll, intervalMs);
+  }
+
+  /**
+   * Stop polling
+   */
+  stopPolling(): void {
+    if (this.pollingTimer) {
+      clearInterval(this.pollingTimer);
+      this.pollingTimer = undefined;
+      this.log('Polling stopped');
+    }
+  }
+
+  /**
+   * Open a WebSocket connection, reconnecting after a delay whenever it
+   * drops until the stream is closed
+   */
+  connectStream(path: string, handlers: StreamHandlers, reconnectDelayMs = 5000): void {
+    const WebSocketImpl = this.options.WebSocket ?? globalThis.WebSocket;
+    if (typeof WebSocketImpl === 'undefined') {
+      this.log('WebSocket not available in this environment');
+      return;
+    }
+
+    const wsUrl = `${this.options.streamUrl}${path}`;
+    this.log('Connecting to WebSocket:', wsUrl);
+    this.streaming = true;
+
+    try {
+      const websocket = new WebSocketImpl(wsUrl);
+      this.websocket = websocket;
+
+      this.websocket.onopen = () => {
+        this.log('WebSocket connected');
+        handlers.onOpen?.();
+      };
+
+      this.websocket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data);
+          this.log('WebSocket message received:', message);
+          handlers.onMessage(message);
+        } catch (error) {
+          this.log('WebSocket message parse error:', error);
+        }
+      };
+
+      this.websocket.onerror = (error) => {
+        this.log('WebSocket error:', error);
+        handlers.onError?.(error);
+      };
+
+      this.websocket.onclose = () => {
+        this.log('WebSocket disconnected');
+        handlers.onClose?.();
+
+        // Attempt to reconnect after a delay if the stream wasn't closed on purpose
+        if (this.websocket === websocket) {
+          this.reconnect(() => this.connectStream(path, handlers, reconnectDelayMs), reconnectDelayMs);
+        }
+      };
+    } catch (error) {
+      this.log('WebSocket connection error:', error);
+      handlers.onError?.(error);
+    }
+  }
+
+  /**
+   * Open a Server-Sent Events stream over fetch, which passes proxies that drop
+   * WebSockets and works in Node.js without a WebSocket global. Dropped streams
+   * reconnect after a delay, sending Last-Event-ID to only receive what they missed.
+   */
+  connectEventStream(path: string, handlers: StreamHandlers, reconnectDelayMs = 5000): void {
+    const url = `${this.options.apiUrl}${path}`;
+    this.log('Connecting to event stream:', url);
+    this.streaming = true;
+
+    const eventStream = new AbortController();
+    this.eventStream = eventStream;
+
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+    }
+
+    let opened = false;
+    this.fetchImpl(url, { headers, signal: eventStream.signal })
+      .then(async (response) => {
+        if (!response.ok || !response.body) {
+          throw new Error(`Failed to open event stream: ${response.status} ${response.statusText}`);
+        }
+
+        this.log('Event stream connected');
+        opened = true;
+        handlers.onOpen?.();
+        await this.readEventStream(response.body, handlers);
+      })
+      .catch((error) => {
+        if (!eventStream.signal.aborted) {
+          this.log('Event stream error:', error);
+          handlers.onError?.(error);
+        }
+      })
+      .finally(() => {
+        if (opened) {
+          this.log('Event stream disconnected');
+          handlers.onClose?.();
+        }
+
+        if (this.eventStream === eventStream) {
+          this.reconnect(() => this.connectEventStream(path, handlers, reconnectDelayMs), reconnectDelayMs);
+        }
+      });
+  }
+
+  /**
+   * Dispatch the events of an event stream until it ends
+   */
+  private async readEventStream(
+    body: ReadableStream<Uint8Array>,
+    handlers: StreamHandlers
+  ): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventType = 'message';
+    let data: string[] = [];
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      // The last line is incomplete until the next chunk ends it
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        // A blank line ends an event, lines starting with a colon are comments such as heartbeats
+        if (line === '') {
+          if (data.length > 0) {
+            this.dispatchEvent(eventType, data.join('\n'), handlers);
+          }
+          eventType = 'message';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) {
+          continue;
+        }
+
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const fieldValue = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        if (field === 'event') {
+          eventType = fieldValue;
+        } else if (field === 'data') {
+          data.push(fieldValue);
+        } else if (field === 'id') {
+          this.lastEventId = fieldValue;
+        }
+      }
+    }
+  }
+
+  private dispatchEvent(eventType: string, data: string, handlers: StreamHandlers): void {
+    try {
+      const message = {
+        type: SSE_MESSAGE_TYPES[eventType] ?? eventType,
+        data: JSON.parse(data),
+      };
+      this.log('Event stream message received:', message);
+      handlers.onMessage(message);
+    } catch (error) {
+      this.log('Event stream message parse error:', error);
+    }
+  }
+
+  /**
+   * Reconnect a dropped stream after a delay unless streaming was stopped meanwhile
+   */
+  private reconnect(connect: () => void, delayMs: number): void {
+    if (!this.streaming) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      if (this.streaming) {
+        connect();
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Close the stream without reconnecting. A stream opened afterwards starts
+   * with a new snapshot rather than resuming.
+   */
+  closeStream(): void {
+    this.streaming = false;
+    this.lastEventId = null;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    if (this.websocket) {
+      // Clear the socket first so its close handler doesn't reconnect
+      const websocket = this.websocket;
+      this.websocket = null;
+      websocket.close();
+    }
+
+    if (this.eventStream) {
+      const eventStream = this.eventStream;
+      this.eventStream = null;
+      eventStream.abort();
+    }
+  }
+
+  /**
+   * Stop polling and streaming
+   */
+  close(): void {
+    this.stopPolling();
+    this.closeStream();
+  }
+
+  private log(...args: unknown[]): void {
+    this.options.log?.(...args);
+  }
+}
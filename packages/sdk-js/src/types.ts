@@ -16,6 +16,12 @@ export interface FlagKitOptions {
   
   /** WebSocket URL (default: wss://api.flagkit.io) */
   streamUrl?: string;
+
+  /**
+   * How flags are streamed: 'websocket' connects to streamUrl, 'sse' reads Server-Sent
+   * Events from apiUrl with fetch, for proxies that drop WebSockets (default: 'websocket')
+   */
+  streamTransport?: StreamTransport;
   
   /** Request timeout in milliseconds (default: 10000ms = 10s) */
   timeout?: number;
@@ -30,9 +36,22 @@ export interface FlagKitOptions {
   sdkVersion?: string;
 }
 
+/**
+ * Transport of flag streams
+ */
+export type StreamTransport = 'websocket' | 'sse';
+
 /**
  * Evaluation context for targeting
  */
+export interface KindContext {
+  /** Key of the kind, e.g. the organization ID */
+  key: string;
+
+  /** Attributes of the kind for targeting rules */
+  attributes?: Record<string, unknown>;
+}
+
 export interface EvaluationContext {
   /** User ID for targeting */
   userId?: string;
@@ -42,7 +61,22 @@ export interface EvaluationContext {
   
   /** User attributes for targeting rules */
   attributes?: Record<string, string | number | boolean>;
-  
+
+  /** Session ID, used as the bucketing key when there is no user */
+  sessionId?: string;
+
+  /** User kind, takes precedence over userId and attributes */
+  user?: KindContext;
+
+  /** Organization kind, targeted with attributes like organization.plan */
+  organization?: KindContext;
+
+  /** Device kind, targeted with attributes like device.platform */
+  device?: KindContext;
+
+  /** Request kind, targeted with attributes like request.ip */
+  request?: KindContext;
+
   /** Custom properties */
   [key: string]: unknown;
 }
@@ -138,12 +172,40 @@ export interface ApiResponse<T = unknown> {
   };
 }
 
+/**
+ * Flag evaluations keyed by flag key, as flags responses, deltas and stream
+ * snapshots send them
+ */
+export type FlagEvaluationRecord = Record<string, Omit<FlagEvaluation, 'flagKey'>>;
+
+/**
+ * Message of a client flag stream: a snapshot of every flag on connect,
+ * then changed and deleted flags. SSE streams send them as put, patch and
+ * delete events.
+ */
+export type StreamMessage =
+  | { type: 'snapshot'; data: { flags: FlagEvaluationRecord } }
+  | { type: 'flag_update'; data: FlagEvaluation }
+  | { type: 'flag_delete'; data: { flagKey: string } };
+
+/**
+ * Flags changed since a config version of the environment. Full responses are
+ * snapshots that replace every flag, and list no deleted flags.
+ */
+export interface FlagDeltas {
+  version: number;
+  full: boolean;
+  flags: FlagEvaluationRecord;
+  deleted: string[];
+}
+
 /**
  * SDK Event types
  */
 export type SdkEventType = 
   | 'ready'           // SDK initialized and flags loaded
   | 'update'          // Flags updated (from polling or streaming)
+  | 'change'          // A single flag changed or was deleted
   | 'error'           // Error occurred
   | 'connection'      // WebSocket connection state changed
   | 'evaluation';     // Flag evaluated
@@ -157,6 +219,15 @@ export interface SdkEvent {
   data?: unknown;
 }
 
+/**
+ * Data of 'change' events, without `flag` when the flag was deleted
+ */
+export interface FlagChangeEvent {
+  flagKey: string;
+  flag?: FlagEvaluation;
+  previous?: FlagEvaluation;
+}
+
 /**
  * Event listener callback
  */
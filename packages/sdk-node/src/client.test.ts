@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { loadConformanceSuites } from '@flagkit/evaluator/conformance';
+import { EvaluationErrorKind, EvaluationReasonKind } from '@flagkit/sdk-js';
+import type { FlagDefinition } from '@flagkit/sdk-js';
+import { FlagKitServerClient } from './client';
+import type { Ruleset } from './types';
+
+const createRuleset = (flags: FlagDefinition[], segments: Ruleset['segments'] = {}): Ruleset => ({
+  flags,
+  segments,
+  environment: { id: 'env-1', name: 'Production', key: 'prod' },
+});
+
+const createRulesResponse = (ruleset: Ruleset) => ({
+  ok: true,
+  json: async () => ({ success: true, data: ruleset }),
+});
+
+const booleanFlag = (key: string, enabled: boolean): FlagDefinition => ({
+  key,
+  variations: [
+    { key: 'true', value: true },
+    { key: 'false', value: false },
+  ],
+  config: {
+    enabled,
+    defaultVariationKey: 'true',
+    fallbackVariationKey: 'false',
+    rolloutPercentage: null,
+  },
+});
+
+const checkoutFlag: FlagDefinition = {
+  key: 'checkout',
+  variations: [
+    { key: 'control', value: 'control' },
+    { key: 'treatment', value: 'treatment' },
+  ],
+  config: {
+    enabled: true,
+    defaultVariationKey: 'control',
+    fallbackVariationKey: 'control',
+    rolloutPercentage: null,
+    targetingRules: [
+      {
+        id: 'pro-users',
+        conditions: [{ attribute: 'plan', operator: 'equals', value: 'pro' }],
+        conditionLogic: 'AND',
+        variationKey: 'treatment',
+      },
+    ],
+  },
+};
+
+class MockWebSocket {
+  static instances: MockWebSocket[] = [];
+
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  close() {
+    this.onclose?.();
+  }
+}
+
+describe('FlagKitServerClient', () => {
+  let client: FlagKitServerClient;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const createClient = (options: Partial<ConstructorParameters<typeof FlagKitServerClient>[0]> = {}) =>
+    new FlagKitServerClient({
+      sdkKey: 'server-sdk-key',
+      pollingInterval: 0,
+      fetch: mockFetch as unknown as typeof fetch,
+      ...options,
+    });
+
+  beforeEach(() => {
+    mockFetch = vi.fn();
+    MockWebSocket.instances = [];
+  });
+
+  afterEach(() => {
+    client?.close();
+    vi.useRealTimers();
+  });
+
+  describe('Initialization', () => {
+    it('should download the ruleset for the server SDK key', async () => {
+      mockFetch.mockResolvedValueOnce(createRulesResponse(createRuleset([checkoutFlag])));
+      client = createClient({ apiUrl: 'https://flags.example.com' });
+
+      const readyHandler = vi.fn();
+      client.on('ready', readyHandler);
+      await client.initialize();
+
+      expect(client.isInitialized()).toBe(true);
+      expect(readyHandler).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://flags.example.com/sdk/v1/server/server-sdk-key/rules'
+      );
+    });
+
+    it('should reject and emit an error when the rules cannot be downloaded', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401, statusText: 'Unauthorized' });
+      client = createClient();
+
+      const errorHandler = vi.fn();
+      client.on('error', errorHandler);
+
+      await expect(client.initialize()).rejects.toThrow('Failed to fetch rules: 401 Unauthorized');
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+      expect(client.isInitialized()).toBe(false);
+    });
+  });
+
+  describe('variation', () => {
+    beforeEach(async () => {
+      mockFetch.mockResolvedValueOnce(
+        createRulesResponse(createRuleset([checkoutFlag, booleanFlag('new-ui', true)]))
+      );
+      client = createClient();
+      await client.initialize();
+    });
+
+    it('should evaluate each context locally', () => {
+      expect(client.variation('checkout', { userId: 'user-1', attributes: { plan: 'pro' } }, 'none')).toBe(
+        'treatment'
+      );
+      expect(client.variation('checkout', { userId: 'user-2', attributes: { plan: 'free' } }, 'none')).toBe(
+        'control'
+      );
+      expect(client.variation('new-ui', { userId: 'user-3' }, false)).toBe(true);
+
+      // Only the initial ruleset download hits the API
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should explain the result', () => {
+      expect(
+        client.variationDetail('checkout', { userId: 'user-1', attributes: { plan: 'pro' } }, 'none')
+      ).toEqual({
+        value: 'treatment',
+        variationKey: 'treatment',
+        reason: { kind: EvaluationReasonKind.RULE_MATCH, ruleId: 'pro-users', ruleIndex: 0 },
+      });
+    });
+
+    it('should return the default for unknown flags', () => {
+      expect(client.variationDetail('missing', { userId: 'user-1' }, 'fallback')).toEqual({
+        value: 'fallback',
+        variationKey: null,
+        reason: { kind: EvaluationReasonKind.ERROR, errorKind: EvaluationErrorKind.FLAG_NOT_FOUND },
+      });
+    });
+
+    it('should return the default when the value has another type', () => {
+      expect(client.variationDetail('checkout', { userId: 'user-1' }, 42)).toEqual({
+        value: 42,
+        variationKey: null,
+        reason: { kind: EvaluationReasonKind.ERROR, errorKind: EvaluationErrorKind.WRONG_TYPE },
+      });
+    });
+
+    it('should evaluate every flag for a context', () => {
+      const flags = client.allFlags({ userId: 'user-1', attributes: { plan: 'pro' } });
+
+      expect(Object.keys(flags)).toEqual(['checkout', 'new-ui']);
+      expect(flags.checkout.value).toBe('treatment');
+      expect(flags['new-ui'].value).toBe(true);
+    });
+  });
+
+  it('should return the default before the ruleset is loaded', () => {
+    client = createClient();
+
+    expect(client.variationDetail('checkout', { userId: 'user-1' }, 'none')).toEqual({
+      value: 'none',
+      variationKey: null,
+      reason: { kind: EvaluationReasonKind.ERROR, errorKind: EvaluationErrorKind.CLIENT_NOT_READY },
+    });
+    expect(() => client.allFlags({ userId: 'user-1' })).toThrow('not initialized');
+  });
+
+  describe('Keeping the ruleset fresh', () => {
+    it('should poll for ruleset changes and emit an update when it changes', async () => {
+      vi.useFakeTimers();
+      mockFetch
+        .mockResolvedValueOnce(createRulesResponse(createRuleset([booleanFlag('new-ui', true)])))
+        .mockResolvedValueOnce(createRulesResponse(createRuleset([booleanFlag('new-ui', true)])))
+        .mockResolvedValueOnce(createRulesResponse(createRuleset([booleanFlag('new-ui', false)])));
+
+      client = createClient({ pollingInterval: 30000 });
+      const updateHandler = vi.fn();
+      client.on('update', updateHandler);
+      await client.initialize();
+
+      // Unchanged ruleset
+      await vi.advanceTimersByTimeAsync(30000);
+      expect(updateHandler).not.toHaveBeenCalled();
+      expect(client.variation('new-ui', { userId: 'user-1' }, true)).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(30000);
+      expect(updateHandler).toHaveBeenCalledTimes(1);
+      expect(client.variation('new-ui', { userId: 'user-1' }, true)).toBe(false);
+    });
+
+    it('should keep serving the last ruleset when a refresh fails', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createRulesResponse(createRuleset([checkoutFlag])))
+        .mockRejectedValueOnce(new Error('Network error'));
+
+      client = createClient();
+      const errorHandler = vi.fn();
+      client.on('error', errorHandler);
+      await client.initialize();
+      await client.refresh();
+
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+      expect(client.variation('checkout', { userId: 'user-1' }, 'none')).toBe('control');
+    });
+
+    it('should merge refreshes requested while one is in flight', async () => {
+      mockFetch.mockResolvedValueOnce(createRulesResponse(createRuleset([booleanFlag('new-ui', true)])));
+      client = createClient();
+      await client.initialize();
+
+      let respond!: (response: unknown) => void;
+      mockFetch.mockReturnValueOnce(new Promise((resolve) => (respond = resolve)));
+      const refreshes = [client.refresh(), client.refresh()];
+      respond(createRulesResponse(createRuleset([booleanFlag('new-ui', false)])));
+      await Promise.all(refreshes);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(client.variation('new-ui', { userId: 'user-1' }, true)).toBe(false);
+    });
+
+    it('should apply streamed changes without downloading the ruleset again', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createRulesResponse(createRuleset([booleanFlag('new-ui', true), checkoutFlag]))
+      );
+
+      client = createClient({
+        enableStreaming: true,
+        streamUrl: 'wss://flags.example.com',
+        WebSocket: MockWebSocket as unknown as typeof WebSocket,
+      });
+      const updateHandler = vi.fn();
+      client.on('update', updateHandler);
+      await client.initialize();
+
+      const socket = MockWebSocket.instances[0];
+      expect(socket.url).toBe('wss://flags.example.com/sdk/v1/server/server-sdk-key/stream');
+      const receive = (message: unknown) => socket.onmessage?.({ data: JSON.stringify(message) });
+
+      receive({ type: 'flag_update', data: booleanFlag('new-ui', false) });
+      expect(client.variation('new-ui', { userId: 'user-1' }, true)).toBe(false);
+
+      receive({ type: 'flag_delete', data: { flagKey: 'checkout' } });
+      expect(client.variationDetail('checkout', { userId: 'user-1' }, 'none').reason).toEqual({
+        kind: EvaluationReasonKind.ERROR,
+        errorKind: EvaluationErrorKind.FLAG_NOT_FOUND,
+      });
+
+      const betaFlag: FlagDefinition = {
+        ...booleanFlag('beta', true),
+        config: {
+          ...booleanFlag('beta', true).config!,
+          defaultVariationKey: 'false',
+          targetingRules: [
+            {
+              id: 'beta-users',
+              conditions: [{ attribute: 'userId', operator: 'inSegment', value: 'beta' }],
+              conditionLogic: 'AND',
+              variationKey: 'true',
+            },
+          ],
+        },
+      };
+      receive({
+        type: 'snapshot',
+        data: {
+          flags: [betaFlag],
+          segments: {
+            beta: {
+              key: 'beta',
+              conditions: [{ attribute: 'userId', operator: 'in', value: ['user-1'] }],
+              conditionLogic: 'AND',
+            },
+          },
+        },
+      });
+      expect(client.variation('beta', { userId: 'user-1' }, false)).toBe(true);
+      expect(client.variation('new-ui', { userId: 'user-1' }, true)).toBe(true);
+
+      // Unchanged flags aren't an update
+      receive({ type: 'flag_update', data: betaFlag });
+
+      expect(updateHandler).toHaveBeenCalledTimes(3);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply changes streamed over SSE', async () => {
+      const events = new TextEncoder().encode(
+        `id: 1\nevent: patch\ndata: ${JSON.stringify(booleanFlag('new-ui', false))}\n\n`
+      );
+      mockFetch
+        .mockResolvedValueOnce(createRulesResponse(createRuleset([booleanFlag('new-ui', true)])))
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          body: new ReadableStream({ start: (controller) => controller.enqueue(events) }),
+        });
+
+      client = createClient({
+        apiUrl: 'https://flags.example.com',
+        enableStreaming: true,
+        streamTransport: 'sse',
+      });
+      const updated = new Promise((resolve) => client.on('update', resolve));
+      await client.initialize();
+      await updated;
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toBe('https://flags.example.com/sdk/v1/server/server-sdk-key/sse');
+      expect(client.variation('new-ui', { userId: 'user-1' }, true)).toBe(false);
+    });
+  });
+
+  describe('conformance fixtures', () => {
+    for (const suite of loadConformanceSuites()) {
+      it(`evaluates the ${suite.name} fixtures like the API`, async () => {
+        mockFetch.mockResolvedValueOnce(
+          createRulesResponse(createRuleset(suite.flags, suite.segments))
+        );
+        client = createClient();
+        await client.initialize();
+
+        for (const testCase of suite.cases) {
+          const detail = client.variationDetail(testCase.flagKey, testCase.context ?? {}, null);
+
+          expect(detail, testCase.name).toEqual({
+            value: testCase.expected.value,
+            variationKey: testCase.expected.variationKey,
+            reason: testCase.expected.reason,
+          });
+        }
+      });
+    }
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  FlagKitTransport,
+  EvaluationErrorKind,
+  EvaluationReasonKind,
+  createFlagResolver,
+  evaluateAllFlags,
+  evaluateFlag,
+} from '@flagkit/sdk-js';
+import type {
+  EventListener,
+  FlagDefinition,
+  LocalEvaluationContext,
+  LocalFlagEvaluation,
+  SdkEvent,
+  SdkEventType,
+  SegmentMap,
+  StreamHandlers,
+} from '@flagkit/sdk-js';
+import type { FlagKitServerOptions, Ruleset, ServerStreamMessage, VariationDetail } from './types';
+
+/**
+ * FlagKit server-side SDK client. Downloads the ruleset of an environment once
+ * and evaluates flags locally for any number of contexts.
+ */
+export class FlagKitServerClient {
+  private options: Required<Omit<FlagKitServerOptions, 'WebSocket'>>;
+  private transport: FlagKitTransport;
+  private flags: Map<string, FlagDefinition> = new Map();
+  private segments: SegmentMap = {};
+  // Refresh in flight, shared by refreshes requested before it finishes
+  private refreshing: Promise<void> | null = null;
+  private initialized = false;
+  private eventListeners: Map<SdkEventType, Set<EventListener>> = new Map();
+
+  constructor(options: FlagKitServerOptions) {
+    this.options = {
+      sdkKey: options.sdkKey,
+      apiUrl: options.apiUrl || 'http://localhost:3001',
+      pollingInterval: options.pollingInterval ?? 30000,
+      enableStreaming: options.enableStreaming ?? false,
+      streamUrl: options.streamUrl || 'ws://localhost:3001',
+      streamTransport: options.streamTransport || 'websocket',
+      fetch: options.fetch || globalThis.fetch,
+    };
+
+    this.transport = new FlagKitTransport({
+      apiUrl: this.options.apiUrl,
+      streamUrl: this.options.streamUrl,
+      fetch: this.options.fetch,
+      WebSocket: options.WebSocket,
+      log: (...args) => this.log(...args),
+    });
+  }
+
+  /**
+   * Download the ruleset and start keeping it fresh
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.fetchRules();
+      this.initialized = true;
+      this.emit('ready', undefined);
+
+      if (this.options.pollingInterval > 0) {
+        this.transport.startPolling(this.options.pollingInterval, () => this.refresh());
+      }
+
+      if (this.options.enableStreaming) {
+        this.connectStream();
+      }
+    } catch (error) {
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download the ruleset, returning whether it changed since the last download
+   */
+  private async fetchRules(): Promise<boolean> {
+    const ruleset = await this.transport.request<Ruleset>(
+      `/sdk/v1/server/${this.options.sdkKey}/rules`,
+      'fetch rules'
+    );
+
+    this.log('Fetched rules for', ruleset.flags.length, 'flags');
+    return this.replaceRuleset(ruleset.flags, ruleset.segments);
+  }
+
+  /**
+   * Replace every flag and segment, returning whether anything changed
+   */
+  private replaceRuleset(flags: FlagDefinition[], segments: SegmentMap): boolean {
+    let changed =
+      flags.length !== this.flags.size || JSON.stringify(segments) !== JSON.stringify(this.segments);
+    for (const flag of flags) {
+      changed ||= JSON.stringify(flag) !== JSON.stringify(this.flags.get(flag.key));
+    }
+
+    this.flags = new Map(flags.map((flag) => [flag.key, flag]));
+    this.segments = segments;
+
+    return changed;
+  }
+
+  /**
+   * Download the ruleset now, emitting an update if it changed. Refreshes requested
+   * while one is in flight share its request.
+   */
+  refresh(): Promise<void> {
+    this.refreshing ??= (async () => {
+      try {
+        if (await this.fetchRules()) {
+          this.log('Rules updated');
+          this.emit('update', undefined);
+        }
+      } catch (error) {
+        this.log('Refresh error:', error);
+        this.emit('error', error);
+      } finally {
+        this.refreshing = null;
+      }
+    })();
+
+    return this.refreshing;
+  }
+
+  /**
+   * Apply a streamed change to the ruleset, emitting an update if it changed anything
+   */
+  private applyStreamMessage(message: ServerStreamMessage): void {
+    let changed: boolean;
+
+    if (message.type === 'snapshot') {
+      changed = this.replaceRuleset(message.data.flags, message.data.segments);
+    } else if (message.type === 'flag_update') {
+      const flag = message.data;
+      changed = JSON.stringify(flag) !== JSON.stringify(this.flags.get(flag.key));
+      this.flags.set(flag.key, flag);
+    } else if (message.type === 'flag_delete') {
+      changed = this.flags.delete(message.data.flagKey);
+    } else {
+      // Unknown messages from newer APIs, download what changed instead
+      void this.refresh();
+      return;
+    }
+
+    if (changed) {
+      this.log('Rules updated from stream');
+      this.emit('update', undefined);
+    }
+  }
+
+  /**
+   * Apply changes to the ruleset as the API streams them
+   */
+  private connectStream(): void {
+    const basePath = `/sdk/v1/server/${this.options.sdkKey}`;
+    const handlers: StreamHandlers = {
+      onOpen: () => this.emit('connection', { connected: true }),
+      onMessage: (message) => this.applyStreamMessage(message as ServerStreamMessage),
+      onError: (error) => this.emit('error', error),
+      onClose: () => this.emit('connection', { connected: false }),
+    };
+
+    if (this.options.streamTransport === 'sse') {
+      this.transport.connectEventStream(`${basePath}/sse`, handlers);
+    } else {
+      this.transport.connectStream(`${basePath}/stream`, handlers);
+    }
+  }
+
+  /**
+   * Evaluate a flag for a context, returning the default if it can't be evaluated
+   */
+  variation<T>(flagKey: string, context: LocalEvaluationContext, defaultValue: T): T {
+    return this.variationDetail(flagKey, context, defaultValue).value;
+  }
+
+  /**
+   * Evaluate a flag for a context along with the reason for the result
+   */
+  variationDetail<T>(
+    flagKey: string,
+    context: LocalEvaluationContext,
+    defaultValue: T
+  ): VariationDetail<T> {
+    const serveDefault = (errorKind: EvaluationErrorKind): VariationDetail<T> => ({
+      value: defaultValue,
+      variationKey: null,
+      reason: { kind: EvaluationReasonKind.ERROR, errorKind },
+    });
+
+    if (!this.initialized) {
+      this.log('Rules not loaded, returning default for:', flagKey);
+      return serveDefault(EvaluationErrorKind.CLIENT_NOT_READY);
+    }
+
+    const flag = this.flags.get(flagKey);
+    if (!flag) {
+      this.log('Flag not found:', flagKey, '- returning default:', defaultValue);
+      return serveDefault(EvaluationErrorKind.FLAG_NOT_FOUND);
+    }
+
+    const evaluation = evaluateFlag(flag, context, {
+      segments: this.segments,
+      resolveFlag: createFlagResolver(this.flags, context, this.segments),
+    });
+
+    // A default of another type means the caller expects a different flag type
+    if (
+      defaultValue !== null &&
+      defaultValue !== undefined &&
+      typeof evaluation.value !== typeof defaultValue
+    ) {
+      this.log('Flag value has the wrong type:', flagKey, '- returning default:', defaultValue);
+      return serveDefault(EvaluationErrorKind.WRONG_TYPE);
+    }
+
+    return {
+      value: evaluation.value as T,
+      variationKey: evaluation.variationKey,
+      reason: evaluation.reason,
+    };
+  }
+
+  /**
+   * Evaluate every flag for a context, e.g. to bootstrap a client-side SDK
+   */
+  allFlags(context: LocalEvaluationContext): Record<string, LocalFlagEvaluation> {
+    this.ensureInitialized();
+    return evaluateAllFlags([...this.flags.values()], context, this.segments);
+  }
+
+  /**
+   * Add event listener
+   */
+  on(event: SdkEventType, listener: EventListener): void {
+    if (!this.eventListeners.has(event)) {
+      this.eventListeners.set(event, new Set());
+    }
+    this.eventListeners.get(event)!.add(listener);
+  }
+
+  /**
+   * Remove event listener
+   */
+  off(event: SdkEventType, listener: EventListener): void {
+    this.eventListeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Emit event to listeners
+   */
+  private emit(event: SdkEventType, data?: unknown): void {
+    const sdkEvent: SdkEvent = {
+      type: event,
+      timestamp: new Date(),
+      data,
+    };
+
+    this.eventListeners.get(event)?.forEach((listener) => {
+      try {
+        listener(sdkEvent);
+      } catch (error) {
+        this.log('Event listener error:', error);
+      }
+    });
+  }
+
+  /**
+   * Stop refreshing the ruleset and clean up
+   */
+  close(): void {
+    this.transport.close();
+    this.flags.clear();
+    this.segments = {};
+    this.initialized = false;
+    this.eventListeners.clear();
+
+    this.log('SDK closed');
+  }
+
+  /**
+   * Check if the ruleset has been loaded
+   */
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Ensure SDK is initialized before operations
+   */
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error('FlagKit SDK is not initialized. Call initialize() before accessing flags.');
+    }
+  }
+
+  /**
+   * Debug logging
+   */
+  private log(...args: unknown[]): void {
+    if (process.env.NODE_ENV === 'development') {
+      console.log('[FlagKit]', ...args);
+    }
+  }
+}
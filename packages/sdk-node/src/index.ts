@@ -0,0 +1,32 @@
+/**
+ * FlagKit Node.js server SDK
+ *
+ * @example
+ * ```typescript
+ * import { FlagKitServerClient } from '@flagkit/sdk-node';
+ *
+ * const client = new FlagKitServerClient({
+ *   sdkKey: 'your-server-sdk-key',
+ *   apiUrl: 'https://api.flagkit.io',
+ * });
+ *
+ * await client.initialize();
+ *
+ * // Evaluate flags locally for any context
+ * const showNewUI = client.variation('new-ui', { userId: req.user.id }, false);
+ * ```
+ */
+
+export { FlagKitServerClient } from './client';
+export type { FlagKitServerOptions, Ruleset, ServerStreamMessage, VariationDetail } from './types';
+export { EvaluationReasonKind, EvaluationErrorKind } from '@flagkit/sdk-js';
+export type {
+  LocalEvaluationContext as EvaluationContext,
+  LocalFlagEvaluation as FlagEvaluation,
+  EvaluationReason,
+  FlagDefinition,
+  SegmentMap,
+  SdkEventType,
+  SdkEvent,
+  EventListener,
+} from '@flagkit/sdk-js';
@@ -0,0 +1,72 @@
+import type {
+  EvaluationReason,
+  FlagDefinition,
+  SegmentMap,
+  StreamTransport,
+} from '@flagkit/sdk-js';
+
+/**
+ * Server SDK configuration options
+ */
+export interface FlagKitServerOptions {
+  /** Server SDK key from the environment */
+  sdkKey: string;
+
+  /** API base URL (default: http://localhost:3001) */
+  apiUrl?: string;
+
+  /** Ruleset polling interval in milliseconds (default: 30000ms = 30s, set to 0 to disable) */
+  pollingInterval?: number;
+
+  /** Apply changes to the ruleset as the API streams them (default: false) */
+  enableStreaming?: boolean;
+
+  /** WebSocket URL (default: ws://localhost:3001) */
+  streamUrl?: string;
+
+  /** Stream over 'websocket' from streamUrl or Server-Sent Events ('sse') from apiUrl (default: 'websocket') */
+  streamTransport?: StreamTransport;
+
+  /** Custom fetch implementation (default: the global fetch of Node.js 18+) */
+  fetch?: typeof fetch;
+
+  /** Custom WebSocket implementation, e.g. from the ws package, for Node.js versions without one */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * Ruleset of an environment as served by the rules endpoint
+ */
+export interface Ruleset {
+  flags: FlagDefinition[];
+  segments: SegmentMap;
+  environment: {
+    id: string;
+    name: string;
+    key: string;
+  };
+}
+
+/**
+ * Message of a server flag stream: the ruleset on connect and after segment
+ * changes, then changed and deleted flags. SSE streams send them as put, patch
+ * and delete events.
+ */
+export type ServerStreamMessage =
+  | { type: 'snapshot'; data: Pick<Ruleset, 'flags' | 'segments'> }
+  | { type: 'flag_update'; data: FlagDefinition }
+  | { type: 'flag_delete'; data: { flagKey: string } };
+
+/**
+ * Value served for a flag along with why it was served
+ */
+export interface VariationDetail<T = unknown> {
+  /** Evaluated value, or the caller's default when evaluation failed */
+  value: T;
+
+  /** Variation that was selected, null when the default was returned */
+  variationKey: string | null;
+
+  /** Reason for the evaluation */
+  reason: EvaluationReason;
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TargetingRuleSchema } from './targeting';
 
 // JSON value types for flags
 type JsonPrimitive = boolean | string | number | null;
@@ -80,23 +81,6 @@ export const CreateFlagVariationSchema = z.object({
 
 export type CreateFlagVariationInput = z.infer<typeof CreateFlagVariationSchema>;
 
-// Targeting rules
-export const TargetingConditionSchema = z.object({
-  attribute: z.string(),
-  operator: z.enum(['equals', 'not_equals', 'contains', 'greater_than', 'less_than', 'in', 'not_in']),
-  value: jsonValueSchema,
-});
-
-export type TargetingCondition = z.infer<typeof TargetingConditionSchema>;
-
-export const TargetingRuleSchema = z.object({
-  conditions: z.array(TargetingConditionSchema),
-  variationKey: z.string(),
-  rolloutPercentage: z.number().min(0).max(100).optional(),
-});
-
-export type TargetingRule = z.infer<typeof TargetingRuleSchema>;
-
 export const FlagEnvironmentConfigSchema = z.object({
   id: z.string(),
   flagId: z.string(),
@@ -111,10 +95,21 @@ export const FlagEnvironmentConfigSchema = z.object({
 
 export type FlagEnvironmentConfig = z.infer<typeof FlagEnvironmentConfigSchema>;
 
-// Flag evaluation context
+// One kind of a multi-kind evaluation context, e.g. the organization of a user
+export const KindContextSchema = z.object({
+  key: z.string().min(1, 'Context key is required').max(256),
+  attributes: z.record(z.string(), jsonValueSchema).optional(),
+});
+
+// Flag evaluation context, userId and attributes describe the user of single-kind contexts
 export const EvaluationContextSchema = z.object({
   userId: z.string().optional(),
+  sessionId: z.string().optional(),
   attributes: z.record(z.string(), jsonValueSchema).optional(),
+  user: KindContextSchema.optional(),
+  organization: KindContextSchema.optional(),
+  device: KindContextSchema.optional(),
+  request: KindContextSchema.optional(),
 });
 
 export type EvaluationContext = z.infer<typeof EvaluationContextSchema>;
@@ -1,6 +1,8 @@
 // Export all types
 export * from './api';
 export * from './flags';
+export * from './targeting';
+export * from './variations';
 export * from './organization';
 export * from './user';
 export * from './experiment';
@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import {
+  ConditionLogic,
+  ConditionOperator,
+  DATE_OPERATORS,
+  REGEX_OPERATORS,
+  SEGMENT_OPERATORS,
+  SEMVER_OPERATORS,
+  isConditionGroup,
+  validateCondition,
+} from '@flagkit/evaluator';
+import type { ConditionNode } from '@flagkit/evaluator';
+
+// Targeting rule schemas shared by the API and the web app. Issue paths point at the
+// offending field, e.g. [0, 'conditions', 1, 'value'] for the second condition of the first rule.
+
+const NUMBER_OPERATORS = [
+  ConditionOperator.GREATER_THAN,
+  ConditionOperator.LESS_THAN,
+  ConditionOperator.GREATER_THAN_OR_EQUAL,
+  ConditionOperator.LESS_THAN_OR_EQUAL,
+];
+
+const STRING_OPERATORS = [
+  ConditionOperator.CONTAINS,
+  ConditionOperator.NOT_CONTAINS,
+  ConditionOperator.STARTS_WITH,
+  ConditionOperator.ENDS_WITH,
+  ...REGEX_OPERATORS,
+];
+
+const LIST_OPERATORS = [ConditionOperator.IN, ConditionOperator.NOT_IN];
+
+const isScalar = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+/**
+ * Check that a condition value has the type its operator compares against.
+ * Returns an error message, or null if the type matches.
+ */
+function getValueTypeError(operator: ConditionOperator, value: unknown): string | null {
+  if (NUMBER_OPERATORS.includes(operator)) {
+    return typeof value === 'number' && Number.isFinite(value)
+      ? null
+      : `Operator ${operator} requires a number`;
+  }
+  if (STRING_OPERATORS.includes(operator)) {
+    return typeof value === 'string' ? null : `Operator ${operator} requires a string`;
+  }
+  if (LIST_OPERATORS.includes(operator)) {
+    return Array.isArray(value) ? null : `Operator ${operator} requires a list of values`;
+  }
+  if (SEGMENT_OPERATORS.includes(operator)) {
+    const keys = Array.isArray(value) ? value : [value];
+    return keys.length > 0 && keys.every((key) => typeof key === 'string' && key !== '')
+      ? null
+      : `Operator ${operator} requires one or more segment keys`;
+  }
+  if (SEMVER_OPERATORS.includes(operator) || DATE_OPERATORS.includes(operator)) {
+    // Versions, dates and time windows are checked by the evaluator
+    return null;
+  }
+  return isScalar(value) ? null : `Operator ${operator} requires a string, number or boolean`;
+}
+
+const timeWindowSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  days: z.array(z.number()).optional(),
+  timezone: z.string().optional(),
+});
+
+export const TargetingConditionSchema = z
+  .object({
+    attribute: z.string().max(256),
+    operator: z.nativeEnum(ConditionOperator, {
+      errorMap: () => ({ message: 'Unknown operator' }),
+    }),
+    value: z.union([
+      z.string(),
+      z.number(),
+      z.boolean(),
+      z.array(z.string()),
+      z.array(z.number()),
+      timeWindowSchema,
+    ]),
+  })
+  .superRefine((condition, ctx) => {
+    const error =
+      getValueTypeError(condition.operator, condition.value) ??
+      validateCondition(condition);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: error });
+    }
+  });
+
+export type TargetingCondition = z.infer<typeof TargetingConditionSchema>;
+
+export const ConditionGroupSchema = z.object({
+  conditionLogic: z.nativeEnum(ConditionLogic),
+  conditions: z
+    .array(z.lazy(() => ConditionNodeSchema))
+    .min(1, 'Condition groups must contain at least one condition'),
+});
+
+// Groups and conditions are told apart by their conditions list, like the evaluator does
+export const ConditionNodeSchema: z.ZodType<ConditionNode> = z.custom<ConditionNode>().superRefine(
+  (node, ctx) => {
+    if (typeof node !== 'object' || node === null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a condition or group' });
+      return;
+    }
+
+    const schema = isConditionGroup(node) ? ConditionGroupSchema : TargetingConditionSchema;
+    const result = schema.safeParse(node);
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+      }
+    }
+  }
+);
+
+const weightedVariationSchema = z.object({
+  variationKey: z.string().min(1),
+  weight: z.number().min(0).max(100),
+});
+
+export const TargetingRuleSchema = z.object({
+  id: z.string().min(1, 'Rule ID is required').max(100),
+  description: z.string().max(500).optional(),
+  conditions: z.array(ConditionNodeSchema),
+  conditionLogic: z.nativeEnum(ConditionLogic),
+  variationKey: z.string().min(1, 'Variation is required'),
+  rolloutPercentage: z.number().min(0).max(100).optional(),
+  distribution: z.array(weightedVariationSchema).optional(),
+  bucketBy: z.string().trim().min(1, 'Bucketing attribute is required').max(100).optional(),
+});
+
+export type TargetingRule = z.infer<typeof TargetingRuleSchema>;
+
+/**
+ * Schema for the targeting rules of a flag. Rule IDs must be unique and, when the
+ * flag's variation keys are given, every rule must serve one of them.
+ */
+export function createTargetingRulesSchema(variationKeys?: string[]) {
+  return z.array(TargetingRuleSchema).superRefine((rules, ctx) => {
+    const ids = new Set<string>();
+
+    rules.forEach((rule, index) => {
+      if (ids.has(rule.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'id'],
+          message: `Duplicate rule ID: ${rule.id}`,
+        });
+      }
+      ids.add(rule.id);
+
+      if (!variationKeys) {
+        return;
+      }
+      if (!variationKeys.includes(rule.variationKey)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'variationKey'],
+          message: `Unknown variation key: ${rule.variationKey}`,
+        });
+      }
+      rule.distribution?.forEach((entry, entryIndex) => {
+        if (!variationKeys.includes(entry.variationKey)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, 'distribution', entryIndex, 'variationKey'],
+            message: `Unknown variation key: ${entry.variationKey}`,
+          });
+        }
+      });
+    });
+  });
+}
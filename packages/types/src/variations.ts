@@ -0,0 +1,105 @@
+import Ajv from 'ajv';
+import type { ValidateFunction } from 'ajv';
+import { z } from 'zod';
+import { FlagType } from './flags';
+
+// Variation schemas shared by the API and the web app. Variation values are stored
+// JSON-encoded, so issue paths point at the encoded value, e.g. [1, 'value'].
+
+/**
+ * Compile a JSON Schema attached to a JSON flag.
+ * Returns an error message instead if the schema itself is invalid.
+ */
+function compileJsonSchema(schema: Record<string, unknown>): ValidateFunction | string {
+  // A fresh instance per schema, so schemas with the same $id don't clash
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  try {
+    return ajv.compile(schema);
+  } catch (error) {
+    return `Invalid JSON Schema: ${(error as Error).message}`;
+  }
+}
+
+/**
+ * Check that a parsed variation value has the flag's type.
+ * Returns an error message, or null if the type matches.
+ */
+function getVariationTypeError(type: `${FlagType}`, value: unknown): string | null {
+  switch (type) {
+    case FlagType.BOOLEAN:
+      return typeof value === 'boolean' ? null : 'Value must be true or false for BOOLEAN flags';
+    case FlagType.STRING:
+      return typeof value === 'string' ? null : 'Value must be a string for STRING flags';
+    case FlagType.NUMBER:
+      return typeof value === 'number' ? null : 'Value must be a number for NUMBER flags';
+    default:
+      return typeof value === 'object' && value !== null
+        ? null
+        : 'Value must be an object or array for JSON flags';
+  }
+}
+
+export const JsonSchemaSchema = z.record(z.unknown()).superRefine((schema, ctx) => {
+  const validate = compileJsonSchema(schema);
+  if (typeof validate === 'string') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: validate });
+  }
+});
+
+export const FlagVariationInputSchema = z.object({
+  key: z.string().min(1).max(50),
+  name: z.string().min(1).max(100),
+  value: z.string(), // JSON-encoded value
+  description: z.string().max(200).optional(),
+});
+
+export type FlagVariationInput = z.infer<typeof FlagVariationInputSchema>;
+
+/**
+ * Schema for the variations of a flag. Variation keys must be unique and every value
+ * must parse as JSON, have the flag's type and, for JSON flags, satisfy the flag's schema.
+ */
+export function createVariationsSchema(type: `${FlagType}`, jsonSchema?: Record<string, unknown> | null) {
+  return z.array(FlagVariationInputSchema).superRefine((variations, ctx) => {
+    // Invalid schemas are reported by JsonSchemaSchema, values are then only type checked
+    const compiled = jsonSchema ? compileJsonSchema(jsonSchema) : null;
+    const validate = typeof compiled === 'function' ? compiled : null;
+    const keys = new Set<string>();
+
+    variations.forEach((variation, index) => {
+      if (keys.has(variation.key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'key'],
+          message: `Duplicate variation key: ${variation.key}`,
+        });
+      }
+      keys.add(variation.key);
+
+      let value: unknown;
+      try {
+        value = JSON.parse(variation.value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'value'], message: 'Value must be valid JSON' });
+        return;
+      }
+
+      const error = getVariationTypeError(type, value);
+      if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'value'], message: error });
+        return;
+      }
+
+      if (validate && !validate(value)) {
+        const details = (validate.errors ?? [])
+          .map((schemaError) => `value${schemaError.instancePath} ${schemaError.message}`)
+          .join(', ');
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'value'],
+          message: `Value does not match the JSON Schema: ${details}`,
+        });
+      }
+    });
+  });
+}